@@ -0,0 +1,203 @@
+import type { DataLog } from 'wpiutil';
+import type { NetworkTableInstance } from './NetworkTableInstance';
+import { NetworkTableEvent } from './NetworkTableEvent';
+
+/**
+ * Maps a NetworkTables type string to the DataLog type string used for its
+ * log entry. Only the integer types are spelled differently.
+ *
+ * @param typeStr NetworkTables type string
+ * @returns DataLog type string
+ */
+export function getDataLogType(typeStr: string): string {
+  switch (typeStr) {
+    case 'int':
+      return 'int64';
+    case 'int[]':
+      return 'int64[]';
+    default:
+      return typeStr;
+  }
+}
+
+/**
+ * Records every topic under a prefix to a DataLog: each topic becomes a log
+ * entry (with the topic properties as metadata) when it's published, and is
+ * finished when it's unpublished.
+ *
+ * @internal Created by NetworkTableInstance.startEntryDataLog()
+ */
+export class EntryDataLogger {
+  private instance: NetworkTableInstance;
+  private log: DataLog;
+  private prefix: string;
+  private logPrefix: string;
+  private entries = new Map<string, { id: number; type: string }>();
+  private listenerHandle: number;
+
+  /**
+   * Constructor.
+   *
+   * @param instance the instance to log
+   * @param log the data log to write to
+   * @param prefix only topics whose names start with this prefix are logged
+   * @param logPrefix prefix that replaces prefix in the log entry names
+   */
+  constructor(instance: NetworkTableInstance, log: DataLog, prefix: string, logPrefix: string) {
+    this.instance = instance;
+    this.log = log;
+    this.prefix = prefix;
+    this.logPrefix = logPrefix;
+    this.listenerHandle = instance.addListener(
+      [prefix],
+      NetworkTableEvent.Kind.kTopic | NetworkTableEvent.Kind.kValueAll | NetworkTableEvent.Kind.kImmediate,
+      this.onEvent.bind(this)
+    );
+  }
+
+  /**
+   * Stops logging and finishes all entries.
+   */
+  public close(): void {
+    this.instance.removeListener(this.listenerHandle);
+    for (const entry of this.entries.values()) {
+      this.log.finish(entry.id);
+    }
+    this.entries.clear();
+  }
+
+  private onEvent(event: NetworkTableEvent): void {
+    if (event.topicInfo !== null) {
+      const { name, typeStr, properties } = event.topicInfo;
+      if (event.is(NetworkTableEvent.Kind.kPublish)) {
+        this.startEntry(name, typeStr, properties);
+      } else if (event.is(NetworkTableEvent.Kind.kUnpublish)) {
+        const entry = this.entries.get(name);
+        if (entry !== undefined) {
+          this.log.finish(entry.id);
+          this.entries.delete(name);
+        }
+      } else if (event.is(NetworkTableEvent.Kind.kProperties)) {
+        const entry = this.entries.get(name);
+        if (entry !== undefined) {
+          this.log.setMetadata(entry.id, JSON.stringify(properties));
+        }
+      }
+    } else if (event.valueData !== null) {
+      const { topic, value } = event.valueData;
+      const entry = this.entries.get(topic.getName()) ?? this.startEntry(topic.getName(), topic.getType(), topic.getProperties());
+      if (entry !== undefined) {
+        this.append(entry.id, entry.type, value);
+      }
+    }
+  }
+
+  private startEntry(name: string, typeStr: string, properties: Record<string, any>): { id: number; type: string } | undefined {
+    // Topics without a type yet (or NT4's internal meta topics) can't be logged
+    if (typeStr === '' || name.startsWith('$')) {
+      return undefined;
+    }
+    const existing = this.entries.get(name);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const logName = this.logPrefix + name.substring(this.prefix.length);
+    const entry = { id: this.log.start(logName, getDataLogType(typeStr), JSON.stringify(properties)), type: typeStr };
+    this.entries.set(name, entry);
+    return entry;
+  }
+
+  private append(id: number, typeStr: string, value: any): void {
+    switch (typeStr) {
+      case 'boolean':
+        this.log.appendBoolean(id, Boolean(value));
+        break;
+      case 'int':
+        this.log.appendInteger(id, value);
+        break;
+      case 'float':
+        this.log.appendFloat(id, value);
+        break;
+      case 'double':
+        this.log.appendDouble(id, value);
+        break;
+      case 'string':
+      case 'json':
+        this.log.appendString(id, String(value));
+        break;
+      case 'boolean[]':
+        this.log.appendBooleanArray(id, value);
+        break;
+      case 'int[]':
+        this.log.appendIntegerArray(id, value);
+        break;
+      case 'float[]':
+        this.log.appendFloatArray(id, value);
+        break;
+      case 'double[]':
+        this.log.appendDoubleArray(id, value);
+        break;
+      case 'string[]':
+        this.log.appendStringArray(id, value);
+        break;
+      default:
+        // raw, struct, protobuf and other binary types
+        if (value instanceof Uint8Array) {
+          this.log.appendRaw(id, value);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Records connection changes to a DataLog "json" entry, one record per
+ * connect or disconnect.
+ *
+ * @internal Created by NetworkTableInstance.startConnectionDataLog()
+ */
+export class ConnectionDataLogger {
+  private instance: NetworkTableInstance;
+  private log: DataLog;
+  private entry: number;
+  private listenerHandle: number;
+
+  /**
+   * Constructor.
+   *
+   * @param instance the instance to log
+   * @param log the data log to write to
+   * @param name the name of the log entry
+   */
+  constructor(instance: NetworkTableInstance, log: DataLog, name: string) {
+    this.instance = instance;
+    this.log = log;
+    this.entry = log.start(name, 'json');
+    this.listenerHandle = instance.addConnectionListener(true, this.onEvent.bind(this));
+  }
+
+  /**
+   * Stops logging and finishes the entry.
+   */
+  public close(): void {
+    this.instance.removeListener(this.listenerHandle);
+    this.log.finish(this.entry);
+  }
+
+  private onEvent(event: NetworkTableEvent): void {
+    if (event.connInfo === null) {
+      return;
+    }
+    const { remote_id, remote_ip, remote_port, protocol_version } = event.connInfo;
+    this.log.appendString(
+      this.entry,
+      JSON.stringify({
+        connected: event.is(NetworkTableEvent.Kind.kConnected),
+        remote_id,
+        remote_ip,
+        remote_port,
+        protocol_version
+      })
+    );
+  }
+}
@@ -0,0 +1,985 @@
+import { SocketAddress, TcpClient } from 'wpiutil';
+import { NT4_Topic } from './NT4';
+import { NTEndpoint } from './types';
+
+/** Protocol revision sent in the client hello (3.0). */
+const PROTOCOL_REV = 0x0300;
+
+// Message types
+const MSG_KEEP_ALIVE = 0x00;
+const MSG_CLIENT_HELLO = 0x01;
+const MSG_PROTO_UNSUP = 0x02;
+const MSG_SERVER_HELLO_DONE = 0x03;
+const MSG_SERVER_HELLO = 0x04;
+const MSG_CLIENT_HELLO_DONE = 0x05;
+const MSG_ENTRY_ASSIGN = 0x10;
+const MSG_ENTRY_UPDATE = 0x11;
+const MSG_FLAGS_UPDATE = 0x12;
+const MSG_ENTRY_DELETE = 0x13;
+const MSG_CLEAR_ENTRIES = 0x14;
+const MSG_EXECUTE_RPC = 0x20;
+const MSG_RPC_RESPONSE = 0x21;
+
+/** Magic value that must accompany a clear all entries message. */
+const CLEAR_ALL_MAGIC = 0xd06cb27a;
+
+/** Entry id used by a client when asking the server to create an entry. */
+const NEW_ENTRY_ID = 0xffff;
+
+/** Entry flag marking an entry as persistent. */
+const FLAG_PERSISTENT = 0x01;
+
+// Entry value types
+const TYPE_BOOLEAN = 0x00;
+const TYPE_DOUBLE = 0x01;
+const TYPE_STRING = 0x02;
+const TYPE_RAW = 0x03;
+const TYPE_BOOLEAN_ARRAY = 0x10;
+const TYPE_DOUBLE_ARRAY = 0x11;
+const TYPE_STRING_ARRAY = 0x12;
+const TYPE_RPC = 0x20;
+
+/** NT3 type for each NT4 type string. Anything not listed is sent as raw. */
+const typeIdLookup: { [type: string]: number } = {
+  boolean: TYPE_BOOLEAN,
+  double: TYPE_DOUBLE,
+  int: TYPE_DOUBLE,
+  float: TYPE_DOUBLE,
+  string: TYPE_STRING,
+  json: TYPE_STRING,
+  'boolean[]': TYPE_BOOLEAN_ARRAY,
+  'double[]': TYPE_DOUBLE_ARRAY,
+  'int[]': TYPE_DOUBLE_ARRAY,
+  'float[]': TYPE_DOUBLE_ARRAY,
+  'string[]': TYPE_STRING_ARRAY,
+};
+
+/** NT4 type string reported for each NT3 type. */
+const typeStrLookup: { [type: number]: string } = {
+  [TYPE_BOOLEAN]: 'boolean',
+  [TYPE_DOUBLE]: 'double',
+  [TYPE_STRING]: 'string',
+  [TYPE_RAW]: 'raw',
+  [TYPE_BOOLEAN_ARRAY]: 'boolean[]',
+  [TYPE_DOUBLE_ARRAY]: 'double[]',
+  [TYPE_STRING_ARRAY]: 'string[]',
+  [TYPE_RPC]: 'rpc',
+};
+
+/** Delay between connection attempts, in milliseconds. */
+const RECONNECT_DELAY_MS = 500;
+
+/** Time after which a connection attempt is abandoned, in milliseconds. */
+const CONNECT_TIMEOUT_MS = 1000;
+
+/** Period at which a keep alive is sent when nothing else was, in milliseconds. */
+const KEEP_ALIVE_PERIOD_MS = 1000;
+
+/** Thrown by NT3_Reader when the buffer ends in the middle of a message. */
+class NT3_IncompleteMessage extends Error {}
+
+/** Reads NT3 primitives from a buffer, throwing NT3_IncompleteMessage on underrun. */
+class NT3_Reader {
+  offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  private need(length: number) {
+    if (this.offset + length > this.buffer.length) {
+      throw new NT3_IncompleteMessage();
+    }
+  }
+
+  readU8(): number {
+    this.need(1);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  readU16(): number {
+    this.need(2);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  readU32(): number {
+    this.need(4);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readDouble(): number {
+    this.need(8);
+    const value = this.buffer.readDoubleBE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  readLeb128(): number {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      const byte = this.readU8();
+      result += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7;
+    }
+  }
+
+  readRaw(): Uint8Array {
+    const length = this.readLeb128();
+    this.need(length);
+    const value = new Uint8Array(
+      this.buffer.subarray(this.offset, this.offset + length),
+    );
+    this.offset += length;
+    return value;
+  }
+
+  readString(): string {
+    return Buffer.from(this.readRaw()).toString('utf8');
+  }
+
+  readValue(type: number): unknown {
+    switch (type) {
+      case TYPE_BOOLEAN:
+        return this.readU8() !== 0;
+      case TYPE_DOUBLE:
+        return this.readDouble();
+      case TYPE_STRING:
+        return this.readString();
+      case TYPE_RAW:
+      case TYPE_RPC:
+        return this.readRaw();
+      case TYPE_BOOLEAN_ARRAY:
+      case TYPE_DOUBLE_ARRAY:
+      case TYPE_STRING_ARRAY: {
+        const count = this.readU8();
+        const values: unknown[] = [];
+        for (let i = 0; i < count; i++) {
+          values.push(this.readValue(type & 0x0f));
+        }
+        return values;
+      }
+      default:
+        throw new Error('Unknown entry type ' + type.toString());
+    }
+  }
+}
+
+/** Builds an outgoing NT3 message. */
+class NT3_Writer {
+  private parts: Buffer[] = [];
+
+  writeU8(value: number): this {
+    this.parts.push(Buffer.from([value & 0xff]));
+    return this;
+  }
+
+  writeU16(value: number): this {
+    const buf = Buffer.alloc(2);
+    buf.writeUInt16BE(value & 0xffff);
+    this.parts.push(buf);
+    return this;
+  }
+
+  writeDouble(value: number): this {
+    const buf = Buffer.alloc(8);
+    buf.writeDoubleBE(value);
+    this.parts.push(buf);
+    return this;
+  }
+
+  writeLeb128(value: number): this {
+    const bytes: number[] = [];
+    do {
+      let byte = value % 0x80;
+      value = Math.floor(value / 0x80);
+      if (value > 0) byte |= 0x80;
+      bytes.push(byte);
+    } while (value > 0);
+    this.parts.push(Buffer.from(bytes));
+    return this;
+  }
+
+  writeRaw(value: Uint8Array): this {
+    this.writeLeb128(value.length);
+    this.parts.push(Buffer.from(value));
+    return this;
+  }
+
+  writeString(value: string): this {
+    return this.writeRaw(Buffer.from(value, 'utf8'));
+  }
+
+  writeValue(type: number, value: unknown): this {
+    switch (type) {
+      case TYPE_BOOLEAN:
+        return this.writeU8(value ? 1 : 0);
+      case TYPE_DOUBLE:
+        return this.writeDouble(Number(value));
+      case TYPE_STRING:
+        return this.writeString(String(value));
+      case TYPE_RAW:
+        return this.writeRaw(value as Uint8Array);
+      default: {
+        // Arrays are limited to 255 elements by the protocol
+        const values = (value as unknown[]).slice(0, 255);
+        this.writeU8(values.length);
+        for (const element of values) {
+          this.writeValue(type & 0x0f, element);
+        }
+        return this;
+      }
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
+
+/** An entry as assigned by the server. */
+class NT3_Entry {
+  id = NEW_ENTRY_ID;
+  seq = 0;
+  flags = 0;
+  typeId = TYPE_RAW;
+  value: unknown = undefined;
+  timestamp_us = 0;
+  topic = new NT4_Topic();
+}
+
+/** A topic published by this client, with the value to send for it. */
+class NT3_Publication {
+  topic = new NT4_Topic();
+  typeId = TYPE_RAW;
+  flags = 0;
+  value: unknown = undefined;
+  hasValue = false;
+  /** True while waiting for the server to assign an id to a new entry. */
+  assigning = false;
+  /** True if the value changed while the id was being assigned. */
+  dirty = false;
+}
+
+/** A subscription, filtered locally since NT3 servers send every entry. */
+class NT3_Subscription {
+  uid = -1;
+  topics: string[] = [];
+  prefix = false;
+  topicsOnly = false;
+
+  matches(topicName: string): boolean {
+    for (const pattern of this.topics) {
+      if (this.prefix ? topicName.startsWith(pattern) : topicName === pattern) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * NetworkTables 3 client, for servers and dashboards that do not speak NT4.
+ *
+ * NT3 has no subscriptions, timestamps or topic properties other than
+ * "persistent", so those are emulated locally: subscriptions filter the
+ * entries the server sends, values are timestamped on arrival, and types
+ * without an NT3 equivalent are mapped to the closest NT3 type.
+ */
+export class NT3_Client implements NTEndpoint {
+  private PORT = 1735;
+
+  private appName: string;
+  private onTopicAnnounce: (topic: NT4_Topic) => void;
+  private onTopicUnannounce: (topic: NT4_Topic) => void;
+  private onNewTopicData: (
+    topic: NT4_Topic,
+    timestamp_us: number,
+    value: unknown,
+  ) => void;
+  private onConnect: () => void;
+  private onDisconnect: () => void;
+  private onTopicProperties: (
+    topic: NT4_Topic,
+    update: { [id: string]: any },
+  ) => void;
+  private onConnectFailed: (failures: number) => boolean = () => false;
+
+  private serverBaseAddr: string;
+  private serverAddrs: string[];
+  private serverAddrIndex = 0;
+  private tcp: TcpClient | null = null;
+  private rxBuffer: Buffer = Buffer.alloc(0);
+  private keepAliveInterval: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private connectTimeout: NodeJS.Timeout | null = null;
+  private lastSend = 0;
+  private connectFailures = 0;
+  private serverIdentity = '';
+  private serverConnectionActive = false;
+  private serverConnectionRequested = false;
+
+  private subscriptions: Map<number, NT3_Subscription> = new Map();
+  private publishedTopics: Map<string, NT3_Publication> = new Map();
+  private entriesByName: Map<string, NT3_Entry> = new Map();
+  private entriesById: Map<number, NT3_Entry> = new Map();
+
+  /**
+   * Creates a new NT3 client without connecting. The callbacks are the same as
+   * for NT4_Client.
+   * @param serverAddr Network address of NT3 server, or a list of addresses to try in turn
+   * @param appName Identifier for this client (does not need to be unique).
+   * @param onTopicAnnounce Gets called when the server assigns an entry matching a subscription
+   * @param onTopicUnannounce Gets called when the server deletes an entry matching a subscription
+   * @param onNewTopicData Gets called when any new data is available
+   * @param onConnect Gets called once client completes initial handshake with server
+   * @param onDisconnect Gets called once client detects server has disconnected
+   * @param port Server port (default: 1735)
+   * @param onTopicProperties Gets called when the server changes the persistent flag of an entry
+   */
+  constructor(
+    serverAddr: string | string[],
+    appName: string,
+    onTopicAnnounce: (topic: NT4_Topic) => void,
+    onTopicUnannounce: (topic: NT4_Topic) => void,
+    onNewTopicData: (
+      topic: NT4_Topic,
+      timestamp_us: number,
+      value: unknown,
+    ) => void,
+    onConnect: () => void,
+    onDisconnect: () => void,
+    port: number = 1735,
+    onTopicProperties: (
+      topic: NT4_Topic,
+      update: { [id: string]: any },
+    ) => void = () => {},
+  ) {
+    this.serverAddrs = Array.isArray(serverAddr) ? [...serverAddr] : [serverAddr];
+    this.serverBaseAddr = this.serverAddrs[0];
+    this.PORT = port;
+    this.appName = appName;
+    this.onTopicAnnounce = onTopicAnnounce;
+    this.onTopicUnannounce = onTopicUnannounce;
+    this.onNewTopicData = onNewTopicData;
+    this.onConnect = onConnect;
+    this.onDisconnect = onDisconnect;
+    this.onTopicProperties = onTopicProperties;
+  }
+
+  //////////////////////////////////////////////////////////////
+  // PUBLIC API
+
+  /** Starts the connection. The client will reconnect automatically when disconnected. */
+  connect() {
+    if (!this.serverConnectionRequested) {
+      this.serverConnectionRequested = true;
+      this.tcp_connect();
+    }
+  }
+
+  /** Terminates the connection. */
+  disconnect() {
+    this.serverConnectionRequested = false;
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.tcp) {
+      this.tcp_onClose(this.tcp);
+    }
+  }
+
+  /**
+   * Sets the addresses of the server. When not connected, the client tries
+   * each address in turn until one accepts the connection. If the client is
+   * connected to an address that is no longer in the list, it reconnects.
+   * @param serverAddrs Network addresses of the NT3 server
+   * @param port Server port, or 0 to keep the current port
+   */
+  setServerAddresses(serverAddrs: string[], port: number = 0) {
+    if (serverAddrs.length === 0) {
+      throw 'At least one server address is required';
+    }
+    const portChanged = port !== 0 && port !== this.PORT;
+    if (port !== 0) this.PORT = port;
+    this.serverAddrs = [...serverAddrs];
+    const index = this.serverAddrs.indexOf(this.serverBaseAddr);
+    if (index !== -1 && !portChanged) {
+      this.serverAddrIndex = index;
+      return;
+    }
+    this.serverAddrIndex = 0;
+    this.serverBaseAddr = this.serverAddrs[0];
+    if (this.serverConnectionActive && this.tcp) {
+      this.tcp_onClose(this.tcp);
+    }
+  }
+
+  /** Returns the address the client is connected to, or will try next. */
+  getServerAddress(): string {
+    return this.serverBaseAddr;
+  }
+
+  /**
+   * Sets a handler that is called each time a connection attempt fails, with
+   * the number of consecutive failures. If the handler returns true, the
+   * client stops retrying.
+   */
+  setConnectFailedHandler(handler: (failures: number) => boolean) {
+    this.onConnectFailed = handler;
+  }
+
+  /** Returns the identity the server reported in its hello, or "" if not connected. */
+  getServerIdentity(): string {
+    return this.serverIdentity;
+  }
+
+  /**
+   * Add a new subscription, reading value updates. NT3 servers send every
+   * value, so sendAll and periodic have no effect.
+   * @param topicPatterns A list of topics or prefixes to include in the subscription.
+   * @param prefixMode If true, use patterns as prefixes. If false, only subscribe to topics that are an exact match.
+   * @returns A subscription ID that can be used to unsubscribe.
+   */
+  subscribe(
+    topicPatterns: string[],
+    prefixMode: boolean,
+    sendAll: boolean = false,
+    periodic: number = 0.1,
+  ): number {
+    return this.addSubscription(topicPatterns, prefixMode, false);
+  }
+
+  /**
+   * Add a new subscription, reading only topic announcements (not values).
+   * @param topicPatterns A list of topics or prefixes to include in the subscription.
+   * @param prefixMode If true, use patterns as prefixes. If false, only subscribe to topics that are an exact match.
+   * @returns A subscription ID that can be used to unsubscribe.
+   */
+  subscribeTopicsOnly(topicPatterns: string[], prefixMode: boolean): number {
+    return this.addSubscription(topicPatterns, prefixMode, true);
+  }
+
+  /** Given an existing subscription, unsubscribe from it. */
+  unsubscribe(subscriptionId: number) {
+    if (!this.subscriptions.delete(subscriptionId)) {
+      throw 'Unknown subscription ID "' + subscriptionId + '"';
+    }
+  }
+
+  /** Unsubscribe from all current subscriptions. */
+  clearAllSubscriptions() {
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Set the properties of a particular topic. Only "persistent" is sent to
+   * the server; other properties are kept locally.
+   * @param topic The topic to update
+   * @param properties The set of new properties
+   */
+  setProperties(topic: string, properties: { [id: string]: any }) {
+    const updateTopic = (toUpdate: NT4_Topic) => {
+      for (const key of Object.keys(properties)) {
+        const value = properties[key];
+        if (value === null) {
+          delete toUpdate.properties[key];
+        } else {
+          toUpdate.properties[key] = value;
+        }
+      }
+    };
+    const publication = this.publishedTopics.get(topic);
+    if (publication) updateTopic(publication.topic);
+    const entry = this.entriesByName.get(topic);
+    if (entry) updateTopic(entry.topic);
+
+    if (!('persistent' in properties)) return;
+    const flags = properties.persistent === true ? FLAG_PERSISTENT : 0;
+    if (publication) publication.flags = flags;
+    if (entry && entry.id !== NEW_ENTRY_ID && entry.flags !== flags) {
+      entry.flags = flags;
+      this.tcp_send(
+        new NT3_Writer()
+          .writeU8(MSG_FLAGS_UPDATE)
+          .writeU16(entry.id)
+          .writeU8(flags),
+      );
+    }
+  }
+
+  /** Set whether a topic is persistent. */
+  setPersistent(topic: string, isPersistent: boolean) {
+    this.setProperties(topic, { persistent: isPersistent });
+  }
+
+  /** Set whether a topic is retained. NT3 entries are always retained by the server. */
+  setRetained(topic: string, isRetained: boolean) {
+    this.setProperties(topic, { retained: isRetained });
+  }
+
+  /** Publish a topic from this client with the provided name and type. Can be a new or existing. */
+  publishTopic(topic: string, type: string) {
+    if (this.publishedTopics.has(topic)) {
+      return;
+    }
+    const publication = new NT3_Publication();
+    publication.topic.name = topic;
+    publication.topic.uid = this.getNewUID();
+    publication.topic.type = type;
+    publication.typeId = typeIdLookup[type] ?? TYPE_RAW;
+    this.publishedTopics.set(topic, publication);
+  }
+
+  /**
+   * Unpublish a previously-published topic from this client. The entry stays
+   * on the server, as NT3 entries are only removed by an explicit delete.
+   */
+  unpublishTopic(topic: string) {
+    if (!this.publishedTopics.delete(topic)) {
+      throw 'Topic "' + topic + '" not found';
+    }
+  }
+
+  /** Returns the topics currently published by this client. */
+  getPublishedTopics(): NT4_Topic[] {
+    return Array.from(this.publishedTopics.values()).map(
+      (publication) => publication.topic,
+    );
+  }
+
+  /** Send some new value to the server. */
+  addSample(topic: string, value: any) {
+    const publication = this.publishedTopics.get(topic);
+    if (!publication) {
+      throw 'Topic "' + topic + '" not found';
+    }
+    publication.value = value;
+    publication.hasValue = true;
+    if (this.serverConnectionActive) {
+      this.sendPublication(publication);
+    }
+  }
+
+  /** Send some new value to the server. NT3 has no timestamps, so the timestamp is ignored. */
+  addTimestampedSample(topic: string, timestamp: number, value: any) {
+    this.addSample(topic, value);
+  }
+
+  /** Does nothing, as NT3 values are sent as soon as they are set. */
+  flush() {}
+
+  //////////////////////////////////////////////////////////////
+  // Time Handling
+
+  /** Returns the current client time in microseconds. */
+  getClientTime_us(): number {
+    const [seconds, nanoseconds] = process.hrtime();
+    return seconds * 1_000_000 + nanoseconds / 1000;
+  }
+
+  /** Returns null, as NT3 does not synchronize time with the server. */
+  getServerTime_us(clientTime?: number): number | null {
+    return null;
+  }
+
+  /** Returns 0, as NT3 does not measure network latency. */
+  getNetworkLatency_us(): number {
+    return 0;
+  }
+
+  //////////////////////////////////////////////////////////////
+  // Entry Handling
+
+  private addSubscription(
+    topicPatterns: string[],
+    prefixMode: boolean,
+    topicsOnly: boolean,
+  ): number {
+    const newSub = new NT3_Subscription();
+    newSub.uid = this.getNewUID();
+    newSub.topics = [...topicPatterns];
+    newSub.prefix = prefixMode;
+    newSub.topicsOnly = topicsOnly;
+    this.subscriptions.set(newSub.uid, newSub);
+
+    // The server won't send existing entries again, so report them now
+    if (this.serverConnectionActive) {
+      for (const entry of this.entriesByName.values()) {
+        if (newSub.matches(entry.topic.name)) {
+          this.onTopicAnnounce(entry.topic);
+          if (!topicsOnly && entry.value !== undefined) {
+            this.onNewTopicData(entry.topic, entry.timestamp_us, entry.value);
+          }
+        }
+      }
+    }
+    return newSub.uid;
+  }
+
+  /** Returns whether any subscription matches the topic, and whether any wants values. */
+  private matchSubscriptions(topicName: string): {
+    announce: boolean;
+    values: boolean;
+  } {
+    let announce = false;
+    let values = false;
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.matches(topicName)) {
+        announce = true;
+        values = values || !subscription.topicsOnly;
+      }
+    }
+    return { announce, values };
+  }
+
+  private sendPublication(publication: NT3_Publication) {
+    const entry = this.entriesByName.get(publication.topic.name);
+    if (entry && entry.id !== NEW_ENTRY_ID) {
+      if (entry.typeId !== publication.typeId) {
+        console.warn(
+          '[NT3] Not sending "' +
+            publication.topic.name +
+            '", server entry has type ' +
+            entry.topic.type,
+        );
+        return;
+      }
+      entry.seq = (entry.seq + 1) & 0xffff;
+      this.tcp_send(
+        new NT3_Writer()
+          .writeU8(MSG_ENTRY_UPDATE)
+          .writeU16(entry.id)
+          .writeU16(entry.seq)
+          .writeU8(entry.typeId)
+          .writeValue(entry.typeId, publication.value),
+      );
+    } else if (publication.assigning) {
+      publication.dirty = true;
+    } else {
+      publication.assigning = true;
+      this.tcp_send(
+        new NT3_Writer()
+          .writeU8(MSG_ENTRY_ASSIGN)
+          .writeString(publication.topic.name)
+          .writeU8(publication.typeId)
+          .writeU16(NEW_ENTRY_ID)
+          .writeU16(0)
+          .writeU8(publication.flags)
+          .writeValue(publication.typeId, publication.value),
+      );
+    }
+  }
+
+  private handleEntryAssign(
+    name: string,
+    typeId: number,
+    id: number,
+    seq: number,
+    flags: number,
+    value: unknown,
+  ) {
+    let entry = this.entriesByName.get(name);
+    const isNew = entry === undefined || entry.id !== id;
+    if (entry === undefined || isNew) {
+      if (entry !== undefined) this.entriesById.delete(entry.id);
+      entry = new NT3_Entry();
+      entry.topic.name = name;
+      entry.topic.uid = id;
+      this.entriesByName.set(name, entry);
+      this.entriesById.set(id, entry);
+    }
+    entry.id = id;
+    entry.seq = seq;
+    entry.flags = flags;
+    entry.typeId = typeId;
+    entry.value = value;
+    entry.timestamp_us = this.getClientTime_us();
+    entry.topic.type = typeStrLookup[typeId] ?? 'raw';
+    entry.topic.properties = { persistent: (flags & FLAG_PERSISTENT) !== 0 };
+
+    // Our own entry got its id; send anything set in the meantime
+    const publication = this.publishedTopics.get(name);
+    if (publication && publication.assigning) {
+      publication.assigning = false;
+      if (publication.dirty) {
+        publication.dirty = false;
+        this.sendPublication(publication);
+      }
+    }
+
+    if (!this.serverConnectionActive) return;
+    const match = this.matchSubscriptions(name);
+    if (isNew && match.announce) this.onTopicAnnounce(entry.topic);
+    if (match.values) this.onNewTopicData(entry.topic, entry.timestamp_us, value);
+  }
+
+  private handleEntryUpdate(
+    id: number,
+    seq: number,
+    typeId: number,
+    value: unknown,
+  ) {
+    const entry = this.entriesById.get(id);
+    if (!entry) {
+      console.warn('[NT3] Ignoring update - unknown entry ID ' + id.toString());
+      return;
+    }
+    if (entry.typeId !== typeId) {
+      console.warn('[NT3] Ignoring update - type mismatch for ' + entry.topic.name);
+      return;
+    }
+    entry.seq = seq;
+    entry.value = value;
+    entry.timestamp_us = this.getClientTime_us();
+    if (this.serverConnectionActive && this.matchSubscriptions(entry.topic.name).values) {
+      this.onNewTopicData(entry.topic, entry.timestamp_us, value);
+    }
+  }
+
+  private handleFlagsUpdate(id: number, flags: number) {
+    const entry = this.entriesById.get(id);
+    if (!entry) return;
+    entry.flags = flags;
+    const update = { persistent: (flags & FLAG_PERSISTENT) !== 0 };
+    entry.topic.properties = { ...entry.topic.properties, ...update };
+    if (this.serverConnectionActive && this.matchSubscriptions(entry.topic.name).announce) {
+      this.onTopicProperties(entry.topic, update);
+    }
+  }
+
+  private handleEntryDelete(entry: NT3_Entry) {
+    this.entriesByName.delete(entry.topic.name);
+    this.entriesById.delete(entry.id);
+    if (this.serverConnectionActive && this.matchSubscriptions(entry.topic.name).announce) {
+      this.onTopicUnannounce(entry.topic);
+    }
+  }
+
+  //////////////////////////////////////////////////////////////
+  // Message Handling
+
+  /** Handles one message; throws NT3_IncompleteMessage if it hasn't fully arrived. */
+  private handleMessage(reader: NT3_Reader) {
+    const type = reader.readU8();
+    switch (type) {
+      case MSG_KEEP_ALIVE:
+        break;
+      case MSG_PROTO_UNSUP: {
+        const rev = reader.readU16();
+        throw new Error(
+          'Server only supports protocol revision 0x' + rev.toString(16),
+        );
+      }
+      case MSG_SERVER_HELLO: {
+        reader.readU8(); // flags
+        this.serverIdentity = reader.readString();
+        break;
+      }
+      case MSG_SERVER_HELLO_DONE:
+        this.tcp_onHelloComplete();
+        break;
+      case MSG_ENTRY_ASSIGN: {
+        const name = reader.readString();
+        const typeId = reader.readU8();
+        const id = reader.readU16();
+        const seq = reader.readU16();
+        const flags = reader.readU8();
+        const value = reader.readValue(typeId);
+        this.handleEntryAssign(name, typeId, id, seq, flags, value);
+        break;
+      }
+      case MSG_ENTRY_UPDATE: {
+        const id = reader.readU16();
+        const seq = reader.readU16();
+        const typeId = reader.readU8();
+        const value = reader.readValue(typeId);
+        this.handleEntryUpdate(id, seq, typeId, value);
+        break;
+      }
+      case MSG_FLAGS_UPDATE: {
+        const id = reader.readU16();
+        const flags = reader.readU8();
+        this.handleFlagsUpdate(id, flags);
+        break;
+      }
+      case MSG_ENTRY_DELETE: {
+        const entry = this.entriesById.get(reader.readU16());
+        if (entry) this.handleEntryDelete(entry);
+        break;
+      }
+      case MSG_CLEAR_ENTRIES: {
+        if (reader.readU32() !== CLEAR_ALL_MAGIC) break;
+        for (const entry of [...this.entriesByName.values()]) {
+          this.handleEntryDelete(entry);
+        }
+        break;
+      }
+      case MSG_EXECUTE_RPC:
+      case MSG_RPC_RESPONSE:
+        // RPCs are not supported; skip the id, call uid and parameters
+        reader.readU16();
+        reader.readU16();
+        reader.readRaw();
+        break;
+      default:
+        throw new Error('Unknown message type 0x' + type.toString(16));
+    }
+  }
+
+  //////////////////////////////////////////////////////////////
+  // TCP connection Maintenance
+
+  private tcp_connect() {
+    const tcp = new TcpClient();
+    this.tcp = tcp;
+    this.rxBuffer = Buffer.alloc(0);
+
+    tcp.addDataListener((data) => this.tcp_onData(tcp, data));
+    tcp.addCloseListener(() => this.tcp_onClose(tcp));
+
+    // Unreachable addresses can take minutes to fail on their own
+    this.connectTimeout = setTimeout(() => this.tcp_onClose(tcp), CONNECT_TIMEOUT_MS);
+
+    tcp
+      .connect(new SocketAddress(this.serverBaseAddr, this.PORT))
+      .then(() => {
+        if (tcp !== this.tcp) return;
+        this.tcp_clearConnectTimeout();
+        this.connectFailures = 0;
+        this.tcp_send(
+          new NT3_Writer()
+            .writeU8(MSG_CLIENT_HELLO)
+            .writeU16(PROTOCOL_REV)
+            .writeString(this.appName),
+        );
+      })
+      .catch(() => {
+        // The close listener handles the retry
+      });
+  }
+
+  private tcp_onHelloComplete() {
+    // Create our entries the server doesn't have yet
+    for (const publication of this.publishedTopics.values()) {
+      publication.assigning = false;
+      publication.dirty = false;
+      if (publication.hasValue && !this.entriesByName.has(publication.topic.name)) {
+        this.sendPublication(publication);
+      }
+    }
+    this.tcp_send(new NT3_Writer().writeU8(MSG_CLIENT_HELLO_DONE));
+
+    this.serverConnectionActive = true;
+    console.log('[NT3] Connected to "' + this.serverIdentity + '"');
+    this.keepAliveInterval = setInterval(() => {
+      if (Date.now() - this.lastSend >= KEEP_ALIVE_PERIOD_MS) {
+        this.tcp_send(new NT3_Writer().writeU8(MSG_KEEP_ALIVE));
+      }
+    }, KEEP_ALIVE_PERIOD_MS);
+
+    // User connection-opened hook
+    this.onConnect();
+
+    // Report the entries received during the handshake
+    for (const entry of this.entriesByName.values()) {
+      const match = this.matchSubscriptions(entry.topic.name);
+      if (match.announce) this.onTopicAnnounce(entry.topic);
+      if (match.values && entry.value !== undefined) {
+        this.onNewTopicData(entry.topic, entry.timestamp_us, entry.value);
+      }
+    }
+
+    // Our values take precedence over those already on the server
+    for (const publication of this.publishedTopics.values()) {
+      if (publication.hasValue && !publication.assigning) {
+        this.sendPublication(publication);
+      }
+    }
+  }
+
+  private tcp_onData(source: TcpClient, data: Buffer) {
+    if (source !== this.tcp) return;
+    this.rxBuffer = Buffer.concat([this.rxBuffer, data]);
+    const reader = new NT3_Reader(this.rxBuffer);
+    let consumed = 0;
+    try {
+      while (consumed < this.rxBuffer.length) {
+        this.handleMessage(reader);
+        consumed = reader.offset;
+      }
+    } catch (error) {
+      if (!(error instanceof NT3_IncompleteMessage)) {
+        console.warn('[NT3] Closing connection:', (error as Error).message);
+        this.tcp_onClose(source);
+        return;
+      }
+    }
+    this.rxBuffer = this.rxBuffer.subarray(consumed);
+  }
+
+  private tcp_onClose(source: TcpClient) {
+    if (source !== this.tcp) return;
+
+    // Stop server communication
+    this.tcp.close();
+    this.tcp = null;
+    this.tcp_clearConnectTimeout();
+    if (this.keepAliveInterval !== null) {
+      clearInterval(this.keepAliveInterval);
+      this.keepAliveInterval = null;
+    }
+
+    // User connection-closed hook
+    const wasActive = this.serverConnectionActive;
+    if (this.serverConnectionActive) {
+      this.serverConnectionActive = false;
+      this.onDisconnect();
+    }
+
+    // Clear out any local cache of server state
+    this.entriesByName.clear();
+    this.entriesById.clear();
+    this.serverIdentity = '';
+
+    if (!this.serverConnectionRequested) return;
+    if (!wasActive) {
+      // Try the next candidate address on the following attempt
+      this.serverAddrIndex = (this.serverAddrIndex + 1) % this.serverAddrs.length;
+      this.serverBaseAddr = this.serverAddrs[this.serverAddrIndex];
+      this.connectFailures++;
+      if (this.onConnectFailed(this.connectFailures)) return;
+    }
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (this.serverConnectionRequested) this.tcp_connect();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private tcp_clearConnectTimeout() {
+    if (this.connectTimeout !== null) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+  }
+
+  private tcp_send(writer: NT3_Writer) {
+    if (this.tcp && this.tcp.isConnected()) {
+      this.lastSend = Date.now();
+      this.tcp.send(writer.toBuffer()).catch(() => {
+        // A failed write also closes the socket
+      });
+    }
+  }
+
+  //////////////////////////////////////////////////////////////
+  // General utilities
+
+  private getNewUID() {
+    return Math.floor(Math.random() * 99999999);
+  }
+}
@@ -1,7 +1,7 @@
 import { Decoder, Encoder } from '@msgpack/msgpack';
 import WebSocket from 'ws';
 import fetch from 'node-fetch';
-import { CloseEvent, MessageEvent, createCloseEvent, FetchResponse } from './types';
+import { CloseEvent, MessageEvent, createCloseEvent, FetchResponse, NTEndpoint } from './types';
 
 const typestrIdxLookup: { [id: string]: number } = {
   boolean: 0,
@@ -87,7 +87,7 @@ export class NT4_Topic {
   }
 }
 
-export class NT4_Client {
+export class NT4_Client implements NTEndpoint {
   private PORT = 5810;
   private RTT_PERIOD_MS_V40 = 1000;
   private RTT_PERIOD_MS_V41 = 250;
@@ -104,8 +104,15 @@ export class NT4_Client {
   ) => void;
   private onConnect: () => void;
   private onDisconnect: () => void;
+  private onTopicProperties: (
+    topic: NT4_Topic,
+    update: { [id: string]: any },
+  ) => void;
+  private onConnectFailed: (failures: number) => boolean = () => false;
 
-  private serverBaseAddr;
+  private serverBaseAddr: string;
+  private serverAddrs: string[];
+  private serverAddrIndex = 0;
   private ws: WebSocket | null = null;
   private rttWs: WebSocket | null = null;
   private timestampInterval: NodeJS.Timeout | null = null;
@@ -114,19 +121,28 @@ export class NT4_Client {
   private serverAddr = '';
   private serverConnectionActive = false;
   private serverConnectionRequested = false;
+  private probeFailures = 0;
   private serverTimeOffset_us: number | null = null;
   private networkLatency_us: number = 0;
 
   private subscriptions: Map<number, NT4_Subscription> = new Map();
   private publishedTopics: Map<string, NT4_Topic> = new Map();
   private serverTopics: Map<string, NT4_Topic> = new Map();
+  /** Last value and timestamp of each published topic, sent again after reconnecting. */
+  private publishedValues: Map<string, { timestamp: number; value: unknown }> =
+    new Map();
+  /** Values set while connected but before the server time was known. */
+  private unsyncedSamples: { topic: string; clientTime: number; value: unknown }[] =
+    [];
+  private pendingSamples: Uint8Array[] = [];
+  private flushScheduled = false;
 
   private msgpackDecoder = new Decoder();
   private msgpackEncoder = new Encoder();
 
   /**
    * Creates a new NT4 client without connecting.
-   * @param serverAddr Network address of NT4 server
+   * @param serverAddr Network address of NT4 server, or a list of addresses to try in turn
    * @param appName Identifier for this client (does not need to be unique).
    * @param onTopicAnnounce Gets called when server announces enough topics to form a new signal
    * @param onTopicUnannounce Gets called when server unannounces any part of a signal
@@ -134,9 +150,10 @@ export class NT4_Client {
    * @param onConnect Gets called once client completes initial handshake with server
    * @param onDisconnect Gets called once client detects server has disconnected
    * @param port Server port (default: 5810)
+   * @param onTopicProperties Gets called when the server reports changed properties of a topic
    */
   constructor(
-    serverAddr: string,
+    serverAddr: string | string[],
     appName: string,
     onTopicAnnounce: (topic: NT4_Topic) => void,
     onTopicUnannounce: (topic: NT4_Topic) => void,
@@ -148,8 +165,13 @@ export class NT4_Client {
     onConnect: () => void,
     onDisconnect: () => void,
     port: number = 5810,
+    onTopicProperties: (
+      topic: NT4_Topic,
+      update: { [id: string]: any },
+    ) => void = () => {},
   ) {
-    this.serverBaseAddr = serverAddr;
+    this.serverAddrs = Array.isArray(serverAddr) ? [...serverAddr] : [serverAddr];
+    this.serverBaseAddr = this.serverAddrs[0];
     this.PORT = port;
     this.appName = appName;
     this.onTopicAnnounce = onTopicAnnounce;
@@ -157,6 +179,7 @@ export class NT4_Client {
     this.onNewTopicData = onNewTopicData;
     this.onConnect = onConnect;
     this.onDisconnect = onDisconnect;
+    this.onTopicProperties = onTopicProperties;
 
     this.timestampInterval = setInterval(() => {
       if (this.rttWs === null) {
@@ -186,10 +209,17 @@ export class NT4_Client {
     } catch {
       //
     }
+    if (!this.serverConnectionRequested) return;
     if (result === null || !result.ok) {
+      // Try the next candidate address on the following probe
+      this.serverAddrIndex = (this.serverAddrIndex + 1) % this.serverAddrs.length;
+      this.serverBaseAddr = this.serverAddrs[this.serverAddrIndex];
+      this.probeFailures++;
+      if (this.onConnectFailed(this.probeFailures)) return;
       const requestLength = new Date().getTime() - requestStart;
       setTimeout(() => this.connectOnAlive(), 350 - requestLength);
     } else {
+      this.probeFailures = 0;
       this.ws_connect();
     }
   }
@@ -205,6 +235,46 @@ export class NT4_Client {
     }
   }
 
+  /**
+   * Sets the addresses of the server. When not connected, the client probes
+   * each address in turn until one answers. If the client is connected to an
+   * address that is no longer in the list, it reconnects.
+   * @param serverAddrs Network addresses of the NT4 server
+   * @param port Server port, or 0 to keep the current port
+   */
+  setServerAddresses(serverAddrs: string[], port: number = 0) {
+    if (serverAddrs.length === 0) {
+      throw 'At least one server address is required';
+    }
+    const portChanged = port !== 0 && port !== this.PORT;
+    if (port !== 0) this.PORT = port;
+    this.serverAddrs = [...serverAddrs];
+    const index = this.serverAddrs.indexOf(this.serverBaseAddr);
+    if (index !== -1 && !portChanged) {
+      this.serverAddrIndex = index;
+      return;
+    }
+    this.serverAddrIndex = 0;
+    this.serverBaseAddr = this.serverAddrs[0];
+    if (this.serverConnectionActive && this.ws) {
+      this.ws_onClose(createCloseEvent('server changed'), this.ws);
+    }
+  }
+
+  /** Returns the address the client is connected to, or will try next. */
+  getServerAddress(): string {
+    return this.serverBaseAddr;
+  }
+
+  /**
+   * Sets a handler that is called each time the HTTP probe of the server
+   * fails, with the number of consecutive failures. If the handler returns
+   * true, the client stops retrying (e.g. to try another protocol instead).
+   */
+  setConnectFailedHandler(handler: (failures: number) => boolean) {
+    this.onConnectFailed = handler;
+  }
+
   /** Terminates the connection. */
   disconnect() {
     if (this.serverConnectionRequested) {
@@ -368,33 +438,81 @@ export class NT4_Client {
       throw 'Topic "' + topic + '" not found';
     }
     this.publishedTopics.delete(topic);
+    this.publishedValues.delete(topic);
     if (this.serverConnectionActive) {
       this.ws_unpublish(topicObj);
     }
   }
 
+  /** Returns the topics currently published by this client. */
+  getPublishedTopics(): NT4_Topic[] {
+    return Array.from(this.publishedTopics.values());
+  }
+
   /** Send some new value to the server. The timestamp is whatever the current time is. */
   addSample(topic: string, value: any) {
-    let timestamp = this.getServerTime_us();
-    if (timestamp === null) timestamp = 0;
-    this.addTimestampedSample(topic, timestamp, value);
+    const timestamp = this.getServerTime_us();
+    if (timestamp === null && this.serverConnectionActive) {
+      // Hold the value until the server time is known, as the server does not
+      // let a value without a timestamp replace its current one
+      if (!this.publishedTopics.has(topic)) {
+        throw 'Topic "' + topic + '" not found';
+      }
+      this.publishedValues.set(topic, { timestamp: 0, value });
+      this.unsyncedSamples.push({
+        topic,
+        clientTime: this.getClientTime_us(),
+        value,
+      });
+      return;
+    }
+    this.addTimestampedSample(topic, timestamp ?? 0, value);
   }
 
-  /** Send some new timestamped value to the server. */
+  /**
+   * Send some new timestamped value to the server. Values are batched and sent
+   * by flush(), which happens automatically once per event loop iteration.
+   * While disconnected, the last value is kept and sent after reconnecting.
+   */
   addTimestampedSample(topic: string, timestamp: number, value: any) {
     const topicObj = this.publishedTopics.get(topic);
     if (!topicObj) {
       throw 'Topic "' + topic + '" not found';
     }
-    const txData = this.msgpackEncoder.encode([
-      topicObj.uid,
-      timestamp,
-      topicObj.getTypeIdx(),
-      value,
-    ]);
+    this.publishedValues.set(topic, { timestamp, value });
+    if (this.serverConnectionActive) {
+      this.queueSample(topicObj, timestamp, value);
+    }
+  }
+
+  /** Sends all values queued since the last flush to the server in a single frame. */
+  flush() {
+    if (this.pendingSamples.length === 0) {
+      return;
+    }
+    const txData = Buffer.concat(this.pendingSamples);
+    this.pendingSamples = [];
     this.ws_sendBinary(txData);
   }
 
+  private queueSample(topicObj: NT4_Topic, timestamp: number, value: unknown) {
+    this.pendingSamples.push(
+      this.msgpackEncoder.encode([
+        topicObj.uid,
+        timestamp,
+        topicObj.getTypeIdx(),
+        value,
+      ]),
+    );
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      setImmediate(() => {
+        this.flushScheduled = false;
+        this.flush();
+      });
+    }
+  }
+
   //////////////////////////////////////////////////////////////
   // Server/Client Time Sync Handling
 
@@ -444,6 +562,19 @@ export class NT4_Client {
     this.networkLatency_us = rtt / 2.0;
     const serverTimeAtRx = serverTimestamp + this.networkLatency_us;
     this.serverTimeOffset_us = serverTimeAtRx - rxTime;
+
+    // Send the values that were held until the server time was known
+    const unsynced = this.unsyncedSamples;
+    this.unsyncedSamples = [];
+    for (const sample of unsynced) {
+      if (this.publishedTopics.has(sample.topic)) {
+        this.addTimestampedSample(
+          sample.topic,
+          sample.clientTime + this.serverTimeOffset_us,
+          sample.value,
+        );
+      }
+    }
   }
 
   //////////////////////////////////////////////////////////////
@@ -522,6 +653,14 @@ export class NT4_Client {
         this.ws_subscribe(subscription);
       }
 
+      // Send the last value of each published topic with the timestamp it was
+      // set at, so the server keeps any newer value it already has
+      for (const [name, sample] of this.publishedValues) {
+        const topic = this.publishedTopics.get(name);
+        if (topic) this.queueSample(topic, sample.timestamp, sample.value);
+      }
+      this.flush();
+
       // User connection-opened hook
       this.onConnect();
     }
@@ -547,6 +686,8 @@ export class NT4_Client {
 
     // Clear out any local cache of server state
     this.serverTopics.clear();
+    this.pendingSamples = [];
+    this.unsyncedSamples = [];
 
     // Print reason
     if (event.reason !== '') {
@@ -653,6 +794,7 @@ export class NT4_Client {
               topic.properties[key] = value;
             }
           }
+          this.onTopicProperties(topic, params.update);
         } else {
           console.warn(
             '[NT4] Ignoring text message - unknown method ' + method,
@@ -721,6 +863,11 @@ export class NT4_Client {
   private ws_resetTimeout() {
     if (this.disconnectTimeout !== null) {
       clearTimeout(this.disconnectTimeout);
+      this.disconnectTimeout = null;
+    }
+    // Messages can still arrive on a socket that is closing
+    if (this.ws === null) {
+      return;
     }
     const timeout =
       this.rttWs === null ? this.TIMEOUT_MS_V40 : this.TIMEOUT_MS_V41;
@@ -763,7 +910,11 @@ export class NT4_Client {
       this.ws_onMessage(event, rttWs);
     });
 
-    if (!rttWs) {
+    if (rttWs) {
+      // Closing the RTT socket before it opens emits an error; the main
+      // socket is the one that drives reconnects, so there is nothing to do
+      ws.on('error', () => {});
+    } else {
       ws.on('error', () => this.ws_onError(ws));
       ws.on('close', (code: number, reason: Buffer) => {
         const event = {
@@ -0,0 +1,1113 @@
+import { Decoder, Encoder } from '@msgpack/msgpack';
+import WebSocket, { WebSocketServer } from 'ws';
+import * as http from 'http';
+import * as fs from 'fs';
+import { NT4_Topic } from './NT4';
+import { NTEndpoint } from './types';
+
+const PROTOCOL_V40 = 'networktables.first.wpi.edu';
+const PROTOCOL_V41 = 'v4.1.networktables.first.wpi.edu';
+const PROTOCOL_RTT = 'rtt.networktables.first.wpi.edu';
+
+/** Type index used when answering RTT timestamp requests. */
+const INT_TYPE_IDX = 2;
+
+/** Fastest rate at which values are flushed to a client, in seconds. */
+const MIN_PERIODIC = 0.005;
+
+/** Minimum time between writes of the persistent storage file, in milliseconds. */
+const PERSIST_PERIOD_MS = 1000;
+
+/** Types whose values are stored as-is in the persistent storage file; others are base64 encoded. */
+const JSON_TYPES = new Set([
+  'boolean',
+  'double',
+  'int',
+  'float',
+  'string',
+  'json',
+  'boolean[]',
+  'double[]',
+  'int[]',
+  'float[]',
+  'string[]',
+]);
+
+/** A topic as tracked by the server, including its publishers and last value. */
+class NT4_ServerTopic extends NT4_Topic {
+  /** Remote publishers, keyed by client, with their pubuid. */
+  publishers: Map<NT4_ServerClient, number> = new Map();
+  localPublisher = false;
+  lastValue: unknown = undefined;
+  lastTimestamp = 0;
+
+  hasPublishers(): boolean {
+    return this.publishers.size > 0 || this.localPublisher;
+  }
+
+  isRetained(): boolean {
+    return (
+      this.properties.persistent === true || this.properties.retained === true
+    );
+  }
+
+  toAnnounceObj(pubuid?: number) {
+    const obj: { [id: string]: any } = {
+      name: this.name,
+      id: this.uid,
+      type: this.type,
+      properties: this.properties,
+    };
+    if (pubuid !== undefined) {
+      obj.pubuid = pubuid;
+    }
+    return obj;
+  }
+}
+
+/** A subscription requested by a remote client or by the local side of the server. */
+class NT4_ServerSubscription {
+  uid = -1;
+  topics: string[] = [];
+  periodic = 0.1;
+  all = false;
+  topicsOnly = false;
+  prefix = false;
+
+  static fromParams(params: any): NT4_ServerSubscription {
+    const sub = new NT4_ServerSubscription();
+    const options = params.options ?? {};
+    sub.uid = params.subuid;
+    sub.topics = Array.isArray(params.topics) ? params.topics : [];
+    if (typeof options.periodic === 'number') sub.periodic = options.periodic;
+    sub.all = options.all === true;
+    sub.topicsOnly = options.topicsonly === true;
+    sub.prefix = options.prefix === true;
+    return sub;
+  }
+
+  matches(topicName: string): boolean {
+    for (const pattern of this.topics) {
+      if (this.prefix ? topicName.startsWith(pattern) : topicName === pattern) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/** Connection state for one remote client. */
+class NT4_ServerClient {
+  ws: WebSocket;
+  name: string;
+  remoteAddr: string;
+  remotePort: number;
+  protocol: string;
+  subscriptions: Map<number, NT4_ServerSubscription> = new Map();
+  /** Topics published by this client, keyed by pubuid. */
+  publishers: Map<number, NT4_ServerTopic> = new Map();
+  /** Topic ids that have been announced to this client. */
+  announced: Set<number> = new Set();
+
+  private pendingLatest: Map<number, unknown[]> = new Map();
+  private pendingAll: unknown[][] = [];
+  private flushInterval: NodeJS.Timeout | null = null;
+  private flushPeriod = 0;
+  private encoder: Encoder;
+
+  constructor(
+    ws: WebSocket,
+    name: string,
+    remoteAddr: string,
+    remotePort: number,
+    encoder: Encoder,
+  ) {
+    this.ws = ws;
+    this.name = name;
+    this.remoteAddr = remoteAddr;
+    this.remotePort = remotePort;
+    this.protocol = ws.protocol;
+    this.encoder = encoder;
+  }
+
+  /** Returns true if any value subscription of this client matches the topic. */
+  wantsValues(topicName: string): NT4_ServerSubscription[] {
+    const matching: NT4_ServerSubscription[] = [];
+    for (const sub of this.subscriptions.values()) {
+      if (!sub.topicsOnly && sub.matches(topicName)) {
+        matching.push(sub);
+      }
+    }
+    return matching;
+  }
+
+  wantsAnnounce(topicName: string): boolean {
+    for (const sub of this.subscriptions.values()) {
+      if (sub.matches(topicName)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  sendJSON(method: string, params: any) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify([{ method: method, params: params }]));
+    }
+  }
+
+  sendBinary(data: Uint8Array) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(data);
+    }
+  }
+
+  /** Queue a value for the next periodic flush. */
+  queueValue(
+    topic: NT4_ServerTopic,
+    timestamp: number,
+    value: unknown,
+    sendAll: boolean,
+  ) {
+    const msg = [topic.uid, timestamp, topic.getTypeIdx(), value];
+    if (sendAll) {
+      this.pendingAll.push(msg);
+    } else {
+      this.pendingLatest.set(topic.uid, msg);
+    }
+  }
+
+  /** Sends all queued values in a single frame. */
+  flush() {
+    if (this.pendingAll.length === 0 && this.pendingLatest.size === 0) {
+      return;
+    }
+    const chunks: Uint8Array[] = [];
+    for (const msg of this.pendingAll) {
+      chunks.push(this.encoder.encode(msg));
+    }
+    for (const msg of this.pendingLatest.values()) {
+      chunks.push(this.encoder.encode(msg));
+    }
+    this.pendingAll = [];
+    this.pendingLatest.clear();
+    this.sendBinary(Buffer.concat(chunks));
+  }
+
+  /** Restarts the flush timer at the fastest periodic rate of any subscription. */
+  updateFlushPeriod() {
+    let period = Infinity;
+    for (const sub of this.subscriptions.values()) {
+      if (!sub.topicsOnly) {
+        period = Math.min(period, Math.max(sub.periodic, MIN_PERIODIC));
+      }
+    }
+    if (period === this.flushPeriod) {
+      return;
+    }
+    this.stopFlushing();
+    this.flushPeriod = period;
+    if (period !== Infinity) {
+      this.flushInterval = setInterval(() => this.flush(), period * 1000);
+    }
+  }
+
+  stopFlushing() {
+    if (this.flushInterval !== null) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    this.flushPeriod = 0;
+  }
+}
+
+/**
+ * Connection information for a remote client of the server.
+ */
+export interface NT4_ServerClientInfo {
+  name: string;
+  remoteAddr: string;
+  remotePort: number;
+  protocolVersion: number;
+}
+
+/**
+ * A NetworkTables 4 server.
+ *
+ * Speaks the NT4 WebSocket protocol (JSON text frames for control messages,
+ * msgpack binary frames for values, and the v4.1 RTT sub-protocol) to remote
+ * clients, and exposes the same publish/subscribe API as NT4_Client for the
+ * local side, so that the server process can read and write topics itself.
+ */
+export class NT4_Server implements NTEndpoint {
+  private listenAddress: string;
+  private port: number;
+
+  private onTopicAnnounce: (topic: NT4_Topic) => void;
+  private onTopicUnannounce: (topic: NT4_Topic) => void;
+  private onNewTopicData: (
+    topic: NT4_Topic,
+    timestamp_us: number,
+    value: unknown,
+  ) => void;
+  private onClientConnect: (client: NT4_ServerClientInfo) => void;
+  private onClientDisconnect: (client: NT4_ServerClientInfo) => void;
+  private onTopicProperties: (
+    topic: NT4_Topic,
+    update: { [id: string]: any },
+  ) => void;
+
+  private httpServer: http.Server | null = null;
+  private wsServer: WebSocketServer | null = null;
+  private clients: Set<NT4_ServerClient> = new Set();
+  private topics: Map<string, NT4_ServerTopic> = new Map();
+  private nextTopicId = 0;
+  private persistFilename = '';
+  private persistTimeout: NodeJS.Timeout | null = null;
+
+  private localSubscriptions: Map<number, NT4_ServerSubscription> = new Map();
+
+  private msgpackDecoder = new Decoder();
+  private msgpackEncoder = new Encoder();
+
+  /**
+   * Creates a new NT4 server without starting it.
+   * @param listenAddress Address to listen on (empty to listen on all interfaces)
+   * @param onTopicAnnounce Gets called when a topic matching a local subscription is announced
+   * @param onTopicUnannounce Gets called when a topic matching a local subscription is removed
+   * @param onNewTopicData Gets called when a value arrives for a locally subscribed topic
+   * @param onClientConnect Gets called when a remote client completes its connection
+   * @param onClientDisconnect Gets called when a remote client disconnects
+   * @param port Port to listen on (default: 5810)
+   * @param onTopicProperties Gets called when the properties of a locally subscribed topic change
+   */
+  constructor(
+    listenAddress: string,
+    onTopicAnnounce: (topic: NT4_Topic) => void,
+    onTopicUnannounce: (topic: NT4_Topic) => void,
+    onNewTopicData: (
+      topic: NT4_Topic,
+      timestamp_us: number,
+      value: unknown,
+    ) => void,
+    onClientConnect: (client: NT4_ServerClientInfo) => void,
+    onClientDisconnect: (client: NT4_ServerClientInfo) => void,
+    port: number = 5810,
+    onTopicProperties: (
+      topic: NT4_Topic,
+      update: { [id: string]: any },
+    ) => void = () => {},
+  ) {
+    this.listenAddress = listenAddress;
+    this.port = port;
+    this.onTopicAnnounce = onTopicAnnounce;
+    this.onTopicUnannounce = onTopicUnannounce;
+    this.onNewTopicData = onNewTopicData;
+    this.onClientConnect = onClientConnect;
+    this.onClientDisconnect = onClientDisconnect;
+    this.onTopicProperties = onTopicProperties;
+  }
+
+  //////////////////////////////////////////////////////////////
+  // PUBLIC API
+
+  /**
+   * Sets the file persistent topics are stored in, in the same JSON format as
+   * WPILib's networktables.json. The file is loaded by start(), and rewritten
+   * (at most once per second) whenever a persistent topic changes.
+   * @param filename Path of the file, or empty to disable persistent storage
+   */
+  setPersistFilename(filename: string) {
+    this.persistFilename = filename;
+  }
+
+  /** Starts listening for client connections. */
+  start() {
+    if (this.httpServer !== null) {
+      return;
+    }
+    this.loadPersistent();
+
+    // Plain HTTP requests are answered so that clients can probe for the server
+    this.httpServer = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('NetworkTables 4 server');
+    });
+    this.wsServer = new WebSocketServer({
+      server: this.httpServer,
+      handleProtocols: (protocols) => {
+        for (const protocol of [PROTOCOL_V41, PROTOCOL_V40, PROTOCOL_RTT]) {
+          if (protocols.has(protocol)) {
+            return protocol;
+          }
+        }
+        return false;
+      },
+    });
+    this.wsServer.on('connection', (ws, req) => this.ws_onConnection(ws, req));
+    this.httpServer.on('error', (error) => {
+      console.error('[NT4] Server error:', error);
+    });
+
+    if (this.listenAddress === '') {
+      this.httpServer.listen(this.port);
+    } else {
+      this.httpServer.listen(this.port, this.listenAddress);
+    }
+    console.log('[NT4] Server listening on port ' + this.port.toString());
+  }
+
+  /** Stops the server, closing all client connections. */
+  stop() {
+    if (this.persistTimeout !== null) {
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = null;
+      this.savePersistent();
+    }
+    for (const client of this.clients) {
+      client.stopFlushing();
+      client.ws.close();
+    }
+    this.clients.clear();
+    this.wsServer?.close();
+    this.httpServer?.close();
+    this.wsServer = null;
+    this.httpServer = null;
+  }
+
+  /** Same as stop(); allows the server to be used wherever a client is expected. */
+  disconnect() {
+    this.stop();
+  }
+
+  /** Returns whether the server is listening. */
+  isRunning(): boolean {
+    return this.httpServer !== null;
+  }
+
+  /** Returns the number of connected remote clients. */
+  getClientCount(): number {
+    let count = 0;
+    for (const client of this.clients) {
+      if (client.protocol !== PROTOCOL_RTT) count++;
+    }
+    return count;
+  }
+
+  /** Returns connection information for all connected remote clients. */
+  getClients(): NT4_ServerClientInfo[] {
+    const infos: NT4_ServerClientInfo[] = [];
+    for (const client of this.clients) {
+      if (client.protocol !== PROTOCOL_RTT) {
+        infos.push(this.getClientInfo(client));
+      }
+    }
+    return infos;
+  }
+
+  /**
+   * Add a new local subscription, reading value updates
+   * @param topicPatterns A list of topics or prefixes to include in the subscription.
+   * @param prefixMode If true, use patterns as prefixes. If false, only subscribe to topics that are an exact match.
+   * @param sendAll If true, send all values. If false, only send the most recent value.
+   * @param periodic How frequently to send updates (ignored locally, values are delivered immediately)
+   * @returns A subscription ID that can be used to unsubscribe.
+   */
+  subscribe(
+    topicPatterns: string[],
+    prefixMode: boolean,
+    sendAll: boolean = false,
+    periodic: number = 0.1,
+  ): number {
+    const newSub = new NT4_ServerSubscription();
+    newSub.uid = this.getNewUID();
+    newSub.topics = [...topicPatterns];
+    newSub.prefix = prefixMode;
+    newSub.all = sendAll;
+    newSub.periodic = periodic;
+    this.addLocalSubscription(newSub);
+    return newSub.uid;
+  }
+
+  /**
+   * Add a new local subscription, reading only topic announcements (not values).
+   * @param topicPatterns A list of topics or prefixes to include in the subscription.
+   * @param prefixMode If true, use patterns as prefixes. If false, only subscribe to topics that are an exact match.
+   * @returns A subscription ID that can be used to unsubscribe.
+   */
+  subscribeTopicsOnly(topicPatterns: string[], prefixMode: boolean): number {
+    const newSub = new NT4_ServerSubscription();
+    newSub.uid = this.getNewUID();
+    newSub.topics = [...topicPatterns];
+    newSub.prefix = prefixMode;
+    newSub.topicsOnly = true;
+    this.addLocalSubscription(newSub);
+    return newSub.uid;
+  }
+
+  /** Given an existing local subscription, unsubscribe from it. */
+  unsubscribe(subscriptionId: number) {
+    if (!this.localSubscriptions.delete(subscriptionId)) {
+      throw 'Unknown subscription ID "' + subscriptionId + '"';
+    }
+  }
+
+  /** Unsubscribe from all current local subscriptions. */
+  clearAllSubscriptions() {
+    this.localSubscriptions.clear();
+  }
+
+  /**
+   * Set the properties of a particular topic.
+   * @param topic The topic to update
+   * @param properties The set of new properties
+   */
+  setProperties(topic: string, properties: { [id: string]: any }) {
+    const topicObj = this.topics.get(topic);
+    if (!topicObj) {
+      return;
+    }
+    this.updateProperties(topicObj, properties, null);
+  }
+
+  /** Set whether a topic is persistent. */
+  setPersistent(topic: string, isPersistent: boolean) {
+    this.setProperties(topic, { persistent: isPersistent });
+  }
+
+  /** Set whether a topic is retained. */
+  setRetained(topic: string, isRetained: boolean) {
+    this.setProperties(topic, { retained: isRetained });
+  }
+
+  /** Publish a topic from the local side with the provided name and type. */
+  publishTopic(topic: string, type: string) {
+    let topicObj = this.topics.get(topic);
+    if (topicObj && topicObj.localPublisher) {
+      return;
+    }
+    if (topicObj && topicObj.type !== type) {
+      console.warn(
+        '[NT4] Ignoring local publish of "' +
+          topic +
+          '", type mismatch with existing topic',
+      );
+      return;
+    }
+    if (!topicObj) {
+      topicObj = this.createTopic(topic, type, {});
+    }
+    topicObj.localPublisher = true;
+  }
+
+  /** Unpublish a previously-published local topic. */
+  unpublishTopic(topic: string) {
+    const topicObj = this.topics.get(topic);
+    if (!topicObj || !topicObj.localPublisher) {
+      throw 'Topic "' + topic + '" not found';
+    }
+    topicObj.localPublisher = false;
+    this.removeTopicIfUnused(topicObj);
+  }
+
+  /** Returns the topics currently published by the local side. */
+  getPublishedTopics(): NT4_Topic[] {
+    return Array.from(this.topics.values()).filter(
+      (topic) => topic.localPublisher,
+    );
+  }
+
+  /** Set a new value from the local side. The timestamp is the current server time. */
+  addSample(topic: string, value: any) {
+    this.addTimestampedSample(topic, this.getServerTime_us(), value);
+  }
+
+  /** Set a new timestamped value from the local side. */
+  addTimestampedSample(topic: string, timestamp: number, value: any) {
+    const topicObj = this.topics.get(topic);
+    if (!topicObj || !topicObj.localPublisher) {
+      throw 'Topic "' + topic + '" not found';
+    }
+    this.setValue(topicObj, timestamp, value, null);
+  }
+
+  /** Sends all queued values to remote clients now, instead of at their next periodic update. */
+  flush() {
+    for (const client of this.clients) {
+      client.flush();
+    }
+  }
+
+  /** Returns the current local time in microseconds. */
+  getClientTime_us(): number {
+    const [seconds, nanoseconds] = process.hrtime();
+    return seconds * 1_000_000 + nanoseconds / 1000;
+  }
+
+  /** Returns the current server time in microseconds. On the server this is the local time. */
+  getServerTime_us(clientTime?: number): number {
+    return clientTime === undefined ? this.getClientTime_us() : clientTime;
+  }
+
+  /** Returns the network latency in microseconds, which is always zero on the server. */
+  getNetworkLatency_us(): number {
+    return 0;
+  }
+
+  //////////////////////////////////////////////////////////////
+  // Topic Management
+
+  private createTopic(
+    name: string,
+    type: string,
+    properties: { [id: string]: any },
+  ): NT4_ServerTopic {
+    const topic = new NT4_ServerTopic();
+    topic.uid = this.nextTopicId++;
+    topic.name = name;
+    topic.type = type;
+    topic.properties = { ...properties };
+    this.topics.set(name, topic);
+
+    for (const client of this.clients) {
+      if (client.wantsAnnounce(name)) {
+        this.announceTo(client, topic);
+      }
+    }
+    if (this.localWantsAnnounce(name)) {
+      this.onTopicAnnounce(topic);
+    }
+    return topic;
+  }
+
+  private removeTopicIfUnused(topic: NT4_ServerTopic) {
+    if (topic.hasPublishers() || topic.isRetained()) {
+      return;
+    }
+    this.topics.delete(topic.name);
+    for (const client of this.clients) {
+      if (client.announced.delete(topic.uid)) {
+        client.sendJSON('unannounce', { name: topic.name, id: topic.uid });
+      }
+    }
+    if (this.localWantsAnnounce(topic.name)) {
+      this.onTopicUnannounce(topic);
+    }
+  }
+
+  private updateProperties(
+    topic: NT4_ServerTopic,
+    update: { [id: string]: any },
+    source: NT4_ServerClient | null,
+  ) {
+    for (const key of Object.keys(update)) {
+      const value = update[key];
+      if (value === null) {
+        delete topic.properties[key];
+      } else {
+        topic.properties[key] = value;
+      }
+    }
+
+    for (const client of this.clients) {
+      if (client.announced.has(topic.uid)) {
+        const params: { [id: string]: any } = {
+          name: topic.name,
+          update: update,
+        };
+        if (client === source) {
+          params.ack = true;
+        }
+        client.sendJSON('properties', params);
+      }
+    }
+    if (this.localWantsAnnounce(topic.name)) {
+      this.onTopicProperties(topic, update);
+    }
+    if ('persistent' in update) {
+      this.schedulePersist();
+    }
+
+    this.removeTopicIfUnused(topic);
+  }
+
+  private setValue(
+    topic: NT4_ServerTopic,
+    timestamp: number,
+    value: unknown,
+    source: NT4_ServerClient | null,
+  ) {
+    // Keep the current value over a client value that is older, or that has
+    // no timestamp (such as one cached before the client first connected)
+    if (
+      source !== null &&
+      topic.lastValue !== undefined &&
+      (timestamp === 0 || timestamp < topic.lastTimestamp)
+    ) {
+      return;
+    }
+    if (timestamp === 0) {
+      timestamp = this.getServerTime_us();
+    }
+    topic.lastValue = value;
+    topic.lastTimestamp = timestamp;
+    if (topic.properties.persistent === true) {
+      this.schedulePersist();
+    }
+
+    for (const client of this.clients) {
+      // Don't echo a value back to the client that published it
+      if (client === source) {
+        continue;
+      }
+      const subs = client.wantsValues(topic.name);
+      if (subs.length > 0) {
+        client.queueValue(
+          topic,
+          timestamp,
+          value,
+          subs.some((sub) => sub.all),
+        );
+      }
+    }
+
+    if (source !== null && this.localWantsValues(topic.name)) {
+      this.onNewTopicData(topic, timestamp, value);
+    }
+  }
+
+  private announceTo(
+    client: NT4_ServerClient,
+    topic: NT4_ServerTopic,
+    pubuid?: number,
+  ) {
+    client.announced.add(topic.uid);
+    client.sendJSON('announce', topic.toAnnounceObj(pubuid));
+  }
+
+  //////////////////////////////////////////////////////////////
+  // Persistent Storage
+
+  private loadPersistent() {
+    if (this.persistFilename === '') {
+      return;
+    }
+    let stored: unknown;
+    try {
+      stored = JSON.parse(fs.readFileSync(this.persistFilename, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(
+          '[NT4] Could not load persistent values from "' +
+            this.persistFilename +
+            '":',
+          (error as Error).message,
+        );
+      }
+      return;
+    }
+    if (!Array.isArray(stored)) {
+      console.warn(
+        '[NT4] Ignoring "' + this.persistFilename + '", expected an array',
+      );
+      return;
+    }
+
+    const timestamp = this.getServerTime_us();
+    for (const item of stored) {
+      if (
+        typeof item !== 'object' ||
+        item === null ||
+        typeof item.name !== 'string' ||
+        typeof item.type !== 'string' ||
+        item.value === undefined
+      ) {
+        console.warn('[NT4] Ignoring malformed persistent value.');
+        continue;
+      }
+      let topic = this.topics.get(item.name);
+      if (topic !== undefined && topic.lastValue !== undefined) {
+        // Already set by a local publisher
+        continue;
+      }
+      let value = item.value;
+      if (!JSON_TYPES.has(item.type) && typeof value === 'string') {
+        value = new Uint8Array(Buffer.from(value, 'base64'));
+      }
+      topic =
+        topic ??
+        this.createTopic(item.name, item.type, {
+          ...(typeof item.properties === 'object' ? item.properties : {}),
+          persistent: true,
+        });
+      topic.lastValue = value;
+      topic.lastTimestamp = timestamp;
+      if (this.localWantsValues(topic.name)) {
+        this.onNewTopicData(topic, timestamp, value);
+      }
+    }
+  }
+
+  private schedulePersist() {
+    if (this.persistFilename === '' || this.persistTimeout !== null) {
+      return;
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = null;
+      this.savePersistent();
+    }, PERSIST_PERIOD_MS);
+  }
+
+  private savePersistent() {
+    const stored = [];
+    for (const topic of this.topics.values()) {
+      if (topic.properties.persistent !== true || topic.lastValue === undefined) {
+        continue;
+      }
+      stored.push({
+        name: topic.name,
+        type: topic.type,
+        value:
+          topic.lastValue instanceof Uint8Array
+            ? Buffer.from(topic.lastValue).toString('base64')
+            : topic.lastValue,
+        properties: topic.properties,
+      });
+    }
+    stored.sort((a, b) => a.name.localeCompare(b.name));
+
+    // Write to a temporary file first so a crash can't leave a partial file
+    const tempFilename = this.persistFilename + '.tmp';
+    try {
+      fs.writeFileSync(tempFilename, JSON.stringify(stored, null, 4) + '\n');
+      fs.renameSync(tempFilename, this.persistFilename);
+    } catch (error) {
+      console.warn(
+        '[NT4] Could not save persistent values to "' +
+          this.persistFilename +
+          '":',
+        (error as Error).message,
+      );
+    }
+  }
+
+  //////////////////////////////////////////////////////////////
+  // Local Subscriptions
+
+  private addLocalSubscription(sub: NT4_ServerSubscription) {
+    this.localSubscriptions.set(sub.uid, sub);
+    for (const topic of this.topics.values()) {
+      if (sub.matches(topic.name)) {
+        this.onTopicAnnounce(topic);
+        if (!sub.topicsOnly && topic.lastValue !== undefined) {
+          this.onNewTopicData(topic, topic.lastTimestamp, topic.lastValue);
+        }
+      }
+    }
+  }
+
+  private localWantsAnnounce(topicName: string): boolean {
+    for (const sub of this.localSubscriptions.values()) {
+      if (sub.matches(topicName)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private localWantsValues(topicName: string): boolean {
+    for (const sub of this.localSubscriptions.values()) {
+      if (!sub.topicsOnly && sub.matches(topicName)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  //////////////////////////////////////////////////////////////
+  // Websocket Message Handlers
+
+  private ws_onConnection(ws: WebSocket, req: http.IncomingMessage) {
+    const url = req.url ?? '';
+    if (!url.startsWith('/nt/')) {
+      ws.close(1002, 'Invalid path');
+      return;
+    }
+
+    const client = new NT4_ServerClient(
+      ws,
+      this.getUniqueClientName(decodeURIComponent(url.substring(4))),
+      req.socket.remoteAddress ?? '',
+      req.socket.remotePort ?? 0,
+      this.msgpackEncoder,
+    );
+    this.clients.add(client);
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      if (isBinary) {
+        this.ws_onBinary(client, data);
+      } else if (client.protocol !== PROTOCOL_RTT) {
+        this.ws_onText(client, data.toString());
+      }
+    });
+    ws.on('close', () => this.ws_onClose(client));
+    ws.on('error', () => ws.close());
+
+    if (client.protocol !== PROTOCOL_RTT) {
+      console.log(
+        '[NT4] Client "' +
+          client.name +
+          '" connected with protocol "' +
+          client.protocol +
+          '"',
+      );
+      this.onClientConnect(this.getClientInfo(client));
+    }
+  }
+
+  private ws_onClose(client: NT4_ServerClient) {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+    client.stopFlushing();
+    if (client.protocol === PROTOCOL_RTT) {
+      return;
+    }
+
+    console.log('[NT4] Client "' + client.name + '" disconnected');
+    for (const topic of client.publishers.values()) {
+      topic.publishers.delete(client);
+      this.removeTopicIfUnused(topic);
+    }
+    client.publishers.clear();
+    this.onClientDisconnect(this.getClientInfo(client));
+  }
+
+  private ws_onText(client: NT4_ServerClient, text: string) {
+    let msgData: unknown;
+    try {
+      msgData = JSON.parse(text);
+    } catch {
+      console.warn('[NT4] Ignoring text message, JSON parsing failed.');
+      return;
+    }
+    if (!Array.isArray(msgData)) {
+      console.warn(
+        '[NT4] Ignoring text message, JSON parsing did not produce an array at the top level.',
+      );
+      return;
+    }
+
+    for (const msg of msgData) {
+      if (
+        typeof msg !== 'object' ||
+        msg === null ||
+        typeof msg.method !== 'string' ||
+        typeof msg.params !== 'object' ||
+        msg.params === null
+      ) {
+        console.warn('[NT4] Ignoring malformed text message.');
+        continue;
+      }
+
+      const params = msg.params;
+      switch (msg.method) {
+        case 'publish':
+          this.handlePublish(client, params);
+          break;
+        case 'unpublish':
+          this.handleUnpublish(client, params);
+          break;
+        case 'setproperties':
+          this.handleSetProperties(client, params);
+          break;
+        case 'subscribe':
+          this.handleSubscribe(client, params);
+          break;
+        case 'unsubscribe':
+          this.handleUnsubscribe(client, params);
+          break;
+        default:
+          console.warn(
+            '[NT4] Ignoring text message - unknown method ' + msg.method,
+          );
+      }
+    }
+  }
+
+  private ws_onBinary(client: NT4_ServerClient, data: Buffer) {
+    try {
+      for (const unpackedData of this.msgpackDecoder.decodeMulti(data)) {
+        if (!Array.isArray(unpackedData) || unpackedData.length !== 4) {
+          console.warn('[NT4] Ignoring binary data, not a 4-element array');
+          continue;
+        }
+        const [id, timestamp_us, typeIdx, value] = unpackedData;
+        if (typeof id !== 'number' || typeof timestamp_us !== 'number') {
+          console.warn('[NT4] Ignoring binary data, invalid id or timestamp');
+          continue;
+        }
+
+        if (id === -1) {
+          // RTT request, respond with our time and the client's time
+          client.sendBinary(
+            this.msgpackEncoder.encode([
+              -1,
+              this.getServerTime_us(),
+              typeof typeIdx === 'number' ? typeIdx : INT_TYPE_IDX,
+              value,
+            ]),
+          );
+          continue;
+        }
+
+        if (client.protocol === PROTOCOL_RTT) {
+          console.warn(
+            '[NT4] Ignoring binary data, not an RTT message but received by RTT only connection',
+          );
+          continue;
+        }
+
+        const topic = client.publishers.get(id);
+        if (!topic) {
+          console.warn(
+            '[NT4] Ignoring binary data - unknown publisher ID ' +
+              id.toString(),
+          );
+          continue;
+        }
+        this.setValue(topic, timestamp_us, value, client);
+      }
+    } catch (error) {
+      console.warn('[NT4] Ignoring binary data, msgpack decoding failed');
+    }
+  }
+
+  private handlePublish(client: NT4_ServerClient, params: any) {
+    const name = params.name;
+    const pubuid = params.pubuid;
+    const type = params.type;
+    if (
+      typeof name !== 'string' ||
+      typeof pubuid !== 'number' ||
+      typeof type !== 'string'
+    ) {
+      console.warn('[NT4] Ignoring publish, missing required fields');
+      return;
+    }
+
+    let topic = this.topics.get(name);
+    if (topic && topic.type !== type) {
+      console.warn(
+        '[NT4] Client "' +
+          client.name +
+          '" published "' +
+          name +
+          '" with type "' +
+          type +
+          '", but topic has type "' +
+          topic.type +
+          '"',
+      );
+    }
+    if (!topic) {
+      topic = this.createTopic(
+        name,
+        type,
+        typeof params.properties === 'object' && params.properties !== null
+          ? params.properties
+          : {},
+      );
+    }
+    topic.publishers.set(client, pubuid);
+    client.publishers.set(pubuid, topic);
+
+    // The publisher always gets an announce carrying its pubuid
+    this.announceTo(client, topic, pubuid);
+  }
+
+  private handleUnpublish(client: NT4_ServerClient, params: any) {
+    const topic = client.publishers.get(params.pubuid);
+    if (!topic) {
+      console.warn('[NT4] Ignoring unpublish, unknown publisher ID');
+      return;
+    }
+    client.publishers.delete(params.pubuid);
+    topic.publishers.delete(client);
+    this.removeTopicIfUnused(topic);
+  }
+
+  private handleSetProperties(client: NT4_ServerClient, params: any) {
+    const topic = this.topics.get(params.name);
+    if (!topic) {
+      console.warn(
+        '[NT4] Ignoring set properties, topic "' + params.name + '" not found.',
+      );
+      return;
+    }
+    if (typeof params.update !== 'object' || params.update === null) {
+      console.warn('[NT4] Ignoring set properties, update is not an object.');
+      return;
+    }
+    this.updateProperties(topic, params.update, client);
+  }
+
+  private handleSubscribe(client: NT4_ServerClient, params: any) {
+    if (typeof params.subuid !== 'number') {
+      console.warn('[NT4] Ignoring subscribe, subuid is not a number');
+      return;
+    }
+    const sub = NT4_ServerSubscription.fromParams(params);
+    client.subscriptions.set(sub.uid, sub);
+    client.updateFlushPeriod();
+
+    for (const topic of this.topics.values()) {
+      if (!sub.matches(topic.name)) {
+        continue;
+      }
+      if (!client.announced.has(topic.uid)) {
+        this.announceTo(client, topic);
+      }
+      if (!sub.topicsOnly && topic.lastValue !== undefined) {
+        client.queueValue(topic, topic.lastTimestamp, topic.lastValue, false);
+      }
+    }
+    client.flush();
+  }
+
+  private handleUnsubscribe(client: NT4_ServerClient, params: any) {
+    client.subscriptions.delete(params.subuid);
+    client.updateFlushPeriod();
+  }
+
+  //////////////////////////////////////////////////////////////
+  // General utilities
+
+  private getClientInfo(client: NT4_ServerClient): NT4_ServerClientInfo {
+    return {
+      name: client.name,
+      remoteAddr: client.remoteAddr,
+      remotePort: client.remotePort,
+      protocolVersion: client.protocol === PROTOCOL_V41 ? 0x0401 : 0x0400,
+    };
+  }
+
+  private getUniqueClientName(name: string): string {
+    const taken = new Set<string>();
+    for (const client of this.clients) {
+      if (client.protocol !== PROTOCOL_RTT) taken.add(client.name);
+    }
+    if (!taken.has(name)) {
+      return name;
+    }
+    let suffix = 1;
+    while (taken.has(name + '@' + suffix.toString())) {
+      suffix++;
+    }
+    return name + '@' + suffix.toString();
+  }
+
+  private getNewUID() {
+    return Math.floor(Math.random() * 99999999);
+  }
+}
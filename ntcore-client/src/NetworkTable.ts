@@ -11,7 +11,12 @@ import { DoubleArrayTopic } from './topics/DoubleArrayTopic';
 import { IntegerArrayTopic } from './topics/IntegerArrayTopic';
 import { FloatArrayTopic } from './topics/FloatArrayTopic';
 import { StringArrayTopic } from './topics/StringArrayTopic';
+import { StructTopic } from './topics/StructTopic';
+import { StructArrayTopic } from './topics/StructArrayTopic';
+import { ProtobufTopic } from './topics/ProtobufTopic';
 import { NetworkTableEntry } from './NetworkTableEntry';
+import { NetworkTableEvent } from './NetworkTableEvent';
+import type { Protobuf, StructSerializer } from 'wpiutil';
 
 /**
  * A network table that knows its subtable path.
@@ -87,6 +92,36 @@ export class NetworkTable {
     return entry;
   }
 
+  /**
+   * Checks the table and tells if it contains the specified key.
+   * 
+   * @param key the key to search for
+   * @returns true if the table has a topic or value for that key
+   */
+  public containsKey(key: string): boolean {
+    if (key === '') {
+      return false;
+    }
+    const fullKey = this.pathWithSep + key;
+    return this.getKeys().includes(key) || this.instance.hasValue(fullKey);
+  }
+
+  /**
+   * Gets all keys in the table (not including sub-tables).
+   * 
+   * @returns keys currently in the table
+   */
+  public getKeys(): string[] {
+    const keys: string[] = [];
+    for (const topic of this.instance.getTopics(this.pathWithSep)) {
+      const key = topic.getName().substring(this.pathWithSep.length);
+      if (!key.includes(NetworkTable.PATH_SEPARATOR)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
   /**
    * Gets a topic.
    * 
@@ -207,6 +242,80 @@ export class NetworkTable {
     return new StringArrayTopic(this.getTopic(name));
   }
 
+  /**
+   * Gets a struct-encoded value topic.
+   * 
+   * @param name topic name
+   * @param struct struct serializer
+   * @returns StructTopic
+   */
+  public getStructTopic<T>(name: string, struct: StructSerializer<T>): StructTopic<T> {
+    return new StructTopic<T>(this.getTopic(name), struct);
+  }
+
+  /**
+   * Gets a struct-encoded array topic.
+   * 
+   * @param name topic name
+   * @param struct struct serializer
+   * @returns StructArrayTopic
+   */
+  public getStructArrayTopic<T>(name: string, struct: StructSerializer<T>): StructArrayTopic<T> {
+    return new StructArrayTopic<T>(this.getTopic(name), struct);
+  }
+
+  /**
+   * Gets a protobuf-encoded value topic.
+   *
+   * @param name topic name
+   * @param proto protobuf serializer
+   * @returns ProtobufTopic
+   */
+  public getProtobufTopic<T>(name: string, proto: Protobuf<T>): ProtobufTopic<T> {
+    return new ProtobufTopic<T>(this.getTopic(name), proto);
+  }
+
+  /**
+   * Listen to topics only within this table.
+   * 
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @param listener listener function
+   * @returns Listener handle
+   */
+  public addListener(eventKinds: number, listener: (event: NetworkTableEvent) => void): number;
+  /**
+   * Listen to a single key in this table.
+   * 
+   * @param key the key name
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @param listener listener function
+   * @returns Listener handle
+   */
+  public addListener(key: string, eventKinds: number, listener: (event: NetworkTableEvent) => void): number;
+  public addListener(
+    keyOrEventKinds: string | number,
+    eventKindsOrListener: number | ((event: NetworkTableEvent) => void),
+    listener?: (event: NetworkTableEvent) => void
+  ): number {
+    if (typeof keyOrEventKinds === 'string') {
+      return this.instance.addListener(this.getTopic(keyOrEventKinds), eventKindsOrListener as number, listener!);
+    }
+    return this.instance.addListener(
+      [this.pathWithSep],
+      keyOrEventKinds,
+      eventKindsOrListener as (event: NetworkTableEvent) => void
+    );
+  }
+
+  /**
+   * Remove a listener previously added with addListener().
+   * 
+   * @param listener listener handle
+   */
+  public removeListener(listener: number): void {
+    this.instance.removeListener(listener);
+  }
+
   /**
    * Gets the "base name" of a key. For example, "/foo/bar" becomes "bar".
    * 
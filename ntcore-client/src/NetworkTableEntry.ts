@@ -1,5 +1,6 @@
 import { NetworkTableInstance } from './NetworkTableInstance';
 import { Topic } from './Topic';
+import { NetworkTableEvent } from './NetworkTableEvent';
 
 /**
  * NetworkTables Entry.
@@ -10,15 +11,35 @@ export class NetworkTableEntry {
   private topic: Topic;
   private lastValue: any = null;
   private lastTimestamp: number = 0;
-  private subscriptionId: number = -1;
+  private listenerHandle: number = -1;
 
   /**
-   * Constructor. Use NetworkTable.getEntry() instead.
+   * Constructor. Use NetworkTable.getEntry() instead. The entry subscribes to
+   * the topic, so values set by other nodes are returned by the getters.
    */
   constructor(instance: NetworkTableInstance, name: string) {
     this.instance = instance;
     this.name = name;
     this.topic = instance.getTopic(name);
+    this.listenerHandle = instance.addValueListener(this.topic, 0.1, false, this.onValue.bind(this));
+  }
+
+  /**
+   * Stops subscribing to the topic. The entry keeps returning the last value.
+   */
+  public close(): void {
+    if (this.listenerHandle !== -1) {
+      this.instance.removeListener(this.listenerHandle);
+      this.listenerHandle = -1;
+    }
+  }
+
+  private onValue(event: NetworkTableEvent): void {
+    if (event.valueData === null) {
+      return;
+    }
+    this.lastValue = event.valueData.value;
+    this.lastTimestamp = Date.now() * 1000;
   }
 
   /**
@@ -219,6 +240,42 @@ export class NetworkTableEntry {
     return this.lastValue.map(String);
   }
 
+  /**
+   * Make value persistent through server restarts.
+   */
+  public setPersistent(): void {
+    this.topic.setPersistent(true);
+  }
+
+  /**
+   * Stop making value persistent through server restarts.
+   */
+  public clearPersistent(): void {
+    this.topic.setPersistent(false);
+  }
+
+  /**
+   * Returns whether the value is persistent through server restarts.
+   * 
+   * @returns True if the value is persistent.
+   */
+  public isPersistent(): boolean {
+    return this.topic.isPersistent();
+  }
+
+  /**
+   * Stops publishing the entry if it's published. The entry keeps
+   * subscribing, but forgets the last value it set.
+   */
+  public unpublish(): void {
+    const client = this.instance.getClient();
+    if (client.getPublishedTopics().some((topic) => topic.name === this.name)) {
+      client.unpublishTopic(this.name);
+    }
+    this.lastValue = null;
+    this.lastTimestamp = 0;
+  }
+
   /**
    * Sets the entry's value.
    * 
@@ -226,33 +283,26 @@ export class NetworkTableEntry {
    * @returns False if the entry exists with a different type
    */
   public setValue(value: any): boolean {
-    const client = this.instance.getClient();
-    
-    // Determine the type based on the value
-    let type: string;
-    if (typeof value === 'boolean') {
-      type = 'boolean';
-    } else if (typeof value === 'number') {
-      type = 'double';
-    } else if (typeof value === 'string') {
-      type = 'string';
-    } else if (value instanceof Uint8Array) {
-      type = 'raw';
-    } else if (Array.isArray(value)) {
-      if (value.length === 0) {
-        type = 'double[]'; // Default to double array for empty arrays
-      } else if (typeof value[0] === 'boolean') {
-        type = 'boolean[]';
-      } else if (typeof value[0] === 'number') {
-        type = 'double[]';
-      } else if (typeof value[0] === 'string') {
-        type = 'string[]';
-      } else {
-        return false; // Unsupported array type
-      }
-    } else {
+    const type = NetworkTableEntry.getValueType(value);
+    if (type === null) {
       return false; // Unsupported type
     }
+    return this.setTypedValue(value, type);
+  }
+
+  /**
+   * Sets the entry's value, publishing the topic with the given type if it
+   * has not been published yet.
+   *
+   * @param value the value to set
+   * @param type the NetworkTables type to publish with
+   * @returns False if the entry exists with a different type
+   */
+  private setTypedValue(value: any, type: string): boolean {
+    const client = this.instance.getClient();
+    if (this.lastValue !== null && !NetworkTableEntry.typesMatch(this.lastValue, value)) {
+      return false;
+    }
 
     try {
       // Publish the topic if it doesn't exist
@@ -261,7 +311,7 @@ export class NetworkTableEntry {
       }
       
       // Set the value
-      client.addSample(this.name, value);
+      this.instance.addSample(this.name, value);
       
       // Update local state
       this.lastValue = value;
@@ -274,6 +324,105 @@ export class NetworkTableEntry {
     }
   }
 
+  /**
+   * Sets the entry's value if it does not already have one. A default value
+   * is never used in preference to a value set locally or by another node.
+   * 
+   * @param defaultValue the default value to set
+   * @returns False if the entry exists with a different type
+   */
+  public setDefaultValue(defaultValue: any): boolean {
+    const type = NetworkTableEntry.getValueType(defaultValue);
+    if (type === null) {
+      return false; // Unsupported type
+    }
+    return this.setDefaultTypedValue(defaultValue, type);
+  }
+
+  /**
+   * Sets the entry's value as an integer if it does not already have one.
+   *
+   * @param defaultValue the default value to set
+   * @returns False if the entry exists with a different type
+   */
+  public setDefaultInteger(defaultValue: number): boolean {
+    return this.setDefaultTypedValue(Math.floor(defaultValue), 'int');
+  }
+
+  /**
+   * Sets the entry's value as a float if it does not already have one.
+   *
+   * @param defaultValue the default value to set
+   * @returns False if the entry exists with a different type
+   */
+  public setDefaultFloat(defaultValue: number): boolean {
+    return this.setDefaultTypedValue(defaultValue, 'float');
+  }
+
+  /**
+   * Sets the entry's value if it does not already have one, publishing the
+   * topic with the given type.
+   *
+   * @param defaultValue the default value to set
+   * @param type the NetworkTables type to publish with
+   * @returns False if the entry exists with a different type
+   */
+  private setDefaultTypedValue(defaultValue: any, type: string): boolean {
+    if (this.lastValue !== null) {
+      return NetworkTableEntry.typesMatch(this.lastValue, defaultValue);
+    }
+    if (this.instance.hasValue(this.name)) {
+      return true;
+    }
+    return this.setTypedValue(defaultValue, type);
+  }
+
+  /**
+   * Gets the NetworkTables type a value is published with.
+   *
+   * @param value the value
+   * @returns The type string, or null if the value can't be published
+   */
+  private static getValueType(value: any): string | null {
+    if (typeof value === 'boolean') {
+      return 'boolean';
+    } else if (typeof value === 'number') {
+      return 'double';
+    } else if (typeof value === 'string') {
+      return 'string';
+    } else if (value instanceof Uint8Array) {
+      return 'raw';
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        return 'double[]'; // Default to double array for empty arrays
+      } else if (typeof value[0] === 'boolean') {
+        return 'boolean[]';
+      } else if (typeof value[0] === 'number') {
+        return 'double[]';
+      } else if (typeof value[0] === 'string') {
+        return 'string[]';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Determines whether two values have the same type. An empty array has no
+   * element type, so it matches any array.
+   *
+   * @param a the first value
+   * @param b the second value
+   * @returns True if the types match
+   */
+  private static typesMatch(a: any, b: any): boolean {
+    const typeA = NetworkTableEntry.getValueType(a);
+    const typeB = NetworkTableEntry.getValueType(b);
+    if (typeA === typeB) {
+      return true;
+    }
+    return Array.isArray(a) && Array.isArray(b) && (a.length === 0 || b.length === 0);
+  }
+
   /**
    * Sets the entry's value as a boolean.
    * 
@@ -301,7 +450,7 @@ export class NetworkTableEntry {
    * @returns False if the entry exists with a different type
    */
   public setInteger(value: number): boolean {
-    return this.setValue(Math.floor(value));
+    return this.setTypedValue(Math.floor(value), 'int');
   }
 
   /**
@@ -311,7 +460,7 @@ export class NetworkTableEntry {
    * @returns False if the entry exists with a different type
    */
   public setFloat(value: number): boolean {
-    return this.setValue(value);
+    return this.setTypedValue(value, 'float');
   }
 
   /**
@@ -361,7 +510,7 @@ export class NetworkTableEntry {
    * @returns False if the entry exists with a different type
    */
   public setIntegerArray(value: number[]): boolean {
-    return this.setValue(value.map(Math.floor));
+    return this.setTypedValue(value.map(Math.floor), 'int[]');
   }
 
   /**
@@ -371,7 +520,7 @@ export class NetworkTableEntry {
    * @returns False if the entry exists with a different type
    */
   public setFloatArray(value: number[]): boolean {
-    return this.setValue(value);
+    return this.setTypedValue(value, 'float[]');
   }
 
   /**
@@ -0,0 +1,181 @@
+import { NetworkTableInstance } from './NetworkTableInstance';
+import { Topic } from './Topic';
+
+/**
+ * NetworkTables connection information.
+ */
+export interface ConnectionInfo {
+  /** The remote identifier (as set on the remote node by startClient4()). */
+  remote_id: string;
+  /** The IP address of the remote node. */
+  remote_ip: string;
+  /** The port number of the remote node. */
+  remote_port: number;
+  /** The last time any update was received from the remote node (in microseconds). */
+  last_update: number;
+  /** The protocol version being used for this connection (in protocol layer format, e.g. 0x0400). */
+  protocol_version: number;
+}
+
+/**
+ * NetworkTables topic information.
+ */
+export class TopicInfo {
+  /** Instance. */
+  public readonly instance: NetworkTableInstance;
+  /** Topic name. */
+  public readonly name: string;
+  /** Topic type string. */
+  public readonly typeStr: string;
+  /** Topic properties. */
+  public readonly properties: Record<string, any>;
+
+  /**
+   * Constructor. Generally only used internally.
+   *
+   * @param instance Instance
+   * @param name Name
+   * @param typeStr Type string
+   * @param properties Properties
+   */
+  constructor(
+    instance: NetworkTableInstance,
+    name: string,
+    typeStr: string,
+    properties: Record<string, any>
+  ) {
+    this.instance = instance;
+    this.name = name;
+    this.typeStr = typeStr;
+    this.properties = properties;
+  }
+
+  /**
+   * Get the topic as an object.
+   *
+   * @returns Topic
+   */
+  public getTopic(): Topic {
+    return this.instance.getTopic(this.name);
+  }
+}
+
+/**
+ * NetworkTables value event data.
+ */
+export class ValueEventData {
+  /** Topic. */
+  public readonly topic: Topic;
+  /** The new value. */
+  public readonly value: any;
+  /** Time the value was set (server time, in microseconds). */
+  public readonly serverTime: number;
+
+  /**
+   * Constructor. Generally only used internally.
+   *
+   * @param topic Topic
+   * @param value The new value
+   * @param serverTime Time the value was set (server time, in microseconds)
+   */
+  constructor(topic: Topic, value: any, serverTime: number) {
+    this.topic = topic;
+    this.value = value;
+    this.serverTime = serverTime;
+  }
+}
+
+/**
+ * NetworkTables event.
+ */
+export class NetworkTableEvent {
+  /**
+   * Event kind flag values. These may be bitwise-or'ed together to listen for
+   * more than one kind of event.
+   */
+  public static readonly Kind = {
+    /**
+     * Initial listener addition. Set this to receive immediate notification of
+     * matches to other criteria.
+     */
+    kImmediate: 0x0001,
+    /** Client connected (on server, any client connected). */
+    kConnected: 0x0002,
+    /** Client disconnected (on server, any client disconnected). */
+    kDisconnected: 0x0004,
+    /** Any connection event (connect or disconnect). */
+    kConnection: 0x0004 | 0x0002,
+    /** New topic published. */
+    kPublish: 0x0008,
+    /** Topic unpublished. */
+    kUnpublish: 0x0010,
+    /** Topic properties changed. */
+    kProperties: 0x0020,
+    /** Any topic event (publish, unpublish, or properties changed). */
+    kTopic: 0x0020 | 0x0010 | 0x0008,
+    /** Topic value updated (via network). */
+    kValueRemote: 0x0040,
+    /** Topic value updated (local). */
+    kValueLocal: 0x0080,
+    /** Topic value updated (network or local). */
+    kValueAll: 0x0080 | 0x0040
+  };
+
+  /** Handle of listener that was triggered. */
+  public readonly listener: number;
+  /** Event flags (NetworkTableEvent.Kind bitmask). */
+  public readonly flags: number;
+  /** Connection information (for connection events). */
+  public readonly connInfo: ConnectionInfo | null;
+  /** Topic information (for topic events). */
+  public readonly topicInfo: TopicInfo | null;
+  /** Value data (for value events). */
+  public readonly valueData: ValueEventData | null;
+
+  private instance: NetworkTableInstance;
+
+  /**
+   * Constructor. This should generally only be used internally.
+   *
+   * @param instance Instance
+   * @param listener Listener that was triggered
+   * @param flags Event flags
+   * @param connInfo Connection information
+   * @param topicInfo Topic information
+   * @param valueData Value data
+   */
+  constructor(
+    instance: NetworkTableInstance,
+    listener: number,
+    flags: number,
+    connInfo: ConnectionInfo | null,
+    topicInfo: TopicInfo | null,
+    valueData: ValueEventData | null
+  ) {
+    this.instance = instance;
+    this.listener = listener;
+    this.flags = flags;
+    this.connInfo = connInfo;
+    this.topicInfo = topicInfo;
+    this.valueData = valueData;
+  }
+
+  /**
+   * Test event flags.
+   *
+   * @param kind event flag(s) to test
+   * @returns True if flags matches kind
+   */
+  public is(kind: number): boolean {
+    return (this.flags & kind) !== 0;
+  }
+
+  /**
+   * Gets the instance associated with this event.
+   *
+   * @returns Instance
+   */
+  public getInstance(): NetworkTableInstance {
+    return this.instance;
+  }
+}
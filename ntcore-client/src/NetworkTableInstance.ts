@@ -11,7 +11,46 @@ import { DoubleArrayTopic } from './topics/DoubleArrayTopic';
 import { IntegerArrayTopic } from './topics/IntegerArrayTopic';
 import { FloatArrayTopic } from './topics/FloatArrayTopic';
 import { StringArrayTopic } from './topics/StringArrayTopic';
-import { NT4_Client } from './NT4';
+import { StructTopic } from './topics/StructTopic';
+import { ProtobufTopic } from './topics/ProtobufTopic';
+import { StructArrayTopic } from './topics/StructArrayTopic';
+import { NT4_Client, NT4_Topic } from './NT4';
+import { NT4_Server, NT4_ServerClientInfo } from './NT4Server';
+import { NT3_Client } from './NT3';
+import { NTEndpoint } from './types';
+import { valuesEqual } from './PubSubOptions';
+import type { DataLog, Protobuf, StructSerializer } from 'wpiutil';
+import { forEachProtobufDescriptor } from 'wpiutil';
+import { EntryDataLogger, ConnectionDataLogger } from './DataLogger';
+import {
+  ConnectionInfo,
+  NetworkTableEvent,
+  TopicInfo,
+  ValueEventData
+} from './NetworkTableEvent';
+
+/**
+ * A listener registered with addListener() or addConnectionListener().
+ */
+interface ListenerRecord {
+  handle: number;
+  patterns: string[];
+  prefixMode: boolean;
+  eventKinds: number;
+  callback: (event: NetworkTableEvent) => void;
+  periodic: number;
+  sendAll: boolean;
+  subscriptionId: number | null;
+}
+
+/**
+ * The last value seen for a topic, kept for immediate notification of new listeners.
+ */
+interface LastValue {
+  value: any;
+  serverTime: number;
+  kind: number;
+}
 
 /**
  * NetworkTables Instance.
@@ -21,10 +60,24 @@ import { NT4_Client } from './NT4';
  */
 export class NetworkTableInstance {
   private static defaultInstance: NetworkTableInstance | null = null;
-  private client: NT4_Client;
+  private client: NTEndpoint;
+  private server: NT4_Server | null = null;
   private tables: Map<string, NetworkTable> = new Map();
   private topics: Map<string, Topic> = new Map();
   private connected: boolean = false;
+  private serverAddrs: string[] = ['localhost'];
+  private serverPort: number = NetworkTableInstance.kDefaultPort4;
+  private serverPort3: number = NetworkTableInstance.kDefaultPort3;
+  private client3Only: boolean = false;
+
+  private listeners: Map<number, ListenerRecord> = new Map();
+  private nextListenerHandle: number = 1;
+  private announcedTopics: Map<string, NT4_Topic> = new Map();
+  private lastValues: Map<string, LastValue> = new Map();
+  private connections: ConnectionInfo[] = [];
+  private schemas: Set<string> = new Set();
+  private dataLoggers: Map<number, EntryDataLogger | ConnectionDataLogger> = new Map();
+  private nextDataLoggerHandle: number = 1;
 
   /**
    * Client/server mode flag values (as returned by getNetworkMode()).
@@ -43,22 +96,22 @@ export class NetworkTableInstance {
    */
   public static readonly kDefaultPort4 = 5810;
 
+  /**
+   * The default port that network tables operates on for NT3.
+   */
+  public static readonly kDefaultPort3 = 1735;
+
+  /**
+   * Number of consecutive failed NT4 probes after which a client started with
+   * startClient4() tries NT3 instead.
+   */
+  private static readonly kClient3FallbackProbes = 3;
+
   /**
    * Private constructor - use static methods to create instances
    */
-  private constructor(
-    serverAddr: string = 'localhost',
-    appName: string = 'NT4-Client'
-  ) {
-    this.client = new NT4_Client(
-      serverAddr,
-      appName,
-      this.onTopicAnnounce.bind(this),
-      this.onTopicUnannounce.bind(this),
-      this.onNewTopicData.bind(this),
-      this.onConnect.bind(this),
-      this.onDisconnect.bind(this)
-    );
+  private constructor(appName: string = 'NT4-Client') {
+    this.client = this.createClient4(appName);
   }
 
   /**
@@ -88,40 +141,180 @@ export class NetworkTableInstance {
    * @returns Bitmask of NetworkMode.
    */
   public getNetworkMode(): number {
+    if (this.server !== null) {
+      return NetworkTableInstance.NetworkMode.kNetModeServer;
+    }
     if (!this.connected) {
       return NetworkTableInstance.NetworkMode.kNetModeNone;
     }
+    if (this.client instanceof NT3_Client) {
+      return NetworkTableInstance.NetworkMode.kNetModeClient3;
+    }
     return NetworkTableInstance.NetworkMode.kNetModeClient4;
   }
 
   /**
-   * Starts a NT4 client.
+   * Sets the server address(es) the client connects to. With several
+   * addresses, the client tries each in turn until one answers. Takes effect
+   * immediately if the client is running.
+   *
+   * @param serverName server name or address, or a list of them
+   * @param port port to communicate over, or 0 to keep the current port
+   */
+  public setServer(serverName: string | string[], port: number = 0): void {
+    this.serverAddrs = Array.isArray(serverName) ? [...serverName] : [serverName];
+    if (port !== 0) {
+      if (this.client3Only) {
+        this.serverPort3 = port;
+      } else {
+        this.serverPort = port;
+      }
+    }
+    if (this.client instanceof NT4_Client) {
+      this.client.setServerAddresses(this.serverAddrs, this.serverPort);
+    } else if (this.client instanceof NT3_Client) {
+      this.client.setServerAddresses(this.serverAddrs, this.serverPort3);
+    }
+  }
+
+  /**
+   * Sets the server addresses to the ones a robot of the given team can be
+   * reached at: "10.TE.AM.2", "roborio-TEAM-frc.local", "172.22.11.2" (USB)
+   * and "localhost" (simulation).
+   *
+   * @param team team number
+   * @param port port to communicate over, or 0 to keep the current port
+   */
+  public setServerTeam(team: number, port: number = 0): void {
+    this.setServer(NetworkTableInstance.getTeamAddresses(team), port);
+  }
+
+  /**
+   * Starts a NT4 client. If no NT4 server answers, the client falls back to
+   * NT3 on port3, and keeps alternating between the two until one connects.
    *
    * @param identity network identity to advertise
-   * @param serverAddr server address
-   * @param port server port
+   * @param serverAddr server address(es), or undefined to use the ones given to setServer()
+   * @param port server port, or 0 to use the one given to setServer() (default 5810)
+   * @param port3 NT3 port to fall back to, or 0 to only use NT4
    */
-  public startClient4(identity: string, serverAddr: string = 'localhost', port: number = NetworkTableInstance.kDefaultPort4): void {
-    // Pass the server address and port separately to the NT4_Client constructor
-    this.client = new NT4_Client(
-      serverAddr,
-      identity,
+  public startClient4(
+    identity: string,
+    serverAddr?: string | string[],
+    port: number = 0,
+    port3: number = NetworkTableInstance.kDefaultPort3
+  ): void {
+    this.stopServer();
+    this.client3Only = false;
+    if (serverAddr !== undefined) {
+      this.serverAddrs = Array.isArray(serverAddr) ? [...serverAddr] : [serverAddr];
+    }
+    if (port !== 0) {
+      this.serverPort = port;
+    }
+    if (port3 !== 0) {
+      this.serverPort3 = port3;
+    }
+    const client = this.createClient4(identity);
+    if (port3 !== 0) {
+      client.setConnectFailedHandler((failures) => {
+        const threshold = Math.max(NetworkTableInstance.kClient3FallbackProbes, this.serverAddrs.length);
+        if (this.client !== client || failures < threshold) {
+          return false;
+        }
+        this.startFallbackClient3(identity);
+        return true;
+      });
+    }
+    this.setEndpoint(client);
+    client.connect();
+  }
+
+  /**
+   * Starts a NT3 client.
+   *
+   * @param identity network identity to advertise
+   * @param serverAddr server address(es), or undefined to use the ones given to setServer()
+   * @param port3 server port (NT3), or 0 to use the one given to setServer() (default 1735)
+   */
+  public startClient3(identity: string, serverAddr?: string | string[], port3: number = 0): void {
+    this.stopServer();
+    this.client3Only = true;
+    if (serverAddr !== undefined) {
+      this.serverAddrs = Array.isArray(serverAddr) ? [...serverAddr] : [serverAddr];
+    }
+    if (port3 !== 0) {
+      this.serverPort3 = port3;
+    }
+    const client = this.createClient3(identity);
+    this.setEndpoint(client);
+    client.connect();
+  }
+
+  /**
+   * Stops the client if it is running.
+   */
+  public stopClient(): void {
+    if (this.server !== null) {
+      return;
+    }
+    this.client.disconnect();
+    this.connected = false;
+  }
+
+  /**
+   * Starts a NT4 server. Topics of this instance are then served to remote
+   * clients, and local publishers and subscribers talk to the server directly.
+   *
+   * Persistent topics are saved to persistFilename and restored from it the
+   * next time the server starts.
+   *
+   * @param listenAddress the address to listen on, or empty to listen on any address
+   * @param port4 port to communicate over (NT4)
+   * @param persistFilename file to store persistent topics in, or empty to not store them
+   */
+  public startServer(
+    listenAddress: string = '',
+    port4: number = NetworkTableInstance.kDefaultPort4,
+    persistFilename: string = 'networktables.json'
+  ): void {
+    if (this.server !== null) {
+      return;
+    }
+    this.server = new NT4_Server(
+      listenAddress,
       this.onTopicAnnounce.bind(this),
       this.onTopicUnannounce.bind(this),
       this.onNewTopicData.bind(this),
       this.onConnect.bind(this),
       this.onDisconnect.bind(this),
-      port
+      port4,
+      this.onTopicProperties.bind(this)
     );
-    this.client.connect();
+    this.server.setPersistFilename(persistFilename);
+    this.setEndpoint(this.server);
+    this.server.start();
   }
 
   /**
-   * Stops the client if it is running.
+   * Stops the server if it is running.
    */
-  public stopClient(): void {
-    this.client.disconnect();
-    this.connected = false;
+  public stopServer(): void {
+    if (this.server === null) {
+      return;
+    }
+    // Replacing the endpoint stops the server
+    this.server = null;
+    this.setEndpoint(this.createClient4('NT4-Client'));
+  }
+
+  /**
+   * Gets the NT4 server, if this instance is running as a server.
+   *
+   * @returns NT4_Server instance, or null if not in server mode
+   */
+  public getServer(): NT4_Server | null {
+    return this.server;
   }
 
   /**
@@ -250,35 +443,200 @@ export class NetworkTableInstance {
   }
 
   /**
-   * Gets the table with the specified key.
+   * Gets a struct-encoded value topic.
+   *
+   * @param name topic name
+   * @param struct struct serializer
+   * @returns StructTopic
+   */
+  public getStructTopic<T>(name: string, struct: StructSerializer<T>): StructTopic<T> {
+    return new StructTopic<T>(this.getTopic(name), struct);
+  }
+
+  /**
+   * Gets a struct-encoded array topic.
+   *
+   * @param name topic name
+   * @param struct struct serializer
+   * @returns StructArrayTopic
+   */
+  public getStructArrayTopic<T>(name: string, struct: StructSerializer<T>): StructArrayTopic<T> {
+    return new StructArrayTopic<T>(this.getTopic(name), struct);
+  }
+
+  /**
+   * Gets a protobuf-encoded value topic.
+   *
+   * @param name topic name
+   * @param proto protobuf serializer
+   * @returns ProtobufTopic
+   */
+  public getProtobufTopic<T>(name: string, proto: Protobuf<T>): ProtobufTopic<T> {
+    return new ProtobufTopic<T>(this.getTopic(name), proto);
+  }
+
+  /**
+   * Get the topics whose names start with a prefix: those announced by the
+   * server (for prefixes this instance subscribes to) and those published by
+   * this instance.
+   *
+   * @param prefix topic name prefix (defaults to all topics)
+   * @returns array of topics, sorted by name
+   */
+  public getTopics(prefix: string = ''): Topic[] {
+    const names = new Set<string>();
+    for (const name of this.announcedTopics.keys()) {
+      names.add(name);
+    }
+    for (const topic of this.client.getPublishedTopics()) {
+      names.add(topic.name);
+    }
+    return [...names]
+      .filter((name) => name.startsWith(prefix))
+      .sort()
+      .map((name) => this.getTopic(name));
+  }
+
+  /**
+   * Returns whether there is a data schema already registered with the given
+   * name that this instance has published. This does NOT perform a check as to
+   * whether the schema has already been published by another node on the network.
+   *
+   * @param name Name (the string passed as the data type for topics using this schema)
+   * @returns True if schema already registered
+   */
+  public hasSchema(name: string): boolean {
+    return this.schemas.has('/.schema/' + name);
+  }
+
+  /**
+   * Registers a struct schema, including the schemas of all nested structs.
+   * The schemas are published to "/.schema/struct:<type name>" topics so that
+   * other nodes (e.g. dashboards) can decode the values. Duplicate calls are
+   * ignored.
+   *
+   * @param struct struct serializer
+   */
+  public addSchema(struct: StructSerializer<any>): void;
+  /**
+   * Registers a protobuf schema: the file descriptor of the message type and
+   * of any files it depends on, published to "/.schema/proto:<file name>"
+   * topics. Duplicate calls are ignored.
+   *
+   * @param proto protobuf serializer
+   */
+  public addSchema(proto: Protobuf<any>): void;
+  /**
+   * Registers a data schema. Data schemas provide information for how a
+   * certain data type string can be decoded. The type string of a data schema
+   * indicates the type of the schema itself (e.g. "structschema" for struct
+   * schemas). Duplicate calls with the same name are ignored.
+   *
+   * @param name Name (the string passed as the data type for topics using this schema)
+   * @param type Type of schema (e.g. "structschema")
+   * @param schema Schema data
+   */
+  public addSchema(name: string, type: string, schema: string | Uint8Array): void;
+  public addSchema(nameOrStruct: string | StructSerializer<any> | Protobuf<any>, type?: string, schema?: string | Uint8Array): void {
+    if (typeof nameOrStruct !== 'string' && 'getDescriptor' in nameOrStruct) {
+      forEachProtobufDescriptor(
+        nameOrStruct,
+        (name) => this.hasSchema(name),
+        (name, schemaType, descriptor) => this.addSchema(name, schemaType, descriptor)
+      );
+      return;
+    }
+    if (typeof nameOrStruct !== 'string') {
+      for (const nested of nameOrStruct.getNested()) {
+        this.addSchema(nested);
+      }
+      this.addSchema('struct:' + nameOrStruct.getTypeName(), 'structschema', nameOrStruct.getSchema());
+      return;
+    }
+
+    const topicName = '/.schema/' + nameOrStruct;
+    if (this.schemas.has(topicName)) {
+      return;
+    }
+    this.schemas.add(topicName);
+
+    const data = typeof schema === 'string' ? new TextEncoder().encode(schema) : schema!;
+    this.client.publishTopic(topicName, type!);
+    this.client.setRetained(topicName, true);
+    this.addSample(topicName, data);
+  }
+
+  /**
+   * Gets the table with the specified key. A leading path separator is added
+   * if the key does not have one, so "SmartDashboard" and "/SmartDashboard"
+   * are the same table.
    *
    * @param key the key name
    * @returns The network table
    */
   public getTable(key: string): NetworkTable {
-    if (this.tables.has(key)) {
-      return this.tables.get(key)!;
+    let path: string;
+    if (key === '' || key === NetworkTable.PATH_SEPARATOR) {
+      path = '';
+    } else if (key.startsWith(NetworkTable.PATH_SEPARATOR)) {
+      path = key;
+    } else {
+      path = NetworkTable.PATH_SEPARATOR + key;
+    }
+
+    if (this.tables.has(path)) {
+      return this.tables.get(path)!;
     }
-    const table = new NetworkTable(this, key);
-    this.tables.set(key, table);
+    const table = new NetworkTable(this, path);
+    this.tables.set(path, table);
     return table;
   }
 
   /**
-   * Gets the NT4 client instance.
+   * Gets the endpoint (NT4 client, or NT4 server in server mode) used by this instance.
    *
-   * @returns NT4_Client instance
+   * @returns NTEndpoint instance
    * @internal This method is intended for internal use only
    */
-  public getClient(): NT4_Client {
+  public getClient(): NTEndpoint {
     return this.client;
   }
 
   /**
-   * Flushes all local updates to the network.
+   * Sends a value for a locally published topic and notifies local value listeners.
+   *
+   * @param name topic name
+   * @param value the value to send
+   * @internal This method is intended for internal use only
+   */
+  public addSample(name: string, value: any): void {
+    this.client.addSample(name, value);
+
+    const serverTime = this.client.getServerTime_us() ?? this.client.getClientTime_us();
+    const kind = NetworkTableEvent.Kind.kValueLocal;
+    this.lastValues.set(name, { value, serverTime, kind });
+    this.dispatchValue(name, kind, value, serverTime);
+  }
+
+  /**
+   * Determines whether a value for a topic is known to this instance, either
+   * set locally or received from the network.
+   *
+   * @param name topic name
+   * @returns True if a value is known
+   * @internal This method is intended for internal use only
+   */
+  public hasValue(name: string): boolean {
+    return this.lastValues.has(name);
+  }
+
+  /**
+   * Flushes all local updates to the network. Values set since the last
+   * flush are sent together; this otherwise happens automatically once per
+   * event loop iteration.
    */
   public flush(): void {
-    // NT4_Client doesn't have a flush method, but we could add one if needed
+    this.client.flush();
   }
 
   /**
@@ -287,7 +645,7 @@ export class NetworkTableInstance {
    * @returns True if connected
    */
   public isConnected(): boolean {
-    return this.connected;
+    return this.server !== null || this.connected;
   }
 
   /**
@@ -308,24 +666,449 @@ export class NetworkTableInstance {
     return this.client.getNetworkLatency_us();
   }
 
-  // Internal callback handlers
-  private onTopicAnnounce(topic: any): void {
-    // Handle topic announcement
+  /**
+   * Add a listener for changes on a particular topic or entry.
+   *
+   * @param topic the topic (or anything with getTopic(), such as an entry)
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @param listener listener function
+   * @returns Listener handle
+   */
+  public addListener(topic: Topic | { getTopic(): Topic }, eventKinds: number, listener: (event: NetworkTableEvent) => void): number;
+  /**
+   * Add a listener for changes to topics with names that start with any of the
+   * given prefixes.
+   *
+   * @param prefixes topic name string prefixes
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @param listener listener function
+   * @returns Listener handle
+   */
+  public addListener(prefixes: string[], eventKinds: number, listener: (event: NetworkTableEvent) => void): number;
+  public addListener(
+    topicOrPrefixes: Topic | { getTopic(): Topic } | string[],
+    eventKinds: number,
+    listener: (event: NetworkTableEvent) => void
+  ): number {
+    if (Array.isArray(topicOrPrefixes)) {
+      return this.createListener([...topicOrPrefixes], true, eventKinds, listener);
+    }
+    const topic = topicOrPrefixes instanceof Topic ? topicOrPrefixes : topicOrPrefixes.getTopic();
+    return this.createListener([topic.getName()], false, eventKinds, listener);
+  }
+
+  /**
+   * Add a listener for all value changes of a topic, subscribing with the given
+   * options. Used by subscribers and entries to receive values.
+   *
+   * @param topic the topic
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends all values instead of only the most recent one
+   * @param listener listener function
+   * @param excludeSelf if true, values set on this instance are not reported
+   * @returns Listener handle
+   * @internal This method is intended for internal use only
+   */
+  public addValueListener(
+    topic: Topic,
+    periodic: number,
+    sendAll: boolean,
+    listener: (event: NetworkTableEvent) => void,
+    excludeSelf: boolean = false
+  ): number {
+    const valueKinds = excludeSelf ? NetworkTableEvent.Kind.kValueRemote : NetworkTableEvent.Kind.kValueAll;
+    return this.createListener(
+      [topic.getName()],
+      false,
+      valueKinds | NetworkTableEvent.Kind.kImmediate,
+      listener,
+      periodic,
+      sendAll
+    );
   }
 
-  private onTopicUnannounce(topic: any): void {
-    // Handle topic unannouncement
+  /**
+   * Add a connection listener. The callback is called with an event whose
+   * connInfo is set each time a connection is established or lost.
+   *
+   * @param immediateNotify notify listener of all existing connections
+   * @param listener listener function
+   * @returns Listener handle
+   */
+  public addConnectionListener(immediateNotify: boolean, listener: (event: NetworkTableEvent) => void): number {
+    let eventKinds = NetworkTableEvent.Kind.kConnection;
+    if (immediateNotify) {
+      eventKinds |= NetworkTableEvent.Kind.kImmediate;
+    }
+    return this.createListener([], false, eventKinds, listener);
   }
 
-  private onNewTopicData(topic: any, timestamp: number, value: any): void {
-    // Handle new topic data
+  /**
+   * Remove a listener.
+   *
+   * @param listener Listener handle to remove
+   */
+  public removeListener(listener: number): void {
+    const record = this.listeners.get(listener);
+    if (!record) {
+      return;
+    }
+    this.listeners.delete(listener);
+    if (record.subscriptionId !== null) {
+      try {
+        this.client.unsubscribe(record.subscriptionId);
+      } catch (error) {
+        console.warn(`Could not unsubscribe listener ${listener}:`, error);
+      }
+    }
   }
 
-  private onConnect(): void {
-    this.connected = true;
+  /**
+   * Get information on the currently established network connections.
+   * If operating as a client, this will return either zero or one values.
+   *
+   * @returns array of connection information
+   */
+  public getConnections(): ConnectionInfo[] {
+    return [...this.connections];
   }
 
-  private onDisconnect(): void {
+  /**
+   * Starts logging entry changes to a DataLog. Every topic whose name starts
+   * with prefix is recorded as a log entry named with logPrefix in place of
+   * prefix, using the topic properties as the entry metadata. Topics that
+   * already have values are logged immediately.
+   *
+   * @param log data log object; lifetime must extend until stopEntryDataLog is
+   *     called or the instance is destroyed
+   * @param prefix only store entries with names that start with this prefix;
+   *     the prefix is not included in the data log entry name
+   * @param logPrefix prefix to add to data log entry names
+   * @returns Data logger handle
+   */
+  public startEntryDataLog(log: DataLog, prefix: string, logPrefix: string): number {
+    const handle = this.nextDataLoggerHandle++;
+    this.dataLoggers.set(handle, new EntryDataLogger(this, log, prefix, logPrefix));
+    return handle;
+  }
+
+  /**
+   * Stops logging entry changes to a DataLog.
+   *
+   * @param logger data logger handle
+   */
+  public stopEntryDataLog(logger: number): void {
+    this.stopDataLog(logger);
+  }
+
+  /**
+   * Starts logging connection changes to a DataLog, as a "json" entry with
+   * one record per connect or disconnect.
+   *
+   * @param log data log object; lifetime must extend until
+   *     stopConnectionDataLog is called or the instance is destroyed
+   * @param name data log entry name
+   * @returns Data logger handle
+   */
+  public startConnectionDataLog(log: DataLog, name: string): number {
+    const handle = this.nextDataLoggerHandle++;
+    this.dataLoggers.set(handle, new ConnectionDataLogger(this, log, name));
+    return handle;
+  }
+
+  /**
+   * Stops logging connection changes to a DataLog.
+   *
+   * @param logger data logger handle
+   */
+  public stopConnectionDataLog(logger: number): void {
+    this.stopDataLog(logger);
+  }
+
+  private stopDataLog(logger: number): void {
+    const dataLogger = this.dataLoggers.get(logger);
+    if (dataLogger !== undefined) {
+      dataLogger.close();
+      this.dataLoggers.delete(logger);
+    }
+  }
+
+  private createListener(
+    patterns: string[],
+    prefixMode: boolean,
+    eventKinds: number,
+    callback: (event: NetworkTableEvent) => void,
+    periodic: number = 0.1,
+    sendAll: boolean = true
+  ): number {
+    const record: ListenerRecord = {
+      handle: this.nextListenerHandle++,
+      patterns,
+      prefixMode,
+      eventKinds,
+      callback,
+      periodic,
+      sendAll,
+      subscriptionId: null
+    };
+    this.listeners.set(record.handle, record);
+    this.subscribeListener(record);
+
+    if ((eventKinds & NetworkTableEvent.Kind.kImmediate) !== 0) {
+      this.notifyImmediate(record);
+    }
+    return record.handle;
+  }
+
+  /**
+   * Subscribes on the network so that the events a listener asks for actually arrive.
+   */
+  private subscribeListener(record: ListenerRecord): void {
+    if (record.patterns.length === 0) {
+      return;
+    }
+    if ((record.eventKinds & NetworkTableEvent.Kind.kValueRemote) !== 0) {
+      record.subscriptionId = this.client.subscribe(record.patterns, record.prefixMode, record.sendAll, record.periodic);
+    } else if ((record.eventKinds & NetworkTableEvent.Kind.kTopic) !== 0) {
+      record.subscriptionId = this.client.subscribeTopicsOnly(record.patterns, record.prefixMode);
+    }
+  }
+
+  private notifyImmediate(record: ListenerRecord): void {
+    const Kind = NetworkTableEvent.Kind;
+    if ((record.eventKinds & Kind.kConnected) !== 0) {
+      for (const connInfo of this.connections) {
+        this.invokeListener(record, new NetworkTableEvent(this, record.handle, Kind.kImmediate | Kind.kConnected, connInfo, null, null));
+      }
+    }
+    if ((record.eventKinds & Kind.kPublish) !== 0) {
+      for (const topic of this.announcedTopics.values()) {
+        if (this.listenerMatches(record, topic.name)) {
+          this.invokeListener(record, new NetworkTableEvent(this, record.handle, Kind.kImmediate | Kind.kPublish, null, this.createTopicInfo(topic), null));
+        }
+      }
+    }
+    for (const [name, last] of this.lastValues) {
+      if ((record.eventKinds & last.kind) !== 0 && this.listenerMatches(record, name)) {
+        const valueData = new ValueEventData(this.getTopic(name), last.value, last.serverTime);
+        this.invokeListener(record, new NetworkTableEvent(this, record.handle, Kind.kImmediate | last.kind, null, null, valueData));
+      }
+    }
+  }
+
+  private listenerMatches(record: ListenerRecord, name: string): boolean {
+    return record.patterns.some((pattern) => (record.prefixMode ? name.startsWith(pattern) : name === pattern));
+  }
+
+  private invokeListener(record: ListenerRecord, event: NetworkTableEvent): void {
+    try {
+      record.callback(event);
+    } catch (error) {
+      console.error(`Unhandled exception in listener ${record.handle}:`, error);
+    }
+  }
+
+  private dispatchTopic(name: string, kind: number, topicInfo: TopicInfo): void {
+    for (const record of [...this.listeners.values()]) {
+      if ((record.eventKinds & kind) !== 0 && this.listenerMatches(record, name)) {
+        this.invokeListener(record, new NetworkTableEvent(this, record.handle, kind, null, topicInfo, null));
+      }
+    }
+  }
+
+  private dispatchValue(name: string, kind: number, value: any, serverTime: number): void {
+    let valueData: ValueEventData | null = null;
+    for (const record of [...this.listeners.values()]) {
+      if ((record.eventKinds & kind) !== 0 && this.listenerMatches(record, name)) {
+        valueData ??= new ValueEventData(this.getTopic(name), value, serverTime);
+        this.invokeListener(record, new NetworkTableEvent(this, record.handle, kind, null, null, valueData));
+      }
+    }
+  }
+
+  private dispatchConnection(kind: number, connInfo: ConnectionInfo): void {
+    for (const record of [...this.listeners.values()]) {
+      if ((record.eventKinds & kind) !== 0) {
+        this.invokeListener(record, new NetworkTableEvent(this, record.handle, kind, connInfo, null, null));
+      }
+    }
+  }
+
+  private createTopicInfo(topic: NT4_Topic): TopicInfo {
+    return new TopicInfo(this, topic.name, topic.type, { ...topic.properties });
+  }
+
+  private static getTeamAddresses(team: number): string[] {
+    return [
+      `10.${Math.floor(team / 100)}.${team % 100}.2`,
+      `roborio-${team}-frc.local`,
+      '172.22.11.2',
+      'localhost'
+    ];
+  }
+
+  private createClient3(identity: string): NT3_Client {
+    return new NT3_Client(
+      this.serverAddrs,
+      identity,
+      this.onTopicAnnounce.bind(this),
+      this.onTopicUnannounce.bind(this),
+      this.onNewTopicData.bind(this),
+      this.onConnect.bind(this),
+      this.onDisconnect.bind(this),
+      this.serverPort3,
+      this.onTopicProperties.bind(this)
+    );
+  }
+
+  /**
+   * Switches a startClient4() client over to NT3 after its NT4 probes failed.
+   * If NT3 fails on every address as well, NT4 is tried again.
+   */
+  private startFallbackClient3(identity: string): void {
+    const client = this.createClient3(identity);
+    client.setConnectFailedHandler((failures) => {
+      if (this.client !== client) {
+        return true;
+      }
+      if (failures < this.serverAddrs.length) {
+        return false;
+      }
+      this.startClient4(identity, undefined, 0, this.serverPort3);
+      return true;
+    });
+    this.setEndpoint(client);
+    client.connect();
+  }
+
+  private createClient4(identity: string): NT4_Client {
+    return new NT4_Client(
+      this.serverAddrs,
+      identity,
+      this.onTopicAnnounce.bind(this),
+      this.onTopicUnannounce.bind(this),
+      this.onNewTopicData.bind(this),
+      this.onConnect.bind(this),
+      this.onDisconnect.bind(this),
+      this.serverPort,
+      this.onTopicProperties.bind(this)
+    );
+  }
+
+  /**
+   * Replaces the endpoint values are exchanged through, carrying listener
+   * subscriptions and local publishers (with their last value) over to the
+   * new endpoint.
+   */
+  private setEndpoint(endpoint: NTEndpoint): void {
+    const published = endpoint !== this.client ? this.client.getPublishedTopics() : [];
+    const localValues = new Map<string, LastValue>();
+    for (const [name, last] of this.lastValues) {
+      if (last.kind === NetworkTableEvent.Kind.kValueLocal) {
+        localValues.set(name, last);
+      }
+    }
+    if (endpoint !== this.client) {
+      this.client.disconnect();
+    }
+    this.client = endpoint;
     this.connected = false;
+    this.connections = [];
+    this.announcedTopics.clear();
+    this.lastValues.clear();
+    for (const topic of published) {
+      endpoint.publishTopic(topic.name, topic.type);
+      if (Object.keys(topic.properties).length > 0) {
+        endpoint.setProperties(topic.name, topic.properties);
+      }
+      const last = localValues.get(topic.name);
+      if (last !== undefined) {
+        endpoint.addSample(topic.name, last.value);
+        this.lastValues.set(topic.name, last);
+      }
+    }
+    for (const record of this.listeners.values()) {
+      record.subscriptionId = null;
+      this.subscribeListener(record);
+    }
+  }
+
+  // Internal callback handlers
+  private onTopicAnnounce(topic: NT4_Topic): void {
+    const known = this.announcedTopics.get(topic.name);
+    if (known !== undefined && known.uid === topic.uid) {
+      // Already announced through another subscription
+      return;
+    }
+    this.announcedTopics.set(topic.name, topic);
+    this.dispatchTopic(topic.name, NetworkTableEvent.Kind.kPublish, this.createTopicInfo(topic));
+  }
+
+  private onTopicUnannounce(topic: NT4_Topic): void {
+    this.announcedTopics.delete(topic.name);
+    this.lastValues.delete(topic.name);
+    this.dispatchTopic(topic.name, NetworkTableEvent.Kind.kUnpublish, this.createTopicInfo(topic));
+  }
+
+  private onTopicProperties(topic: NT4_Topic, update: { [id: string]: any }): void {
+    this.dispatchTopic(topic.name, NetworkTableEvent.Kind.kProperties, this.createTopicInfo(topic));
+  }
+
+  private onNewTopicData(topic: NT4_Topic, timestamp: number, value: any): void {
+    const last = this.lastValues.get(topic.name);
+    if (last !== undefined && last.serverTime === timestamp && last.value === value) {
+      // Same sample delivered again for a new subscription
+      return;
+    }
+    if (last !== undefined && last.kind === NetworkTableEvent.Kind.kValueLocal && valuesEqual(last.value, value)) {
+      // The server echoing back a value this instance published
+      return;
+    }
+    const kind = NetworkTableEvent.Kind.kValueRemote;
+    this.lastValues.set(topic.name, { value, serverTime: timestamp, kind });
+    this.dispatchValue(topic.name, kind, value, timestamp);
+  }
+
+  private onConnect(client?: NT4_ServerClientInfo): void {
+    let connInfo: ConnectionInfo;
+    if (client !== undefined) {
+      connInfo = {
+        remote_id: client.name,
+        remote_ip: client.remoteAddr,
+        remote_port: client.remotePort,
+        last_update: Date.now() * 1000,
+        protocol_version: client.protocolVersion
+      };
+    } else {
+      this.connected = true;
+      const isClient3 = this.client instanceof NT3_Client;
+      connInfo = {
+        remote_id: 'server',
+        remote_ip: (this.client as NT4_Client | NT3_Client).getServerAddress(),
+        remote_port: isClient3 ? this.serverPort3 : this.serverPort,
+        last_update: Date.now() * 1000,
+        protocol_version: isClient3 ? 0x0300 : 0x0400
+      };
+    }
+    this.connections.push(connInfo);
+    this.dispatchConnection(NetworkTableEvent.Kind.kConnected, connInfo);
+  }
+
+  private onDisconnect(client?: NT4_ServerClientInfo): void {
+    let index: number;
+    if (client !== undefined) {
+      index = this.connections.findIndex(
+        (conn) => conn.remote_id === client.name && conn.remote_port === client.remotePort
+      );
+    } else {
+      this.connected = false;
+      this.announcedTopics.clear();
+      index = this.connections.length > 0 ? 0 : -1;
+    }
+    if (index === -1) {
+      return;
+    }
+    const [connInfo] = this.connections.splice(index, 1);
+    this.dispatchConnection(NetworkTableEvent.Kind.kDisconnected, connInfo);
   }
 }
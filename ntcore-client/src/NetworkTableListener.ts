@@ -0,0 +1,106 @@
+import { NetworkTableInstance } from './NetworkTableInstance';
+import { NetworkTableEvent } from './NetworkTableEvent';
+import { Topic } from './Topic';
+
+/**
+ * Event listener. This calls back to a callback function when an event
+ * matching the specified mask occurs. The callback function is called
+ * synchronously as soon as the instance receives the event.
+ */
+export class NetworkTableListener {
+  private instance: NetworkTableInstance;
+  private handle: number;
+
+  private constructor(instance: NetworkTableInstance, handle: number) {
+    this.instance = instance;
+    this.handle = handle;
+  }
+
+  /**
+   * Create a listener for changes on a particular topic or entry.
+   *
+   * @param topic the topic (or anything with getTopic(), such as an entry)
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @param listener listener function
+   * @returns Listener
+   */
+  public static createListener(
+    topic: Topic | { getTopic(): Topic },
+    eventKinds: number,
+    listener: (event: NetworkTableEvent) => void
+  ): NetworkTableListener;
+  /**
+   * Create a listener for topic changes on an instance.
+   *
+   * @param instance Instance
+   * @param prefixes Topic name string prefixes
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @param listener listener function
+   * @returns Listener
+   */
+  public static createListener(
+    instance: NetworkTableInstance,
+    prefixes: string[],
+    eventKinds: number,
+    listener: (event: NetworkTableEvent) => void
+  ): NetworkTableListener;
+  public static createListener(
+    target: Topic | { getTopic(): Topic } | NetworkTableInstance,
+    arg2: string[] | number,
+    arg3: number | ((event: NetworkTableEvent) => void),
+    arg4?: (event: NetworkTableEvent) => void
+  ): NetworkTableListener {
+    if (target instanceof NetworkTableInstance) {
+      const handle = target.addListener(arg2 as string[], arg3 as number, arg4!);
+      return new NetworkTableListener(target, handle);
+    }
+    const topic = target instanceof Topic ? target : target.getTopic();
+    const instance = topic.getInstance();
+    const handle = instance.addListener(topic, arg2 as number, arg3 as (event: NetworkTableEvent) => void);
+    return new NetworkTableListener(instance, handle);
+  }
+
+  /**
+   * Create a connection listener.
+   *
+   * @param instance Instance
+   * @param immediateNotify notify listener of all existing connections
+   * @param listener listener function
+   * @returns Listener
+   */
+  public static createConnectionListener(
+    instance: NetworkTableInstance,
+    immediateNotify: boolean,
+    listener: (event: NetworkTableEvent) => void
+  ): NetworkTableListener {
+    return new NetworkTableListener(instance, instance.addConnectionListener(immediateNotify, listener));
+  }
+
+  /**
+   * Gets the native handle.
+   *
+   * @returns Handle
+   */
+  public getHandle(): number {
+    return this.handle;
+  }
+
+  /**
+   * Determines if the native handle is valid.
+   *
+   * @returns True if the native handle is valid, false otherwise.
+   */
+  public isValid(): boolean {
+    return this.handle !== 0;
+  }
+
+  /**
+   * Destroys the listener.
+   */
+  public close(): void {
+    if (this.handle !== 0) {
+      this.instance.removeListener(this.handle);
+      this.handle = 0;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { NetworkTableInstance } from './NetworkTableInstance';
+import { NetworkTableEvent } from './NetworkTableEvent';
+import { Topic } from './Topic';
+
+/**
+ * Event listener poller. This queues events matching the specified mask. Code
+ * using the listener must periodically call readQueue() to read the events,
+ * e.g. once per robot loop, instead of reacting to them in a callback.
+ */
+export class NetworkTableListenerPoller {
+  private instance: NetworkTableInstance;
+  private handles: Set<number> = new Set();
+  private queue: NetworkTableEvent[] = [];
+
+  /**
+   * Construct a listener poller.
+   *
+   * @param instance Instance
+   */
+  constructor(instance: NetworkTableInstance) {
+    this.instance = instance;
+  }
+
+  /**
+   * Start listening to changes to a particular topic or entry.
+   *
+   * @param topic the topic (or anything with getTopic(), such as an entry)
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @returns Listener handle
+   */
+  public addListener(topic: Topic | { getTopic(): Topic }, eventKinds: number): number;
+  /**
+   * Start listening to topic changes for topics with names that start with any
+   * of the given prefixes.
+   *
+   * @param prefixes Topic name string prefixes
+   * @param eventKinds set of event kinds to listen to (NetworkTableEvent.Kind bitmask)
+   * @returns Listener handle
+   */
+  public addListener(prefixes: string[], eventKinds: number): number;
+  public addListener(topicOrPrefixes: Topic | { getTopic(): Topic } | string[], eventKinds: number): number {
+    const enqueue = (event: NetworkTableEvent) => this.queue.push(event);
+    const handle = Array.isArray(topicOrPrefixes)
+      ? this.instance.addListener(topicOrPrefixes, eventKinds, enqueue)
+      : this.instance.addListener(topicOrPrefixes, eventKinds, enqueue);
+    this.handles.add(handle);
+    return handle;
+  }
+
+  /**
+   * Add a connection listener. The queue will get an event each time a
+   * connection is established or lost.
+   *
+   * @param immediateNotify notify listener of all existing connections
+   * @returns Listener handle
+   */
+  public addConnectionListener(immediateNotify: boolean): number {
+    const handle = this.instance.addConnectionListener(immediateNotify, (event) => this.queue.push(event));
+    this.handles.add(handle);
+    return handle;
+  }
+
+  /**
+   * Remove a listener.
+   *
+   * @param listener Listener handle
+   */
+  public removeListener(listener: number): void {
+    if (this.handles.delete(listener)) {
+      this.instance.removeListener(listener);
+    }
+  }
+
+  /**
+   * Read events from the queue. Events are removed from the queue as they are read.
+   *
+   * @returns Events (empty array if no events in queue)
+   */
+  public readQueue(): NetworkTableEvent[] {
+    const events = this.queue;
+    this.queue = [];
+    return events;
+  }
+
+  /**
+   * Removes all of the poller's listeners and discards any queued events.
+   */
+  public close(): void {
+    for (const handle of this.handles) {
+      this.instance.removeListener(handle);
+    }
+    this.handles.clear();
+    this.queue = [];
+  }
+}
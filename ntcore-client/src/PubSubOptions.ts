@@ -0,0 +1,83 @@
+/**
+ * NetworkTables publish/subscribe options.
+ */
+export interface PubSubOptions {
+  /**
+   * How frequently changes will be sent over the network, in seconds.
+   * NetworkTables may send more frequently than this (e.g. use a combined
+   * minimum period for all values) or apply a restricted range to this value.
+   * The default is 100 ms.
+   */
+  periodic?: number;
+
+  /**
+   * Send all value changes over the network. Also sets the default poll
+   * storage to 20.
+   */
+  sendAll?: boolean;
+
+  /**
+   * Preserve duplicate value changes (rather than ignoring them).
+   */
+  keepDuplicates?: boolean;
+
+  /**
+   * For subscriptions, don't report value changes made by publishers on the
+   * same instance.
+   */
+  excludeSelf?: boolean;
+
+  /**
+   * Polling storage size for a subscription. Specifies the maximum number of
+   * updates NetworkTables should store between calls to the subscriber's
+   * readQueue() function. If zero, defaults to 1 if sendAll is false, 20 if
+   * sendAll is true.
+   */
+  pollStorage?: number;
+}
+
+/**
+ * Fills in the defaults for any options that weren't specified.
+ *
+ * @param options options
+ * @returns options with every field set
+ * @internal
+ */
+export function resolvePubSubOptions(options: PubSubOptions = {}): Required<PubSubOptions> {
+  const sendAll = options.sendAll ?? false;
+  const pollStorage = options.pollStorage ?? 0;
+  return {
+    periodic: options.periodic ?? 0.1,
+    sendAll,
+    keepDuplicates: options.keepDuplicates ?? false,
+    excludeSelf: options.excludeSelf ?? false,
+    pollStorage: pollStorage > 0 ? pollStorage : (sendAll ? 20 : 1),
+  };
+}
+
+/**
+ * Compares two values as they are sent over the network, so that duplicate
+ * values can be dropped.
+ *
+ * @param a first value
+ * @param b second value
+ * @returns True if the values are the same
+ * @internal
+ */
+export function valuesEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if ((Array.isArray(a) && Array.isArray(b)) || (a instanceof Uint8Array && b instanceof Uint8Array)) {
+    if (a.length !== b.length) {
+      return false;
+    }
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+  return false;
+}
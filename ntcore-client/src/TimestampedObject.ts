@@ -0,0 +1,47 @@
+/**
+ * NetworkTables timestamped object.
+ */
+export class TimestampedObject<T> {
+  /** Timestamp in local time base (microseconds). */
+  public readonly timestamp: number;
+  /** Timestamp in server time base (microseconds). */
+  public readonly serverTime: number;
+  /** Value. */
+  public readonly value: T;
+
+  /**
+   * Create a timestamped value.
+   *
+   * @param timestamp timestamp in local time base
+   * @param serverTime timestamp in server time base
+   * @param value value
+   */
+  constructor(timestamp: number, serverTime: number, value: T) {
+    this.timestamp = timestamp;
+    this.serverTime = serverTime;
+    this.value = value;
+  }
+}
+
+/** NetworkTables timestamped boolean. */
+export type TimestampedBoolean = TimestampedObject<boolean>;
+/** NetworkTables timestamped double. */
+export type TimestampedDouble = TimestampedObject<number>;
+/** NetworkTables timestamped integer. */
+export type TimestampedInteger = TimestampedObject<number>;
+/** NetworkTables timestamped float. */
+export type TimestampedFloat = TimestampedObject<number>;
+/** NetworkTables timestamped string. */
+export type TimestampedString = TimestampedObject<string>;
+/** NetworkTables timestamped raw value. */
+export type TimestampedRaw = TimestampedObject<Uint8Array>;
+/** NetworkTables timestamped boolean array. */
+export type TimestampedBooleanArray = TimestampedObject<boolean[]>;
+/** NetworkTables timestamped double array. */
+export type TimestampedDoubleArray = TimestampedObject<number[]>;
+/** NetworkTables timestamped integer array. */
+export type TimestampedIntegerArray = TimestampedObject<number[]>;
+/** NetworkTables timestamped float array. */
+export type TimestampedFloatArray = TimestampedObject<number[]>;
+/** NetworkTables timestamped string array. */
+export type TimestampedStringArray = TimestampedObject<string[]>;
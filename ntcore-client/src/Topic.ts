@@ -112,6 +112,31 @@ export class Topic {
     }
   }
 
+  /**
+   * Make value persistent through server restarts.
+   *
+   * @param persistent True for persistent, false for not persistent.
+   */
+  public setPersistent(persistent: boolean): void {
+    this.properties.persistent = persistent;
+
+    const client = this.instance.getClient();
+    try {
+      client.setPersistent(this.name, persistent);
+    } catch (error) {
+      console.warn(`Could not update persistence for topic ${this.name}:`, error);
+    }
+  }
+
+  /**
+   * Returns whether the value is persistent through server restarts.
+   *
+   * @returns True if the value is persistent.
+   */
+  public isPersistent(): boolean {
+    return this.properties.persistent === true;
+  }
+
   /**
    * Publishes the topic with a specific type.
    *
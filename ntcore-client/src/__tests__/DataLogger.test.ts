@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataLog, DataLogReader, DataLogRecord } from 'wpiutil';
+import { getDataLogType } from '../DataLogger';
+import { NetworkTableInstance } from '../NetworkTableInstance';
+
+const PORT = 5923;
+
+describe('getDataLogType', () => {
+  test('spells integer types the DataLog way', () => {
+    expect(getDataLogType('int')).toBe('int64');
+    expect(getDataLogType('int[]')).toBe('int64[]');
+    expect(getDataLogType('double')).toBe('double');
+    expect(getDataLogType('struct:Pose2d')).toBe('struct:Pose2d');
+  });
+});
+
+describe('EntryDataLogger', () => {
+  let dir: string;
+  let filename: string;
+  let log: DataLog;
+  let instance: NetworkTableInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nt-datalog-'));
+    filename = path.join(dir, 'test.wpilog');
+    log = new DataLog(filename, '', 0);
+    instance = NetworkTableInstance.create();
+    instance.startServer('', PORT, '');
+  });
+
+  afterEach(() => {
+    instance.stopServer();
+    instance.stopClient();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function readAll(): DataLogRecord[] {
+    log.close();
+    const reader = new DataLogReader(filename);
+    const records = [...reader];
+    reader.close();
+    return records;
+  }
+
+  test('starts an entry when a topic is published and finishes it when unpublished', () => {
+    const logger = instance.startEntryDataLog(log, '/robot/', 'NT:/');
+    const speed = instance.getDoubleTopic('/robot/speed').getPublisher({}, { unit: 'mps' });
+    speed.set(1.5);
+    instance.getIntegerTopic('/robot/count').getPublisher().set(3);
+    instance.getDoubleTopic('/other').getPublisher().set(2);
+    speed.close();
+    instance.stopEntryDataLog(logger);
+
+    const records = readAll();
+    const starts = records.filter((record) => record.isStart()).map((record) => record.getStartData());
+    expect(starts.map((start) => [start.name, start.type])).toEqual([
+      ['NT:/speed', 'double'],
+      ['NT:/count', 'int64'],
+    ]);
+
+    // The publish properties arrive after the topic is announced and update the entry metadata
+    const [speedId, countId] = starts.map((start) => start.entry);
+    const metadata = records.find((record) => record.isSetMetadata())!.getSetMetadataData();
+    expect(metadata.entry).toBe(speedId);
+    expect(JSON.parse(metadata.metadata)).toEqual({ unit: 'mps' });
+
+    const data = records.filter((record) => !record.isControl());
+    expect(data.map((record) => record.getEntry())).toEqual([speedId, countId]);
+    expect(data[0].getDouble()).toBe(1.5);
+    expect(data[1].getInteger()).toBe(3);
+
+    // speed is finished when unpublished, count when the logger stops
+    const finishes = records.filter((record) => record.isFinish()).map((record) => record.getFinishEntry());
+    expect(finishes).toEqual([speedId, countId]);
+  });
+
+  test('logs topics that already have values when started', () => {
+    instance.getStringTopic('/robot/mode').getPublisher().set('auto');
+    instance.startEntryDataLog(log, '/robot/', '');
+
+    const records = readAll();
+    const start = records.find((record) => record.isStart())!.getStartData();
+    expect([start.name, start.type]).toEqual(['mode', 'string']);
+    expect(records.find((record) => !record.isControl())!.getString()).toBe('auto');
+  });
+});
@@ -0,0 +1,206 @@
+import * as net from 'net';
+import { NT3_Client } from '../NT3';
+import { NT4_Topic } from '../NT4';
+import { NetworkTableInstance } from '../NetworkTableInstance';
+import { sleep, waitFor } from './helpers/TestUtils';
+
+const PORT3 = 5926;
+const PORT4 = 5927;
+
+/** Encodes a 16-bit big-endian integer. */
+function u16(value: number): Buffer {
+  const buf = Buffer.alloc(2);
+  buf.writeUInt16BE(value);
+  return buf;
+}
+
+/** Encodes a 64-bit big-endian double. */
+function double(value: number): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeDoubleBE(value);
+  return buf;
+}
+
+/** Encodes a string with its LEB128 length (all strings in these tests are short). */
+function str(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+}
+
+/** Builds an entry assignment message. */
+function entryAssign(name: string, type: number, id: number, flags: number, value: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0x10]), str(name), Buffer.from([type]), u16(id), u16(0), Buffer.from([flags]), value]);
+}
+
+/** A NT3 server that records what the client sends and replies with raw messages. */
+class FakeNT3Server {
+  public received = Buffer.alloc(0);
+  private server = net.createServer((socket) => {
+    this.socket = socket;
+    socket.on('data', (data) => {
+      this.received = Buffer.concat([this.received, data]);
+    });
+  });
+  private socket: net.Socket | null = null;
+
+  start(port: number): Promise<void> {
+    return new Promise((resolve) => this.server.listen(port, 'localhost', resolve));
+  }
+
+  stop(): Promise<void> {
+    this.socket?.destroy();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  send(...messages: Buffer[]) {
+    this.socket!.write(Buffer.concat(messages));
+  }
+
+  async waitForReceived(message: Buffer): Promise<void> {
+    await waitFor(() => this.received.includes(message));
+  }
+
+  /** Waits for the client hello, then sends the server hello. */
+  async completeHandshake(identity: string): Promise<void> {
+    await this.waitForReceived(Buffer.concat([Buffer.from([0x01]), u16(0x0300), str('tester')]));
+    this.send(Buffer.concat([Buffer.from([0x04, 0x00]), str(identity)]), Buffer.from([0x03]));
+    await this.waitForReceived(Buffer.from([0x05]));
+  }
+}
+
+describe('NT3_Client', () => {
+  let server: FakeNT3Server;
+  let client: NT3_Client;
+  let connected: boolean;
+  let values: Map<string, unknown>;
+  let topics: Map<string, NT4_Topic>;
+  let unannounced: string[];
+
+  beforeEach(async () => {
+    server = new FakeNT3Server();
+    await server.start(PORT3);
+    connected = false;
+    values = new Map();
+    topics = new Map();
+    unannounced = [];
+    client = new NT3_Client(
+      'localhost',
+      'tester',
+      (topic) => topics.set(topic.name, topic),
+      (topic) => unannounced.push(topic.name),
+      (topic, timestamp, value) => values.set(topic.name, value),
+      () => (connected = true),
+      () => (connected = false),
+      PORT3,
+    );
+    client.subscribe(['/'], true);
+    client.connect();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.stop();
+  });
+
+  test('completes the handshake and reports the server identity', async () => {
+    await server.completeHandshake('fake server');
+
+    await waitFor(() => connected);
+    expect(client.getServerIdentity()).toBe('fake server');
+  });
+
+  test('decodes entries of every type', async () => {
+    await server.completeHandshake('fake server');
+    server.send(
+      entryAssign('/boolean', 0x00, 1, 0x01, Buffer.from([0x01])),
+      entryAssign('/double', 0x01, 2, 0x00, double(1.5)),
+      entryAssign('/string', 0x02, 3, 0x00, str('text')),
+      entryAssign('/raw', 0x03, 4, 0x00, Buffer.from([0x02, 0xab, 0xcd])),
+      entryAssign('/booleans', 0x10, 5, 0x00, Buffer.from([0x02, 0x01, 0x00])),
+      entryAssign('/doubles', 0x11, 6, 0x00, Buffer.concat([Buffer.from([0x02]), double(1), double(-2)])),
+      entryAssign('/strings', 0x12, 7, 0x00, Buffer.concat([Buffer.from([0x02]), str('a'), str('bc')])),
+    );
+
+    await waitFor(() => values.size === 7);
+    expect(Object.fromEntries(values)).toEqual({
+      '/boolean': true,
+      '/double': 1.5,
+      '/string': 'text',
+      '/raw': new Uint8Array([0xab, 0xcd]),
+      '/booleans': [true, false],
+      '/doubles': [1, -2],
+      '/strings': ['a', 'bc'],
+    });
+    expect(topics.get('/booleans')!.type).toBe('boolean[]');
+    expect(topics.get('/boolean')!.properties).toEqual({ persistent: true });
+    expect(topics.get('/double')!.properties).toEqual({ persistent: false });
+  });
+
+  test('decodes entry updates, flag updates and deletes', async () => {
+    await server.completeHandshake('fake server');
+
+    server.send(entryAssign('/value', 0x01, 9, 0x00, double(1)));
+    server.send(Buffer.concat([Buffer.from([0x11]), u16(9), u16(1), Buffer.from([0x01]), double(2)]));
+    await waitFor(() => values.get('/value') === 2);
+
+    server.send(Buffer.concat([Buffer.from([0x12]), u16(9), Buffer.from([0x01])]));
+    await waitFor(() => topics.get('/value')!.properties.persistent === true);
+
+    server.send(Buffer.concat([Buffer.from([0x13]), u16(9)]));
+    await waitFor(() => unannounced.length > 0);
+    expect(unannounced).toEqual(['/value']);
+  });
+
+  test('decodes a message split across packets', async () => {
+    await server.completeHandshake('fake server');
+    const message = entryAssign('/split', 0x02, 1, 0x00, str('joined'));
+    server.send(message.subarray(0, 5));
+    await sleep(50);
+    expect(values.has('/split')).toBe(false);
+
+    server.send(message.subarray(5));
+    await waitFor(() => values.has('/split'));
+    expect(values.get('/split')).toBe('joined');
+  });
+
+  test('encodes published values as entry assignments, then updates', async () => {
+    await server.completeHandshake('fake server');
+    client.publishTopic('/out', 'double');
+    client.addSample('/out', 1.5);
+    await server.waitForReceived(
+      Buffer.concat([Buffer.from([0x10]), str('/out'), Buffer.from([0x01]), u16(0xffff), u16(0), Buffer.from([0x00]), double(1.5)]),
+    );
+
+    // Once the server assigns an id, values are sent as updates
+    server.send(entryAssign('/out', 0x01, 7, 0x00, double(1.5)));
+    await waitFor(() => values.has('/out'));
+    client.addSample('/out', 2.5);
+    await server.waitForReceived(Buffer.concat([Buffer.from([0x11]), u16(7), u16(1), Buffer.from([0x01]), double(2.5)]));
+  });
+
+  test('encodes arrays with their element count', async () => {
+    await server.completeHandshake('fake server');
+    client.publishTopic('/names', 'string[]');
+    client.addSample('/names', ['a', 'bc']);
+
+    await server.waitForReceived(
+      Buffer.concat([Buffer.from([0x10]), str('/names'), Buffer.from([0x12]), u16(0xffff), u16(0), Buffer.from([0x00, 0x02]), str('a'), str('bc')]),
+    );
+  });
+});
+
+describe('NetworkTableInstance NT3 fallback', () => {
+  test('falls back to NT3 when no NT4 server answers', async () => {
+    const server = new FakeNT3Server();
+    await server.start(PORT3);
+    const instance = NetworkTableInstance.create();
+    instance.startClient4('tester', 'localhost', PORT4, PORT3);
+
+    await server.completeHandshake('fake server');
+    await waitFor(() => instance.isConnected());
+    expect(instance.getNetworkMode()).toBe(NetworkTableInstance.NetworkMode.kNetModeClient3);
+
+    instance.stopClient();
+    await server.stop();
+  });
+});
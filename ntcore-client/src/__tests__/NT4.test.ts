@@ -0,0 +1,126 @@
+import { jest } from '@jest/globals';
+import { NT4_Client } from '../NT4';
+import { NT4_Server } from '../NT4Server';
+import { sleep, waitFor } from './helpers/TestUtils';
+
+const PORT = 5925;
+
+/** The private send method of NT4_Client, spied on to count outgoing frames. */
+interface BinarySender {
+  ws_sendBinary(data: Uint8Array, rttWs?: boolean): void;
+}
+
+describe('NT4_Client', () => {
+  let server: NT4_Server;
+  let received: Map<string, unknown[]>;
+  const clients: NT4_Client[] = [];
+  let connects = 0;
+
+  function createClient(): NT4_Client {
+    const client = new NT4_Client(
+      'localhost',
+      'tester',
+      () => {},
+      () => {},
+      () => {},
+      () => connects++,
+      () => {},
+      PORT,
+    );
+    clients.push(client);
+    return client;
+  }
+
+  async function reconnect(client: NT4_Client): Promise<void> {
+    const before = connects;
+    client.connect();
+    await waitFor(() => connects > before);
+  }
+
+  beforeEach(() => {
+    received = new Map();
+    connects = 0;
+    server = new NT4_Server(
+      '',
+      () => {},
+      () => {},
+      (topic, timestamp, value) => {
+        received.set(topic.name, [...(received.get(topic.name) ?? []), value]);
+      },
+      () => {},
+      () => {},
+      PORT,
+    );
+    server.start();
+    server.subscribe(['/'], true, true);
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.disconnect());
+    server.stop();
+  });
+
+  test('sends values set before connecting once connected', async () => {
+    const client = createClient();
+    client.publishTopic('/cached', 'double');
+    client.addSample('/cached', 4);
+
+    await reconnect(client);
+    await waitFor(() => received.has('/cached'));
+    expect(received.get('/cached')).toEqual([4]);
+  });
+
+  test('does not replace a server value with one set before connecting', async () => {
+    server.publishTopic('/kept', 'double');
+    server.addSample('/kept', 5);
+
+    const client = createClient();
+    client.publishTopic('/kept', 'double');
+    client.addSample('/kept', 1);
+    await reconnect(client);
+    await sleep(200);
+
+    expect(received.has('/kept')).toBe(false);
+  });
+
+  test('replays the last value with its original timestamp after reconnecting', async () => {
+    const client = createClient();
+    await reconnect(client);
+    await waitFor(() => client.getServerTime_us() !== null);
+    client.publishTopic('/replay', 'double');
+    client.addSample('/replay', 2);
+    await waitFor(() => received.has('/replay'));
+
+    // A newer server value is kept over the replayed one
+    server.publishTopic('/replay', 'double');
+    server.addSample('/replay', 7);
+    client.disconnect();
+    await reconnect(client);
+    await sleep(200);
+    expect(received.get('/replay')).toEqual([2]);
+
+    // A value set while disconnected is newer, so it replaces the server value
+    client.disconnect();
+    client.addSample('/replay', 3);
+    await reconnect(client);
+    await waitFor(() => received.get('/replay')!.length === 2);
+    expect(received.get('/replay')).toEqual([2, 3]);
+  });
+
+  test('batches values set in the same event loop iteration into one frame', async () => {
+    const client = createClient();
+    await reconnect(client);
+    client.publishTopic('/batched', 'double');
+    const send = jest.spyOn(client as unknown as BinarySender, 'ws_sendBinary');
+
+    client.addSample('/batched', 1);
+    client.addSample('/batched', 2);
+    client.addSample('/batched', 3);
+    expect(send).not.toHaveBeenCalled();
+
+    client.flush();
+    expect(send).toHaveBeenCalledTimes(1);
+    await waitFor(() => received.get('/batched')?.length === 3);
+    expect(received.get('/batched')).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NT4_Client, NT4_Topic } from '../NT4';
+import { NT4_Server } from '../NT4Server';
+import { jest } from '@jest/globals';
+import { sleep, waitFor } from './helpers/TestUtils';
+
+const PORT = 5920;
+
+describe('NT4_Server', () => {
+  let server: NT4_Server;
+  const clients: NT4_Client[] = [];
+
+  function connectClient(
+    name: string,
+    onValue: (topic: NT4_Topic, timestamp: number, value: unknown) => void = () => {},
+  ): Promise<NT4_Client> {
+    return new Promise((resolve) => {
+      const client = new NT4_Client(
+        'localhost',
+        name,
+        () => {},
+        () => {},
+        onValue,
+        () => resolve(client),
+        () => {},
+        PORT,
+      );
+      clients.push(client);
+      client.connect();
+    });
+  }
+
+  beforeEach(() => {
+    server = new NT4_Server('', () => {}, () => {}, () => {}, () => {}, () => {}, PORT);
+    server.start();
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.disconnect());
+    server.stop();
+  });
+
+  test('does not echo a value back to the client that published it', async () => {
+    const publisherValues: unknown[] = [];
+    const otherValues: unknown[] = [];
+    const publisher = await connectClient('publisher', (topic, timestamp, value) => publisherValues.push(value));
+    const other = await connectClient('other', (topic, timestamp, value) => otherValues.push(value));
+    publisher.subscribe(['/echo'], false);
+    other.subscribe(['/echo'], false);
+
+    publisher.publishTopic('/echo', 'double');
+    await sleep(100);
+    publisher.addSample('/echo', 1.5);
+
+    await waitFor(() => otherValues.length > 0);
+    await sleep(200);
+    expect(otherValues).toEqual([1.5]);
+    expect(publisherValues).toEqual([]);
+  });
+});
+
+describe('NT4_Server persistent storage', () => {
+  let dir: string;
+  let filename: string;
+  let server: NT4_Server;
+  let values: Map<string, unknown>;
+
+  function createServer(): NT4_Server {
+    values = new Map();
+    const created = new NT4_Server(
+      '',
+      () => {},
+      () => {},
+      (topic, timestamp, value) => values.set(topic.name, value),
+      () => {},
+      () => {},
+      PORT + 1,
+    );
+    created.setPersistFilename(filename);
+    return created;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nt-persist-'));
+    filename = path.join(dir, 'networktables.json');
+    server = createServer();
+  });
+
+  afterEach(() => {
+    server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('loads persistent values when started', () => {
+    fs.writeFileSync(
+      filename,
+      JSON.stringify([
+        { name: '/double', type: 'double', value: 1.5 },
+        { name: '/raw', type: 'raw', value: Buffer.from([1, 2, 3]).toString('base64') },
+        { name: '/malformed', type: 'double' },
+      ]),
+    );
+    server.start();
+    server.subscribe(['/'], true);
+
+    expect(values.get('/double')).toBe(1.5);
+    expect(values.get('/raw')).toEqual(new Uint8Array([1, 2, 3]));
+    expect(values.has('/malformed')).toBe(false);
+  });
+
+  test('saves persistent values through a temporary file', () => {
+    server.start();
+    server.publishTopic('/saved', 'string');
+    server.setPersistent('/saved', true);
+    server.addSample('/saved', 'hello');
+    server.publishTopic('/transient', 'double');
+    server.addSample('/transient', 2);
+    // A temporary file left over from an earlier crash is replaced
+    fs.writeFileSync(filename + '.tmp', 'partial');
+
+    server.stop();
+
+    const stored = JSON.parse(fs.readFileSync(filename, 'utf8'));
+    expect(stored).toEqual([{ name: '/saved', type: 'string', value: 'hello', properties: { persistent: true } }]);
+    expect(fs.existsSync(filename + '.tmp')).toBe(false);
+
+    // The saved values are restored the next time the server starts
+    server = createServer();
+    server.start();
+    server.subscribe(['/saved'], false);
+    expect(values.get('/saved')).toBe('hello');
+  });
+
+  test('keeps the previous file when the temporary file cannot be written', () => {
+    fs.writeFileSync(filename, '[]');
+    fs.mkdirSync(filename + '.tmp');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    server.start();
+    server.publishTopic('/saved', 'double');
+    server.setPersistent('/saved', true);
+    server.addSample('/saved', 1);
+
+    server.stop();
+
+    expect(fs.readFileSync(filename, 'utf8')).toBe('[]');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
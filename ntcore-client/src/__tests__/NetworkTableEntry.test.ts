@@ -0,0 +1,66 @@
+import { NetworkTableInstance } from '../NetworkTableInstance';
+
+const PORT = 5924;
+
+describe('NetworkTableEntry', () => {
+  let instance: NetworkTableInstance;
+
+  beforeEach(() => {
+    instance = NetworkTableInstance.create();
+    instance.startServer('', PORT, '');
+  });
+
+  afterEach(() => {
+    instance.stopServer();
+    instance.stopClient();
+  });
+
+  test('rejects values of a different type', () => {
+    const entry = instance.getTable('/table').getEntry('value');
+
+    expect(entry.setDouble(1.5)).toBe(true);
+    expect(entry.setString('text')).toBe(false);
+    expect(entry.setInteger(2)).toBe(true);
+    expect(entry.getDouble(0)).toBe(2);
+  });
+
+  test('treats empty arrays as any array type', () => {
+    const entry = instance.getTable('/table').getEntry('array');
+
+    expect(entry.setStringArray([])).toBe(true);
+    expect(entry.setStringArray(['a'])).toBe(true);
+    expect(entry.setBooleanArray([true])).toBe(false);
+  });
+
+  test('setDefaultValue keeps an existing value and reports a type mismatch', () => {
+    const entry = instance.getTable('/table').getEntry('default');
+
+    expect(entry.setDefaultValue('first')).toBe(true);
+    expect(entry.setDefaultValue('second')).toBe(true);
+    expect(entry.getString('')).toBe('first');
+    expect(entry.setDefaultValue(3)).toBe(false);
+    expect(entry.getString('')).toBe('first');
+  });
+
+  test('publishes integer and float values with their own types', () => {
+    const table = instance.getTable('/table');
+
+    table.getEntry('int').setInteger(2.5);
+    table.getEntry('float').setFloat(0.5);
+    table.getEntry('ints').setIntegerArray([1.5, 2]);
+    table.getEntry('floats').setFloatArray([0.5]);
+    table.getEntry('defaultInt').setDefaultInteger(3);
+    table.getEntry('defaultFloat').setDefaultFloat(1.5);
+    table.getEntry('double').setDouble(2);
+    const typeOf = (name: string) => instance.getClient().getPublishedTopics().find((topic) => topic.name === name)?.type;
+
+    expect(typeOf('/table/int')).toBe('int');
+    expect(table.getEntry('int').getInteger(0)).toBe(2);
+    expect(typeOf('/table/float')).toBe('float');
+    expect(typeOf('/table/ints')).toBe('int[]');
+    expect(typeOf('/table/floats')).toBe('float[]');
+    expect(typeOf('/table/defaultInt')).toBe('int');
+    expect(typeOf('/table/defaultFloat')).toBe('float');
+    expect(typeOf('/table/double')).toBe('double');
+  });
+});
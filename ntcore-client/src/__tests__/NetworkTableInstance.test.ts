@@ -0,0 +1,85 @@
+import { jest } from '@jest/globals';
+import { NT4_Client } from '../NT4';
+import { NetworkTableInstance } from '../NetworkTableInstance';
+import { waitFor } from './helpers/TestUtils';
+
+const PORT = 5921;
+
+describe('NetworkTableInstance', () => {
+  let server: NetworkTableInstance;
+  let client: NetworkTableInstance;
+
+  beforeEach(async () => {
+    server = NetworkTableInstance.create();
+    server.startServer('', PORT, '');
+    client = NetworkTableInstance.create();
+    client.startClient4('tester', 'localhost', PORT, 0);
+    await waitFor(() => client.isConnected());
+  });
+
+  afterEach(() => {
+    client.stopClient();
+    server.stopServer();
+    // Stopping the server leaves an idle client endpoint with running timers
+    server.stopClient();
+  });
+
+  test('sends client values to the server', async () => {
+    const subscriber = server.getDoubleTopic('/client/value').getSubscriber(0);
+    client.getDoubleTopic('/client/value').getPublisher().set(3.5);
+
+    await waitFor(() => subscriber.get() === 3.5);
+  });
+
+  test('sends server values to the client', async () => {
+    const subscriber = client.getStringArrayTopic('/server/value').getSubscriber([]);
+    server.getStringArrayTopic('/server/value').getPublisher().set(['a', 'b']);
+
+    await waitFor(() => subscriber.get().length === 2);
+    expect(subscriber.get()).toEqual(['a', 'b']);
+  });
+
+  test('sends the current value to clients that subscribe later', async () => {
+    server.getIntegerTopic('/server/late').getPublisher().set(7);
+
+    const subscriber = client.getIntegerTopic('/server/late').getSubscriber(0);
+    await waitFor(() => subscriber.get() === 7);
+  });
+});
+
+describe('NetworkTableInstance server addresses', () => {
+  test('tries the robot addresses of a team in order', () => {
+    const instance = NetworkTableInstance.create();
+    const setServer = jest.spyOn(instance, 'setServer');
+
+    instance.setServerTeam(1234, PORT);
+    instance.setServerTeam(5, PORT);
+
+    expect(setServer).toHaveBeenNthCalledWith(
+      1,
+      ['10.12.34.2', 'roborio-1234-frc.local', '172.22.11.2', 'localhost'],
+      PORT,
+    );
+    expect(setServer).toHaveBeenNthCalledWith(
+      2,
+      ['10.0.5.2', 'roborio-5-frc.local', '172.22.11.2', 'localhost'],
+      PORT,
+    );
+    expect((instance.getClient() as NT4_Client).getServerAddress()).toBe('10.0.5.2');
+    instance.stopClient();
+  });
+
+  test('connects to the first address that answers', async () => {
+    const server = NetworkTableInstance.create();
+    server.startServer('', PORT, '');
+    const client = NetworkTableInstance.create();
+    client.startClient4('tester', ['unreachable.invalid', 'localhost'], PORT, 0);
+
+    await waitFor(() => client.isConnected());
+    expect((client.getClient() as NT4_Client).getServerAddress()).toBe('localhost');
+
+    client.stopClient();
+    server.stopServer();
+    server.stopClient();
+  });
+});
@@ -0,0 +1,179 @@
+import { NetworkTableEvent } from '../NetworkTableEvent';
+import { NetworkTableInstance } from '../NetworkTableInstance';
+import { NetworkTableListener } from '../NetworkTableListener';
+import { NetworkTableListenerPoller } from '../NetworkTableListenerPoller';
+import { sleep, waitFor } from './helpers/TestUtils';
+
+const PORT = 5929;
+const Kind = NetworkTableEvent.Kind;
+
+describe('NetworkTableListener', () => {
+  let server: NetworkTableInstance;
+  let client: NetworkTableInstance;
+  const listeners: NetworkTableListener[] = [];
+
+  /** Creates a listener on the server for /test that records its events. */
+  function listen(eventKinds: number): NetworkTableEvent[] {
+    const events: NetworkTableEvent[] = [];
+    listeners.push(NetworkTableListener.createListener(server, ['/test/'], eventKinds, (event) => events.push(event)));
+    return events;
+  }
+
+  async function connectClient(): Promise<void> {
+    client.startClient4('tester', 'localhost', PORT, 0);
+    await waitFor(() => client.isConnected());
+  }
+
+  beforeEach(() => {
+    server = NetworkTableInstance.create();
+    server.startServer('', PORT, '');
+    client = NetworkTableInstance.create();
+  });
+
+  afterEach(() => {
+    listeners.splice(0).forEach((listener) => listener.close());
+    client.stopClient();
+    server.stopServer();
+    server.stopClient();
+  });
+
+  test('delivers only the value events in the mask', async () => {
+    const local = listen(Kind.kValueLocal);
+    const remote = listen(Kind.kValueRemote);
+    const all = listen(Kind.kValueAll);
+
+    server.getDoubleTopic('/test/local').getPublisher().set(1);
+    await connectClient();
+    client.getDoubleTopic('/test/remote').getPublisher().set(2);
+    await waitFor(() => remote.length > 0);
+
+    expect(local.map((event) => event.valueData!.value)).toEqual([1]);
+    expect(local[0].is(Kind.kValueLocal)).toBe(true);
+    expect(remote.map((event) => event.valueData!.value)).toEqual([2]);
+    expect(remote[0].is(Kind.kValueRemote)).toBe(true);
+    expect(all.map((event) => event.valueData!.value)).toEqual([1, 2]);
+  });
+
+  test('delivers only the topic events in the mask', async () => {
+    const published = listen(Kind.kPublish);
+    const unpublished = listen(Kind.kUnpublish);
+    const values = listen(Kind.kValueAll);
+
+    await connectClient();
+    const publisher = client.getDoubleTopic('/test/topic').getPublisher();
+    await waitFor(() => published.length > 0);
+    publisher.close();
+    await waitFor(() => unpublished.length > 0);
+
+    expect(published.map((event) => event.topicInfo!.name)).toEqual(['/test/topic']);
+    expect(published[0].is(Kind.kPublish)).toBe(true);
+    expect(published[0].valueData).toBeNull();
+    expect(unpublished.map((event) => event.topicInfo!.name)).toEqual(['/test/topic']);
+    expect(values).toEqual([]);
+  });
+
+  test('notifies existing values and topics only with kImmediate', async () => {
+    await connectClient();
+    client.getDoubleTopic('/test/existing').getPublisher().set(3);
+    await waitFor(() => server.getDoubleTopic('/test/existing').getSubscriber(0).get() === 3);
+
+    const immediate = listen(Kind.kImmediate | Kind.kPublish | Kind.kValueAll);
+    const later = listen(Kind.kPublish | Kind.kValueAll);
+
+    expect(immediate.length).toBeGreaterThanOrEqual(2);
+    expect(immediate.every((event) => event.is(Kind.kImmediate))).toBe(true);
+    expect(immediate.find((event) => event.is(Kind.kPublish))!.topicInfo!.name).toBe('/test/existing');
+    expect(immediate.find((event) => event.is(Kind.kValueRemote))!.valueData!.value).toBe(3);
+    expect(later).toEqual([]);
+  });
+
+  test('connection listeners report connects, disconnects and existing connections', async () => {
+    const events: NetworkTableEvent[] = [];
+    listeners.push(NetworkTableListener.createConnectionListener(client, false, (event) => events.push(event)));
+
+    await connectClient();
+    await waitFor(() => events.length === 1);
+    expect(events[0].is(Kind.kConnected)).toBe(true);
+    expect(events[0].connInfo).not.toBeNull();
+
+    const existing: NetworkTableEvent[] = [];
+    listeners.push(NetworkTableListener.createConnectionListener(client, true, (event) => existing.push(event)));
+    expect(existing.length).toBe(1);
+    expect(existing[0].is(Kind.kImmediate | Kind.kConnected)).toBe(true);
+
+    server.stopServer();
+    await waitFor(() => events.length === 2);
+    expect(events[1].is(Kind.kDisconnected)).toBe(true);
+  });
+
+  test('listens to a single topic and stops after close', () => {
+    const topic = server.getDoubleTopic('/test/single');
+    const events: NetworkTableEvent[] = [];
+    const listener = NetworkTableListener.createListener(topic, Kind.kValueAll, (event) => events.push(event));
+    const publisher = topic.getPublisher();
+
+    publisher.set(1);
+    server.getDoubleTopic('/test/other').getPublisher().set(2);
+    expect(events.map((event) => event.valueData!.value)).toEqual([1]);
+
+    expect(listener.isValid()).toBe(true);
+    listener.close();
+    expect(listener.isValid()).toBe(false);
+    publisher.set(3);
+    expect(events.length).toBe(1);
+  });
+});
+
+describe('NetworkTableListenerPoller', () => {
+  let instance: NetworkTableInstance;
+  let poller: NetworkTableListenerPoller;
+
+  beforeEach(() => {
+    instance = NetworkTableInstance.create();
+    instance.startServer('', PORT, '');
+    poller = new NetworkTableListenerPoller(instance);
+  });
+
+  afterEach(() => {
+    poller.close();
+    instance.stopServer();
+    instance.stopClient();
+  });
+
+  test('queues matching events in order until read', () => {
+    poller.addListener(['/polled/'], Kind.kValueLocal);
+    const publisher = instance.getDoubleTopic('/polled/value').getPublisher();
+    [1, 2, 3].forEach((value) => publisher.set(value));
+    instance.getDoubleTopic('/elsewhere').getPublisher().set(4);
+
+    const events = poller.readQueue();
+    expect(events.map((event) => event.valueData!.value)).toEqual([1, 2, 3]);
+    expect(events.every((event) => event.is(Kind.kValueLocal))).toBe(true);
+    expect(poller.readQueue()).toEqual([]);
+  });
+
+  test('queues events for a topic and its immediate value', () => {
+    const topic = instance.getStringTopic('/polled/name');
+    const publisher = topic.getPublisher();
+    publisher.set('first');
+
+    poller.addListener(topic, Kind.kImmediate | Kind.kValueAll);
+    publisher.set('second');
+
+    const events = poller.readQueue();
+    expect(events.map((event) => event.valueData!.value)).toEqual(['first', 'second']);
+    expect(events[0].is(Kind.kImmediate)).toBe(true);
+    expect(events[1].is(Kind.kImmediate)).toBe(false);
+  });
+
+  test('stops queueing after the listener is removed', async () => {
+    const handle = poller.addListener(['/polled/'], Kind.kValueAll);
+    const publisher = instance.getDoubleTopic('/polled/removed').getPublisher();
+    publisher.set(1);
+    poller.removeListener(handle);
+    publisher.set(2);
+    await sleep(50);
+
+    expect(poller.readQueue().map((event) => event.valueData!.value)).toEqual([1]);
+  });
+});
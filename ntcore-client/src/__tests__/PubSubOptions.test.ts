@@ -0,0 +1,94 @@
+import { NetworkTableInstance } from '../NetworkTableInstance';
+import { resolvePubSubOptions } from '../PubSubOptions';
+import { waitFor } from './helpers/TestUtils';
+
+const PORT = 5922;
+
+describe('resolvePubSubOptions', () => {
+  test('fills in defaults', () => {
+    expect(resolvePubSubOptions()).toEqual({
+      periodic: 0.1,
+      sendAll: false,
+      keepDuplicates: false,
+      excludeSelf: false,
+      pollStorage: 1,
+    });
+    expect(resolvePubSubOptions({ sendAll: true }).pollStorage).toBe(20);
+    expect(resolvePubSubOptions({ sendAll: true, pollStorage: 5 }).pollStorage).toBe(5);
+  });
+});
+
+describe('PubSubOptions', () => {
+  let server: NetworkTableInstance;
+
+  beforeEach(() => {
+    server = NetworkTableInstance.create();
+    server.startServer('', PORT, '');
+  });
+
+  afterEach(() => {
+    server.stopServer();
+    server.stopClient();
+  });
+
+  test('excludeSelf ignores values published by the same instance', async () => {
+    const all = server.getDoubleTopic('/value').getSubscriber(0);
+    const excludeSelf = server.getDoubleTopic('/value').getSubscriber(0, { excludeSelf: true });
+
+    server.getDoubleTopic('/value').getPublisher().set(1);
+    expect(all.get()).toBe(1);
+    expect(excludeSelf.get()).toBe(0);
+
+    const client = NetworkTableInstance.create();
+    client.startClient4('tester', 'localhost', PORT, 0);
+    await waitFor(() => client.isConnected());
+    client.getDoubleTopic('/value').getPublisher().set(2);
+
+    await waitFor(() => excludeSelf.get() === 2);
+    client.stopClient();
+  });
+
+  test('keepDuplicates preserves repeated values', () => {
+    const topic = server.getDoubleTopic('/value');
+    const dropDuplicates = topic.getSubscriber(0, { sendAll: true });
+    const keepDuplicates = topic.getSubscriber(0, { sendAll: true, keepDuplicates: true });
+
+    const publisher = topic.getPublisher({ keepDuplicates: true });
+    [1, 1, 2].forEach((value) => publisher.set(value));
+
+    expect(dropDuplicates.readQueueValues()).toEqual([1, 2]);
+    expect(keepDuplicates.readQueueValues()).toEqual([1, 1, 2]);
+  });
+
+  test('publishers drop repeated values by default', () => {
+    const topic = server.getDoubleTopic('/value');
+    const subscriber = topic.getSubscriber(0, { sendAll: true, keepDuplicates: true });
+
+    const publisher = topic.getPublisher();
+    [1, 1, 2, 2].forEach((value) => publisher.set(value));
+
+    expect(subscriber.readQueueValues()).toEqual([1, 2]);
+  });
+
+  test('publishers compare arrays changed in place against the previous value', () => {
+    const doubles = server.getDoubleArrayTopic('/doubles');
+    const doublesSub = doubles.getSubscriber([], { sendAll: true });
+    const doublesPub = doubles.getPublisher();
+    const values = [1, 2];
+    doublesPub.set(values);
+    values[1] = 3;
+    doublesPub.set(values);
+
+    expect(doublesSub.readQueueValues()).toEqual([[1, 2], [1, 3]]);
+
+    const raw = server.getRawTopic('/raw');
+    const rawSub = raw.getSubscriber(new Uint8Array(0), { sendAll: true });
+    const rawPub = raw.getPublisher();
+    const bytes = new Uint8Array([1, 2]);
+    rawPub.set(bytes);
+    bytes[0] = 5;
+    rawPub.set(bytes);
+
+    expect(rawSub.readQueueValues()).toEqual([new Uint8Array([1, 2]), new Uint8Array([5, 2])]);
+  });
+});
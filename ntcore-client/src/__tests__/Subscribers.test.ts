@@ -0,0 +1,79 @@
+import { NetworkTableInstance } from '../NetworkTableInstance';
+import { waitFor } from './helpers/TestUtils';
+
+const PORT = 5928;
+
+describe('Subscriber queues', () => {
+  let server: NetworkTableInstance;
+
+  beforeEach(() => {
+    server = NetworkTableInstance.create();
+    server.startServer('', PORT, '');
+  });
+
+  afterEach(() => {
+    server.stopServer();
+    server.stopClient();
+  });
+
+  test('readQueue returns values in the order they were set', () => {
+    const topic = server.getDoubleTopic('/ordered');
+    const subscriber = topic.getSubscriber(0, { sendAll: true });
+    const publisher = topic.getPublisher();
+    [3, 1, 2].forEach((value) => publisher.set(value));
+
+    const queue = subscriber.readQueue();
+    expect(queue.map((timestamped) => timestamped.value)).toEqual([3, 1, 2]);
+    for (let i = 1; i < queue.length; i++) {
+      expect(queue[i].timestamp).toBeGreaterThanOrEqual(queue[i - 1].timestamp);
+      expect(queue[i].serverTime).toBeGreaterThanOrEqual(queue[i - 1].serverTime);
+    }
+  });
+
+  test('reading the queue drains it', () => {
+    const topic = server.getStringTopic('/drained');
+    const subscriber = topic.getSubscriber('', { sendAll: true });
+    const publisher = topic.getPublisher();
+
+    publisher.set('a');
+    publisher.set('b');
+    expect(subscriber.readQueueValues()).toEqual(['a', 'b']);
+    expect(subscriber.readQueue()).toEqual([]);
+
+    publisher.set('c');
+    expect(subscriber.readQueueValues()).toEqual(['c']);
+    expect(subscriber.get()).toBe('c');
+  });
+
+  test('drops the oldest values once pollStorage is exceeded', () => {
+    const topic = server.getIntegerTopic('/limited');
+    const limited = topic.getSubscriber(0, { sendAll: true, pollStorage: 3 });
+    const latestOnly = topic.getSubscriber(0);
+    const publisher = topic.getPublisher();
+    [1, 2, 3, 4, 5].forEach((value) => publisher.set(value));
+
+    expect(limited.readQueueValues()).toEqual([3, 4, 5]);
+    expect(latestOnly.readQueueValues()).toEqual([5]);
+    expect(limited.get()).toBe(5);
+  });
+
+  test('queues values received from a client in order', async () => {
+    const subscriber = server.getDoubleArrayTopic('/remote').getSubscriber([], { sendAll: true });
+
+    const client = NetworkTableInstance.create();
+    client.startClient4('tester', 'localhost', PORT, 0);
+    await waitFor(() => client.isConnected());
+    const publisher = client.getDoubleArrayTopic('/remote').getPublisher({ sendAll: true });
+    publisher.set([1]);
+    publisher.set([1, 2]);
+    publisher.set([1, 2, 3]);
+
+    const received: number[][] = [];
+    await waitFor(() => {
+      received.push(...subscriber.readQueueValues());
+      return received.length === 3;
+    });
+    expect(received).toEqual([[1], [1, 2], [1, 2, 3]]);
+    client.stopClient();
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Wait for a specified number of milliseconds
+ *
+ * @param ms The number of milliseconds to wait
+ * @returns A promise that resolves after the specified time
+ */
+export async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until a condition becomes true
+ *
+ * @param condition The condition to poll
+ * @param timeoutMs How long to wait before giving up, in milliseconds
+ * @returns A promise that resolves once the condition is true
+ */
+export async function waitFor(
+  condition: () => boolean,
+  timeoutMs: number = 5000,
+): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error(`Condition not met within ${timeoutMs} ms`);
+    }
+    await sleep(10);
+  }
+}
@@ -0,0 +1,4 @@
+import { jest } from '@jest/globals';
+
+// Tests talk to real servers over loopback websockets, which can take a while to connect
+jest.setTimeout(10000);
@@ -1,33 +1,35 @@
 import { DoubleTopic } from '../topics/DoubleTopic';
+import { DoublePublisher } from '../publishers/DoublePublisher';
+import { DoubleSubscriber } from '../subscribers/DoubleSubscriber';
+import { TimestampedDouble } from '../TimestampedObject';
+import { PubSubOptions } from '../PubSubOptions';
 
 /**
- * NetworkTables Double entry.
+ * NetworkTables Double entry. Combines a subscriber with a publisher that is
+ * created the first time a value is set.
  */
 export class DoubleEntry {
   private topic: DoubleTopic;
-  private defaultValue: number;
-  private value: number;
-  private lastTimestamp: number = 0;
-  private subscriptionId: number = -1;
+  private options: PubSubOptions;
+  private subscriber: DoubleSubscriber;
+  private publisher: DoublePublisher | null = null;
 
   /**
-   * Constructor.
-   * 
+   * Constructor; use DoubleTopic.getEntry() instead.
+   *
    * @param topic Topic
    * @param defaultValue Default value for get()
+   * @param options publish and subscribe options
    */
-  constructor(topic: DoubleTopic, defaultValue: number) {
+  constructor(topic: DoubleTopic, defaultValue: number, options: PubSubOptions = {}) {
     this.topic = topic;
-    this.defaultValue = defaultValue;
-    this.value = defaultValue;
-    
-    // Subscribe to the topic
-    this.subscriptionId = topic.subscribe();
+    this.options = options;
+    this.subscriber = new DoubleSubscriber(topic, defaultValue, options);
   }
 
   /**
    * Gets the topic for the entry.
-   * 
+   *
    * @returns Topic
    */
   public getTopic(): DoubleTopic {
@@ -36,54 +38,78 @@ export class DoubleEntry {
 
   /**
    * Gets the entry's value.
-   * 
+   *
+   * @param defaultValue default value to return if no value has been published (optional)
    * @returns The value or the default value if the entry does not exist
    */
-  public get(): number {
-    return this.value;
+  public get(defaultValue?: number): number {
+    return this.subscriber.get(defaultValue);
   }
 
   /**
-   * Sets the entry's value.
-   * 
+   * Gets the entry's value along with its timestamp.
+   *
+   * @param defaultValue default value to return if no value has been published (optional)
+   * @returns timestamped value; the timestamp is 0 if no value has been published
+   */
+  public getAtomic(defaultValue?: number): TimestampedDouble {
+    return this.subscriber.getAtomic(defaultValue);
+  }
+
+  /**
+   * Sets the entry's value, publishing the topic if needed.
+   *
    * @param value the value to set
    */
   public set(value: number): void {
-    // Publish the topic if it doesn't exist
-    if (!this.topic.exists()) {
-      this.topic.publish();
-    }
-    
-    // Set the value
-    const client = this.topic.getInstance().getClient();
-    client.addSample(this.topic.getName(), value);
-    
-    // Update local state
-    this.value = value;
-    this.lastTimestamp = Date.now() * 1000; // Convert to microseconds
+    this.getPublisher().set(value);
   }
 
   /**
-   * Sets the entry's default value.
-   * 
+   * Publishes a default value for the entry. On reconnect, a default value
+   * will never be used in preference to a published value.
+   *
    * @param value the default value
    */
   public setDefault(value: number): void {
-    this.defaultValue = value;
+    this.getPublisher().setDefault(value);
   }
 
   /**
    * Gets the last time the entry's value was changed.
-   * 
+   *
    * @returns Time in microseconds
    */
   public getLastChange(): number {
-    return this.lastTimestamp;
+    return this.subscriber.getLastChange();
+  }
+
+  /**
+   * Get an array of all value changes since the last call to readQueue.
+   * Also provides a timestamp for each value.
+   *
+   * The "poll storage" subscribe option can be used to set the queue depth.
+   *
+   * @returns Array of timestamped values; empty array if no new changes have been received
+   */
+  public readQueue(): TimestampedDouble[] {
+    return this.subscriber.readQueue();
+  }
+
+  /**
+   * Get an array of all value changes since the last call to readQueue.
+   *
+   * The "poll storage" subscribe option can be used to set the queue depth.
+   *
+   * @returns Array of values; empty array if no new changes have been received
+   */
+  public readQueueValues(): number[] {
+    return this.subscriber.readQueueValues();
   }
 
   /**
    * Determines if the entry exists.
-   * 
+   *
    * @returns True if the entry exists
    */
   public exists(): boolean {
@@ -94,16 +120,22 @@ export class DoubleEntry {
    * Stops publishing the entry if it's published.
    */
   public unpublish(): void {
-    this.topic.unpublish();
+    if (this.publisher !== null) {
+      this.publisher.close();
+      this.publisher = null;
+    }
   }
 
   /**
    * Closes the entry.
    */
   public close(): void {
-    if (this.subscriptionId !== -1) {
-      this.topic.unsubscribe(this.subscriptionId);
-      this.subscriptionId = -1;
-    }
+    this.unpublish();
+    this.subscriber.close();
+  }
+
+  private getPublisher(): DoublePublisher {
+    this.publisher ??= new DoublePublisher(this.topic, this.options);
+    return this.publisher;
   }
 }
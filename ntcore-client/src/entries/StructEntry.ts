@@ -0,0 +1,141 @@
+import { StructTopic } from '../topics/StructTopic';
+import { StructPublisher } from '../publishers/StructPublisher';
+import { StructSubscriber } from '../subscribers/StructSubscriber';
+import { TimestampedObject } from '../TimestampedObject';
+import { PubSubOptions } from '../PubSubOptions';
+
+/**
+ * NetworkTables struct-encoded value entry. Combines a subscriber with a publisher that is
+ * created the first time a value is set.
+ */
+export class StructEntry<T> {
+  private topic: StructTopic<T>;
+  private options: PubSubOptions;
+  private subscriber: StructSubscriber<T>;
+  private publisher: StructPublisher<T> | null = null;
+
+  /**
+   * Constructor; use StructTopic.getEntry() instead.
+   *
+   * @param topic Topic
+   * @param defaultValue Default value for get()
+   * @param options publish and subscribe options
+   */
+  constructor(topic: StructTopic<T>, defaultValue: T, options: PubSubOptions = {}) {
+    this.topic = topic;
+    this.options = options;
+    this.subscriber = new StructSubscriber<T>(topic, defaultValue, options);
+  }
+
+  /**
+   * Gets the topic for the entry.
+   *
+   * @returns Topic
+   */
+  public getTopic(): StructTopic<T> {
+    return this.topic;
+  }
+
+  /**
+   * Gets the entry's value.
+   *
+   * @param defaultValue default value to return if no value has been published (optional)
+   * @returns The value or the default value if the entry does not exist
+   */
+  public get(defaultValue?: T): T {
+    return this.subscriber.get(defaultValue);
+  }
+
+  /**
+   * Gets the entry's value along with its timestamp.
+   *
+   * @param defaultValue default value to return if no value has been published (optional)
+   * @returns timestamped value; the timestamp is 0 if no value has been published
+   */
+  public getAtomic(defaultValue?: T): TimestampedObject<T> {
+    return this.subscriber.getAtomic(defaultValue);
+  }
+
+  /**
+   * Sets the entry's value, publishing the topic if needed.
+   *
+   * @param value the value to set
+   */
+  public set(value: T): void {
+    this.getPublisher().set(value);
+  }
+
+  /**
+   * Publishes a default value for the entry. On reconnect, a default value
+   * will never be used in preference to a published value.
+   *
+   * @param value the default value
+   */
+  public setDefault(value: T): void {
+    this.getPublisher().setDefault(value);
+  }
+
+  /**
+   * Gets the last time the entry's value was changed.
+   *
+   * @returns Time in microseconds
+   */
+  public getLastChange(): number {
+    return this.subscriber.getLastChange();
+  }
+
+  /**
+   * Get an array of all value changes since the last call to readQueue.
+   * Also provides a timestamp for each value.
+   *
+   * The "poll storage" subscribe option can be used to set the queue depth.
+   *
+   * @returns Array of timestamped values; empty array if no new changes have been received
+   */
+  public readQueue(): TimestampedObject<T>[] {
+    return this.subscriber.readQueue();
+  }
+
+  /**
+   * Get an array of all value changes since the last call to readQueue.
+   *
+   * The "poll storage" subscribe option can be used to set the queue depth.
+   *
+   * @returns Array of values; empty array if no new changes have been received
+   */
+  public readQueueValues(): T[] {
+    return this.subscriber.readQueueValues();
+  }
+
+  /**
+   * Determines if the entry exists.
+   *
+   * @returns True if the entry exists
+   */
+  public exists(): boolean {
+    return this.topic.exists();
+  }
+
+  /**
+   * Stops publishing the entry if it's published.
+   */
+  public unpublish(): void {
+    if (this.publisher !== null) {
+      this.publisher.close();
+      this.publisher = null;
+    }
+  }
+
+  /**
+   * Closes the entry.
+   */
+  public close(): void {
+    this.unpublish();
+    this.subscriber.close();
+  }
+
+  private getPublisher(): StructPublisher<T> {
+    this.publisher ??= new StructPublisher<T>(this.topic, this.options);
+    return this.publisher;
+  }
+}
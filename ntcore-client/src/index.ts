@@ -1,5 +1,9 @@
 // Export the NT4 client for Node.js
 export { NT4_Client, NT4_Topic } from './NT4';
+export { NT4_Server } from './NT4Server';
+export { NT3_Client } from './NT3';
+export type { NT4_ServerClientInfo } from './NT4Server';
+export type { NTEndpoint } from './types';
 
 // Export the ntcore-like API
 export { NetworkTableInstance } from './NetworkTableInstance';
@@ -7,6 +11,28 @@ export { NetworkTable } from './NetworkTable';
 export { NetworkTableEntry } from './NetworkTableEntry';
 export { Topic } from './Topic';
 
+// Export the listener API
+export { NetworkTableEvent, TopicInfo, ValueEventData } from './NetworkTableEvent';
+export type { ConnectionInfo } from './NetworkTableEvent';
+export { NetworkTableListener } from './NetworkTableListener';
+export { NetworkTableListenerPoller } from './NetworkTableListenerPoller';
+
+// Export timestamped value types
+export { TimestampedObject } from './TimestampedObject';
+export type {
+  TimestampedBoolean,
+  TimestampedDouble,
+  TimestampedInteger,
+  TimestampedFloat,
+  TimestampedString,
+  TimestampedRaw,
+  TimestampedBooleanArray,
+  TimestampedDoubleArray,
+  TimestampedIntegerArray,
+  TimestampedFloatArray,
+  TimestampedStringArray
+} from './TimestampedObject';
+
 // Export topic types
 export { BooleanTopic } from './topics/BooleanTopic';
 export { DoubleTopic } from './topics/DoubleTopic';
@@ -19,6 +45,9 @@ export { DoubleArrayTopic } from './topics/DoubleArrayTopic';
 export { IntegerArrayTopic } from './topics/IntegerArrayTopic';
 export { FloatArrayTopic } from './topics/FloatArrayTopic';
 export { StringArrayTopic } from './topics/StringArrayTopic';
+export { StructTopic } from './topics/StructTopic';
+export { StructArrayTopic } from './topics/StructArrayTopic';
+export { ProtobufTopic } from './topics/ProtobufTopic';
 
 // Export entry types
 export { BooleanEntry } from './entries/BooleanEntry';
@@ -32,3 +61,37 @@ export { DoubleArrayEntry } from './entries/DoubleArrayEntry';
 export { IntegerArrayEntry } from './entries/IntegerArrayEntry';
 export { FloatArrayEntry } from './entries/FloatArrayEntry';
 export { StringArrayEntry } from './entries/StringArrayEntry';
+export { StructEntry } from './entries/StructEntry';
+export { StructArrayEntry } from './entries/StructArrayEntry';
+export { ProtobufEntry } from './entries/ProtobufEntry';
+
+// Export publisher and subscriber types
+export type { PubSubOptions } from './PubSubOptions';
+export { BooleanPublisher } from './publishers/BooleanPublisher';
+export { DoublePublisher } from './publishers/DoublePublisher';
+export { IntegerPublisher } from './publishers/IntegerPublisher';
+export { FloatPublisher } from './publishers/FloatPublisher';
+export { StringPublisher } from './publishers/StringPublisher';
+export { RawPublisher } from './publishers/RawPublisher';
+export { BooleanArrayPublisher } from './publishers/BooleanArrayPublisher';
+export { DoubleArrayPublisher } from './publishers/DoubleArrayPublisher';
+export { IntegerArrayPublisher } from './publishers/IntegerArrayPublisher';
+export { FloatArrayPublisher } from './publishers/FloatArrayPublisher';
+export { StringArrayPublisher } from './publishers/StringArrayPublisher';
+export { StructPublisher } from './publishers/StructPublisher';
+export { StructArrayPublisher } from './publishers/StructArrayPublisher';
+export { ProtobufPublisher } from './publishers/ProtobufPublisher';
+export { BooleanSubscriber } from './subscribers/BooleanSubscriber';
+export { DoubleSubscriber } from './subscribers/DoubleSubscriber';
+export { IntegerSubscriber } from './subscribers/IntegerSubscriber';
+export { FloatSubscriber } from './subscribers/FloatSubscriber';
+export { StringSubscriber } from './subscribers/StringSubscriber';
+export { RawSubscriber } from './subscribers/RawSubscriber';
+export { BooleanArraySubscriber } from './subscribers/BooleanArraySubscriber';
+export { DoubleArraySubscriber } from './subscribers/DoubleArraySubscriber';
+export { IntegerArraySubscriber } from './subscribers/IntegerArraySubscriber';
+export { FloatArraySubscriber } from './subscribers/FloatArraySubscriber';
+export { StringArraySubscriber } from './subscribers/StringArraySubscriber';
+export { StructSubscriber } from './subscribers/StructSubscriber';
+export { StructArraySubscriber } from './subscribers/StructArraySubscriber';
+export { ProtobufSubscriber } from './subscribers/ProtobufSubscriber';
@@ -0,0 +1,73 @@
+import { BooleanArrayTopic } from '../topics/BooleanArrayTopic';
+import { PubSubOptions, resolvePubSubOptions, valuesEqual } from '../PubSubOptions';
+
+/**
+ * NetworkTables Boolean Array publisher.
+ */
+export class BooleanArrayPublisher {
+  private topic: BooleanArrayTopic;
+  private keepDuplicates: boolean;
+  private lastValue: boolean[] | undefined = undefined;
+  private published: boolean = true;
+
+  /**
+   * Constructor; use BooleanArrayTopic.getPublisher() instead. Publishes the topic.
+   *
+   * @param topic Topic
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   */
+  constructor(topic: BooleanArrayTopic, options: PubSubOptions = {}, properties: Record<string, any> = {}) {
+    this.topic = topic;
+    this.keepDuplicates = resolvePubSubOptions(options).keepDuplicates;
+    topic.publish(BooleanArrayTopic.kTypeString, properties);
+  }
+
+  /**
+   * Gets the topic for the publisher.
+   *
+   * @returns Topic
+   */
+  public getTopic(): BooleanArrayTopic {
+    return this.topic;
+  }
+
+  /**
+   * Publish a new value.
+   *
+   * @param value value to publish
+   */
+  public set(value: boolean[]): void {
+    if (!this.published) {
+      return;
+    }
+    const data = value.slice();
+    if (!this.keepDuplicates && this.lastValue !== undefined && valuesEqual(this.lastValue, data)) {
+      return;
+    }
+    this.topic.getInstance().addSample(this.topic.getName(), data);
+    this.lastValue = data;
+  }
+
+  /**
+   * Publish a default value. On reconnect, a default value will never be used
+   * in preference to a published value.
+   *
+   * @param value value
+   */
+  public setDefault(value: boolean[]): void {
+    if (this.lastValue === undefined && !this.topic.getInstance().hasValue(this.topic.getName())) {
+      this.set(value);
+    }
+  }
+
+  /**
+   * Stops publishing the topic.
+   */
+  public close(): void {
+    if (this.published) {
+      this.topic.unpublish();
+      this.published = false;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { DoubleTopic } from '../topics/DoubleTopic';
+import { PubSubOptions, resolvePubSubOptions, valuesEqual } from '../PubSubOptions';
+
+/**
+ * NetworkTables Double publisher.
+ */
+export class DoublePublisher {
+  private topic: DoubleTopic;
+  private keepDuplicates: boolean;
+  private lastValue: number | undefined = undefined;
+  private published: boolean = true;
+
+  /**
+   * Constructor; use DoubleTopic.getPublisher() instead. Publishes the topic.
+   *
+   * @param topic Topic
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   */
+  constructor(topic: DoubleTopic, options: PubSubOptions = {}, properties: Record<string, any> = {}) {
+    this.topic = topic;
+    this.keepDuplicates = resolvePubSubOptions(options).keepDuplicates;
+    topic.publish(DoubleTopic.kTypeString, properties);
+  }
+
+  /**
+   * Gets the topic for the publisher.
+   *
+   * @returns Topic
+   */
+  public getTopic(): DoubleTopic {
+    return this.topic;
+  }
+
+  /**
+   * Publish a new value.
+   *
+   * @param value value to publish
+   */
+  public set(value: number): void {
+    if (!this.published) {
+      return;
+    }
+    const data = value;
+    if (!this.keepDuplicates && this.lastValue !== undefined && valuesEqual(this.lastValue, data)) {
+      return;
+    }
+    this.topic.getInstance().addSample(this.topic.getName(), data);
+    this.lastValue = data;
+  }
+
+  /**
+   * Publish a default value. On reconnect, a default value will never be used
+   * in preference to a published value.
+   *
+   * @param value value
+   */
+  public setDefault(value: number): void {
+    if (this.lastValue === undefined && !this.topic.getInstance().hasValue(this.topic.getName())) {
+      this.set(value);
+    }
+  }
+
+  /**
+   * Stops publishing the topic.
+   */
+  public close(): void {
+    if (this.published) {
+      this.topic.unpublish();
+      this.published = false;
+    }
+  }
+}
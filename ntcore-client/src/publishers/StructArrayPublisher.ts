@@ -0,0 +1,74 @@
+import { getStructTypeString, packStructArray } from 'wpiutil';
+import { StructArrayTopic } from '../topics/StructArrayTopic';
+import { PubSubOptions, resolvePubSubOptions, valuesEqual } from '../PubSubOptions';
+
+/**
+ * NetworkTables struct-encoded array publisher.
+ */
+export class StructArrayPublisher<T> {
+  private topic: StructArrayTopic<T>;
+  private keepDuplicates: boolean;
+  private lastValue: Uint8Array | undefined = undefined;
+  private published: boolean = true;
+
+  /**
+   * Constructor; use StructArrayTopic.getPublisher() instead. Publishes the topic.
+   *
+   * @param topic Topic
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   */
+  constructor(topic: StructArrayTopic<T>, options: PubSubOptions = {}, properties: Record<string, any> = {}) {
+    this.topic = topic;
+    this.keepDuplicates = resolvePubSubOptions(options).keepDuplicates;
+    topic.publish(getStructTypeString(topic.getStruct()) + '[]', properties);
+  }
+
+  /**
+   * Gets the topic for the publisher.
+   *
+   * @returns Topic
+   */
+  public getTopic(): StructArrayTopic<T> {
+    return this.topic;
+  }
+
+  /**
+   * Publish a new value.
+   *
+   * @param value value to publish
+   */
+  public set(value: T[]): void {
+    if (!this.published) {
+      return;
+    }
+    const data = packStructArray(this.topic.getStruct(), value);
+    if (!this.keepDuplicates && this.lastValue !== undefined && valuesEqual(this.lastValue, data)) {
+      return;
+    }
+    this.topic.getInstance().addSample(this.topic.getName(), data);
+    this.lastValue = data;
+  }
+
+  /**
+   * Publish a default value. On reconnect, a default value will never be used
+   * in preference to a published value.
+   *
+   * @param value value
+   */
+  public setDefault(value: T[]): void {
+    if (this.lastValue === undefined && !this.topic.getInstance().hasValue(this.topic.getName())) {
+      this.set(value);
+    }
+  }
+
+  /**
+   * Stops publishing the topic.
+   */
+  public close(): void {
+    if (this.published) {
+      this.topic.unpublish();
+      this.published = false;
+    }
+  }
+}
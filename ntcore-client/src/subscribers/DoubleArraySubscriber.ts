@@ -0,0 +1,151 @@
+import { DoubleArrayTopic } from '../topics/DoubleArrayTopic';
+import { NetworkTableEvent } from '../NetworkTableEvent';
+import { TimestampedObject, TimestampedDoubleArray } from '../TimestampedObject';
+import { PubSubOptions, resolvePubSubOptions, valuesEqual } from '../PubSubOptions';
+
+/**
+ * NetworkTables Double Array subscriber.
+ */
+export class DoubleArraySubscriber {
+  private topic: DoubleArrayTopic;
+  private defaultValue: number[];
+  private value: number[];
+  private serverTime: number = 0;
+  private lastValue: number[] | undefined = undefined;
+  private lastTimestamp: number = 0;
+  private listenerHandle: number = -1;
+  private queue: TimestampedDoubleArray[] = [];
+  private pollStorage: number;
+  private keepDuplicates: boolean;
+
+  /**
+   * Constructor; use DoubleArrayTopic.getSubscriber() instead.
+   *
+   * @param topic Topic
+   * @param defaultValue Default value for get()
+   * @param options subscribe options
+   */
+  constructor(topic: DoubleArrayTopic, defaultValue: number[], options: PubSubOptions = {}) {
+    const resolved = resolvePubSubOptions(options);
+    this.topic = topic;
+    this.defaultValue = defaultValue;
+    this.value = defaultValue;
+    this.pollStorage = resolved.pollStorage;
+    this.keepDuplicates = resolved.keepDuplicates;
+
+    this.listenerHandle = topic.getInstance().addValueListener(
+      topic,
+      resolved.periodic,
+      resolved.sendAll,
+      this.onValue.bind(this),
+      resolved.excludeSelf
+    );
+  }
+
+  /**
+   * Gets the topic for the subscriber.
+   *
+   * @returns Topic
+   */
+  public getTopic(): DoubleArrayTopic {
+    return this.topic;
+  }
+
+  /**
+   * Get the last published value.
+   * If no value has been published, returns the stored default value.
+   *
+   * @param defaultValue default value to return if no value has been published (optional)
+   * @returns value
+   */
+  public get(defaultValue: number[] = this.defaultValue): number[] {
+    return this.lastTimestamp !== 0 ? this.value : defaultValue;
+  }
+
+  /**
+   * Get the last published value along with its timestamp.
+   * If no value has been published, returns the stored default value and a
+   * timestamp of 0.
+   *
+   * @param defaultValue default value to return if no value has been published (optional)
+   * @returns timestamped value
+   */
+  public getAtomic(defaultValue: number[] = this.defaultValue): TimestampedDoubleArray {
+    if (this.lastTimestamp === 0) {
+      return new TimestampedObject<number[]>(0, 0, defaultValue);
+    }
+    return new TimestampedObject<number[]>(this.lastTimestamp, this.serverTime, this.value);
+  }
+
+  /**
+   * Gets the last time the value was changed.
+   *
+   * @returns Time in microseconds; 0 if no value has been received
+   */
+  public getLastChange(): number {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Get an array of all value changes since the last call to readQueue.
+   * Also provides a timestamp for each value.
+   *
+   * The "poll storage" subscribe option can be used to set the queue depth.
+   *
+   * @returns Array of timestamped values; empty array if no new changes have been received
+   */
+  public readQueue(): TimestampedDoubleArray[] {
+    const values = this.queue;
+    this.queue = [];
+    return values;
+  }
+
+  /**
+   * Get an array of all value changes since the last call to readQueue.
+   *
+   * The "poll storage" subscribe option can be used to set the queue depth.
+   *
+   * @returns Array of values; empty array if no new changes have been received
+   */
+  public readQueueValues(): number[][] {
+    return this.readQueue().map((timestamped) => timestamped.value);
+  }
+
+  /**
+   * Determines if the topic exists (has a publisher).
+   *
+   * @returns True if the topic exists
+   */
+  public exists(): boolean {
+    return this.topic.exists();
+  }
+
+  /**
+   * Stops the subscription.
+   */
+  public close(): void {
+    if (this.listenerHandle !== -1) {
+      this.topic.getInstance().removeListener(this.listenerHandle);
+      this.listenerHandle = -1;
+    }
+  }
+
+  private onValue(event: NetworkTableEvent): void {
+    if (event.valueData === null) {
+      return;
+    }
+    const value: number[] = event.valueData.value;
+    if (!this.keepDuplicates && this.lastTimestamp !== 0 && valuesEqual(this.lastValue, event.valueData.value)) {
+      return;
+    }
+    const timestamp = Date.now() * 1000;
+    this.queue.push(new TimestampedObject<number[]>(timestamp, event.valueData.serverTime, value));
+    if (this.queue.length > this.pollStorage) {
+      this.queue.splice(0, this.queue.length - this.pollStorage);
+    }
+    this.value = value;
+    this.lastValue = event.valueData.value;
+    this.serverTime = event.valueData.serverTime;
+    this.lastTimestamp = timestamp;
+  }
+}
@@ -1,5 +1,8 @@
 import { Topic } from '../Topic';
 import { BooleanArrayEntry } from '../entries/BooleanArrayEntry';
+import { BooleanArrayPublisher } from '../publishers/BooleanArrayPublisher';
+import { BooleanArraySubscriber } from '../subscribers/BooleanArraySubscriber';
+import { PubSubOptions } from '../PubSubOptions';
 
 /**
  * NetworkTables Boolean Array topic.
@@ -35,13 +38,51 @@ export class BooleanArrayTopic extends Topic {
     return super.publish(BooleanArrayTopic.kTypeString, properties);
   }
 
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): BooleanArrayPublisher {
+    return new BooleanArrayPublisher(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: boolean[] = [], options: PubSubOptions = {}): BooleanArraySubscriber {
+    return new BooleanArraySubscriber(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue?: boolean[], options?: PubSubOptions): BooleanArrayEntry;
   /**
    * Create a new entry for the topic.
    *
    * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
    * @returns entry
    */
-  public getEntry(defaultValue: boolean[] = []): BooleanArrayEntry {
-    return new BooleanArrayEntry(this, defaultValue);
+  public getEntry(defaultValue: boolean[], periodic: number, sendAll?: boolean, pollStorage?: number): BooleanArrayEntry;
+  public getEntry(defaultValue: boolean[] = [], periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): BooleanArrayEntry {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new BooleanArrayEntry(this, defaultValue, options);
   }
 }
@@ -1,5 +1,8 @@
 import { Topic } from '../Topic';
 import { DoubleArrayEntry } from '../entries/DoubleArrayEntry';
+import { DoubleArrayPublisher } from '../publishers/DoubleArrayPublisher';
+import { DoubleArraySubscriber } from '../subscribers/DoubleArraySubscriber';
+import { PubSubOptions } from '../PubSubOptions';
 
 /**
  * NetworkTables Double Array topic.
@@ -35,13 +38,51 @@ export class DoubleArrayTopic extends Topic {
     return super.publish(DoubleArrayTopic.kTypeString, properties);
   }
 
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): DoubleArrayPublisher {
+    return new DoubleArrayPublisher(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: number[] = [], options: PubSubOptions = {}): DoubleArraySubscriber {
+    return new DoubleArraySubscriber(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue?: number[], options?: PubSubOptions): DoubleArrayEntry;
   /**
    * Create a new entry for the topic.
    *
    * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
    * @returns entry
    */
-  public getEntry(defaultValue: number[] = []): DoubleArrayEntry {
-    return new DoubleArrayEntry(this, defaultValue);
+  public getEntry(defaultValue: number[], periodic: number, sendAll?: boolean, pollStorage?: number): DoubleArrayEntry;
+  public getEntry(defaultValue: number[] = [], periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): DoubleArrayEntry {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new DoubleArrayEntry(this, defaultValue, options);
   }
 }
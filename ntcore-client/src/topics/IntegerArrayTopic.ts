@@ -1,5 +1,8 @@
 import { Topic } from '../Topic';
 import { IntegerArrayEntry } from '../entries/IntegerArrayEntry';
+import { IntegerArrayPublisher } from '../publishers/IntegerArrayPublisher';
+import { IntegerArraySubscriber } from '../subscribers/IntegerArraySubscriber';
+import { PubSubOptions } from '../PubSubOptions';
 
 /**
  * NetworkTables Integer Array topic.
@@ -35,13 +38,51 @@ export class IntegerArrayTopic extends Topic {
     return super.publish(IntegerArrayTopic.kTypeString, properties);
   }
 
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): IntegerArrayPublisher {
+    return new IntegerArrayPublisher(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: number[] = [], options: PubSubOptions = {}): IntegerArraySubscriber {
+    return new IntegerArraySubscriber(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue?: number[], options?: PubSubOptions): IntegerArrayEntry;
   /**
    * Create a new entry for the topic.
    *
    * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
    * @returns entry
    */
-  public getEntry(defaultValue: number[] = []): IntegerArrayEntry {
-    return new IntegerArrayEntry(this, defaultValue);
+  public getEntry(defaultValue: number[], periodic: number, sendAll?: boolean, pollStorage?: number): IntegerArrayEntry;
+  public getEntry(defaultValue: number[] = [], periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): IntegerArrayEntry {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new IntegerArrayEntry(this, defaultValue, options);
   }
 }
@@ -1,5 +1,8 @@
 import { Topic } from '../Topic';
 import { IntegerEntry } from '../entries/IntegerEntry';
+import { IntegerPublisher } from '../publishers/IntegerPublisher';
+import { IntegerSubscriber } from '../subscribers/IntegerSubscriber';
+import { PubSubOptions } from '../PubSubOptions';
 
 /**
  * NetworkTables Integer topic.
@@ -35,13 +38,51 @@ export class IntegerTopic extends Topic {
     return super.publish(IntegerTopic.kTypeString, properties);
   }
 
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): IntegerPublisher {
+    return new IntegerPublisher(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: number = 0, options: PubSubOptions = {}): IntegerSubscriber {
+    return new IntegerSubscriber(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue?: number, options?: PubSubOptions): IntegerEntry;
   /**
    * Create a new entry for the topic.
    *
    * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
    * @returns entry
    */
-  public getEntry(defaultValue: number = 0): IntegerEntry {
-    return new IntegerEntry(this, defaultValue);
+  public getEntry(defaultValue: number, periodic: number, sendAll?: boolean, pollStorage?: number): IntegerEntry;
+  public getEntry(defaultValue: number = 0, periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): IntegerEntry {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new IntegerEntry(this, defaultValue, options);
   }
 }
@@ -0,0 +1,101 @@
+import { Protobuf, getProtobufTypeString } from 'wpiutil';
+import { Topic } from '../Topic';
+import { ProtobufEntry } from '../entries/ProtobufEntry';
+import { ProtobufPublisher } from '../publishers/ProtobufPublisher';
+import { ProtobufSubscriber } from '../subscribers/ProtobufSubscriber';
+import { PubSubOptions } from '../PubSubOptions';
+
+/**
+ * NetworkTables protobuf-encoded value topic.
+ */
+export class ProtobufTopic<T> extends Topic {
+  private proto: Protobuf<T>;
+
+  /**
+   * Construct from a generic topic.
+   *
+   * @param topic Topic
+   * @param proto protobuf serializer
+   */
+  constructor(topic: Topic, proto: Protobuf<T>) {
+    super(topic.getInstance(), topic.getName());
+    this.proto = proto;
+
+    // Copy properties from the generic topic
+    if (topic.exists()) {
+      this.exists_ = true;
+      this.type = topic.getType();
+      this.properties = topic.getProperties();
+    }
+  }
+
+  /**
+   * Gets the protobuf serializer for the topic.
+   *
+   * @returns protobuf serializer
+   */
+  public getProto(): Protobuf<T> {
+    return this.proto;
+  }
+
+  /**
+   * Publishes the topic with the protobuf type, and publishes the protobuf
+   * file descriptors.
+   *
+   * @param typeStr type string (ignored, always uses the protobuf type)
+   * @param properties properties to set
+   * @returns True if successful
+   */
+  public publish(typeStr: string = '', properties: Record<string, any> = {}): boolean {
+    this.instance.addSchema(this.proto);
+    return super.publish(getProtobufTypeString(this.proto), properties);
+  }
+
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): ProtobufPublisher<T> {
+    return new ProtobufPublisher<T>(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: T, options: PubSubOptions = {}): ProtobufSubscriber<T> {
+    return new ProtobufSubscriber<T>(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue: T, options?: PubSubOptions): ProtobufEntry<T>;
+  /**
+   * Create a new entry for the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
+   * @returns entry
+   */
+  public getEntry(defaultValue: T, periodic: number, sendAll?: boolean, pollStorage?: number): ProtobufEntry<T>;
+  public getEntry(defaultValue: T, periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): ProtobufEntry<T> {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new ProtobufEntry<T>(this, defaultValue, options);
+  }
+}
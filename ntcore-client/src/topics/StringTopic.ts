@@ -1,5 +1,8 @@
 import { Topic } from '../Topic';
 import { StringEntry } from '../entries/StringEntry';
+import { StringPublisher } from '../publishers/StringPublisher';
+import { StringSubscriber } from '../subscribers/StringSubscriber';
+import { PubSubOptions } from '../PubSubOptions';
 
 /**
  * NetworkTables String topic.
@@ -35,13 +38,51 @@ export class StringTopic extends Topic {
     return super.publish(StringTopic.kTypeString, properties);
   }
 
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): StringPublisher {
+    return new StringPublisher(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: string = '', options: PubSubOptions = {}): StringSubscriber {
+    return new StringSubscriber(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue?: string, options?: PubSubOptions): StringEntry;
   /**
    * Create a new entry for the topic.
    *
    * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
    * @returns entry
    */
-  public getEntry(defaultValue: string = ''): StringEntry {
-    return new StringEntry(this, defaultValue);
+  public getEntry(defaultValue: string, periodic: number, sendAll?: boolean, pollStorage?: number): StringEntry;
+  public getEntry(defaultValue: string = '', periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): StringEntry {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new StringEntry(this, defaultValue, options);
   }
 }
@@ -0,0 +1,100 @@
+import { StructSerializer, getStructTypeString } from 'wpiutil';
+import { Topic } from '../Topic';
+import { StructEntry } from '../entries/StructEntry';
+import { StructPublisher } from '../publishers/StructPublisher';
+import { StructSubscriber } from '../subscribers/StructSubscriber';
+import { PubSubOptions } from '../PubSubOptions';
+
+/**
+ * NetworkTables struct-encoded value topic.
+ */
+export class StructTopic<T> extends Topic {
+  private struct: StructSerializer<T>;
+
+  /**
+   * Construct from a generic topic.
+   *
+   * @param topic Topic
+   * @param struct struct serializer
+   */
+  constructor(topic: Topic, struct: StructSerializer<T>) {
+    super(topic.getInstance(), topic.getName());
+    this.struct = struct;
+
+    // Copy properties from the generic topic
+    if (topic.exists()) {
+      this.exists_ = true;
+      this.type = topic.getType();
+      this.properties = topic.getProperties();
+    }
+  }
+
+  /**
+   * Gets the struct serializer for the topic.
+   *
+   * @returns struct serializer
+   */
+  public getStruct(): StructSerializer<T> {
+    return this.struct;
+  }
+
+  /**
+   * Publishes the topic with the struct type, and publishes the struct schema.
+   *
+   * @param typeStr type string (ignored, always uses the struct type)
+   * @param properties properties to set
+   * @returns True if successful
+   */
+  public publish(typeStr: string = '', properties: Record<string, any> = {}): boolean {
+    this.instance.addSchema(this.struct);
+    return super.publish(getStructTypeString(this.struct), properties);
+  }
+
+  /**
+   * Create a new publisher to the topic. The topic is published immediately
+   * with this topic's type; the publisher stops publishing when closed.
+   *
+   * @param options publish options
+   * @param properties properties to publish the topic with
+   * @returns publisher
+   */
+  public getPublisher(options: PubSubOptions = {}, properties: Record<string, any> = {}): StructPublisher<T> {
+    return new StructPublisher<T>(this, options, properties);
+  }
+
+  /**
+   * Create a new subscriber to the topic. The subscriber receives values but
+   * never publishes the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options subscribe options
+   * @returns subscriber
+   */
+  public getSubscriber(defaultValue: T, options: PubSubOptions = {}): StructSubscriber<T> {
+    return new StructSubscriber<T>(this, defaultValue, options);
+  }
+
+  /**
+   * Create a new entry for the topic. Entries subscribe to the topic and
+   * publish it the first time a value is set.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param options publish and subscribe options
+   * @returns entry
+   */
+  public getEntry(defaultValue: T, options?: PubSubOptions): StructEntry<T>;
+  /**
+   * Create a new entry for the topic.
+   *
+   * @param defaultValue default value used when a default is not provided to a getter function
+   * @param periodic how frequently the server should send updates, in seconds
+   * @param sendAll if true, the server sends every value instead of only the most recent one
+   * @param pollStorage number of values to keep for readQueue() (0 for the default)
+   * @returns entry
+   */
+  public getEntry(defaultValue: T, periodic: number, sendAll?: boolean, pollStorage?: number): StructEntry<T>;
+  public getEntry(defaultValue: T, periodicOrOptions: number | PubSubOptions = {}, sendAll: boolean = false, pollStorage: number = 0): StructEntry<T> {
+    const options = typeof periodicOrOptions === 'number' ? { periodic: periodicOrOptions, sendAll, pollStorage } : periodicOrOptions;
+    return new StructEntry<T>(this, defaultValue, options);
+  }
+}
@@ -1,5 +1,7 @@
 // Node.js specific type definitions for NT4 client
 
+import type { NT4_Topic } from './NT4';
+
 // Custom CloseEvent for Node.js environment
 export interface CloseEvent {
   code?: number;
@@ -25,3 +27,33 @@ export function createCloseEvent(reason: string = 'close'): CloseEvent {
 
 // Type for node-fetch Response to avoid type conflicts
 export type FetchResponse = any;
+
+/**
+ * The operations the ntcore-like API needs from whatever is moving values on
+ * the network. Implemented by both the NT4 client and the NT4 server, so that
+ * topics and entries work the same way regardless of the instance's mode.
+ */
+export interface NTEndpoint {
+  subscribe(
+    topicPatterns: string[],
+    prefixMode: boolean,
+    sendAll?: boolean,
+    periodic?: number,
+  ): number;
+  subscribeTopicsOnly(topicPatterns: string[], prefixMode: boolean): number;
+  unsubscribe(subscriptionId: number): void;
+  clearAllSubscriptions(): void;
+  setProperties(topic: string, properties: { [id: string]: any }): void;
+  setPersistent(topic: string, isPersistent: boolean): void;
+  setRetained(topic: string, isRetained: boolean): void;
+  publishTopic(topic: string, type: string): void;
+  unpublishTopic(topic: string): void;
+  getPublishedTopics(): NT4_Topic[];
+  addSample(topic: string, value: any): void;
+  addTimestampedSample(topic: string, timestamp: number, value: any): void;
+  flush(): void;
+  getClientTime_us(): number;
+  getServerTime_us(clientTime?: number): number | null;
+  getNetworkLatency_us(): number;
+  disconnect(): void;
+}
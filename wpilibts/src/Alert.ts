@@ -0,0 +1,258 @@
+import { Sendable, SendableBuilder, SendableRegistry, Timestamp } from 'wpiutil';
+import { SmartDashboard } from './smartdashboard/SmartDashboard';
+
+/**
+ * Represents an alert's level of urgency.
+ */
+export enum AlertType {
+  /**
+   * High priority alert - displayed first on the dashboard with a red "X"
+   * symbol. Use this type for problems which will seriously affect the
+   * robot's functionality and thus require immediate attention.
+   */
+  kError,
+
+  /**
+   * Medium priority alert - displayed second on the dashboard with a yellow
+   * "!" symbol. Use this type for problems which could affect the robot's
+   * functionality but do not necessarily require immediate attention.
+   */
+  kWarning,
+
+  /**
+   * Low priority alert - displayed last on the dashboard with a green "i"
+   * symbol. Use this type for problems which are unlikely to affect the
+   * robot's functionality, or any other alerts which do not fall under the
+   * other categories.
+   */
+  kInfo
+}
+
+/**
+ * An active alert as shown on the dashboard.
+ */
+interface PublishedAlert {
+  timestamp: number;
+  text: string;
+}
+
+/**
+ * Persistent alert to be sent via NetworkTables. Alerts are tagged with a
+ * type of kError, kWarning, or kInfo to denote urgency. See AlertType for
+ * suggested usage of each type. Alerts can be displayed on supported
+ * dashboards, and are shown in a priority order based on type and recency of
+ * activation, with newly activated alerts first.
+ *
+ * Alerts should be created once and stored persistently, then updated to
+ * "active" or "inactive" as necessary. set(boolean) can be safely called
+ * periodically.
+ *
+ * Each group of alerts is a Sendable registered with the SendableRegistry
+ * and put on the SmartDashboard under the group name, so the alerts are
+ * published by SmartDashboard.updateValues() every robot loop.
+ *
+ * ```typescript
+ * class Robot {
+ *   private readonly alert = new Alert('Something went wrong', AlertType.kWarning);
+ *
+ *   periodic(): void {
+ *     this.alert.set(...);
+ *   }
+ * }
+ * ```
+ *
+ * Alternatively, alerts which are only used once at startup can be created
+ * and activated inline.
+ *
+ * ```typescript
+ * constructor() {
+ *   new Alert('Failed to load auto paths', AlertType.kError).set(true);
+ * }
+ * ```
+ */
+export class Alert {
+  private readonly m_type: AlertType;
+  private m_active: boolean = false;
+  private m_activeStartTime: number = 0;
+  private m_text: string;
+  private readonly m_activeAlerts: PublishedAlert[];
+
+  /**
+   * Creates a new alert in the default group - "Alerts". If this is the first
+   * to be instantiated, the appropriate entries will be added to
+   * NetworkTables.
+   *
+   * @param text Text to be displayed when the alert is active.
+   * @param type Alert urgency level.
+   */
+  constructor(text: string, type: AlertType);
+  /**
+   * Creates a new alert. If this is the first to be instantiated in its
+   * group, the appropriate entries will be added to NetworkTables.
+   *
+   * @param group Group identifier, used as the entry name in NetworkTables.
+   * @param text Text to be displayed when the alert is active.
+   * @param type Alert urgency level.
+   */
+  constructor(group: string, text: string, type: AlertType);
+  constructor(groupOrText: string, textOrType: string | AlertType, type?: AlertType) {
+    const group = type === undefined ? 'Alerts' : groupOrText;
+    this.m_text = type === undefined ? groupOrText : (textOrType as string);
+    this.m_type = type === undefined ? (textOrType as AlertType) : type;
+    this.m_activeAlerts = SendableAlerts.forGroup(group).getActiveAlertsStorage(this.m_type);
+  }
+
+  /**
+   * Sets whether the alert should currently be displayed. This method can be
+   * safely called periodically.
+   *
+   * @param active Whether to display the alert.
+   */
+  public set(active: boolean): void {
+    if (active === this.m_active) {
+      return;
+    }
+
+    if (active) {
+      this.m_activeStartTime = Number(Timestamp.getMicroseconds());
+      SendableAlerts.insert(this.m_activeAlerts, { timestamp: this.m_activeStartTime, text: this.m_text });
+    } else {
+      SendableAlerts.remove(this.m_activeAlerts, { timestamp: this.m_activeStartTime, text: this.m_text });
+    }
+    this.m_active = active;
+  }
+
+  /**
+   * Gets whether the alert is active.
+   *
+   * @return whether the alert is active.
+   */
+  public get(): boolean {
+    return this.m_active;
+  }
+
+  /**
+   * Updates current alert text. Use this method to dynamically change the
+   * displayed alert, such as including more details about the detected
+   * problem.
+   *
+   * @param text Text to be displayed when the alert is active.
+   */
+  public setText(text: string): void {
+    if (text === this.m_text) {
+      return;
+    }
+    const oldText = this.m_text;
+    this.m_text = text;
+    if (this.m_active) {
+      SendableAlerts.remove(this.m_activeAlerts, { timestamp: this.m_activeStartTime, text: oldText });
+      SendableAlerts.insert(this.m_activeAlerts, { timestamp: this.m_activeStartTime, text: this.m_text });
+    }
+  }
+
+  /**
+   * Gets the current alert text.
+   *
+   * @return the current text.
+   */
+  public getText(): string {
+    return this.m_text;
+  }
+
+  /**
+   * Get the type of this alert.
+   *
+   * @return the type
+   */
+  public getType(): AlertType {
+    return this.m_type;
+  }
+
+  /**
+   * Deactivates the alert.
+   */
+  public close(): void {
+    this.set(false);
+  }
+}
+
+/**
+ * The Sendable publishing the active alerts of one group.
+ */
+class SendableAlerts implements Sendable {
+  private static readonly s_groups = new Map<string, SendableAlerts>();
+
+  private readonly m_alerts = new Map<AlertType, PublishedAlert[]>([
+    [AlertType.kError, []],
+    [AlertType.kWarning, []],
+    [AlertType.kInfo, []]
+  ]);
+
+  /**
+   * Returns a reference to the set of active alerts for the given type.
+   *
+   * @param type the type
+   * @return reference to the set of active alerts for the type
+   */
+  public getActiveAlertsStorage(type: AlertType): PublishedAlert[] {
+    return this.m_alerts.get(type)!;
+  }
+
+  private getStrings(type: AlertType): string[] {
+    return this.m_alerts.get(type)!.map((alert) => alert.text);
+  }
+
+  public initSendable(builder: SendableBuilder): void {
+    builder.setSmartDashboardType('Alerts');
+    builder.addStringArrayProperty('errors', () => this.getStrings(AlertType.kError));
+    builder.addStringArrayProperty('warnings', () => this.getStrings(AlertType.kWarning));
+    builder.addStringArrayProperty('infos', () => this.getStrings(AlertType.kInfo));
+  }
+
+  /**
+   * Gets the Sendable for a group, creating, registering and publishing it
+   * if it doesn't exist yet.
+   *
+   * @param group the group name
+   * @return the group's Sendable
+   */
+  public static forGroup(group: string): SendableAlerts {
+    let sendable = SendableAlerts.s_groups.get(group);
+    if (sendable === undefined) {
+      sendable = new SendableAlerts();
+      SendableAlerts.s_groups.set(group, sendable);
+      SendableRegistry.add(sendable, group);
+      SmartDashboard.putData(group, sendable);
+    }
+    return sendable;
+  }
+
+  /**
+   * Adds an alert, keeping alerts sorted with the most recently activated
+   * first (and by text for alerts activated at the same time).
+   */
+  public static insert(alerts: PublishedAlert[], alert: PublishedAlert): void {
+    if (alerts.some((other) => SendableAlerts.compare(other, alert) === 0)) {
+      return;
+    }
+    const index = alerts.findIndex((other) => SendableAlerts.compare(alert, other) < 0);
+    alerts.splice(index === -1 ? alerts.length : index, 0, alert);
+  }
+
+  /**
+   * Removes an alert with the same timestamp and text.
+   */
+  public static remove(alerts: PublishedAlert[], alert: PublishedAlert): void {
+    const index = alerts.findIndex((other) => SendableAlerts.compare(other, alert) === 0);
+    if (index !== -1) {
+      alerts.splice(index, 1);
+    }
+  }
+
+  private static compare(a: PublishedAlert, b: PublishedAlert): number {
+    if (a.timestamp !== b.timestamp) {
+      return b.timestamp - a.timestamp;
+    }
+    return a.text < b.text ? -1 : a.text > b.text ? 1 : 0;
+  }
+}
@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NetworkTableInstance } from 'ntcore-client';
+import { DataLog } from 'wpiutil';
+import { DriverStation, MatchInfo, MatchType } from './DriverStation';
+
+/**
+ * Centralized data log that provides automatic data log file management. It
+ * automatically cleans up old files when disk space is low and starts a new
+ * log file for each match.
+ *
+ * Log files are initially named "FRC_YYYYMMDD_HHMMSS.wpilog". Once a match is
+ * in progress (DriverStation.getMatchInfo() reports a match type), a new file
+ * named "FRC_YYYYMMDD_HHMMSS_{event}_{match}.wpilog" is started, where {match}
+ * is the match type letter (P, Q or E) followed by the match number (and the
+ * replay number, if any).
+ *
+ * By default, all NetworkTables value changes are stored to the data log.
+ */
+export class DataLogManager {
+  private static m_log: DataLog | null = null;
+  private static m_logDir: string = '';
+  private static m_filename: string = '';
+  private static m_matchKey: string = '';
+  private static m_messageEntry: number = 0;
+  private static m_logNetworkTables: boolean = true;
+  private static m_ntEntryLogger: number = 0;
+  private static m_ntConnLogger: number = 0;
+  private static m_period: number = 0.25;
+  private static m_timer: NodeJS.Timeout | null = null;
+
+  /** Free space (in bytes) below which old log files are deleted. */
+  private static readonly kFreeSpaceThreshold = 50_000_000;
+
+  private constructor() {}
+
+  /**
+   * Start data log manager. The parameters have no effect if the data log
+   * manager was already started (e.g. by calling another static function).
+   *
+   * @param dir if not empty, directory to use for data log storage; otherwise "logs" in the working directory
+   * @param filename filename to use; if none provided, the filename is automatically generated
+   * @param period time between flushes to disk and match checks, in seconds
+   */
+  public static start(dir: string = '', filename: string = '', period: number = 0.25): void {
+    if (DataLogManager.m_log !== null) {
+      return;
+    }
+
+    DataLogManager.m_logDir = dir !== '' ? dir : path.join(process.cwd(), 'logs');
+    fs.mkdirSync(DataLogManager.m_logDir, { recursive: true });
+    DataLogManager.cleanupOldLogs();
+
+    DataLogManager.m_period = period;
+    DataLogManager.openLog(filename !== '' ? filename : DataLogManager.makeLogFilename(''));
+    DataLogManager.m_timer = setInterval(DataLogManager.periodic, period * 1000);
+    DataLogManager.m_timer.unref();
+  }
+
+  /**
+   * Stop data log manager, flushing and closing the current log file.
+   */
+  public static stop(): void {
+    if (DataLogManager.m_timer !== null) {
+      clearInterval(DataLogManager.m_timer);
+      DataLogManager.m_timer = null;
+    }
+    DataLogManager.closeLog();
+    DataLogManager.m_matchKey = '';
+  }
+
+  /**
+   * Log a message to the "messages" entry. The message is also printed to
+   * standard output (followed by a newline).
+   *
+   * @param message message
+   */
+  public static log(message: string): void {
+    DataLogManager.start();
+    DataLogManager.m_log!.appendString(DataLogManager.m_messageEntry, message);
+    console.log(message);
+  }
+
+  /**
+   * Get the managed data log (for custom logging). Starts the data log
+   * manager if not already started.
+   *
+   * @return data log
+   */
+  public static getLog(): DataLog {
+    DataLogManager.start();
+    return DataLogManager.m_log!;
+  }
+
+  /**
+   * Get the log directory.
+   *
+   * @return log directory, or empty string if not started
+   */
+  public static getLogDir(): string {
+    return DataLogManager.m_logDir;
+  }
+
+  /**
+   * Get the name of the current log file.
+   *
+   * @return log filename (without directory), or empty string if not started
+   */
+  public static getLogFilename(): string {
+    return DataLogManager.m_filename;
+  }
+
+  /**
+   * Enable or disable logging of NetworkTables data. Note that unlike the
+   * network interface for NetworkTables, this will capture every value change.
+   * Defaults to enabled.
+   *
+   * @param enabled true to enable, false to disable
+   */
+  public static logNetworkTables(enabled: boolean): void {
+    const wasEnabled = DataLogManager.m_logNetworkTables;
+    DataLogManager.m_logNetworkTables = enabled;
+    if (DataLogManager.m_log === null) {
+      DataLogManager.start();
+    } else if (enabled && !wasEnabled) {
+      DataLogManager.startNTLog();
+    } else if (!enabled && wasEnabled) {
+      DataLogManager.stopNTLog();
+    }
+  }
+
+  /**
+   * Runs the periodic match check. Errors are reported rather than thrown, as
+   * nothing can catch them in a timer callback.
+   */
+  private static periodic(): void {
+    try {
+      DataLogManager.checkMatch();
+    } catch (error) {
+      console.error('DataLogManager: Failed to check for a new match:', error);
+    }
+  }
+
+  /**
+   * Starts a new log file when a new match begins.
+   */
+  private static checkMatch(): void {
+    if (DataLogManager.m_log === null) {
+      return;
+    }
+
+    const matchInfo = DriverStation.getInstance().getMatchInfo();
+    const matchKey = DataLogManager.getMatchKey(matchInfo);
+    if (matchKey !== '' && matchKey !== DataLogManager.m_matchKey) {
+      DataLogManager.m_matchKey = matchKey;
+      DataLogManager.closeLog();
+      DataLogManager.cleanupOldLogs();
+      DataLogManager.openLog(DataLogManager.makeLogFilename(matchKey));
+      DataLogManager.m_log!.appendString(DataLogManager.m_messageEntry, `Match ${matchKey} started`);
+    }
+  }
+
+  private static openLog(filename: string): void {
+    DataLogManager.m_filename = filename;
+    DataLogManager.m_log = new DataLog(path.join(DataLogManager.m_logDir, filename), '', DataLogManager.m_period);
+    DataLogManager.m_messageEntry = DataLogManager.m_log.start('messages', 'string');
+    if (DataLogManager.m_logNetworkTables) {
+      DataLogManager.startNTLog();
+    }
+  }
+
+  private static closeLog(): void {
+    if (DataLogManager.m_log === null) {
+      return;
+    }
+    DataLogManager.stopNTLog();
+    DataLogManager.m_log.close();
+    DataLogManager.m_log = null;
+    DataLogManager.m_filename = '';
+  }
+
+  private static startNTLog(): void {
+    const inst = NetworkTableInstance.getDefault();
+    DataLogManager.m_ntEntryLogger = inst.startEntryDataLog(DataLogManager.m_log!, '', 'NT:');
+    DataLogManager.m_ntConnLogger = inst.startConnectionDataLog(DataLogManager.m_log!, 'systemTime/NTConnection');
+  }
+
+  private static stopNTLog(): void {
+    if (DataLogManager.m_ntEntryLogger === 0) {
+      return;
+    }
+    const inst = NetworkTableInstance.getDefault();
+    inst.stopEntryDataLog(DataLogManager.m_ntEntryLogger);
+    inst.stopConnectionDataLog(DataLogManager.m_ntConnLogger);
+    DataLogManager.m_ntEntryLogger = 0;
+    DataLogManager.m_ntConnLogger = 0;
+  }
+
+  /**
+   * Gets a short name for the current match (e.g. "Q12"), or an empty string
+   * if no match is in progress.
+   */
+  private static getMatchKey(matchInfo: MatchInfo): string {
+    let typeChar: string;
+    switch (matchInfo.matchType) {
+      case MatchType.kPractice:
+        typeChar = 'P';
+        break;
+      case MatchType.kQualification:
+        typeChar = 'Q';
+        break;
+      case MatchType.kElimination:
+        typeChar = 'E';
+        break;
+      default:
+        return '';
+    }
+    const replay = matchInfo.replayNumber > 1 ? `_${matchInfo.replayNumber}` : '';
+    const event = matchInfo.eventName !== '' ? `${matchInfo.eventName}_` : '';
+    return `${event}${typeChar}${matchInfo.matchNumber}${replay}`;
+  }
+
+  private static makeLogFilename(matchKey: string): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+    const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+    return `FRC_${date}_${time}${matchKey !== '' ? `_${matchKey}` : ''}.wpilog`;
+  }
+
+  /**
+   * Deletes the oldest log files in the log directory while free space is
+   * below the threshold.
+   */
+  private static cleanupOldLogs(): void {
+    let freeSpace: number;
+    try {
+      const stats = fs.statfsSync(DataLogManager.m_logDir);
+      freeSpace = stats.bavail * stats.bsize;
+    } catch {
+      return;
+    }
+    if (freeSpace >= DataLogManager.kFreeSpaceThreshold) {
+      return;
+    }
+
+    const files = fs
+      .readdirSync(DataLogManager.m_logDir)
+      .filter((name) => name.startsWith('FRC_') && name.endsWith('.wpilog') && name !== DataLogManager.m_filename)
+      .map((name) => {
+        const file = path.join(DataLogManager.m_logDir, name);
+        return { file, mtime: fs.statSync(file).mtimeMs, size: fs.statSync(file).size };
+      })
+      .sort((a, b) => a.mtime - b.mtime);
+    for (const { file, size } of files) {
+      if (freeSpace >= DataLogManager.kFreeSpaceThreshold) {
+        break;
+      }
+      console.warn(`DataLogManager: Deleted ${path.basename(file)}`);
+      fs.unlinkSync(file);
+      freeSpace += size;
+    }
+  }
+}
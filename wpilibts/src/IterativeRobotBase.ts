@@ -1,6 +1,7 @@
 import { RobotBase } from './RobotBase';
 import { Watchdog } from './Watchdog';
 import { DriverStation } from './DriverStation';
+import { SmartDashboard } from './smartdashboard/SmartDashboard';
 
 /**
  * Robot mode enumeration.
@@ -401,7 +402,7 @@ export abstract class IterativeRobotBase extends RobotBase {
     this.robotPeriodic();
     this.m_watchdog.addEpoch("robotPeriodic()");
 
-    // TODO: Implement SmartDashboard.updateValues();
+    SmartDashboard.updateValues();
     this.m_watchdog.addEpoch("SmartDashboard.updateValues()");
 
     // TODO: Implement LiveWindow.updateValues();
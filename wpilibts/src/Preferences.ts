@@ -0,0 +1,324 @@
+import { NetworkTable, NetworkTableEvent, NetworkTableInstance, StringPublisher } from 'ntcore-client';
+
+/**
+ * The preferences class provides a relatively simple way to save important
+ * values to the roboRIO to access the next time the roboRIO is booted.
+ *
+ * This class loads and saves from the "/Preferences" table in NetworkTables.
+ * Every preference is made persistent, so the NetworkTables server saves it
+ * and restores it when the server restarts. Preferences can be edited from
+ * dashboards (Shuffleboard, Glass, Elastic) while the robot is running.
+ *
+ * This class is not meant to be instantiated; all methods are static.
+ */
+export class Preferences {
+  /** The Preferences table name. */
+  private static readonly kTableName = '/Preferences';
+  private static readonly kSmartDashboardType = 'RobotPreferences';
+
+  /** The network table, created on first use. */
+  private static m_table: NetworkTable | null = null;
+
+  private static m_typePublisher: StringPublisher | null = null;
+  private static m_listener: number | null = null;
+
+  private constructor() {}
+
+  /**
+   * Set the NetworkTable instance used for entries. For testing purposes;
+   * use with caution.
+   *
+   * @param inst NetworkTable instance
+   */
+  public static setNetworkTableInstance(inst: NetworkTableInstance): void {
+    Preferences.m_typePublisher?.close();
+    if (Preferences.m_listener !== null) {
+      Preferences.m_table?.removeListener(Preferences.m_listener);
+    }
+
+    const table = inst.getTable(Preferences.kTableName);
+    Preferences.m_table = table;
+    Preferences.m_typePublisher = table
+      .getStringTopic('.type')
+      .getPublisher({}, { SmartDashboard: Preferences.kSmartDashboardType });
+    Preferences.m_typePublisher.set(Preferences.kSmartDashboardType);
+
+    // Make every preference persistent when it is published, including those
+    // created by dashboards.
+    const typeTopicName = `${table.getPath()}/.type`;
+    Preferences.m_listener = table.addListener(
+      NetworkTableEvent.Kind.kImmediate | NetworkTableEvent.Kind.kPublish,
+      (event) => {
+        if (event.topicInfo !== null && event.topicInfo.name !== typeTopicName) {
+          event.topicInfo.getTopic().setPersistent(true);
+        }
+      }
+    );
+  }
+
+  private static getTable(): NetworkTable {
+    if (Preferences.m_table === null) {
+      Preferences.setNetworkTableInstance(NetworkTableInstance.getDefault());
+    }
+    return Preferences.m_table!;
+  }
+
+  /**
+   * Gets the preferences keys.
+   *
+   * @return an array of the keys
+   */
+  public static getKeys(): string[] {
+    return Preferences.getTable().getKeys();
+  }
+
+  /**
+   * Puts the given string into the preferences table.
+   *
+   * @param key the key
+   * @param value the value
+   */
+  public static setString(key: string, value: string): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setString(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given string into the preferences table if it doesn't already
+   * exist.
+   *
+   * @param key The key
+   * @param value The value
+   */
+  public static initString(key: string, value: string): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setDefaultValue(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given int into the preferences table.
+   *
+   * @param key the key
+   * @param value the value
+   */
+  public static setInt(key: string, value: number): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setInteger(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given int into the preferences table if it doesn't already
+   * exist.
+   *
+   * @param key The key
+   * @param value The value
+   */
+  public static initInt(key: string, value: number): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setDefaultInteger(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given double into the preferences table.
+   *
+   * @param key the key
+   * @param value the value
+   */
+  public static setDouble(key: string, value: number): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setDouble(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given double into the preferences table if it doesn't already
+   * exist.
+   *
+   * @param key The key
+   * @param value The value
+   */
+  public static initDouble(key: string, value: number): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setDefaultValue(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given float into the preferences table.
+   *
+   * @param key the key
+   * @param value the value
+   */
+  public static setFloat(key: string, value: number): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setFloat(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given float into the preferences table if it doesn't already
+   * exist.
+   *
+   * @param key The key
+   * @param value The value
+   */
+  public static initFloat(key: string, value: number): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setDefaultFloat(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given boolean into the preferences table.
+   *
+   * @param key the key
+   * @param value the value
+   */
+  public static setBoolean(key: string, value: boolean): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setBoolean(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given boolean into the preferences table if it doesn't already
+   * exist.
+   *
+   * @param key The key
+   * @param value The value
+   */
+  public static initBoolean(key: string, value: boolean): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.setDefaultValue(value);
+    entry.setPersistent();
+  }
+
+  /**
+   * Puts the given long into the preferences table.
+   *
+   * @param key the key
+   * @param value the value
+   */
+  public static setLong(key: string, value: number): void {
+    Preferences.setInt(key, value);
+  }
+
+  /**
+   * Puts the given long into the preferences table if it doesn't already
+   * exist.
+   *
+   * @param key The key
+   * @param value The value
+   */
+  public static initLong(key: string, value: number): void {
+    Preferences.initInt(key, value);
+  }
+
+  /**
+   * Returns whether or not there is a key with the given name.
+   *
+   * @param key the key
+   * @return if there is a value at the given key
+   */
+  public static containsKey(key: string): boolean {
+    return Preferences.getTable().containsKey(key);
+  }
+
+  /**
+   * Remove a preference.
+   *
+   * @param key the key
+   */
+  public static remove(key: string): void {
+    const entry = Preferences.getTable().getEntry(key);
+    entry.clearPersistent();
+    entry.unpublish();
+  }
+
+  /**
+   * Remove all preferences.
+   */
+  public static removeAll(): void {
+    for (const key of Preferences.getKeys()) {
+      if (key !== '.type') {
+        Preferences.remove(key);
+      }
+    }
+  }
+
+  /**
+   * Returns the string at the given key. If this table does not have a value
+   * for that position, then the given backup value will be returned.
+   *
+   * @param key the key
+   * @param backup the value to return if none exists in the table
+   * @return either the value in the table, or the backup
+   */
+  public static getString(key: string, backup: string): string {
+    return Preferences.getTable().getEntry(key).getString(backup);
+  }
+
+  /**
+   * Returns the int at the given key. If this table does not have a value for
+   * that position, then the given backup value will be returned.
+   *
+   * @param key the key
+   * @param backup the value to return if none exists in the table
+   * @return either the value in the table, or the backup
+   */
+  public static getInt(key: string, backup: number): number {
+    return Preferences.getTable().getEntry(key).getInteger(backup);
+  }
+
+  /**
+   * Returns the double at the given key. If this table does not have a value
+   * for that position, then the given backup value will be returned.
+   *
+   * @param key the key
+   * @param backup the value to return if none exists in the table
+   * @return either the value in the table, or the backup
+   */
+  public static getDouble(key: string, backup: number): number {
+    return Preferences.getTable().getEntry(key).getDouble(backup);
+  }
+
+  /**
+   * Returns the boolean at the given key. If this table does not have a value
+   * for that position, then the given backup value will be returned.
+   *
+   * @param key the key
+   * @param backup the value to return if none exists in the table
+   * @return either the value in the table, or the backup
+   */
+  public static getBoolean(key: string, backup: boolean): boolean {
+    return Preferences.getTable().getEntry(key).getBoolean(backup);
+  }
+
+  /**
+   * Returns the float at the given key. If this table does not have a value
+   * for that position, then the given backup value will be returned.
+   *
+   * @param key the key
+   * @param backup the value to return if none exists in the table
+   * @return either the value in the table, or the backup
+   */
+  public static getFloat(key: string, backup: number): number {
+    return Preferences.getTable().getEntry(key).getFloat(backup);
+  }
+
+  /**
+   * Returns the long at the given key. If this table does not have a value
+   * for that position, then the given backup value will be returned.
+   *
+   * @param key the key
+   * @param backup the value to return if none exists in the table
+   * @return either the value in the table, or the backup
+   */
+  public static getLong(key: string, backup: number): number {
+    return Preferences.getInt(key, backup);
+  }
+}
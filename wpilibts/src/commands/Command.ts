@@ -1,15 +1,21 @@
 import { Subsystem } from './Subsystem';
+import { InterruptionBehavior } from './InterruptionBehavior';
 
 /**
  * A state machine representing a complete action to be performed by the robot.
  *
  * Commands are run by the CommandScheduler, and can be composed into CommandGroups
  * to create complex actions.
+ *
+ * The decorator methods (andThen(), withTimeout(), until(), ...) compose this command into
+ * a new command. A command can only be part of one composition: once decorated, it cannot
+ * be scheduled on its own or added to another composition, but the returned command can be
+ * decorated further.
  */
 export abstract class Command {
   protected m_requirements: Set<Subsystem> = new Set<Subsystem>();
   private m_name: string;
-  private m_interruptible: boolean = true;
+  private m_interruptionBehavior: InterruptionBehavior = InterruptionBehavior.kCancelSelf;
   private m_runsWhenDisabled: boolean = false;
 
   /**
@@ -84,23 +90,23 @@ export abstract class Command {
   }
 
   /**
-   * Sets whether this command can be interrupted by another command that
-   * requires one or more of the same subsystems.
+   * Sets how this command behaves when another command that requires one or more of the same
+   * subsystems is scheduled.
    *
-   * @param interruptible Whether this command can be interrupted
+   * @param interruptBehavior kCancelSelf to be interrupted by the incoming command, or
+   *     kCancelIncoming to keep running and prevent the incoming command from being scheduled
    */
-  public setInterruptible(interruptible: boolean): void {
-    this.m_interruptible = interruptible;
+  public setInterruptionBehavior(interruptBehavior: InterruptionBehavior): void {
+    this.m_interruptionBehavior = interruptBehavior;
   }
 
   /**
-   * Gets whether this command can be interrupted by another command that
-   * requires one or more of the same subsystems.
+   * How the command behaves when another command with a shared requirement is scheduled.
    *
-   * @return Whether this command can be interrupted
+   * @return The interruption behavior of this command (kCancelSelf by default)
    */
-  public isInterruptible(): boolean {
-    return this.m_interruptible;
+  public getInterruptionBehavior(): InterruptionBehavior {
+    return this.m_interruptionBehavior;
   }
 
   /**
@@ -153,7 +159,253 @@ export abstract class Command {
   public doesRequire(requirement: Subsystem): boolean {
     return this.m_requirements.has(requirement);
   }
+
+  /**
+   * Decorates this command with a timeout. If the specified timeout is exceeded before the command
+   * finishes normally, the command will be interrupted and un-scheduled.
+   *
+   * @param seconds the timeout duration
+   * @return the command with the timeout added
+   */
+  public withTimeout(seconds: number): ParallelRaceGroup {
+    return this.raceWith(new WaitCommand(seconds));
+  }
+
+  /**
+   * Decorates this command with an interrupt condition. If the specified condition becomes true
+   * before the command finishes normally, the command will be interrupted and un-scheduled.
+   *
+   * @param condition the interrupt condition
+   * @return the command with the interrupt condition added
+   */
+  public until(condition: () => boolean): ParallelRaceGroup {
+    return this.raceWith(new WaitUntilCommand(condition));
+  }
+
+  /**
+   * Decorates this command with a run condition. If the specified condition becomes false before
+   * the command finishes normally, the command will be interrupted and un-scheduled.
+   *
+   * @param condition the run condition
+   * @return the command with the run condition added
+   */
+  public onlyWhile(condition: () => boolean): ParallelRaceGroup {
+    return this.until(() => !condition());
+  }
+
+  /**
+   * Decorates this command with another command to run before this command starts.
+   *
+   * @param before the command to run before this one
+   * @return the decorated command
+   */
+  public beforeStarting(before: Command): SequentialCommandGroup;
+  /**
+   * Decorates this command with a runnable to run before this command starts.
+   *
+   * @param toRun the Runnable to run
+   * @param requirements the required subsystems
+   * @return the decorated command
+   */
+  public beforeStarting(toRun: () => void, ...requirements: Subsystem[]): SequentialCommandGroup;
+  public beforeStarting(before: Command | (() => void), ...requirements: Subsystem[]): SequentialCommandGroup {
+    const command = before instanceof Command ? before : new InstantCommand(before, ...requirements);
+    return new SequentialCommandGroup(command, this);
+  }
+
+  /**
+   * Decorates this command with a set of commands to run after it in sequence. Often more
+   * convenient/less-verbose than constructing a new SequentialCommandGroup explicitly.
+   *
+   * @param next the commands to run next
+   * @return the decorated command
+   */
+  public andThen(...next: Command[]): SequentialCommandGroup;
+  /**
+   * Decorates this command with a runnable to run after the command finishes.
+   *
+   * @param toRun the Runnable to run
+   * @param requirements the required subsystems
+   * @return the decorated command
+   */
+  public andThen(toRun: () => void, ...requirements: Subsystem[]): SequentialCommandGroup;
+  public andThen(...args: (Command | Subsystem | (() => void))[]): SequentialCommandGroup {
+    if (typeof args[0] === 'function') {
+      const [toRun, ...requirements] = args as [() => void, ...Subsystem[]];
+      return new SequentialCommandGroup(this, new InstantCommand(toRun, ...requirements));
+    }
+    return new SequentialCommandGroup(this, ...(args as Command[]));
+  }
+
+  /**
+   * Decorates this command with a set of commands to run parallel to it, ending when the calling
+   * command ends and interrupting all the others. Often more convenient/less-verbose than
+   * constructing a new ParallelDeadlineGroup explicitly.
+   *
+   * @param parallel the commands to run in parallel. Note the parallel commands will be
+   *     interrupted when the deadline command ends
+   * @return the decorated command
+   */
+  public deadlineFor(...parallel: Command[]): ParallelDeadlineGroup {
+    return new ParallelDeadlineGroup(this, ...parallel);
+  }
+
+  /**
+   * Decorates this command with a set of commands to run parallel to it, ending when the last
+   * command ends. Often more convenient/less-verbose than constructing a new
+   * ParallelCommandGroup explicitly.
+   *
+   * @param parallel the commands to run in parallel
+   * @return the decorated command
+   */
+  public alongWith(...parallel: Command[]): ParallelCommandGroup {
+    return new ParallelCommandGroup(this, ...parallel);
+  }
+
+  /**
+   * Decorates this command with a set of commands to run parallel to it, ending when the first
+   * command ends. Often more convenient/less-verbose than constructing a new ParallelRaceGroup
+   * explicitly.
+   *
+   * @param parallel the commands to run in parallel
+   * @return the decorated command
+   */
+  public raceWith(...parallel: Command[]): ParallelRaceGroup {
+    return new ParallelRaceGroup(this, ...parallel);
+  }
+
+  /**
+   * Decorates this command to run repeatedly, restarting it when it ends, until this command is
+   * interrupted. The decorated command can still be canceled.
+   *
+   * @return the decorated command
+   */
+  public repeatedly(): RepeatCommand {
+    return new RepeatCommand(this);
+  }
+
+  /**
+   * Decorates this command to run "by proxy" by wrapping it in a ProxyCommand. Use this for
+   * "forking off" from command compositions when the user does not wish to extend the command's
+   * requirements to the entire command composition. ProxyCommand has unique implications and
+   * semantics, see the WPILib docs for a full explanation.
+   *
+   * Unlike the other decorators, this does not compose this command, so it can still be
+   * scheduled on its own.
+   *
+   * @return the decorated command
+   */
+  public asProxy(): ProxyCommand {
+    return new ProxyCommand(this);
+  }
+
+  /**
+   * Decorates this command to only run if this condition is not met. If the command is already
+   * running and the condition changes to true, the command will not stop running. The
+   * requirements of this command will be kept for the new conditional command.
+   *
+   * @param condition the condition that will prevent the command from running
+   * @return the decorated command
+   */
+  public unless(condition: () => boolean): ConditionalCommand {
+    return new ConditionalCommand(new InstantCommand(), this, condition);
+  }
+
+  /**
+   * Decorates this command to only run if this condition is met. If the command is already
+   * running and the condition changes to false, the command will not stop running. The
+   * requirements of this command will be kept for the new conditional command.
+   *
+   * @param condition the condition that will allow the command to run
+   * @return the decorated command
+   */
+  public onlyIf(condition: () => boolean): ConditionalCommand {
+    return this.unless(() => !condition());
+  }
+
+  /**
+   * Decorates this command to run or stop when disabled.
+   *
+   * @param doesRunWhenDisabled true to run when disabled.
+   * @return the decorated command
+   */
+  public ignoringDisable(doesRunWhenDisabled: boolean): WrapperCommand {
+    return new (class extends WrapperCommand {
+      constructor(command: Command) {
+        super(command);
+      }
+
+      public override runsWhenDisabled(): boolean {
+        return doesRunWhenDisabled;
+      }
+    })(this);
+  }
+
+  /**
+   * Decorates this command to have a different interruption behavior.
+   *
+   * @param interruptBehavior the desired interrupt behavior
+   * @return the decorated command
+   */
+  public withInterruptBehavior(interruptBehavior: InterruptionBehavior): WrapperCommand {
+    return new (class extends WrapperCommand {
+      constructor(command: Command) {
+        super(command);
+      }
+
+      public override getInterruptionBehavior(): InterruptionBehavior {
+        return interruptBehavior;
+      }
+    })(this);
+  }
+
+  /**
+   * Decorates this command with a lambda to call on interrupt or end, following the command's
+   * inherent end(boolean) method.
+   *
+   * @param end a lambda accepting a boolean parameter specifying whether the command was
+   *     interrupted.
+   * @return the decorated command
+   */
+  public finallyDo(end: (interrupted: boolean) => void): WrapperCommand {
+    return new (class extends WrapperCommand {
+      constructor(command: Command) {
+        super(command);
+      }
+
+      public override end(interrupted: boolean): void {
+        super.end(interrupted);
+        end(interrupted);
+      }
+    })(this);
+  }
+
+  /**
+   * Decorates this command with a lambda to call on interrupt, following the command's inherent
+   * end(boolean) method.
+   *
+   * @param handler a lambda to run when the command is interrupted
+   * @return the decorated command
+   */
+  public handleInterrupt(handler: () => void): WrapperCommand {
+    return this.finallyDo((interrupted) => {
+      if (interrupted) {
+        handler();
+      }
+    });
+  }
 }
 
 // Import at the end to avoid circular dependencies
 import { CommandScheduler } from './CommandScheduler';
+import { ConditionalCommand } from './ConditionalCommand';
+import { InstantCommand } from './InstantCommand';
+import { ParallelCommandGroup } from './ParallelCommandGroup';
+import { ParallelDeadlineGroup } from './ParallelDeadlineGroup';
+import { ParallelRaceGroup } from './ParallelRaceGroup';
+import { ProxyCommand } from './ProxyCommand';
+import { RepeatCommand } from './RepeatCommand';
+import { SequentialCommandGroup } from './SequentialCommandGroup';
+import { WaitCommand } from './WaitCommand';
+import { WaitUntilCommand } from './WaitUntilCommand';
+import { WrapperCommand } from './WrapperCommand';
@@ -1,4 +1,6 @@
 import { Command } from './Command';
+import { CommandScheduler } from './CommandScheduler';
+import { InterruptionBehavior } from './InterruptionBehavior';
 import { Subsystem } from './Subsystem';
 
 /**
@@ -21,15 +23,18 @@ export abstract class CommandGroupBase extends Command {
   }
 
   /**
-   * Adds commands to this group.
+   * Adds commands to this group. A command can only be part of one composition.
    *
    * @param commands The commands to add
+   * @throws Error if a command has already been composed or is scheduled
    */
   public addCommands(...commands: Command[]): void {
     if (this.isScheduled()) {
       throw new Error("Commands cannot be added to a CommandGroup while it is running");
     }
 
+    CommandScheduler.getInstance().registerComposedCommands(...commands);
+
     // Check for command requirements overlapping with this group's requirements
     for (const command of commands) {
       if (command === this) {
@@ -75,4 +80,21 @@ export abstract class CommandGroupBase extends Command {
     // A command group runs when disabled if all of its component commands run when disabled
     return this.m_commands.every(command => command.runsWhenDisabled());
   }
+
+  /**
+   * How the command behaves when another command with a shared requirement is scheduled.
+   *
+   * @return kCancelIncoming if the group or all of its component commands were made
+   *     uninterruptible, kCancelSelf otherwise
+   */
+  public override getInterruptionBehavior(): InterruptionBehavior {
+    if (super.getInterruptionBehavior() === InterruptionBehavior.kCancelIncoming) {
+      return InterruptionBehavior.kCancelIncoming;
+    }
+    if (this.m_commands.length > 0
+      && this.m_commands.every(command => command.getInterruptionBehavior() === InterruptionBehavior.kCancelIncoming)) {
+      return InterruptionBehavior.kCancelIncoming;
+    }
+    return InterruptionBehavior.kCancelSelf;
+  }
 }
@@ -1,6 +1,8 @@
 import { Command } from './Command';
+import { InterruptionBehavior } from './InterruptionBehavior';
 import { Subsystem } from './Subsystem';
 import { DriverStation } from '../DriverStation';
+import { EventLoop } from '../event/EventLoop';
 import { EventEmitter } from 'events';
 
 /**
@@ -13,14 +15,19 @@ import { EventEmitter } from 'events';
 export class CommandScheduler extends EventEmitter {
   private static instance: CommandScheduler;
 
-  private m_subsystems: Set<Subsystem> = new Set<Subsystem>();
+  private m_subsystems: Map<Subsystem, Command | null> = new Map<Subsystem, Command | null>();
   private m_commands: Map<Command, Set<Subsystem>> = new Map<Command, Set<Subsystem>>();
   private m_requirements: Map<Subsystem, Command> = new Map<Subsystem, Command>();
   private m_buttons: Set<() => void> = new Set<() => void>();
+  private readonly m_defaultButtonLoop: EventLoop = new EventLoop();
+  private m_activeButtonLoop: EventLoop = this.m_defaultButtonLoop;
   private m_disabled: boolean = false;
   private m_inRunLoop: boolean = false;
   private m_toSchedule: Command[] = [];
-  private m_toCancel: Command[] = [];
+  private m_toCancelCommands: Command[] = [];
+  private m_toCancelInterruptors: (Command | null)[] = [];
+  private m_composedCommands: WeakSet<Command> = new WeakSet<Command>();
+  private m_endedDefaultCommands: WeakSet<Command> = new WeakSet<Command>();
 
   /**
    * Constructor for the CommandScheduler.
@@ -48,6 +55,7 @@ export class CommandScheduler extends EventEmitter {
    *
    * @param command The command to schedule
    * @return Whether the command was scheduled successfully
+   * @throws Error if the command is part of a composition
    */
   public schedule(command: Command): boolean {
     if (this.m_inRunLoop) {
@@ -55,24 +63,27 @@ export class CommandScheduler extends EventEmitter {
       return true;
     }
 
+    this.requireNotComposed(command);
+
     if (this.isScheduled(command)) {
       return true;
     }
 
-    // Check if the command's requirements are available
+    // Don't schedule if any requirement is held by a command that cancels incoming commands
     const requirements = command.getRequirements();
     for (const requirement of requirements) {
       const requiring = this.requiring(requirement);
-      if (requiring !== null && requiring !== command && !requiring.isInterruptible()) {
+      if (requiring !== null
+        && requiring.getInterruptionBehavior() === InterruptionBehavior.kCancelIncoming) {
         return false;
       }
     }
 
-    // Cancel any commands that require the same subsystems
+    // Otherwise, interrupt any commands that require the same subsystems
     for (const requirement of requirements) {
       const requiring = this.requiring(requirement);
-      if (requiring !== null && requiring !== command) {
-        this.cancel(requiring);
+      if (requiring !== null) {
+        this.interrupt(requiring, command);
       }
     }
 
@@ -110,9 +121,10 @@ export class CommandScheduler extends EventEmitter {
     for (const button of this.m_buttons) {
       button();
     }
+    this.m_activeButtonLoop.poll();
 
     // Run subsystem periodic methods
-    for (const subsystem of this.m_subsystems) {
+    for (const subsystem of this.m_subsystems.keys()) {
       subsystem.periodic();
       if (DriverStation.getInstance().isDisabled()) {
         continue;
@@ -124,7 +136,7 @@ export class CommandScheduler extends EventEmitter {
     // Run scheduled commands
     for (const [command, requirements] of this.m_commands.entries()) {
       if (DriverStation.getInstance().isDisabled() && !command.runsWhenDisabled()) {
-        this.cancel(command);
+        this.interrupt(command, null);
         continue;
       }
 
@@ -135,13 +147,14 @@ export class CommandScheduler extends EventEmitter {
         command.end(false);
         this.emit('command-finished', command);
         this.unschedule(command);
+        this.warnIfDefaultCommand(command, requirements);
       }
     }
 
     // Add default commands for subsystems that don't have a command
-    for (const subsystem of this.m_subsystems) {
-      if (!this.m_requirements.has(subsystem) && subsystem.getDefaultCommand() !== null) {
-        this.schedule(subsystem.getDefaultCommand()!);
+    for (const [subsystem, defaultCommand] of this.m_subsystems) {
+      if (!this.m_requirements.has(subsystem) && defaultCommand !== null) {
+        this.schedule(defaultCommand);
       }
     }
 
@@ -152,10 +165,31 @@ export class CommandScheduler extends EventEmitter {
     }
     this.m_toSchedule = [];
 
-    for (const command of this.m_toCancel) {
-      this.cancel(command);
+    for (let i = 0; i < this.m_toCancelCommands.length; i++) {
+      this.interrupt(this.m_toCancelCommands[i], this.m_toCancelInterruptors[i]);
+    }
+    this.m_toCancelCommands = [];
+    this.m_toCancelInterruptors = [];
+  }
+
+  /**
+   * Warns, once per command, when a command that just finished is the default command of one of
+   * its requirements.
+   *
+   * @param command the command that finished
+   * @param requirements the requirements the command was scheduled with
+   */
+  private warnIfDefaultCommand(command: Command, requirements: Set<Subsystem>): void {
+    if (this.m_endedDefaultCommands.has(command)) {
+      return;
+    }
+    for (const requirement of requirements) {
+      if (this.m_subsystems.get(requirement) === command) {
+        this.m_endedDefaultCommands.add(command);
+        console.warn(`Default commands should not end! (${command.getName()} ended on its own)`);
+        return;
+      }
     }
-    this.m_toCancel = [];
   }
 
   /**
@@ -166,7 +200,9 @@ export class CommandScheduler extends EventEmitter {
    */
   public registerSubsystem(...subsystems: Subsystem[]): void {
     for (const subsystem of subsystems) {
-      this.m_subsystems.add(subsystem);
+      if (!this.m_subsystems.has(subsystem)) {
+        this.m_subsystems.set(subsystem, null);
+      }
     }
   }
 
@@ -190,6 +226,89 @@ export class CommandScheduler extends EventEmitter {
     }
   }
 
+  /**
+   * Sets the default command for a subsystem. Registers that subsystem if it is not already
+   * registered. Default commands will run whenever there is no other command currently scheduled
+   * that requires the subsystem. Default commands should be written to never end (i.e. their
+   * isFinished() method should return false), as they would simply be re-scheduled if they do; the
+   * scheduler warns the first time a default command ends on its own. Default commands must also
+   * require their subsystem.
+   *
+   * @param subsystem the subsystem whose default command will be set
+   * @param defaultCommand the default command to associate with the subsystem
+   * @throws Error if the command does not require the subsystem or is part of a composition
+   */
+  public setDefaultCommand(subsystem: Subsystem, defaultCommand: Command): void {
+    this.requireNotComposed(defaultCommand);
+
+    if (!defaultCommand.getRequirements().has(subsystem)) {
+      throw new Error(
+        `Default commands must require their subsystem! (${defaultCommand.getName()} does not require ${subsystem.constructor.name})`
+      );
+    }
+
+    if (defaultCommand.getInterruptionBehavior() === InterruptionBehavior.kCancelIncoming) {
+      console.warn(
+        'Registering a non-interruptible default command!\n'
+          + 'This will likely prevent any other commands from requiring this subsystem.'
+      );
+      // Warn, but allow -- there might be a use case for this.
+    }
+
+    this.m_subsystems.set(subsystem, defaultCommand);
+  }
+
+  /**
+   * Removes the default command for a subsystem. The current default command will run until
+   * another command is scheduled that requires the subsystem, at which point the current default
+   * command will not be re-scheduled.
+   *
+   * @param subsystem the subsystem whose default command will be removed
+   */
+  public removeDefaultCommand(subsystem: Subsystem): void {
+    if (this.m_subsystems.has(subsystem)) {
+      this.m_subsystems.set(subsystem, null);
+    }
+  }
+
+  /**
+   * Gets the default command associated with this subsystem. Null if this subsystem has no
+   * default command associated with it.
+   *
+   * @param subsystem the subsystem to inquire about
+   * @return the default command associated with the subsystem
+   */
+  public getDefaultCommand(subsystem: Subsystem): Command | null {
+    return this.m_subsystems.get(subsystem) ?? null;
+  }
+
+  /**
+   * Get the default button poll.
+   *
+   * @return a reference to the default EventLoop object polling buttons.
+   */
+  public getDefaultButtonLoop(): EventLoop {
+    return this.m_defaultButtonLoop;
+  }
+
+  /**
+   * Get the active button poll.
+   *
+   * @return a reference to the current EventLoop object polling buttons.
+   */
+  public getActiveButtonLoop(): EventLoop {
+    return this.m_activeButtonLoop;
+  }
+
+  /**
+   * Replace the button poll with another one.
+   *
+   * @param loop the new button polling loop object.
+   */
+  public setActiveButtonLoop(loop: EventLoop): void {
+    this.m_activeButtonLoop = loop;
+  }
+
   /**
    * Registers a button with the scheduler. The button's action will be run
    * as part of the scheduler's run loop.
@@ -216,8 +335,20 @@ export class CommandScheduler extends EventEmitter {
    * @param command The command to cancel
    */
   public cancel(command: Command): void {
+    this.interrupt(command, null);
+  }
+
+  /**
+   * Cancels a command, recording the command that interrupted it (if any) for the
+   * onCommandInterrupt() actions.
+   *
+   * @param command The command to cancel
+   * @param interruptor The command that caused the cancellation, or null if there is none
+   */
+  private interrupt(command: Command, interruptor: Command | null): void {
     if (this.m_inRunLoop) {
-      this.m_toCancel.push(command);
+      this.m_toCancelCommands.push(command);
+      this.m_toCancelInterruptors.push(interruptor);
       return;
     }
 
@@ -226,7 +357,7 @@ export class CommandScheduler extends EventEmitter {
     }
 
     command.end(true);
-    this.emit('command-interrupted', command);
+    this.emit('command-interrupted', command, interruptor);
     this.unschedule(command);
   }
 
@@ -273,6 +404,129 @@ export class CommandScheduler extends EventEmitter {
     this.m_disabled = false;
   }
 
+  /**
+   * Adds an action to perform on the initialization of any command by the scheduler.
+   *
+   * @param action the action to perform
+   */
+  public onCommandInitialize(action: (command: Command) => void): void {
+    this.on('command-initialized', action);
+  }
+
+  /**
+   * Adds an action to perform on the execution of any command by the scheduler.
+   *
+   * @param action the action to perform
+   */
+  public onCommandExecute(action: (command: Command) => void): void {
+    this.on('command-executed', action);
+  }
+
+  /**
+   * Adds an action to perform on the finishing of any command by the scheduler.
+   *
+   * @param action the action to perform
+   */
+  public onCommandFinish(action: (command: Command) => void): void {
+    this.on('command-finished', action);
+  }
+
+  /**
+   * Adds an action to perform on the interruption of any command by the scheduler. The action
+   * receives the interrupted command and the command that interrupted it, which is null if the
+   * command was canceled directly or because the robot was disabled.
+   *
+   * @param action the action to perform
+   */
+  public onCommandInterrupt(action: (command: Command, interruptor: Command | null) => void): void {
+    this.on('command-interrupted', action);
+  }
+
+  /**
+   * Register commands as composed. An exception will be thrown if these commands are scheduled
+   * directly or added to a composition.
+   *
+   * @param commands the commands to register
+   * @throws Error if the given commands have already been composed, are scheduled, or the
+   *     commands have duplicates.
+   */
+  public registerComposedCommands(...commands: Command[]): void {
+    if (new Set(commands).size !== commands.length) {
+      throw new Error('Cannot compose a command twice in the same composition!');
+    }
+    this.requireNotComposedOrScheduled(...commands);
+    for (const command of commands) {
+      this.m_composedCommands.add(command);
+    }
+  }
+
+  /**
+   * Clears the list of composed commands, allowing all commands to be freely used again.
+   *
+   * WARNING: Using this haphazardly can result in unexpected/undesirable behavior. Do not use
+   * this unless you fully understand what you are doing.
+   */
+  public clearComposedCommands(): void {
+    this.m_composedCommands = new WeakSet<Command>();
+  }
+
+  /**
+   * Removes a single command from the list of composed commands, allowing it to be freely used
+   * again.
+   *
+   * WARNING: Using this haphazardly can result in unexpected/undesirable behavior. Do not use
+   * this unless you fully understand what you are doing.
+   *
+   * @param command the command to remove from the list of grouped commands
+   */
+  public removeComposedCommand(command: Command): void {
+    this.m_composedCommands.delete(command);
+  }
+
+  /**
+   * Requires that the specified commands have not already been added to a composition.
+   *
+   * @param commands The commands to check
+   * @throws Error if any of the given commands have already been composed.
+   */
+  public requireNotComposed(...commands: Command[]): void {
+    for (const command of commands) {
+      if (this.m_composedCommands.has(command)) {
+        throw new Error(
+          `Commands that have been composed may not be added to another composition or scheduled individually! (${command.getName()})`
+        );
+      }
+    }
+  }
+
+  /**
+   * Requires that the specified commands have not already been added to a composition, and are
+   * not currently scheduled.
+   *
+   * @param commands The commands to check
+   * @throws Error if any of the given commands have already been composed or are scheduled.
+   */
+  public requireNotComposedOrScheduled(...commands: Command[]): void {
+    for (const command of commands) {
+      if (this.isScheduled(command)) {
+        throw new Error(
+          `Commands that have been scheduled individually may not be added to a composition! (${command.getName()})`
+        );
+      }
+    }
+    this.requireNotComposed(...commands);
+  }
+
+  /**
+   * Check if the given command has been composed.
+   *
+   * @param command The command to check
+   * @return true if composed
+   */
+  public isComposed(command: Command): boolean {
+    return this.m_composedCommands.has(command);
+  }
+
   /**
    * Unschedules a command.
    *
@@ -0,0 +1,197 @@
+import { Command } from './Command';
+import { ConditionalCommand } from './ConditionalCommand';
+import { DeferredCommand } from './DeferredCommand';
+import { FunctionalCommand } from './FunctionalCommand';
+import { InstantCommand } from './InstantCommand';
+import { ParallelCommandGroup } from './ParallelCommandGroup';
+import { ParallelDeadlineGroup } from './ParallelDeadlineGroup';
+import { ParallelRaceGroup } from './ParallelRaceGroup';
+import { PrintCommand } from './PrintCommand';
+import { RunCommand } from './RunCommand';
+import { SelectCommand } from './SelectCommand';
+import { SequentialCommandGroup } from './SequentialCommandGroup';
+import { StartEndCommand } from './StartEndCommand';
+import { Subsystem } from './Subsystem';
+import { WaitCommand } from './WaitCommand';
+import { WaitUntilCommand } from './WaitUntilCommand';
+
+/**
+ * Namespace for command factory methods.
+ */
+export class Commands {
+  private constructor() {}
+
+  /**
+   * Constructs a command that does nothing, finishing immediately.
+   *
+   * @return the command
+   */
+  public static none(): Command {
+    return new InstantCommand();
+  }
+
+  /**
+   * Constructs a command that does nothing until interrupted.
+   *
+   * @param requirements Subsystems to require
+   * @return the command
+   */
+  public static idle(...requirements: Subsystem[]): Command {
+    return Commands.run(() => {}, ...requirements);
+  }
+
+  /**
+   * Constructs a command that runs an action once and finishes.
+   *
+   * @param action the action to run
+   * @param requirements subsystems the action requires
+   * @return the command
+   */
+  public static runOnce(action: () => void, ...requirements: Subsystem[]): Command {
+    return new InstantCommand(action, ...requirements);
+  }
+
+  /**
+   * Constructs a command that runs an action every iteration until interrupted.
+   *
+   * @param action the action to run
+   * @param requirements subsystems the action requires
+   * @return the command
+   */
+  public static run(action: () => void, ...requirements: Subsystem[]): Command {
+    return new RunCommand(action, ...requirements);
+  }
+
+  /**
+   * Constructs a command that runs an action once and another action when the command is
+   * interrupted.
+   *
+   * @param start the action to run on start
+   * @param end the action to run on interrupt
+   * @param requirements subsystems the action requires
+   * @return the command
+   */
+  public static startEnd(start: () => void, end: () => void, ...requirements: Subsystem[]): Command {
+    return new StartEndCommand(start, end, ...requirements);
+  }
+
+  /**
+   * Constructs a command that runs an action every iteration until interrupted, and then runs a
+   * second action.
+   *
+   * @param run the action to run every iteration
+   * @param end the action to run on interrupt
+   * @param requirements subsystems the action requires
+   * @return the command
+   */
+  public static runEnd(run: () => void, end: () => void, ...requirements: Subsystem[]): Command {
+    return new FunctionalCommand(() => {}, run, () => end(), () => false, ...requirements);
+  }
+
+  /**
+   * Constructs a command that prints a message and finishes.
+   *
+   * @param message the message to print
+   * @return the command
+   */
+  public static print(message: string): Command {
+    return new PrintCommand(message);
+  }
+
+  /**
+   * Constructs a command that does nothing, finishing after a specified duration.
+   *
+   * @param seconds after how long the command finishes
+   * @return the command
+   */
+  public static waitSeconds(seconds: number): Command {
+    return new WaitCommand(seconds);
+  }
+
+  /**
+   * Constructs a command that does nothing, finishing once a condition becomes true.
+   *
+   * @param condition the condition
+   * @return the command
+   */
+  public static waitUntil(condition: () => boolean): Command {
+    return new WaitUntilCommand(condition);
+  }
+
+  /**
+   * Runs one of two commands, based on the boolean selector function.
+   *
+   * @param onTrue the command to run if the selector function returns true
+   * @param onFalse the command to run if the selector function returns false
+   * @param selector the selector function
+   * @return the command
+   */
+  public static either(onTrue: Command, onFalse: Command, selector: () => boolean): Command {
+    return new ConditionalCommand(onTrue, onFalse, selector);
+  }
+
+  /**
+   * Runs one of several commands, based on the selector function.
+   *
+   * @param commands map of commands to select from
+   * @param selector the selector function
+   * @return the command
+   */
+  public static select<K>(commands: Map<K, Command>, selector: () => K): Command {
+    return new SelectCommand(commands, selector);
+  }
+
+  /**
+   * Runs the command supplied by the supplier.
+   *
+   * @param supplier the command supplier
+   * @param requirements the set of requirements for this command
+   * @return the command
+   */
+  public static defer(supplier: () => Command | null, requirements: Set<Subsystem>): Command {
+    return new DeferredCommand(supplier, requirements);
+  }
+
+  /**
+   * Runs a group of commands in series, one after the other.
+   *
+   * @param commands the commands to include
+   * @return the command group
+   */
+  public static sequence(...commands: Command[]): Command {
+    return new SequentialCommandGroup(...commands);
+  }
+
+  /**
+   * Runs a group of commands at the same time. Ends once all commands in the group finish.
+   *
+   * @param commands the commands to include
+   * @return the command
+   */
+  public static parallel(...commands: Command[]): Command {
+    return new ParallelCommandGroup(...commands);
+  }
+
+  /**
+   * Runs a group of commands at the same time. Ends once any command in the group finishes, and
+   * cancels the others.
+   *
+   * @param commands the commands to include
+   * @return the command group
+   */
+  public static race(...commands: Command[]): Command {
+    return new ParallelRaceGroup(...commands);
+  }
+
+  /**
+   * Runs a group of commands at the same time. Ends once a specific command finishes, and cancels
+   * the others.
+   *
+   * @param deadline the deadline command
+   * @param otherCommands the other commands to include
+   * @return the command group
+   */
+  public static deadline(deadline: Command, ...otherCommands: Command[]): Command {
+    return new ParallelDeadlineGroup(deadline, ...otherCommands);
+  }
+}
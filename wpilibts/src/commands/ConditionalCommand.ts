@@ -0,0 +1,89 @@
+import { Command } from './Command';
+import { CommandScheduler } from './CommandScheduler';
+import { InterruptionBehavior } from './InterruptionBehavior';
+
+/**
+ * A command composition that runs one of two commands, depending on the value of the given
+ * condition when this command is initialized.
+ *
+ * The rules for command compositions apply: command instances that are passed to it cannot be
+ * added to any other composition or scheduled individually, and the composition requires all
+ * subsystems its components require.
+ */
+export class ConditionalCommand extends Command {
+  private readonly m_onTrue: Command;
+  private readonly m_onFalse: Command;
+  private readonly m_condition: () => boolean;
+  private m_selectedCommand: Command | null = null;
+
+  /**
+   * Creates a new ConditionalCommand.
+   *
+   * @param onTrue the command to run if the condition is true
+   * @param onFalse the command to run if the condition is false
+   * @param condition the condition to determine which command to run
+   */
+  constructor(onTrue: Command, onFalse: Command, condition: () => boolean) {
+    super();
+    CommandScheduler.getInstance().registerComposedCommands(onTrue, onFalse);
+    this.m_onTrue = onTrue;
+    this.m_onFalse = onFalse;
+    this.m_condition = condition;
+    this.addRequirements(...onTrue.getRequirements(), ...onFalse.getRequirements());
+  }
+
+  /**
+   * Selects the command to run and initializes it.
+   */
+  public override initialize(): void {
+    this.m_selectedCommand = this.m_condition() ? this.m_onTrue : this.m_onFalse;
+    this.m_selectedCommand.initialize();
+  }
+
+  /**
+   * Executes the selected command.
+   */
+  public override execute(): void {
+    this.m_selectedCommand?.execute();
+  }
+
+  /**
+   * Ends the selected command.
+   *
+   * @param interrupted Whether the command was interrupted
+   */
+  public override end(interrupted: boolean): void {
+    this.m_selectedCommand?.end(interrupted);
+  }
+
+  /**
+   * Returns whether the selected command has finished.
+   *
+   * @return True if the selected command has finished
+   */
+  public override isFinished(): boolean {
+    return this.m_selectedCommand?.isFinished() ?? true;
+  }
+
+  /**
+   * Whether this command runs when the robot is disabled.
+   *
+   * @return True if both commands run when the robot is disabled
+   */
+  public override runsWhenDisabled(): boolean {
+    return this.m_onTrue.runsWhenDisabled() && this.m_onFalse.runsWhenDisabled();
+  }
+
+  /**
+   * How the command behaves when another command with a shared requirement is scheduled.
+   *
+   * @return kCancelSelf if either command is cancelled by incoming commands, else kCancelIncoming
+   */
+  public override getInterruptionBehavior(): InterruptionBehavior {
+    if (this.m_onTrue.getInterruptionBehavior() === InterruptionBehavior.kCancelSelf
+      || this.m_onFalse.getInterruptionBehavior() === InterruptionBehavior.kCancelSelf) {
+      return InterruptionBehavior.kCancelSelf;
+    }
+    return InterruptionBehavior.kCancelIncoming;
+  }
+}
@@ -0,0 +1,76 @@
+import { Command } from './Command';
+import { CommandScheduler } from './CommandScheduler';
+import { PrintCommand } from './PrintCommand';
+import { Subsystem } from './Subsystem';
+
+/**
+ * Defers Command construction to runtime. Runs the command returned by a supplier when this
+ * command is initialized, and ends when it ends. Useful for performing runtime tasks before
+ * creating a new command. If this command is interrupted, it will cancel the command.
+ *
+ * Note that the supplier <i>must</i> create a new Command each call. For selecting one of a
+ * preallocated set of commands, use SelectCommand.
+ */
+export class DeferredCommand extends Command {
+  private readonly m_nullCommand: Command = new PrintCommand(
+    '[DeferredCommand] Supplied command was null!'
+  );
+  private readonly m_supplier: () => Command | null;
+  private m_command: Command = this.m_nullCommand;
+
+  /**
+   * Creates a new DeferredCommand that directly runs the supplied command when initialized, and
+   * ends when it ends. Useful for lazily creating commands when the DeferredCommand is
+   * initialized, such as if the supplied command depends on runtime state. The supplier will be
+   * called each time this command is initialized. The supplier <i>must</i> create a new Command
+   * each call.
+   *
+   * @param supplier The command supplier
+   * @param requirements The command requirements. This is a set to prevent accidental omission
+   *     of command requirements. Use an empty set to make it clear that the command has no
+   *     requirements.
+   */
+  constructor(supplier: () => Command | null, requirements: Set<Subsystem>) {
+    super();
+    this.m_supplier = supplier;
+    this.addRequirements(...requirements);
+  }
+
+  /**
+   * Creates the command from the supplier and initializes it.
+   */
+  public override initialize(): void {
+    const command = this.m_supplier();
+    if (command !== null) {
+      this.m_command = command;
+      CommandScheduler.getInstance().registerComposedCommands(command);
+    }
+    this.m_command.initialize();
+  }
+
+  /**
+   * Executes the supplied command.
+   */
+  public override execute(): void {
+    this.m_command.execute();
+  }
+
+  /**
+   * Returns whether the supplied command has finished.
+   *
+   * @return True if the supplied command has finished
+   */
+  public override isFinished(): boolean {
+    return this.m_command.isFinished();
+  }
+
+  /**
+   * Ends the supplied command and releases it.
+   *
+   * @param interrupted Whether the command was interrupted
+   */
+  public override end(interrupted: boolean): void {
+    this.m_command.end(interrupted);
+    this.m_command = this.m_nullCommand;
+  }
+}
@@ -0,0 +1,71 @@
+import { Command } from './Command';
+import { Subsystem } from './Subsystem';
+
+/**
+ * A command that allows the user to pass in functions for each of the basic command methods
+ * through the constructor. Useful for inline definitions of complex commands - note, however,
+ * that if a command is beyond a certain complexity it is usually better practice to write a
+ * proper class for it than to inline it.
+ */
+export class FunctionalCommand extends Command {
+  private readonly m_onInit: () => void;
+  private readonly m_onExecute: () => void;
+  private readonly m_onEnd: (interrupted: boolean) => void;
+  private readonly m_isFinished: () => boolean;
+
+  /**
+   * Creates a new FunctionalCommand.
+   *
+   * @param onInit the function to run on command initialization
+   * @param onExecute the function to run on command execution
+   * @param onEnd the function to run on command end
+   * @param isFinished the function that determines whether the command has finished
+   * @param requirements the subsystems required by this command
+   */
+  constructor(
+    onInit: () => void,
+    onExecute: () => void,
+    onEnd: (interrupted: boolean) => void,
+    isFinished: () => boolean,
+    ...requirements: Subsystem[]
+  ) {
+    super();
+    this.m_onInit = onInit;
+    this.m_onExecute = onExecute;
+    this.m_onEnd = onEnd;
+    this.m_isFinished = isFinished;
+    this.addRequirements(...requirements);
+  }
+
+  /**
+   * Runs the initialization function.
+   */
+  public override initialize(): void {
+    this.m_onInit();
+  }
+
+  /**
+   * Runs the execution function.
+   */
+  public override execute(): void {
+    this.m_onExecute();
+  }
+
+  /**
+   * Runs the end function.
+   *
+   * @param interrupted Whether the command was interrupted
+   */
+  public override end(interrupted: boolean): void {
+    this.m_onEnd(interrupted);
+  }
+
+  /**
+   * Returns whether the command is finished.
+   *
+   * @return The result of the isFinished function
+   */
+  public override isFinished(): boolean {
+    return this.m_isFinished();
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * An enum describing the command's behavior when another command with a shared requirement is
+ * scheduled.
+ */
+export enum InterruptionBehavior {
+  /**
+   * This command ends, end(true) is called, and the incoming command is scheduled normally.
+   *
+   * This is the default behavior.
+   */
+  kCancelSelf,
+
+  /** This command continues, and the incoming command is not scheduled. */
+  kCancelIncoming
+}
@@ -0,0 +1,24 @@
+import { InstantCommand } from './InstantCommand';
+
+/**
+ * A command that prints a string when initialized.
+ */
+export class PrintCommand extends InstantCommand {
+  /**
+   * Creates a new PrintCommand.
+   *
+   * @param message the message to print
+   */
+  constructor(message: string) {
+    super(() => console.log(message));
+  }
+
+  /**
+   * Whether this command runs when the robot is disabled.
+   *
+   * @return Always returns true
+   */
+  public override runsWhenDisabled(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,85 @@
+import { Command } from './Command';
+
+/**
+ * Schedules a given command when this command is initialized and ends when it ends, but does not
+ * directly run it. Use this for including a command in a composition without adding its
+ * requirements, but only if you know what you are doing. If you are unsure, see
+ * <a href="https://docs.wpilib.org/en/stable/docs/software/commandbased/command-compositions.html#scheduling-other-commands">the
+ * WPILib docs</a> for a complete explanation of proxy semantics. Do not proxy a command from a
+ * subsystem already required by the composition, or else the composition will cancel itself when
+ * the proxy is reached.
+ *
+ * If this command is interrupted, the proxied command is canceled.
+ */
+export class ProxyCommand extends Command {
+  private readonly m_supplier: () => Command;
+  private m_command: Command | null = null;
+
+  /**
+   * Creates a new ProxyCommand that schedules the command returned by the supplier when
+   * initialized, and ends when it is no longer scheduled. The supplier is called once per
+   * time this command is initialized.
+   *
+   * @param supplier the command supplier
+   */
+  constructor(supplier: () => Command);
+  /**
+   * Creates a new ProxyCommand that schedules the given command when initialized, and ends when
+   * it is no longer scheduled.
+   *
+   * @param command the command to run by proxy
+   */
+  constructor(command: Command);
+  constructor(commandOrSupplier: Command | (() => Command)) {
+    super();
+    if (commandOrSupplier instanceof Command) {
+      const command = commandOrSupplier;
+      this.m_supplier = () => command;
+      this.setName(`Proxy(${command.getName()})`);
+    } else {
+      this.m_supplier = commandOrSupplier;
+    }
+  }
+
+  /**
+   * Schedules the proxied command.
+   */
+  public override initialize(): void {
+    this.m_command = this.m_supplier();
+    this.m_command.schedule();
+  }
+
+  /**
+   * Cancels the proxied command if this command was interrupted.
+   *
+   * @param interrupted Whether the command was interrupted
+   */
+  public override end(interrupted: boolean): void {
+    if (interrupted) {
+      this.m_command?.cancel();
+    }
+    this.m_command = null;
+  }
+
+  /**
+   * Returns whether the proxied command is no longer scheduled.
+   *
+   * @return True if the proxied command has ended
+   */
+  public override isFinished(): boolean {
+    // because we're between `initialize` and `end`, `m_command` is necessarily not null
+    // but if called otherwise and m_command is null,
+    // it's UB, so we can do whatever we want -- like return true.
+    return this.m_command === null || !this.m_command.isScheduled();
+  }
+
+  /**
+   * Whether the given command should run when the robot is disabled. Override to return true if
+   * the command should run when disabled.
+   *
+   * @return true. Otherwise, this proxy would cancel commands that do run when disabled.
+   */
+  public override runsWhenDisabled(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,90 @@
+import { Command } from './Command';
+import { CommandScheduler } from './CommandScheduler';
+import { InterruptionBehavior } from './InterruptionBehavior';
+
+/**
+ * A command that runs another command repeatedly, restarting it when it ends, until this command
+ * is interrupted. The repeated command cannot be added to any other composition or scheduled
+ * individually, and this command requires everything it requires.
+ */
+export class RepeatCommand extends Command {
+  private readonly m_command: Command;
+  private m_ended: boolean = false;
+
+  /**
+   * Creates a new RepeatCommand. Will run another command repeatedly, restarting it whenever it
+   * ends, until this command is interrupted.
+   *
+   * @param command the command to run repeatedly
+   */
+  constructor(command: Command) {
+    super();
+    CommandScheduler.getInstance().registerComposedCommands(command);
+    this.m_command = command;
+    this.addRequirements(...command.getRequirements());
+    this.setName(`Repeat(${command.getName()})`);
+  }
+
+  /**
+   * Initializes the command.
+   */
+  public override initialize(): void {
+    this.m_ended = false;
+    this.m_command.initialize();
+  }
+
+  /**
+   * Executes the command, restarting it after it finishes.
+   */
+  public override execute(): void {
+    if (this.m_ended) {
+      this.m_ended = false;
+      this.m_command.initialize();
+    }
+    this.m_command.execute();
+    if (this.m_command.isFinished()) {
+      // restart command
+      this.m_command.end(false);
+      this.m_ended = true;
+    }
+  }
+
+  /**
+   * Returns whether the command is finished.
+   *
+   * @return Always returns false, since this command runs until interrupted
+   */
+  public override isFinished(): boolean {
+    return false;
+  }
+
+  /**
+   * Ends the command, unless it already ended in the last call to execute().
+   *
+   * @param interrupted Whether the command was interrupted
+   */
+  public override end(interrupted: boolean): void {
+    if (!this.m_ended) {
+      this.m_command.end(interrupted);
+      this.m_ended = true;
+    }
+  }
+
+  /**
+   * Whether this command runs when the robot is disabled.
+   *
+   * @return True if the repeated command runs when the robot is disabled
+   */
+  public override runsWhenDisabled(): boolean {
+    return this.m_command.runsWhenDisabled();
+  }
+
+  /**
+   * How the command behaves when another command with a shared requirement is scheduled.
+   *
+   * @return the interruption behavior of the repeated command
+   */
+  public override getInterruptionBehavior(): InterruptionBehavior {
+    return this.m_command.getInterruptionBehavior();
+  }
+}
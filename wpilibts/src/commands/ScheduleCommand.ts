@@ -0,0 +1,47 @@
+import { Command } from './Command';
+
+/**
+ * Schedules the given commands when this command is initialized. Useful for forking off from
+ * CommandGroups. Note that if run from a composition, the composition will not know about the
+ * status of the scheduled commands, and will treat this command as finishing instantly.
+ */
+export class ScheduleCommand extends Command {
+  private readonly m_toSchedule: Command[];
+
+  /**
+   * Creates a new ScheduleCommand that schedules the given commands when initialized.
+   *
+   * @param toSchedule the commands to schedule
+   */
+  constructor(...toSchedule: Command[]) {
+    super();
+    this.m_toSchedule = toSchedule;
+  }
+
+  /**
+   * Schedules the commands.
+   */
+  public override initialize(): void {
+    for (const command of this.m_toSchedule) {
+      command.schedule();
+    }
+  }
+
+  /**
+   * Returns whether the command is finished.
+   *
+   * @return Always returns true, since the scheduled commands run on their own
+   */
+  public override isFinished(): boolean {
+    return true;
+  }
+
+  /**
+   * Whether this command runs when the robot is disabled.
+   *
+   * @return Always returns true
+   */
+  public override runsWhenDisabled(): boolean {
+    return true;
+  }
+}
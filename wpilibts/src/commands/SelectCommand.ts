@@ -0,0 +1,94 @@
+import { Command } from './Command';
+import { CommandScheduler } from './CommandScheduler';
+import { InterruptionBehavior } from './InterruptionBehavior';
+import { PrintCommand } from './PrintCommand';
+
+/**
+ * A command composition that runs one of a selection of commands using a selector and a key to
+ * command mapping.
+ *
+ * The rules for command compositions apply: command instances that are passed to it cannot be
+ * added to any other composition or scheduled individually, and the composition requires all
+ * subsystems its components require.
+ */
+export class SelectCommand<K> extends Command {
+  private readonly m_commands: Map<K, Command>;
+  private readonly m_selector: () => K;
+  private readonly m_defaultCommand: Command;
+  private readonly m_interruptBehavior: InterruptionBehavior;
+  private m_selectedCommand: Command | null = null;
+
+  /**
+   * Creates a new SelectCommand.
+   *
+   * @param commands the map of commands to choose from
+   * @param selector the selector to determine which command to run
+   */
+  constructor(commands: Map<K, Command>, selector: () => K) {
+    super();
+    this.m_commands = commands;
+    this.m_selector = selector;
+    this.m_defaultCommand = new PrintCommand(
+      'SelectCommand selector value does not correspond to any command!'
+    );
+
+    const scheduler = CommandScheduler.getInstance();
+    scheduler.registerComposedCommands(this.m_defaultCommand);
+    scheduler.registerComposedCommands(...commands.values());
+
+    let runsWhenDisabled = true;
+    let interruptBehavior = InterruptionBehavior.kCancelIncoming;
+    for (const command of commands.values()) {
+      this.addRequirements(...command.getRequirements());
+      runsWhenDisabled = runsWhenDisabled && command.runsWhenDisabled();
+      if (command.getInterruptionBehavior() === InterruptionBehavior.kCancelSelf) {
+        interruptBehavior = InterruptionBehavior.kCancelSelf;
+      }
+    }
+    this.setRunsWhenDisabled(runsWhenDisabled);
+    this.m_interruptBehavior = interruptBehavior;
+  }
+
+  /**
+   * Selects the command to run and initializes it.
+   */
+  public override initialize(): void {
+    this.m_selectedCommand = this.m_commands.get(this.m_selector()) ?? this.m_defaultCommand;
+    this.m_selectedCommand.initialize();
+  }
+
+  /**
+   * Executes the selected command.
+   */
+  public override execute(): void {
+    this.m_selectedCommand?.execute();
+  }
+
+  /**
+   * Ends the selected command.
+   *
+   * @param interrupted Whether the command was interrupted
+   */
+  public override end(interrupted: boolean): void {
+    this.m_selectedCommand?.end(interrupted);
+  }
+
+  /**
+   * Returns whether the selected command has finished.
+   *
+   * @return True if the selected command has finished
+   */
+  public override isFinished(): boolean {
+    return this.m_selectedCommand?.isFinished() ?? true;
+  }
+
+  /**
+   * How the command behaves when another command with a shared requirement is scheduled.
+   *
+   * @return kCancelSelf if any selectable command is cancelled by incoming commands, else
+   *     kCancelIncoming
+   */
+  public override getInterruptionBehavior(): InterruptionBehavior {
+    return this.m_interruptBehavior;
+  }
+}
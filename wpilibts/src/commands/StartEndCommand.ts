@@ -0,0 +1,22 @@
+import { FunctionalCommand } from './FunctionalCommand';
+import { Subsystem } from './Subsystem';
+
+/**
+ * A command that runs a given function when it is initialized, and another function when it
+ * ends. Useful for running and then stopping a motor, or extending and then retracting a
+ * solenoid. Has no end condition as-is; either subclass it or use Command.withTimeout() or
+ * Command.until() to give it one.
+ */
+export class StartEndCommand extends FunctionalCommand {
+  /**
+   * Creates a new StartEndCommand. Will run the given functions when the command starts and
+   * when it ends.
+   *
+   * @param onInit the function to run on command initialization
+   * @param onEnd the function to run on command end
+   * @param requirements the subsystems required by this command
+   */
+  constructor(onInit: () => void, onEnd: () => void, ...requirements: Subsystem[]) {
+    super(onInit, () => {}, () => onEnd(), () => false, ...requirements);
+  }
+}
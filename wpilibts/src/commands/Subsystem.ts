@@ -9,7 +9,6 @@
  * command is scheduled that requires the subsystem.
  */
 export class Subsystem {
-  private m_defaultCommand: Command | null = null;
   private m_currentCommand: Command | null = null;
 
   /**
@@ -26,26 +25,30 @@ export class Subsystem {
    * @return The default command, or null if none is set
    */
   public getDefaultCommand(): Command | null {
-    return this.m_defaultCommand;
+    return CommandScheduler.getInstance().getDefaultCommand(this);
   }
 
   /**
-   * Sets the default command for this subsystem.
+   * Sets the default command for this subsystem. The default command must require this
+   * subsystem and must not end on its own; the CommandScheduler validates both.
    * 
    * @param defaultCommand The command to set as the default
    */
   public setDefaultCommand(defaultCommand: Command): void {
     if (defaultCommand === null) {
-      this.m_defaultCommand = null;
+      this.removeDefaultCommand();
       return;
     }
 
-    // Ensure the command requires this subsystem
-    if (!defaultCommand.getRequirements().has(this)) {
-      throw new Error(`Default command ${defaultCommand.getName()} must require subsystem ${this.constructor.name}`);
-    }
+    CommandScheduler.getInstance().setDefaultCommand(this, defaultCommand);
+  }
 
-    this.m_defaultCommand = defaultCommand;
+  /**
+   * Removes the default command for this subsystem. The current default command will run
+   * until another command requiring this subsystem is scheduled.
+   */
+  public removeDefaultCommand(): void {
+    CommandScheduler.getInstance().removeDefaultCommand(this);
   }
 
   /**
@@ -84,8 +87,65 @@ export class Subsystem {
    * Override this to implement subsystem-specific reset behavior.
    */
   public reset(): void {}
+
+  /**
+   * Constructs a command that runs an action once and finishes. Requires this subsystem.
+   *
+   * @param action the action to run
+   * @return the command
+   */
+  public runOnce(action: () => void): Command {
+    return Commands.runOnce(action, this);
+  }
+
+  /**
+   * Constructs a command that runs an action every iteration until interrupted. Requires this
+   * subsystem.
+   *
+   * @param action the action to run
+   * @return the command
+   */
+  public run(action: () => void): Command {
+    return Commands.run(action, this);
+  }
+
+  /**
+   * Constructs a command that runs an action once and another action when the command is
+   * interrupted. Requires this subsystem.
+   *
+   * @param start the action to run on start
+   * @param end the action to run on interrupt
+   * @return the command
+   */
+  public startEnd(start: () => void, end: () => void): Command {
+    return Commands.startEnd(start, end, this);
+  }
+
+  /**
+   * Constructs a command that runs an action every iteration until interrupted, and then runs a
+   * second action. Requires this subsystem.
+   *
+   * @param run the action to run every iteration
+   * @param end the action to run on interrupt
+   * @return the command
+   */
+  public runEnd(run: () => void, end: () => void): Command {
+    return Commands.runEnd(run, end, this);
+  }
+
+  /**
+   * Constructs a DeferredCommand with the provided supplier. This subsystem is added as a
+   * requirement.
+   *
+   * @param supplier the command supplier
+   * @return the command
+   */
+  public defer(supplier: () => Command | null): Command {
+    return Commands.defer(supplier, new Set<Subsystem>([this]));
+  }
 }
 
 // Import at the end to avoid circular dependencies
 import { Command } from './Command';
 import { CommandScheduler } from './CommandScheduler';
+import { Commands } from './Commands';
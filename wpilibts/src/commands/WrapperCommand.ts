@@ -0,0 +1,79 @@
+import { Command } from './Command';
+import { CommandScheduler } from './CommandScheduler';
+import { InterruptionBehavior } from './InterruptionBehavior';
+
+/**
+ * A class used internally to wrap commands while overriding a specific method; all other methods
+ * will call through to the wrapped command.
+ *
+ * The wrapped command cannot be added to any other composition or scheduled individually, and
+ * the wrapper requires the same subsystems as the wrapped command.
+ */
+export abstract class WrapperCommand extends Command {
+  protected readonly m_command: Command;
+
+  /**
+   * Wrap a command.
+   *
+   * @param command the command being wrapped. Trying to directly schedule this command or add it to
+   *     a composition will throw an exception.
+   */
+  protected constructor(command: Command) {
+    super();
+    CommandScheduler.getInstance().registerComposedCommands(command);
+    this.m_command = command;
+    this.setName(command.getName());
+    this.addRequirements(...command.getRequirements());
+  }
+
+  /**
+   * The initial subroutine of a command. Called once when the command is initially scheduled.
+   */
+  public override initialize(): void {
+    this.m_command.initialize();
+  }
+
+  /**
+   * The main body of a command. Called repeatedly while the command is scheduled.
+   */
+  public override execute(): void {
+    this.m_command.execute();
+  }
+
+  /**
+   * The action to take when the command ends. Called when either the command finishes normally, or
+   * when it interrupted/canceled.
+   *
+   * @param interrupted whether the command was interrupted/canceled
+   */
+  public override end(interrupted: boolean): void {
+    this.m_command.end(interrupted);
+  }
+
+  /**
+   * Whether the command has finished.
+   *
+   * @return whether the command has finished.
+   */
+  public override isFinished(): boolean {
+    return this.m_command.isFinished();
+  }
+
+  /**
+   * Whether the given command should run when the robot is disabled.
+   *
+   * @return whether the command should run when the robot is disabled
+   */
+  public override runsWhenDisabled(): boolean {
+    return this.m_command.runsWhenDisabled();
+  }
+
+  /**
+   * How the command behaves when another command with a shared requirement is scheduled.
+   *
+   * @return the interruption behavior of the wrapped command
+   */
+  public override getInterruptionBehavior(): InterruptionBehavior {
+    return this.m_command.getInterruptionBehavior();
+  }
+}
@@ -1,5 +1,7 @@
+import { Debouncer } from 'wpimath';
 import { Command } from '../Command';
 import { CommandScheduler } from '../CommandScheduler';
+import { EventLoop } from '../../event/EventLoop';
 
 /**
  * This class provides an easy way to link commands to conditions.
@@ -7,20 +9,37 @@ import { CommandScheduler } from '../CommandScheduler';
  * It is very easy to link a condition to a command. For instance, you could link the condition that
  * the robot has a ball to a command that shoots the ball.
  *
+ * Triggers are polled by an EventLoop; by default this is the CommandScheduler's default button
+ * loop, which the scheduler polls every run.
+ *
  * This class is a base for the Button class, for using joystick buttons to trigger commands.
  */
 export class Trigger {
-  private m_condition: () => boolean;
-  private m_pressedLast: boolean = false;
+  private readonly m_condition: () => boolean;
+  private readonly m_loop: EventLoop;
 
+  /**
+   * Creates a new trigger based on the given condition, polled by the CommandScheduler's default
+   * button loop.
+   *
+   * @param condition The condition that determines whether the trigger is active
+   */
+  constructor(condition?: () => boolean);
   /**
    * Creates a new trigger based on the given condition.
    *
+   * @param loop The loop instance that polls this trigger
    * @param condition The condition that determines whether the trigger is active
    */
-  constructor(condition: () => boolean = () => false) {
-    this.m_condition = condition;
-    CommandScheduler.getInstance().registerButton(this.poll.bind(this));
+  constructor(loop: EventLoop, condition: () => boolean);
+  constructor(loopOrCondition?: EventLoop | (() => boolean), condition?: () => boolean) {
+    if (loopOrCondition === undefined || typeof loopOrCondition === 'function') {
+      this.m_loop = CommandScheduler.getInstance().getDefaultButtonLoop();
+      this.m_condition = loopOrCondition ?? (() => false);
+    } else {
+      this.m_loop = loopOrCondition;
+      this.m_condition = condition!;
+    }
   }
 
   /**
@@ -33,96 +52,192 @@ export class Trigger {
   }
 
   /**
-   * Binds a command to start when the trigger becomes active.
+   * Adds a binding to the EventLoop.
    *
-   * @param command The command to start
-   * @return This trigger, for chaining
+   * @param body The body of the binding to add
    */
-  public whenActive(command: Command): Trigger {
-    let pressedLast = false;
-
-    CommandScheduler.getInstance().registerButton(() => {
-      const pressed = this.get();
+  private addBinding(body: (previous: boolean, current: boolean) => void): void {
+    let previous = this.get();
+    this.m_loop.bind(() => {
+      const current = this.get();
+      body(previous, current);
+      previous = current;
+    });
+  }
 
-      if (pressed && !pressedLast) {
+  /**
+   * Starts the command when the condition changes.
+   *
+   * @param command the command to start
+   * @return this trigger, so calls can be chained
+   */
+  public onChange(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (previous !== current) {
         command.schedule();
       }
-
-      pressedLast = pressed;
     });
-
     return this;
   }
 
   /**
-   * Binds a command to start when the trigger becomes inactive.
+   * Starts the given command whenever the condition changes from `false` to `true`.
    *
-   * @param command The command to start
-   * @return This trigger, for chaining
+   * @param command the command to start
+   * @return this trigger, so calls can be chained
    */
-  public whenInactive(command: Command): Trigger {
-    let pressedLast = false;
-
-    CommandScheduler.getInstance().registerButton(() => {
-      const pressed = this.get();
-
-      if (!pressed && pressedLast) {
+  public onTrue(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (!previous && current) {
         command.schedule();
       }
-
-      pressedLast = pressed;
     });
+    return this;
+  }
 
+  /**
+   * Starts the given command whenever the condition changes from `true` to `false`.
+   *
+   * @param command the command to start
+   * @return this trigger, so calls can be chained
+   */
+  public onFalse(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (previous && !current) {
+        command.schedule();
+      }
+    });
     return this;
   }
 
   /**
-   * Binds a command to start when the trigger changes state.
+   * Starts the given command when the condition changes to `true` and cancels it when the
+   * condition changes to `false`.
    *
-   * @param command The command to start
-   * @return This trigger, for chaining
+   * Doesn't re-start the command if it ends while the condition is still `true`. If the command
+   * should restart, see Command.repeatedly().
+   *
+   * @param command the command to start
+   * @return this trigger, so calls can be chained
    */
-  public toggleWhenActive(command: Command): Trigger {
-    let pressedLast = false;
+  public whileTrue(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (!previous && current) {
+        command.schedule();
+      } else if (previous && !current) {
+        command.cancel();
+      }
+    });
+    return this;
+  }
 
-    CommandScheduler.getInstance().registerButton(() => {
-      const pressed = this.get();
+  /**
+   * Starts the given command when the condition changes to `false` and cancels it when the
+   * condition changes to `true`.
+   *
+   * Doesn't re-start the command if it ends while the condition is still `false`. If the command
+   * should restart, see Command.repeatedly().
+   *
+   * @param command the command to start
+   * @return this trigger, so calls can be chained
+   */
+  public whileFalse(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (previous && !current) {
+        command.schedule();
+      } else if (!previous && current) {
+        command.cancel();
+      }
+    });
+    return this;
+  }
 
-      if (pressed && !pressedLast) {
+  /**
+   * Toggles a command when the condition changes from `false` to `true`.
+   *
+   * @param command the command to toggle
+   * @return this trigger, so calls can be chained
+   */
+  public toggleOnTrue(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (!previous && current) {
         if (command.isScheduled()) {
           command.cancel();
         } else {
           command.schedule();
         }
       }
-
-      pressedLast = pressed;
     });
+    return this;
+  }
 
+  /**
+   * Toggles a command when the condition changes from `true` to `false`.
+   *
+   * @param command the command to toggle
+   * @return this trigger, so calls can be chained
+   */
+  public toggleOnFalse(command: Command): Trigger {
+    this.addBinding((previous, current) => {
+      if (previous && !current) {
+        if (command.isScheduled()) {
+          command.cancel();
+        } else {
+          command.schedule();
+        }
+      }
+    });
     return this;
   }
 
+  /**
+   * Binds a command to start when the trigger becomes active.
+   *
+   * @param command The command to start
+   * @return This trigger, for chaining
+   * @deprecated Use onTrue() instead.
+   */
+  public whenActive(command: Command): Trigger {
+    return this.onTrue(command);
+  }
+
+  /**
+   * Binds a command to start when the trigger becomes inactive.
+   *
+   * @param command The command to start
+   * @return This trigger, for chaining
+   * @deprecated Use onFalse() instead.
+   */
+  public whenInactive(command: Command): Trigger {
+    return this.onFalse(command);
+  }
+
+  /**
+   * Binds a command to start when the trigger changes state.
+   *
+   * @param command The command to start
+   * @return This trigger, for chaining
+   * @deprecated Use toggleOnTrue() instead.
+   */
+  public toggleWhenActive(command: Command): Trigger {
+    return this.toggleOnTrue(command);
+  }
+
   /**
    * Binds a command to run while the trigger is active.
    *
    * @param command The command to run
    * @return This trigger, for chaining
+   * @deprecated Use whileTrue() with Command.repeatedly() instead.
    */
   public whileActiveContinous(command: Command): Trigger {
-    let pressedLast = false;
-
-    CommandScheduler.getInstance().registerButton(() => {
-      const pressed = this.get();
-
-      if (pressed) {
+    this.addBinding((previous, current) => {
+      if (current) {
         command.schedule();
-      } else if (pressedLast) {
+      } else if (previous) {
         command.cancel();
       }
-
-      pressedLast = pressed;
     });
-
     return this;
   }
 
@@ -131,23 +246,10 @@ export class Trigger {
    *
    * @param command The command to run
    * @return This trigger, for chaining
+   * @deprecated Use whileTrue() instead.
    */
   public whileActiveOnce(command: Command): Trigger {
-    let pressedLast = false;
-
-    CommandScheduler.getInstance().registerButton(() => {
-      const pressed = this.get();
-
-      if (pressed && !pressedLast) {
-        command.schedule();
-      } else if (!pressed && pressedLast) {
-        command.cancel();
-      }
-
-      pressedLast = pressed;
-    });
-
-    return this;
+    return this.whileTrue(command);
   }
 
   /**
@@ -155,20 +257,14 @@ export class Trigger {
    *
    * @param command The command to cancel
    * @return This trigger, for chaining
+   * @deprecated Pass this trigger to Command.until() instead.
    */
   public cancelWhenActive(command: Command): Trigger {
-    let pressedLast = false;
-
-    CommandScheduler.getInstance().registerButton(() => {
-      const pressed = this.get();
-
-      if (pressed && !pressedLast) {
+    this.addBinding((previous, current) => {
+      if (!previous && current) {
         command.cancel();
       }
-
-      pressedLast = pressed;
     });
-
     return this;
   }
 
@@ -180,7 +276,7 @@ export class Trigger {
    * @return A new trigger that is active when both triggers are active
    */
   public and(trigger: Trigger): Trigger {
-    return new Trigger(() => this.get() && trigger.get());
+    return new Trigger(this.m_loop, () => this.get() && trigger.get());
   }
 
   /**
@@ -191,7 +287,7 @@ export class Trigger {
    * @return A new trigger that is active when either trigger is active
    */
   public or(trigger: Trigger): Trigger {
-    return new Trigger(() => this.get() || trigger.get());
+    return new Trigger(this.m_loop, () => this.get() || trigger.get());
   }
 
   /**
@@ -200,21 +296,19 @@ export class Trigger {
    * @return A new trigger that is active when this trigger is inactive
    */
   public negate(): Trigger {
-    return new Trigger(() => !this.get());
+    return new Trigger(this.m_loop, () => !this.get());
   }
 
   /**
-   * Polls this trigger. If the trigger state has changed, the appropriate command will be scheduled.
+   * Creates a new debounced trigger from this trigger - it will become active when this trigger
+   * has been active for longer than the specified period.
+   *
+   * @param seconds The debounce period
+   * @param type The debounce type (rising edge by default)
+   * @return The debounced trigger
    */
-  private poll(): void {
-    const pressed = this.get();
-
-    if (pressed && !this.m_pressedLast) {
-      // Trigger has just become active
-    } else if (!pressed && this.m_pressedLast) {
-      // Trigger has just become inactive
-    }
-
-    this.m_pressedLast = pressed;
+  public debounce(seconds: number, type: Debouncer.DebounceType = Debouncer.DebounceType.kRising): Trigger {
+    const debouncer = new Debouncer(seconds, type);
+    return new Trigger(this.m_loop, () => debouncer.calculate(this.get()));
   }
 }
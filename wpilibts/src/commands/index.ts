@@ -2,6 +2,8 @@
 export { Command } from './Command';
 export { CommandGroupBase } from './CommandGroupBase';
 export { CommandScheduler } from './CommandScheduler';
+export { Commands } from './Commands';
+export { InterruptionBehavior } from './InterruptionBehavior';
 export { Subsystem } from './Subsystem';
 
 // Command group classes
@@ -11,11 +13,21 @@ export { ParallelRaceGroup } from './ParallelRaceGroup';
 export { SequentialCommandGroup } from './SequentialCommandGroup';
 
 // Utility command classes
+export { ConditionalCommand } from './ConditionalCommand';
+export { DeferredCommand } from './DeferredCommand';
+export { FunctionalCommand } from './FunctionalCommand';
 export { InstantCommand } from './InstantCommand';
 export { PIDCommand } from './PIDCommand';
+export { PrintCommand } from './PrintCommand';
+export { ProxyCommand } from './ProxyCommand';
+export { RepeatCommand } from './RepeatCommand';
 export { RunCommand } from './RunCommand';
+export { ScheduleCommand } from './ScheduleCommand';
+export { SelectCommand } from './SelectCommand';
+export { StartEndCommand } from './StartEndCommand';
 export { WaitCommand } from './WaitCommand';
 export { WaitUntilCommand } from './WaitUntilCommand';
+export { WrapperCommand } from './WrapperCommand';
 
 // Button classes
 export { Button } from './button/Button';
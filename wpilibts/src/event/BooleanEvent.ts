@@ -0,0 +1,151 @@
+import { Debouncer } from 'wpimath';
+import { EventLoop } from './EventLoop';
+
+/**
+ * This class provides an easy way to link actions to active high logic signals. Each object
+ * represents a digital signal to which callback actions can be bound using ifHigh().
+ *
+ * BooleanEvents can easily be composed for advanced functionality using and(), or() and
+ * negate().
+ *
+ * To get a new BooleanEvent that triggers when this one changes see rising() and falling().
+ */
+export class BooleanEvent {
+  /** Poller loop. */
+  protected readonly m_loop: EventLoop;
+
+  private readonly m_signal: () => boolean;
+
+  /** The state of the condition in the current loop poll. */
+  private m_state: boolean;
+
+  /**
+   * Creates a new event that is active when the condition is true.
+   *
+   * @param loop the loop that polls this event
+   * @param signal the digital signal represented by this object
+   */
+  constructor(loop: EventLoop, signal: () => boolean) {
+    this.m_loop = loop;
+    this.m_signal = signal;
+    this.m_state = signal();
+    this.m_loop.bind(() => {
+      this.m_state = this.m_signal();
+    });
+  }
+
+  /**
+   * Returns the state of this signal (high or low) as of the last loop poll.
+   *
+   * @return true for the high state, false for the low state. If the event was never polled, it
+   *     returns the state at event construction.
+   */
+  public getAsBoolean(): boolean {
+    return this.m_state;
+  }
+
+  /**
+   * Bind an action to this event.
+   *
+   * @param action the action to run if this event is active
+   */
+  public ifHigh(action: () => void): void {
+    this.m_loop.bind(() => {
+      if (this.m_state) {
+        action();
+      }
+    });
+  }
+
+  /**
+   * A method to "downcast" a BooleanEvent instance to a subclass (for example, to a command-based
+   * version of this class).
+   *
+   * @param ctor a method reference to the constructor of the subclass that accepts the loop as
+   *     the first parameter and the condition/signal as the second.
+   * @return an instance of the subclass
+   */
+  public castTo<T>(ctor: (loop: EventLoop, signal: () => boolean) => T): T {
+    return ctor(this.m_loop, () => this.m_state);
+  }
+
+  /**
+   * Creates a new event that is active when this event is inactive.
+   *
+   * @return the new event
+   */
+  public negate(): BooleanEvent {
+    return new BooleanEvent(this.m_loop, () => !this.m_state);
+  }
+
+  /**
+   * Composes this event with another event, returning a new event that is active when both
+   * events are active.
+   *
+   * The events must use the same event loop. If the events use different event loops, the
+   * composed signal won't update until both loops are polled.
+   *
+   * @param other the event to compose with
+   * @return the event that is active when both events are active
+   */
+  public and(other: () => boolean): BooleanEvent {
+    return new BooleanEvent(this.m_loop, () => this.m_state && other());
+  }
+
+  /**
+   * Composes this event with another event, returning a new event that is active when either
+   * event is active.
+   *
+   * The events must use the same event loop. If the events use different event loops, the
+   * composed signal won't update until both loops are polled.
+   *
+   * @param other the event to compose with
+   * @return the event that is active when either event is active
+   */
+  public or(other: () => boolean): BooleanEvent {
+    return new BooleanEvent(this.m_loop, () => this.m_state || other());
+  }
+
+  /**
+   * Creates a new event that triggers when this one changes from false to true.
+   *
+   * @return the new event
+   */
+  public rising(): BooleanEvent {
+    let previous = this.m_state;
+    return new BooleanEvent(this.m_loop, () => {
+      const present = this.m_state;
+      const ret = !previous && present;
+      previous = present;
+      return ret;
+    });
+  }
+
+  /**
+   * Creates a new event that triggers when this one changes from true to false.
+   *
+   * @return the new event
+   */
+  public falling(): BooleanEvent {
+    let previous = this.m_state;
+    return new BooleanEvent(this.m_loop, () => {
+      const present = this.m_state;
+      const ret = previous && !present;
+      previous = present;
+      return ret;
+    });
+  }
+
+  /**
+   * Creates a new debounced event from this event - it will become active when this event has
+   * been active for longer than the specified period.
+   *
+   * @param seconds the debounce period
+   * @param type the debounce type (rising edge by default)
+   * @return the debounced event
+   */
+  public debounce(seconds: number, type: Debouncer.DebounceType = Debouncer.DebounceType.kRising): BooleanEvent {
+    const debouncer = new Debouncer(seconds, type);
+    return new BooleanEvent(this.m_loop, () => debouncer.calculate(this.m_state));
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * A declarative way to bind a set of actions to a loop and execute them when the loop is polled.
+ *
+ * The CommandScheduler polls its active button loop every run; additional loops (for example,
+ * one only used in test mode) can be polled independently.
+ */
+export class EventLoop {
+  private readonly m_bindings: Set<() => void> = new Set<() => void>();
+  private m_running: boolean = false;
+
+  /**
+   * Bind a new action to run when the loop is polled.
+   *
+   * @param action the action to run
+   * @throws Error if the loop is being polled
+   */
+  public bind(action: () => void): void {
+    if (this.m_running) {
+      throw new Error('Cannot bind EventLoop while it is running');
+    }
+    this.m_bindings.add(action);
+  }
+
+  /**
+   * Poll all bindings.
+   */
+  public poll(): void {
+    try {
+      this.m_running = true;
+      this.m_bindings.forEach(action => action());
+    } finally {
+      this.m_running = false;
+    }
+  }
+
+  /**
+   * Clear all bindings.
+   *
+   * @throws Error if the loop is being polled
+   */
+  public clear(): void {
+    if (this.m_running) {
+      throw new Error('Cannot clear EventLoop while it is running');
+    }
+    this.m_bindings.clear();
+  }
+}
@@ -0,0 +1,2 @@
+export { BooleanEvent } from './BooleanEvent';
+export { EventLoop } from './EventLoop';
@@ -3,6 +3,9 @@ export { RobotBase } from './RobotBase';
 export { IterativeRobotBase } from './IterativeRobotBase';
 export { TimedRobot } from './TimedRobot';
 export { Watchdog } from './Watchdog';
+export { DataLogManager } from './DataLogManager';
+export { Preferences } from './Preferences';
+export { Alert, AlertType } from './Alert';
 
 // Export driver station classes
 export { DriverStation, Alliance, Location, MatchType, JoystickAxisType, JoystickButtonType, JoystickPOVDirection } from './DriverStation';
@@ -12,11 +15,17 @@ export { DriverStationThread } from './DriverStationThread';
 // Export network classes
 export { DSWebSocketServer, DSMessageType, DSMessage, NetworkTablesWebSocketServer, ntWebSocketServer, NTMessageType } from './network';
 
+// Export SmartDashboard classes
+export * from './smartdashboard';
+
+// Export event classes
+export * from './event';
+
 // Export command-based framework
 export * from './commands';
 
-// Export any utility classes
-// TODO: Add more classes as they are implemented
+// Export utility classes
+export * from './util';
 
 // Export simulation classes
 export * from './simulation';
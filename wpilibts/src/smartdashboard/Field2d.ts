@@ -0,0 +1,126 @@
+import { NetworkTable } from 'ntcore-client';
+import { Sendable, SendableBuilder, SendableRegistry } from 'wpiutil';
+import { Pose2d, Rotation2d } from 'wpimath';
+import { FieldObject2d } from './FieldObject2d';
+
+/**
+ * 2D representation of game field for dashboards.
+ *
+ * An object's pose is the location shown on the dashboard view. Note that
+ * for the robot, this may or may not match the internal odometry. For
+ * example, the robot is shown at a particular starting location, the pose in
+ * this class would represent the actual location on the field, but the
+ * robot's internal state might have a 0,0,0 pose (unless it's initialized to
+ * something different).
+ *
+ * As the user is able to edit the pose, code performing updates should get
+ * the robot pose, transform it as appropriate (e.g. based on wheel odometry),
+ * and set the new pose.
+ *
+ * This class provides methods to set the robot pose, but other objects can
+ * also be shown by using the getObject() function. Other objects can also
+ * have multiple poses (which will show the object at multiple locations).
+ */
+export class Field2d implements Sendable {
+  private readonly m_objects: FieldObject2d[] = [];
+  private m_table: NetworkTable | null = null;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    const obj = new FieldObject2d('Robot');
+    obj.setPose(new Pose2d());
+    this.m_objects.push(obj);
+    SendableRegistry.add(this, 'Field');
+  }
+
+  /**
+   * Closes all field objects and removes the field from the SendableRegistry.
+   */
+  public close(): void {
+    for (const obj of this.m_objects) {
+      obj.close();
+    }
+    SendableRegistry.remove(this);
+  }
+
+  /**
+   * Set the robot pose from a Pose object.
+   *
+   * @param pose 2D pose
+   */
+  public setRobotPose(pose: Pose2d): void;
+  /**
+   * Set the robot pose from x, y, and rotation.
+   *
+   * @param xMeters X location, in meters
+   * @param yMeters Y location, in meters
+   * @param rotation rotation
+   */
+  public setRobotPose(xMeters: number, yMeters: number, rotation: Rotation2d): void;
+  public setRobotPose(poseOrX: Pose2d | number, yMeters?: number, rotation?: Rotation2d): void {
+    if (poseOrX instanceof Pose2d) {
+      this.m_objects[0].setPose(poseOrX);
+    } else {
+      this.m_objects[0].setPose(poseOrX, yMeters!, rotation!);
+    }
+  }
+
+  /**
+   * Get the robot pose.
+   *
+   * @return 2D pose
+   */
+  public getRobotPose(): Pose2d {
+    return this.m_objects[0].getPose();
+  }
+
+  /**
+   * Get or create a field object.
+   *
+   * @param name The field object's name.
+   * @return Field object
+   */
+  public getObject(name: string): FieldObject2d {
+    for (const obj of this.m_objects) {
+      if (obj.getName() === name) {
+        return obj;
+      }
+    }
+    const obj = new FieldObject2d(name);
+    this.m_objects.push(obj);
+    if (this.m_table !== null) {
+      this.attach(obj, this.m_table);
+    }
+    return obj;
+  }
+
+  /**
+   * Get the robot object.
+   *
+   * @return Field object for robot
+   */
+  public getRobotObject(): FieldObject2d {
+    return this.m_objects[0];
+  }
+
+  /**
+   * Initializes the field's properties.
+   *
+   * @param builder The builder used to construct this sendable
+   */
+  public initSendable(builder: SendableBuilder): void {
+    builder.setSmartDashboardType('Field2d');
+    this.m_table = builder.getTable() as NetworkTable;
+    for (const obj of this.m_objects) {
+      this.attach(obj, this.m_table);
+    }
+  }
+
+  private attach(obj: FieldObject2d, table: NetworkTable): void {
+    obj.close();
+    obj.m_entry = table.getDoubleArrayTopic(obj.getName()).getEntry([]);
+    obj.updateEntry(true);
+  }
+}
@@ -0,0 +1,143 @@
+import { DoubleArrayEntry } from 'ntcore-client';
+import { Pose2d, Rotation2d } from 'wpimath';
+
+/**
+ * Game field object on a Field2d.
+ *
+ * Poses are published as a double array of [x, y, degrees] triples.
+ */
+export class FieldObject2d {
+  private readonly m_name: string;
+  private m_poses: Pose2d[] = [];
+
+  /** @internal Set by Field2d once it has a table. */
+  public m_entry: DoubleArrayEntry | null = null;
+
+  /**
+   * Package-local constructor; use Field2d.getObject() instead.
+   *
+   * @param name name
+   */
+  constructor(name: string) {
+    this.m_name = name;
+  }
+
+  /**
+   * Gets the name of the object.
+   *
+   * @return name
+   */
+  public getName(): string {
+    return this.m_name;
+  }
+
+  /**
+   * Closes the object's entry.
+   */
+  public close(): void {
+    if (this.m_entry !== null) {
+      this.m_entry.close();
+      this.m_entry = null;
+    }
+  }
+
+  /**
+   * Set the pose from a Pose object.
+   *
+   * @param pose 2D pose
+   */
+  public setPose(pose: Pose2d): void;
+  /**
+   * Set the pose from x, y, and rotation.
+   *
+   * @param xMeters X location, in meters
+   * @param yMeters Y location, in meters
+   * @param rotation rotation
+   */
+  public setPose(xMeters: number, yMeters: number, rotation: Rotation2d): void;
+  public setPose(poseOrX: Pose2d | number, yMeters?: number, rotation?: Rotation2d): void {
+    const pose = poseOrX instanceof Pose2d ? poseOrX : new Pose2d(poseOrX, yMeters!, rotation!);
+    this.setPoses([pose]);
+  }
+
+  /**
+   * Get the pose.
+   *
+   * @return 2D pose
+   */
+  public getPose(): Pose2d {
+    this.updateFromEntry();
+    if (this.m_poses.length === 0) {
+      return new Pose2d();
+    }
+    return this.m_poses[0];
+  }
+
+  /**
+   * Set multiple poses from a list of Pose objects. The total number of poses
+   * is limited to 85.
+   *
+   * @param poses list of 2D poses
+   */
+  public setPoses(poses: Pose2d[]): void {
+    this.m_poses = [...poses];
+    this.updateEntry();
+  }
+
+  /**
+   * Get multiple poses.
+   *
+   * @return list of 2D poses
+   */
+  public getPoses(): Pose2d[] {
+    this.updateFromEntry();
+    return [...this.m_poses];
+  }
+
+  /**
+   * Publishes the poses to the entry.
+   *
+   * @internal
+   * @param setDefault if true, only publish the poses as a default value
+   */
+  public updateEntry(setDefault: boolean = false): void {
+    if (this.m_entry === null) {
+      return;
+    }
+
+    const arr: number[] = [];
+    for (const pose of this.m_poses) {
+      arr.push(pose.getX(), pose.getY(), pose.getRotation().getDegrees());
+    }
+
+    if (setDefault) {
+      this.m_entry.setDefault(arr);
+    } else {
+      this.m_entry.set(arr);
+    }
+  }
+
+  /**
+   * Applies poses set remotely (e.g. by dragging the robot in a dashboard).
+   */
+  private updateFromEntry(): void {
+    if (this.m_entry === null) {
+      return;
+    }
+
+    const values = this.m_entry.readQueueValues();
+    if (values.length === 0) {
+      return;
+    }
+    const arr = values[values.length - 1];
+    if (arr.length % 3 !== 0) {
+      return;
+    }
+
+    const poses: Pose2d[] = [];
+    for (let i = 0; i < arr.length; i += 3) {
+      poses.push(new Pose2d(arr[i], arr[i + 1], Rotation2d.fromDegrees(arr[i + 2])));
+    }
+    this.m_poses = poses;
+  }
+}
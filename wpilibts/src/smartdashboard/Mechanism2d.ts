@@ -0,0 +1,116 @@
+import { DoubleArrayPublisher, NetworkTable, StringPublisher } from 'ntcore-client';
+import { Sendable, SendableBuilder, SendableRegistry } from 'wpiutil';
+import { Color8Bit } from '../util/Color8Bit';
+import { MechanismRoot2d } from './MechanismRoot2d';
+
+/**
+ * Visual 2D representation of arms, elevators, and general mechanisms
+ * through a node-based API.
+ *
+ * A Mechanism2d object is published and contains at least one root node. A
+ * root is the anchor point of other nodes (such as ligaments). Other nodes
+ * are recursively appended based on other nodes.
+ *
+ * Except for the Mechanism2d container object, none of the objects should
+ * be passed or interacted with by value! Obtain pointers from factory
+ * methods like getRoot() and append(). The Mechanism2d container object
+ * owns the root nodes, and each node internally owns the nodes based on it.
+ *
+ * The coordinate system is: (0,0) is the bottom left corner, with the x axis
+ * extending to the right and the y axis extending up.
+ */
+export class Mechanism2d implements Sendable {
+  private static s_instances = 0;
+
+  private m_table: NetworkTable | null = null;
+  private readonly m_roots = new Map<string, MechanismRoot2d>();
+  private readonly m_dims: number[];
+  private m_color: string;
+  private m_dimsPub: DoubleArrayPublisher | null = null;
+  private m_colorPub: StringPublisher | null = null;
+
+  /**
+   * Create a new Mechanism2d with the given dimensions and background color.
+   *
+   * The dimensions represent the canvas that all the nodes are drawn on.
+   *
+   * @param width the width
+   * @param height the height
+   * @param backgroundColor the background color (defaults to dark blue)
+   */
+  constructor(width: number, height: number, backgroundColor: Color8Bit = new Color8Bit(0, 0, 32)) {
+    this.m_dims = [width, height];
+    this.m_color = backgroundColor.toHexString();
+    SendableRegistry.add(this, `Mechanism2d[${Mechanism2d.s_instances++}]`);
+  }
+
+  /**
+   * Closes the publishers and all roots, and removes the mechanism from the
+   * SendableRegistry.
+   */
+  public close(): void {
+    this.m_dimsPub?.close();
+    this.m_colorPub?.close();
+    for (const root of this.m_roots.values()) {
+      root.close();
+    }
+    SendableRegistry.remove(this);
+  }
+
+  /**
+   * Get or create a root in this Mechanism2d with the given name and
+   * position.
+   *
+   * If a root with the given name already exists, the given x and y
+   * coordinates are not used.
+   *
+   * @param name the root name
+   * @param x the root x coordinate
+   * @param y the root y coordinate
+   * @return a new root joint object, or the existing one with the given name.
+   */
+  public getRoot(name: string, x: number, y: number): MechanismRoot2d {
+    const existing = this.m_roots.get(name);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const root = new MechanismRoot2d(name, x, y);
+    this.m_roots.set(name, root);
+    if (this.m_table !== null) {
+      root.update(this.m_table.getSubTable(name));
+    }
+    return root;
+  }
+
+  /**
+   * Set the Mechanism2d background color.
+   *
+   * @param color the new color
+   */
+  public setBackgroundColor(color: Color8Bit): void {
+    this.m_color = color.toHexString();
+    this.m_colorPub?.set(this.m_color);
+  }
+
+  /**
+   * Initializes the mechanism's properties.
+   *
+   * @param builder The builder used to construct this sendable
+   */
+  public initSendable(builder: SendableBuilder): void {
+    builder.setSmartDashboardType('Mechanism2d');
+    this.m_table = builder.getTable() as NetworkTable;
+
+    this.m_dimsPub?.close();
+    this.m_dimsPub = this.m_table.getDoubleArrayTopic('dims').getPublisher();
+    this.m_dimsPub.set(this.m_dims);
+    this.m_colorPub?.close();
+    this.m_colorPub = this.m_table.getStringTopic('backgroundColor').getPublisher();
+    this.m_colorPub.set(this.m_color);
+
+    for (const [name, root] of this.m_roots) {
+      root.update(this.m_table.getSubTable(name));
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { DoubleEntry, NetworkTable, StringEntry, StringPublisher } from 'ntcore-client';
+import { Rotation2d } from 'wpimath';
+import { Color8Bit } from '../util/Color8Bit';
+import { MechanismObject2d } from './MechanismObject2d';
+
+/**
+ * Ligament node on a Mechanism2d. A ligament can have its length changed
+ * (like an elevator) or angle changed, like an arm.
+ */
+export class MechanismLigament2d extends MechanismObject2d {
+  private m_typePub: StringPublisher | null = null;
+  private m_angle: number = 0;
+  private m_angleEntry: DoubleEntry | null = null;
+  private m_color: string = '';
+  private m_colorEntry: StringEntry | null = null;
+  private m_length: number = 0;
+  private m_lengthEntry: DoubleEntry | null = null;
+  private m_weight: number = 0;
+  private m_weightEntry: DoubleEntry | null = null;
+
+  /**
+   * Create a new ligament.
+   *
+   * @param name The ligament name.
+   * @param length The ligament length.
+   * @param angle The ligament angle in degrees, or as a Rotation2d.
+   * @param lineWidth The ligament's line width (defaults to 10).
+   * @param color The ligament's color (defaults to orange).
+   */
+  constructor(
+    name: string,
+    length: number,
+    angle: number | Rotation2d,
+    lineWidth: number = 10,
+    color: Color8Bit = new Color8Bit(235, 137, 52)
+  ) {
+    super(name);
+    this.setColor(color);
+    this.setLength(length);
+    this.setAngle(angle);
+    this.setLineWeight(lineWidth);
+  }
+
+  /**
+   * Closes the ligament's entries and all of its children.
+   */
+  public close(): void {
+    super.close();
+    this.closeEntries();
+  }
+
+  /**
+   * Set the ligament's angle relative to its parent.
+   *
+   * @param angle the angle in degrees, or as a Rotation2d
+   */
+  public setAngle(angle: number | Rotation2d): void {
+    this.m_angle = angle instanceof Rotation2d ? angle.getDegrees() : angle;
+    this.m_angleEntry?.set(this.m_angle);
+  }
+
+  /**
+   * Get the ligament's angle relative to its parent.
+   *
+   * @return the angle in degrees
+   */
+  public getAngle(): number {
+    this.m_angle = MechanismLigament2d.readRemote(this.m_angleEntry, this.m_angle);
+    return this.m_angle;
+  }
+
+  /**
+   * Set the ligament's length.
+   *
+   * @param length the line length
+   */
+  public setLength(length: number): void {
+    this.m_length = length;
+    this.m_lengthEntry?.set(length);
+  }
+
+  /**
+   * Get the ligament length.
+   *
+   * @return the line length
+   */
+  public getLength(): number {
+    this.m_length = MechanismLigament2d.readRemote(this.m_lengthEntry, this.m_length);
+    return this.m_length;
+  }
+
+  /**
+   * Set the ligament color.
+   *
+   * @param color the color of the line
+   */
+  public setColor(color: Color8Bit): void {
+    this.m_color = color.toHexString();
+    this.m_colorEntry?.set(this.m_color);
+  }
+
+  /**
+   * Get the ligament color.
+   *
+   * @return the color of the line
+   */
+  public getColor(): Color8Bit {
+    const color = MechanismLigament2d.readRemote(this.m_colorEntry, this.m_color);
+    try {
+      const result = new Color8Bit(color);
+      this.m_color = color;
+      return result;
+    } catch {
+      return new Color8Bit(this.m_color);
+    }
+  }
+
+  /**
+   * Set the line thickness.
+   *
+   * @param weight the line thickness
+   */
+  public setLineWeight(weight: number): void {
+    this.m_weight = weight;
+    this.m_weightEntry?.set(weight);
+  }
+
+  /**
+   * Get the line thickness.
+   *
+   * @return the line thickness
+   */
+  public getLineWeight(): number {
+    this.m_weight = MechanismLigament2d.readRemote(this.m_weightEntry, this.m_weight);
+    return this.m_weight;
+  }
+
+  protected updateEntries(table: NetworkTable): void {
+    this.closeEntries();
+
+    this.m_typePub = table.getStringTopic('.type').getPublisher({}, { SmartDashboard: 'line' });
+    this.m_typePub.set('line');
+
+    this.m_angleEntry = table.getDoubleTopic('angle').getEntry(0);
+    this.m_angleEntry.set(this.m_angle);
+
+    this.m_lengthEntry = table.getDoubleTopic('length').getEntry(0);
+    this.m_lengthEntry.set(this.m_length);
+
+    this.m_colorEntry = table.getStringTopic('color').getEntry('');
+    this.m_colorEntry.set(this.m_color);
+
+    this.m_weightEntry = table.getDoubleTopic('weight').getEntry(0);
+    this.m_weightEntry.set(this.m_weight);
+  }
+
+  private closeEntries(): void {
+    this.m_typePub?.close();
+    this.m_angleEntry?.close();
+    this.m_lengthEntry?.close();
+    this.m_colorEntry?.close();
+    this.m_weightEntry?.close();
+    this.m_typePub = null;
+    this.m_angleEntry = null;
+    this.m_lengthEntry = null;
+    this.m_colorEntry = null;
+    this.m_weightEntry = null;
+  }
+
+  /**
+   * Returns the latest value set remotely on an entry, or the current value
+   * if nothing has changed.
+   */
+  private static readRemote<T>(entry: { readQueueValues(): T[] } | null, current: T): T {
+    const values = entry?.readQueueValues() ?? [];
+    return values.length > 0 ? values[values.length - 1] : current;
+  }
+}
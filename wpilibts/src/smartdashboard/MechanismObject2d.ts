@@ -0,0 +1,81 @@
+import { NetworkTable } from 'ntcore-client';
+
+/**
+ * Common base class for all Mechanism2d node types.
+ *
+ * To append another node, call append(). Each node object should be
+ * appended to exactly one other object. Appending an object with a name
+ * that already exists under the same parent throws an error.
+ */
+export abstract class MechanismObject2d {
+  /** Relative to parent. */
+  private readonly m_name: string;
+  private m_table: NetworkTable | null = null;
+  private readonly m_objects = new Map<string, MechanismObject2d>();
+
+  /**
+   * Create a new Mechanism node object.
+   *
+   * @param name the node's name, must be unique.
+   */
+  protected constructor(name: string) {
+    this.m_name = name;
+  }
+
+  /**
+   * Closes this object and all of its children.
+   */
+  public close(): void {
+    for (const obj of this.m_objects.values()) {
+      obj.close();
+    }
+  }
+
+  /**
+   * Append a Mechanism object that is based on this one.
+   *
+   * @param object the object to add.
+   * @return the object given as a parameter, useful for variable assignments and call chaining.
+   * @throws Error if the object's name is already used - object names must be unique.
+   */
+  public append<T extends MechanismObject2d>(object: T): T {
+    if (this.m_objects.has(object.getName())) {
+      throw new Error('Mechanism object names must be unique!');
+    }
+    this.m_objects.set(object.getName(), object);
+    if (this.m_table !== null) {
+      object.update(this.m_table.getSubTable(object.getName()));
+    }
+    return object;
+  }
+
+  /**
+   * Publishes this object and its children to a table.
+   *
+   * @internal
+   * @param table the object's table
+   */
+  public update(table: NetworkTable): void {
+    this.m_table = table;
+    this.updateEntries(table);
+    for (const obj of this.m_objects.values()) {
+      obj.update(table.getSubTable(obj.getName()));
+    }
+  }
+
+  /**
+   * Update all entries with new ones from a new table.
+   *
+   * @param table the new table.
+   */
+  protected abstract updateEntries(table: NetworkTable): void;
+
+  /**
+   * Retrieve the object's name.
+   *
+   * @return the object's name relative to its parent.
+   */
+  public getName(): string {
+    return this.m_name;
+  }
+}
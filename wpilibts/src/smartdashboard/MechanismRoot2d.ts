@@ -0,0 +1,113 @@
+import { DoublePublisher, NetworkTable } from 'ntcore-client';
+import { MechanismObject2d } from './MechanismObject2d';
+
+/**
+ * Root Mechanism2d node.
+ *
+ * A root is the anchor point of other nodes (such as ligaments).
+ *
+ * Do not create objects of this class directly! Obtain instances from the
+ * Mechanism2d.getRoot() factory method.
+ *
+ * Append other nodes by using append().
+ */
+export class MechanismRoot2d {
+  private readonly m_name: string;
+  private m_table: NetworkTable | null = null;
+  private readonly m_objects = new Map<string, MechanismObject2d>();
+  private m_x: number;
+  private m_y: number;
+  private m_xPub: DoublePublisher | null = null;
+  private m_yPub: DoublePublisher | null = null;
+
+  /**
+   * Package-private constructor for roots.
+   *
+   * @param name name
+   * @param x x coordinate of root (provide only when constructing a root node)
+   * @param y y coordinate of root (provide only when constructing a root node)
+   */
+  constructor(name: string, x: number, y: number) {
+    this.m_name = name;
+    this.m_x = x;
+    this.m_y = y;
+  }
+
+  /**
+   * Closes the root's publishers and all of its children.
+   */
+  public close(): void {
+    this.closePublishers();
+    for (const obj of this.m_objects.values()) {
+      obj.close();
+    }
+  }
+
+  /**
+   * Append a Mechanism object that is based on this one.
+   *
+   * @param object the object to add.
+   * @return the object given as a parameter, useful for variable assignments and call chaining.
+   * @throws Error if the object's name is already used - object names must be unique.
+   */
+  public append<T extends MechanismObject2d>(object: T): T {
+    if (this.m_objects.has(object.getName())) {
+      throw new Error('Mechanism object names must be unique!');
+    }
+    this.m_objects.set(object.getName(), object);
+    if (this.m_table !== null) {
+      object.update(this.m_table.getSubTable(object.getName()));
+    }
+    return object;
+  }
+
+  /**
+   * Set the root's position.
+   *
+   * @param x new x coordinate
+   * @param y new y coordinate
+   */
+  public setPosition(x: number, y: number): void {
+    this.m_x = x;
+    this.m_y = y;
+    this.flush();
+  }
+
+  /**
+   * Publishes this root and its children to a table.
+   *
+   * @internal
+   * @param table the root's table
+   */
+  public update(table: NetworkTable): void {
+    this.m_table = table;
+    this.closePublishers();
+    this.m_xPub = table.getDoubleTopic('x').getPublisher();
+    this.m_yPub = table.getDoubleTopic('y').getPublisher();
+    this.flush();
+    for (const obj of this.m_objects.values()) {
+      obj.update(table.getSubTable(obj.getName()));
+    }
+  }
+
+  /**
+   * Retrieve the root's name.
+   *
+   * @return the root's name
+   */
+  public getName(): string {
+    return this.m_name;
+  }
+
+  private flush(): void {
+    this.m_xPub?.set(this.m_x);
+    this.m_yPub?.set(this.m_y);
+  }
+
+  private closePublishers(): void {
+    this.m_xPub?.close();
+    this.m_yPub?.close();
+    this.m_xPub = null;
+    this.m_yPub = null;
+  }
+}
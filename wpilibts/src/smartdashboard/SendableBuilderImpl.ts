@@ -0,0 +1,376 @@
+import { BooleanPublisher, NetworkTable, PubSubOptions, StringPublisher } from 'ntcore-client';
+import { SendableBuilder, Timestamp } from 'wpiutil';
+
+/**
+ * The publisher half of a property's topic.
+ */
+interface PropertyPublisher<T> {
+  set(value: T): void;
+  close(): void;
+}
+
+/**
+ * The subscriber half of a property's topic.
+ */
+interface PropertySubscriber<T> {
+  readQueueValues(): T[];
+  close(): void;
+}
+
+/**
+ * A typed topic that a property can publish and subscribe to.
+ */
+interface PropertyTopic<T> {
+  getPublisher(options?: PubSubOptions): PropertyPublisher<T>;
+  getSubscriber(defaultValue: T, options?: PubSubOptions): PropertySubscriber<T>;
+}
+
+/**
+ * A property added by one of the add*Property() methods.
+ */
+class Property<T> {
+  private readonly m_pub: PropertyPublisher<T> | null;
+  private readonly m_sub: PropertySubscriber<T> | null;
+  private readonly m_getter: (() => T) | null;
+  private readonly m_setter: ((value: T) => void) | undefined;
+
+  constructor(topic: PropertyTopic<T>, defaultValue: T, getter: (() => T) | null, setter?: (value: T) => void) {
+    this.m_getter = getter;
+    this.m_setter = setter;
+    this.m_pub = getter ? topic.getPublisher() : null;
+    // Only values set by other nodes (e.g. a dashboard) are passed to the setter
+    this.m_sub = setter ? topic.getSubscriber(defaultValue, { excludeSelf: true }) : null;
+  }
+
+  /**
+   * Passes remote value changes to the setter (if controllable), then
+   * publishes the getter's value.
+   *
+   * @param controllable whether remote changes should be applied
+   */
+  public update(controllable: boolean): void {
+    if (this.m_sub !== null) {
+      // Always drain the queue so that changes made while not controllable
+      // aren't applied later
+      const values = this.m_sub.readQueueValues();
+      if (controllable) {
+        for (const value of values) {
+          this.m_setter!(value);
+        }
+      }
+    }
+    if (this.m_pub !== null) {
+      this.m_pub.set(this.m_getter!());
+    }
+  }
+
+  /**
+   * Stops publishing and subscribing.
+   */
+  public close(): void {
+    this.m_pub?.close();
+    this.m_sub?.close();
+  }
+}
+
+/**
+ * Implementation of SendableBuilder that publishes each property as a
+ * NetworkTables topic under a table. Getters are called to publish values on
+ * update(); setters are called on update() with values set remotely (e.g. by
+ * a dashboard) while listeners are started.
+ *
+ * The table also gets the metadata topics dashboards use: ".type" (see
+ * setSmartDashboardType()), ".controllable" (true while listeners are
+ * started) and ".actuator" (see setActuator()).
+ */
+export class SendableBuilderImpl implements SendableBuilder {
+  private m_table: NetworkTable | null = null;
+  private m_properties: Property<any>[] = [];
+  private m_safeState: (() => void) | null = null;
+  private m_updateTables: ((timestamp: number, table: any) => void)[] = [];
+  private m_controllable: boolean = false;
+  private m_actuator: boolean = false;
+  private m_controllablePub: BooleanPublisher | null = null;
+  private m_actuatorPub: BooleanPublisher | null = null;
+  private m_typePub: StringPublisher | null = null;
+
+  /**
+   * Set the network table. Must be called prior to any add* calls.
+   *
+   * @param table Network table
+   */
+  public setTable(table: NetworkTable): void {
+    this.m_controllablePub?.close();
+    this.m_table = table;
+    this.m_controllablePub = table.getBooleanTopic('.controllable').getPublisher();
+    this.m_controllablePub.setDefault(false);
+  }
+
+  /**
+   * Get the network table.
+   *
+   * @return The network table
+   */
+  public getTable(): NetworkTable {
+    if (this.m_table === null) {
+      throw new Error('SendableBuilderImpl: setTable() must be called first');
+    }
+    return this.m_table;
+  }
+
+  /**
+   * Return whether this sendable has an associated table.
+   *
+   * @return True if it has a table, false if not.
+   */
+  public isPublished(): boolean {
+    return this.m_table !== null;
+  }
+
+  /**
+   * Return whether this sendable should be treated as an actuator.
+   *
+   * @return True if actuator, false if not.
+   */
+  public isActuator(): boolean {
+    return this.m_actuator;
+  }
+
+  /**
+   * Update the network table values by calling the getters for all
+   * properties, after applying any remote value changes (if controllable).
+   */
+  public update(): void {
+    const time = Number(Timestamp.getMicroseconds());
+    for (const property of this.m_properties) {
+      property.update(this.m_controllable);
+    }
+    for (const updateTable of this.m_updateTables) {
+      updateTable(time, this.m_table);
+    }
+  }
+
+  /**
+   * Hook setters for all properties, so values set remotely are applied.
+   */
+  public startListeners(): void {
+    this.m_controllable = true;
+    this.m_controllablePub?.set(true);
+  }
+
+  /**
+   * Unhook setters for all properties.
+   */
+  public stopListeners(): void {
+    this.m_controllable = false;
+    this.m_controllablePub?.set(false);
+  }
+
+  /**
+   * Start LiveWindow mode by setting the sendable to its safe state and
+   * hooking setters.
+   */
+  public startLiveWindowMode(): void {
+    this.m_safeState?.();
+    this.startListeners();
+  }
+
+  /**
+   * Stop LiveWindow mode by unhooking setters and setting the sendable to its
+   * safe state.
+   */
+  public stopLiveWindowMode(): void {
+    this.stopListeners();
+    this.m_safeState?.();
+  }
+
+  /**
+   * Clear properties, stopping their publishers and subscribers.
+   */
+  public clearProperties(): void {
+    for (const property of this.m_properties) {
+      property.close();
+    }
+    this.m_properties = [];
+  }
+
+  /**
+   * Clear properties and stop publishing the metadata topics.
+   */
+  public close(): void {
+    this.clearProperties();
+    this.m_controllablePub?.close();
+    this.m_actuatorPub?.close();
+    this.m_typePub?.close();
+    this.m_controllablePub = null;
+    this.m_actuatorPub = null;
+    this.m_typePub = null;
+  }
+
+  /**
+   * Set the string representation of the named data type that will be used
+   * by the smart dashboard for this sendable.
+   *
+   * @param type data type
+   */
+  public setSmartDashboardType(type: string): void {
+    if (this.m_typePub === null) {
+      this.m_typePub = this.getTable().getStringTopic('.type').getPublisher({}, { SmartDashboard: type });
+    }
+    this.m_typePub.set(type);
+  }
+
+  /**
+   * Set a flag indicating if this sendable should be treated as an actuator.
+   * By default this flag is false.
+   *
+   * @param value true if actuator, false if not
+   */
+  public setActuator(value: boolean): void {
+    if (this.m_actuatorPub === null) {
+      this.m_actuatorPub = this.getTable().getBooleanTopic('.actuator').getPublisher();
+    }
+    this.m_actuatorPub.set(value);
+    this.m_actuator = value;
+  }
+
+  /**
+   * Set the function that should be called to set the Sendable into a safe
+   * state. This is called when entering and exiting LiveWindow mode.
+   *
+   * @param callback function
+   */
+  public setSafeState(callback: () => void): void {
+    this.m_safeState = callback;
+  }
+
+  /**
+   * Set the function that should be called to update the network table for
+   * things other than properties.
+   *
+   * @param callback function, called with the current time (in microseconds) and the table
+   */
+  public setUpdateTable(callback: (timestamp: number, table: any) => void): void {
+    this.m_updateTables.push(callback);
+  }
+
+  /**
+   * Add a property whose topic type is chosen from the getter's first value:
+   * booleans, numbers (as doubles), strings, byte arrays and arrays of those.
+   * Without a getter, or for other values, the property is sent as a string.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addProperty<T>(key: string, getter: (() => T) | null, setter?: (value: T) => void): void {
+    const sample: unknown = getter ? getter() : undefined;
+    const anyGetter = getter as (() => any) | null;
+    const anySetter = setter as ((value: any) => void) | undefined;
+    if (typeof sample === 'boolean') {
+      this.addBooleanProperty(key, anyGetter, anySetter);
+    } else if (typeof sample === 'number') {
+      this.addNumberProperty(key, anyGetter, anySetter);
+    } else if (sample instanceof Uint8Array) {
+      this.addRawProperty(key, anyGetter, anySetter);
+    } else if (Array.isArray(sample) && typeof sample[0] === 'boolean') {
+      this.addBooleanArrayProperty(key, anyGetter, anySetter);
+    } else if (Array.isArray(sample) && typeof sample[0] === 'string') {
+      this.addStringArrayProperty(key, anyGetter, anySetter);
+    } else if (Array.isArray(sample)) {
+      this.addNumberArrayProperty(key, anyGetter, anySetter);
+    } else {
+      this.addStringProperty(key, getter ? () => String(getter()) : getter, anySetter);
+    }
+  }
+
+  /**
+   * Add a boolean property.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addBooleanProperty(key: string, getter: (() => boolean) | null, setter?: (value: boolean) => void): void {
+    this.m_properties.push(new Property(this.getTable().getBooleanTopic(key), false, getter, setter));
+  }
+
+  /**
+   * Add a number property, sent as a double.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addNumberProperty(key: string, getter: (() => number) | null, setter?: (value: number) => void): void {
+    this.m_properties.push(new Property(this.getTable().getDoubleTopic(key), 0, getter, setter));
+  }
+
+  /**
+   * Add a string property.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addStringProperty(key: string, getter: (() => string) | null, setter?: (value: string) => void): void {
+    this.m_properties.push(new Property(this.getTable().getStringTopic(key), '', getter, setter));
+  }
+
+  /**
+   * Add a boolean array property.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addBooleanArrayProperty(key: string, getter: (() => boolean[]) | null, setter?: (value: boolean[]) => void): void {
+    this.m_properties.push(new Property<boolean[]>(this.getTable().getBooleanArrayTopic(key), [], getter, setter));
+  }
+
+  /**
+   * Add a number array property, sent as a double array.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addNumberArrayProperty(key: string, getter: (() => number[]) | null, setter?: (value: number[]) => void): void {
+    this.m_properties.push(new Property<number[]>(this.getTable().getDoubleArrayTopic(key), [], getter, setter));
+  }
+
+  /**
+   * Add a string array property.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addStringArrayProperty(key: string, getter: (() => string[]) | null, setter?: (value: string[]) => void): void {
+    this.m_properties.push(new Property<string[]>(this.getTable().getStringArrayTopic(key), [], getter, setter));
+  }
+
+  /**
+   * Add a raw property.
+   *
+   * @param key property name
+   * @param getter getter function (returns current value), or null to not publish the property
+   * @param setter setter function (sets new value)
+   */
+  public addRawProperty(key: string, getter: (() => Buffer) | null, setter?: (value: Buffer) => void): void {
+    const toBuffer = setter ? (value: Uint8Array) => setter(Buffer.from(value)) : undefined;
+    this.m_properties.push(new Property<Uint8Array>(this.getTable().getRawTopic(key), new Uint8Array(0), getter, toBuffer));
+  }
+
+  /**
+   * Add a constant integer property, sent as an int.
+   *
+   * @param key property name
+   * @param value the value
+   */
+  public publishConstInteger(key: string, value: number): void {
+    const property = new Property(this.getTable().getIntegerTopic(key), 0, () => value);
+    property.update(false);
+    this.m_properties.push(property);
+  }
+}
@@ -0,0 +1,127 @@
+import { Sendable, SendableBuilder, SendableRegistry } from 'wpiutil';
+
+/**
+ * The SendableChooser class is a useful tool for presenting a selection of
+ * options to the SmartDashboard.
+ *
+ * For instance, you may wish to be able to select between multiple autonomous
+ * modes. You can do this by putting every possible Command you want to run as
+ * an autonomous into a SendableChooser and then put it into the SmartDashboard
+ * to have a list of options appear on the laptop. Once autonomous starts,
+ * simply ask the SendableChooser what the selected value is.
+ *
+ * The chooser is published with the "String Chooser" type understood by
+ * Shuffleboard, Glass and Elastic.
+ */
+export class SendableChooser<V> implements Sendable {
+  /** The key for the default value. */
+  private static readonly kDefault = 'default';
+
+  /** The key for the selected option. */
+  private static readonly kSelected = 'selected';
+
+  /** The key for the active option. */
+  private static readonly kActive = 'active';
+
+  /** The key for the option array. */
+  private static readonly kOptions = 'options';
+
+  /** The key for the instance number. */
+  private static readonly kInstance = '.instance';
+
+  /** Number of choosers created, used to give each a unique name. */
+  private static s_instances = 0;
+
+  /** This chooser's instance number. */
+  private readonly m_instance: number;
+
+  /** A map linking strings to the objects they represent. */
+  private readonly m_map = new Map<string, V>();
+
+  private m_defaultChoice: string = '';
+  private m_selected: string | null = null;
+  private m_previousVal: string | null = null;
+  private m_listener: ((value: V | undefined) => void) | null = null;
+
+  /**
+   * Instantiates a SendableChooser.
+   */
+  constructor() {
+    this.m_instance = SendableChooser.s_instances++;
+    SendableRegistry.add(this, `SendableChooser[${this.m_instance}]`);
+  }
+
+  /**
+   * Removes the chooser from the SendableRegistry.
+   */
+  public close(): void {
+    SendableRegistry.remove(this);
+  }
+
+  /**
+   * Adds the given object to the list of options. On the SmartDashboard on
+   * the desktop, the object will appear as the given name.
+   *
+   * @param name the name of the option
+   * @param object the option
+   */
+  public addOption(name: string, object: V): void {
+    this.m_map.set(name, object);
+  }
+
+  /**
+   * Adds the given object to the list of options and marks it as the default.
+   * Functionally, this is very close to addOption(...) except that it will
+   * use this as the default option if none other is explicitly selected.
+   *
+   * @param name the name of the option
+   * @param object the option
+   */
+  public setDefaultOption(name: string, object: V): void {
+    this.m_defaultChoice = name;
+    this.addOption(name, object);
+  }
+
+  /**
+   * Returns the selected option. If there is none selected, it will return
+   * the default. If there is none selected and no default, then it will
+   * return undefined.
+   *
+   * @return the option selected
+   */
+  public getSelected(): V | undefined {
+    return this.m_map.get(this.m_selected ?? this.m_defaultChoice);
+  }
+
+  /**
+   * Bind a listener that's called when the selected value changes. Only one
+   * listener can be bound. Calling this function will replace the previous
+   * listener.
+   *
+   * @param listener The function to call that accepts the new value
+   */
+  public onChange(listener: (value: V | undefined) => void): void {
+    this.m_listener = listener;
+  }
+
+  /**
+   * Initializes the chooser's properties.
+   *
+   * @param builder The builder used to construct this sendable
+   */
+  public initSendable(builder: SendableBuilder): void {
+    builder.setSmartDashboardType('String Chooser');
+    builder.publishConstInteger(SendableChooser.kInstance, this.m_instance);
+    builder.addStringProperty(SendableChooser.kDefault, () => this.m_defaultChoice);
+    builder.addStringArrayProperty(SendableChooser.kOptions, () => Array.from(this.m_map.keys()));
+    builder.addStringProperty(SendableChooser.kActive, () => this.m_selected ?? this.m_defaultChoice);
+    builder.addStringProperty(SendableChooser.kSelected, null, (value) => {
+      this.m_selected = value;
+      const changed = value !== this.m_previousVal;
+      this.m_previousVal = value;
+      if (changed && this.m_listener !== null) {
+        this.m_listener(this.m_map.get(value));
+      }
+    });
+  }
+}
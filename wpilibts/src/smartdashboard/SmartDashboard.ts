@@ -0,0 +1,408 @@
+import { NetworkTable, NetworkTableEntry, NetworkTableInstance } from 'ntcore-client';
+import { Sendable, SendableRegistry } from 'wpiutil';
+import { SendableBuilderImpl } from './SendableBuilderImpl';
+
+/**
+ * The SmartDashboard class is the bridge between robot programs and the
+ * SmartDashboard on the laptop.
+ *
+ * When a value is put into the SmartDashboard here, it pops up on the
+ * SmartDashboard on the laptop. Users can put values into and get values from
+ * the SmartDashboard. Values are stored under the "SmartDashboard" table of
+ * the default NetworkTables instance.
+ */
+export class SmartDashboard {
+  /** The NetworkTables instance used by SmartDashboard. */
+  private static m_inst: NetworkTableInstance | null = null;
+
+  /** The table, created on first use. */
+  private static m_table: NetworkTable | null = null;
+
+  /** Sendables put with putData(), and the builders publishing them. */
+  private static readonly m_tablesToData = new Map<string, { data: Sendable; builder: SendableBuilderImpl }>();
+
+  private constructor() {}
+
+  /**
+   * Set the NetworkTables instance used by SmartDashboard. Sendables already
+   * put with putData() are forgotten.
+   *
+   * @param inst NetworkTables instance
+   */
+  public static setNetworkTableInstance(inst: NetworkTableInstance): void {
+    SmartDashboard.m_inst = inst;
+    SmartDashboard.m_table = null;
+    for (const { builder } of SmartDashboard.m_tablesToData.values()) {
+      builder.close();
+    }
+    SmartDashboard.m_tablesToData.clear();
+  }
+
+  private static getTable(): NetworkTable {
+    if (SmartDashboard.m_table === null) {
+      if (SmartDashboard.m_inst === null) {
+        SmartDashboard.m_inst = NetworkTableInstance.getDefault();
+      }
+      SmartDashboard.m_table = SmartDashboard.m_inst.getTable('SmartDashboard');
+    }
+    return SmartDashboard.m_table;
+  }
+
+  /**
+   * Maps the specified key to the specified value in this table. The key can
+   * not be null. The value can be retrieved by calling the get method with a
+   * key that is equal to the original key.
+   *
+   * @param key the key
+   * @param data the value
+   */
+  public static putData(key: string, data: Sendable): void;
+  /**
+   * Maps the specified key (where the key is the name of the Sendable) to the
+   * specified value in this table. The value can be retrieved by calling the
+   * get method with a key that is equal to the original key. Does nothing if
+   * the Sendable has no name.
+   *
+   * @param value the value
+   */
+  public static putData(value: Sendable): void;
+  public static putData(keyOrValue: string | Sendable, data?: Sendable): void {
+    if (typeof keyOrValue !== 'string') {
+      const name = SendableRegistry.getName(keyOrValue);
+      if (name !== '') {
+        SmartDashboard.putData(name, keyOrValue);
+      }
+      return;
+    }
+
+    const key = keyOrValue;
+    const existing = SmartDashboard.m_tablesToData.get(key);
+    if (existing !== undefined && existing.data === data) {
+      return;
+    }
+    existing?.builder.close();
+
+    const dataTable = SmartDashboard.getTable().getSubTable(key);
+    const builder = new SendableBuilderImpl();
+    builder.setTable(dataTable);
+    data!.initSendable(builder);
+    builder.update();
+    builder.startListeners();
+    dataTable.getEntry('.name').setString(key);
+    SmartDashboard.m_tablesToData.set(key, { data: data!, builder });
+  }
+
+  /**
+   * Returns the value at the specified key.
+   *
+   * @param key the key
+   * @return the value
+   * @throws Error if the key does not exist
+   */
+  public static getData(key: string): Sendable {
+    const entry = SmartDashboard.m_tablesToData.get(key);
+    if (entry === undefined) {
+      throw new Error(`SmartDashboard data does not exist: ${key}`);
+    }
+    return entry.data;
+  }
+
+  /**
+   * Gets the entry for the specified key.
+   *
+   * @param key the key name
+   * @return Network table entry.
+   */
+  public static getEntry(key: string): NetworkTableEntry {
+    return SmartDashboard.getTable().getEntry(key);
+  }
+
+  /**
+   * Checks the table and tells if it contains the specified key.
+   *
+   * @param key the key to search for
+   * @return true if the table has a value for that key
+   */
+  public static containsKey(key: string): boolean {
+    const entry = SmartDashboard.getEntry(key);
+    return entry.exists() || entry.getValue() !== null;
+  }
+
+  /**
+   * Makes a key's value persistent through program restarts.
+   *
+   * @param key the key to make persistent
+   */
+  public static setPersistent(key: string): void {
+    SmartDashboard.getEntry(key).getTopic().setProperty('persistent', true);
+  }
+
+  /**
+   * Stop making a key's value persistent through program restarts.
+   *
+   * @param key the key name
+   */
+  public static clearPersistent(key: string): void {
+    SmartDashboard.getEntry(key).getTopic().setProperty('persistent', false);
+  }
+
+  /**
+   * Returns whether the value is persistent through program restarts.
+   *
+   * @param key the key name
+   * @return True if the value is persistent.
+   */
+  public static isPersistent(key: string): boolean {
+    return SmartDashboard.getEntry(key).getTopic().getProperty('persistent') === true;
+  }
+
+  /**
+   * Put a boolean in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putBoolean(key: string, value: boolean): boolean {
+    return SmartDashboard.getEntry(key).setBoolean(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultBoolean(key: string, defaultValue: boolean): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the boolean the key maps to. If the key does not exist or is of
+   * different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getBoolean(key: string, defaultValue: boolean): boolean {
+    const value = SmartDashboard.getEntry(key).getValue();
+    return typeof value === 'boolean' ? value : defaultValue;
+  }
+
+  /**
+   * Put a number in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putNumber(key: string, value: number): boolean {
+    return SmartDashboard.getEntry(key).setDouble(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultNumber(key: string, defaultValue: number): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the number the key maps to. If the key does not exist or is of
+   * different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getNumber(key: string, defaultValue: number): number {
+    return SmartDashboard.getEntry(key).getDouble(defaultValue);
+  }
+
+  /**
+   * Put a string in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putString(key: string, value: string): boolean {
+    return SmartDashboard.getEntry(key).setString(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultString(key: string, defaultValue: string): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the string the key maps to. If the key does not exist or is of
+   * different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getString(key: string, defaultValue: string): string {
+    const value = SmartDashboard.getEntry(key).getValue();
+    return typeof value === 'string' ? value : defaultValue;
+  }
+
+  /**
+   * Put a boolean array in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putBooleanArray(key: string, value: boolean[]): boolean {
+    return SmartDashboard.getEntry(key).setBooleanArray(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultBooleanArray(key: string, defaultValue: boolean[]): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the boolean array the key maps to. If the key does not exist or is
+   * of different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getBooleanArray(key: string, defaultValue: boolean[]): boolean[] {
+    return SmartDashboard.getEntry(key).getBooleanArray(defaultValue);
+  }
+
+  /**
+   * Put a number array in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putNumberArray(key: string, value: number[]): boolean {
+    return SmartDashboard.getEntry(key).setDoubleArray(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultNumberArray(key: string, defaultValue: number[]): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the number array the key maps to. If the key does not exist or is
+   * of different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getNumberArray(key: string, defaultValue: number[]): number[] {
+    return SmartDashboard.getEntry(key).getDoubleArray(defaultValue);
+  }
+
+  /**
+   * Put a string array in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putStringArray(key: string, value: string[]): boolean {
+    return SmartDashboard.getEntry(key).setStringArray(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultStringArray(key: string, defaultValue: string[]): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the string array the key maps to. If the key does not exist or is
+   * of different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getStringArray(key: string, defaultValue: string[]): string[] {
+    return SmartDashboard.getEntry(key).getStringArray(defaultValue);
+  }
+
+  /**
+   * Put a raw value (byte array) in the table.
+   *
+   * @param key the key to be assigned to
+   * @param value the value that will be assigned
+   * @return False if the table key already exists with a different type
+   */
+  public static putRaw(key: string, value: Uint8Array): boolean {
+    return SmartDashboard.getEntry(key).setRaw(value);
+  }
+
+  /**
+   * Gets the current value in the table, setting it if it does not exist.
+   *
+   * @param key the key
+   * @param defaultValue the default value to set if key does not exist.
+   * @return False if the table key exists with a different type
+   */
+  public static setDefaultRaw(key: string, defaultValue: Uint8Array): boolean {
+    return SmartDashboard.getEntry(key).setDefaultValue(defaultValue);
+  }
+
+  /**
+   * Returns the raw value (byte array) the key maps to. If the key does not
+   * exist or is of different type, it will return the default value.
+   *
+   * @param key the key to look up
+   * @param defaultValue the value to be returned if no value is found
+   * @return the value associated with the given key or the given default value if there is no value associated with the key
+   */
+  public static getRaw(key: string, defaultValue: Uint8Array): Uint8Array {
+    return SmartDashboard.getEntry(key).getRaw(defaultValue);
+  }
+
+  /**
+   * Puts all sendable data to the dashboard. Called once per loop by
+   * IterativeRobotBase.
+   */
+  public static updateValues(): void {
+    for (const { builder } of SmartDashboard.m_tablesToData.values()) {
+      builder.update();
+    }
+  }
+}
@@ -0,0 +1,9 @@
+export { SendableBuilderImpl } from './SendableBuilderImpl';
+export { SmartDashboard } from './SmartDashboard';
+export { SendableChooser } from './SendableChooser';
+export { Field2d } from './Field2d';
+export { FieldObject2d } from './FieldObject2d';
+export { Mechanism2d } from './Mechanism2d';
+export { MechanismRoot2d } from './MechanismRoot2d';
+export { MechanismObject2d } from './MechanismObject2d';
+export { MechanismLigament2d } from './MechanismLigament2d';
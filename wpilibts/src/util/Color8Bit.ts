@@ -0,0 +1,65 @@
+/**
+ * Represents colors with 8 bits of precision per channel.
+ */
+export class Color8Bit {
+  public readonly red: number;
+  public readonly green: number;
+  public readonly blue: number;
+
+  /**
+   * Constructs a Color8Bit from a hex string like "#FF8000".
+   *
+   * @param hexString the hex string for the color
+   */
+  constructor(hexString: string);
+  /**
+   * Constructs a Color8Bit. Channel values are clamped to [0, 255].
+   *
+   * @param red Red value (0-255)
+   * @param green Green value (0-255)
+   * @param blue Blue value (0-255)
+   */
+  constructor(red: number, green: number, blue: number);
+  constructor(redOrHex: number | string, green: number = 0, blue: number = 0) {
+    if (typeof redOrHex === 'string') {
+      if (!/^#[0-9a-fA-F]{6}$/.test(redOrHex)) {
+        throw new Error(`Invalid hex string for Color8Bit: "${redOrHex}"`);
+      }
+      this.red = parseInt(redOrHex.substring(1, 3), 16);
+      this.green = parseInt(redOrHex.substring(3, 5), 16);
+      this.blue = parseInt(redOrHex.substring(5, 7), 16);
+    } else {
+      this.red = Color8Bit.clamp(redOrHex);
+      this.green = Color8Bit.clamp(green);
+      this.blue = Color8Bit.clamp(blue);
+    }
+  }
+
+  /**
+   * Checks whether two colors have the same channel values.
+   *
+   * @param other the color to compare with
+   * @return true if the colors are equal
+   */
+  public equals(other: Color8Bit): boolean {
+    return this.red === other.red && this.green === other.green && this.blue === other.blue;
+  }
+
+  /**
+   * Return this color represented as a hex string.
+   *
+   * @return a string of the format "#RRGGBB"
+   */
+  public toHexString(): string {
+    const hex = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+    return `#${hex(this.red)}${hex(this.green)}${hex(this.blue)}`;
+  }
+
+  public toString(): string {
+    return `Color8Bit(${this.red}, ${this.green}, ${this.blue})`;
+  }
+
+  private static clamp(value: number): number {
+    return Math.min(255, Math.max(0, Math.round(value)));
+  }
+}
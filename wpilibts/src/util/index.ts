@@ -0,0 +1 @@
+export { Color8Bit } from './Color8Bit';
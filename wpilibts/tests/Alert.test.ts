@@ -0,0 +1,123 @@
+import { NetworkTable } from 'ntcore-client';
+import { Sendable, SendableRegistry, Timestamp } from 'wpiutil';
+import { Alert, AlertType } from '../src/Alert';
+import { SendableBuilderImpl } from '../src/smartdashboard/SendableBuilderImpl';
+import { SmartDashboard } from '../src/smartdashboard/SmartDashboard';
+import { FakeTable } from './helpers/FakeNetworkTables';
+
+jest.mock('../src/smartdashboard/SmartDashboard', () => {
+  return {
+    SmartDashboard: {
+      putData: jest.fn(),
+    },
+  };
+});
+
+let now = 0n;
+jest.spyOn(Timestamp, 'getMicroseconds').mockImplementation(() => now);
+
+/**
+ * Publishes the Sendable put for a group to a fake table and returns the
+ * string arrays it publishes.
+ */
+function getPublished(group: string) {
+  const call = (SmartDashboard.putData as jest.Mock).mock.calls.find(([key]) => key === group);
+  const sendable: Sendable = call[1];
+  const table = new FakeTable(`/SmartDashboard/${group}`);
+  const builder = new SendableBuilderImpl();
+  builder.setTable(table as unknown as NetworkTable);
+  sendable.initSendable(builder);
+  builder.update();
+  const value = (key: string) => table.getTopic<string[]>(key).value;
+  return {
+    type: table.getTopic('.type').value,
+    sendable,
+    errors: value('errors'),
+    warnings: value('warnings'),
+    infos: value('infos'),
+  };
+}
+
+describe('Alert', () => {
+  beforeEach(() => {
+    now += 1000n;
+  });
+
+  test('puts each group on the SmartDashboard once', () => {
+    const a = new Alert('first', AlertType.kInfo);
+    const b = new Alert('second', AlertType.kInfo);
+    const c = new Alert('Drive', 'third', AlertType.kInfo);
+
+    const calls = (SmartDashboard.putData as jest.Mock).mock.calls.map(([key]) => key);
+    expect(calls.filter((key) => key === 'Alerts')).toHaveLength(1);
+    expect(calls.filter((key) => key === 'Drive')).toHaveLength(1);
+
+    const published = getPublished('Drive');
+    expect(published.type).toBe('Alerts');
+    expect(SendableRegistry.getName(published.sendable)).toBe('Drive');
+    [a, b, c].forEach((alert) => alert.close());
+  });
+
+  test('publishes active alerts by type', () => {
+    const error = new Alert('Types', 'gyro disconnected', AlertType.kError);
+    const warning = new Alert('Types', 'battery low', AlertType.kWarning);
+    const info = new Alert('Types', 'auto loaded', AlertType.kInfo);
+    expect(getPublished('Types').errors).toEqual([]);
+
+    error.set(true);
+    warning.set(true);
+    info.set(true);
+    expect(error.get()).toBe(true);
+    expect(getPublished('Types')).toMatchObject({
+      errors: ['gyro disconnected'],
+      warnings: ['battery low'],
+      infos: ['auto loaded'],
+    });
+
+    warning.set(false);
+    expect(warning.get()).toBe(false);
+    expect(getPublished('Types').warnings).toEqual([]);
+    error.close();
+    info.close();
+    expect(getPublished('Types').errors).toEqual([]);
+  });
+
+  test('orders alerts with the most recently activated first', () => {
+    const first = new Alert('Order', 'first', AlertType.kWarning);
+    const second = new Alert('Order', 'second', AlertType.kWarning);
+    const third = new Alert('Order', 'third', AlertType.kWarning);
+
+    first.set(true);
+    now += 10n;
+    second.set(true);
+    now += 10n;
+    third.set(true);
+    second.set(true);
+    expect(getPublished('Order').warnings).toEqual(['third', 'second', 'first']);
+
+    first.set(false);
+    now += 10n;
+    first.set(true);
+    expect(getPublished('Order').warnings).toEqual(['first', 'third', 'second']);
+    [first, second, third].forEach((alert) => alert.close());
+  });
+
+  test('updates the text of active alerts in place', () => {
+    const older = new Alert('Text', 'older', AlertType.kError);
+    const alert = new Alert('Text', 'motor 1 overheating', AlertType.kError);
+    older.set(true);
+    now += 10n;
+    alert.set(true);
+    now += 10n;
+
+    alert.setText('motor 2 overheating');
+    expect(alert.getText()).toBe('motor 2 overheating');
+    expect(alert.getType()).toBe(AlertType.kError);
+    expect(getPublished('Text').errors).toEqual(['motor 2 overheating', 'older']);
+
+    alert.set(false);
+    alert.setText('motor 3 overheating');
+    expect(getPublished('Text').errors).toEqual(['older']);
+    older.close();
+  });
+});
@@ -9,9 +9,8 @@ jest.mock('../src/commands/CommandScheduler', () => {
   const mockSchedule = jest.fn();
   const mockCancel = jest.fn();
   const mockIsScheduled = jest.fn().mockReturnValue(false);
-  const mockRegisterButton = jest.fn((callback: () => void) => {
+  const mockBind = jest.fn((callback: () => void) => {
     buttonCallbacks.push(callback);
-    return () => {};
   });
 
   return {
@@ -21,15 +20,16 @@ jest.mock('../src/commands/CommandScheduler', () => {
         isScheduled: mockIsScheduled,
         schedule: mockSchedule,
         cancel: mockCancel,
-        registerButton: mockRegisterButton,
-        // Expose the callbacks for testing
+        getDefaultButtonLoop: jest.fn().mockReturnValue({ bind: mockBind }),
+        // Expose the loop bindings for testing
+        _bind: mockBind,
         _buttonCallbacks: buttonCallbacks,
         // Reset mocks for testing
         _resetMocks: () => {
           mockSchedule.mockClear();
           mockCancel.mockClear();
           mockIsScheduled.mockClear();
-          mockRegisterButton.mockClear();
+          mockBind.mockClear();
           buttonCallbacks.length = 0;
         }
       }),
@@ -99,10 +99,10 @@ describe('Button', () => {
     scheduler._resetMocks();
   });
 
-  test('should register with the CommandScheduler', () => {
-    // Create a new button to ensure registerButton is called
-    const newButton = new TestButton();
-    expect(scheduler.registerButton).toHaveBeenCalled();
+  test('should bind to the default button loop', () => {
+    button.whenPressed(command);
+    expect(scheduler.getDefaultButtonLoop).toHaveBeenCalled();
+    expect(scheduler._bind).toHaveBeenCalledTimes(1);
   });
 
   test('should schedule command when pressed (whenPressed)', () => {
@@ -1,4 +1,5 @@
 import { Command } from '../src/commands/Command';
+import { InterruptionBehavior } from '../src/commands/InterruptionBehavior';
 import { Subsystem } from '../src/commands/Subsystem';
 import { CommandScheduler } from '../src/commands/CommandScheduler';
 
@@ -64,11 +65,11 @@ describe('Command', () => {
     expect(command.getName()).toBe('CustomName');
   });
 
-  test('should be interruptible by default', () => {
-    expect(command.isInterruptible()).toBe(true);
+  test('should be cancelled by incoming commands by default', () => {
+    expect(command.getInterruptionBehavior()).toBe(InterruptionBehavior.kCancelSelf);
 
-    command.setInterruptible(false);
-    expect(command.isInterruptible()).toBe(false);
+    command.setInterruptionBehavior(InterruptionBehavior.kCancelIncoming);
+    expect(command.getInterruptionBehavior()).toBe(InterruptionBehavior.kCancelIncoming);
   });
 
   test('should not run when disabled by default', () => {
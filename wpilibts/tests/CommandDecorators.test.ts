@@ -0,0 +1,273 @@
+import { CommandScheduler } from '../src/commands/CommandScheduler';
+import { Command } from '../src/commands/Command';
+import { InterruptionBehavior } from '../src/commands/InterruptionBehavior';
+import { Subsystem } from '../src/commands/Subsystem';
+import { DriverStation } from '../src/DriverStation';
+
+// Mock the DriverStation
+jest.mock('../src/DriverStation', () => {
+  return {
+    DriverStation: {
+      getInstance: jest.fn().mockReturnValue({
+        isDisabled: jest.fn().mockReturnValue(false),
+      }),
+    },
+  };
+});
+
+class TestCommand extends Command {
+  public initializeCount = 0;
+  public executeCount = 0;
+  public endCount = 0;
+  public endInterruptedLast = false;
+  public finished = false;
+
+  constructor(...requirements: Subsystem[]) {
+    super();
+    this.addRequirements(...requirements);
+  }
+
+  public override initialize(): void {
+    this.initializeCount++;
+  }
+
+  public override execute(): void {
+    this.executeCount++;
+  }
+
+  public override end(interrupted: boolean): void {
+    this.endCount++;
+    this.endInterruptedLast = interrupted;
+  }
+
+  public override isFinished(): boolean {
+    return this.finished;
+  }
+}
+
+describe('Command decorators', () => {
+  let scheduler: CommandScheduler;
+
+  beforeEach(() => {
+    // Reset the singleton instance
+    (CommandScheduler as any).instance = undefined;
+    scheduler = CommandScheduler.getInstance();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('withTimeout interrupts the command after the timeout', () => {
+    jest.useFakeTimers();
+    const command = new TestCommand();
+    const timed = command.withTimeout(1);
+
+    scheduler.schedule(timed);
+    scheduler.run();
+    expect(scheduler.isScheduled(timed)).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+    scheduler.run();
+    expect(scheduler.isScheduled(timed)).toBe(false);
+    expect(command.endCount).toBe(1);
+  });
+
+  test('until and onlyWhile interrupt the command on a condition', () => {
+    let condition = false;
+    const untilCommand = new TestCommand();
+    const until = untilCommand.until(() => condition);
+    const whileCommand = new TestCommand();
+    const onlyWhile = whileCommand.onlyWhile(() => !condition);
+
+    scheduler.schedule(until);
+    scheduler.schedule(onlyWhile);
+    scheduler.run();
+    expect(scheduler.isScheduled(until)).toBe(true);
+    expect(scheduler.isScheduled(onlyWhile)).toBe(true);
+
+    condition = true;
+    scheduler.run();
+    expect(scheduler.isScheduled(until)).toBe(false);
+    expect(scheduler.isScheduled(onlyWhile)).toBe(false);
+    expect(untilCommand.endCount).toBe(1);
+    expect(whileCommand.endCount).toBe(1);
+  });
+
+  test('andThen and beforeStarting run commands and functions in sequence', () => {
+    const order: string[] = [];
+    const first = new TestCommand();
+    first.finished = true;
+    const second = new TestCommand();
+    second.finished = true;
+    const group = first
+      .beforeStarting(() => order.push('before'))
+      .andThen(second)
+      .andThen(() => order.push('after'));
+
+    scheduler.schedule(group);
+    expect(order).toEqual(['before']);
+    for (let i = 0; i < 5; i++) {
+      scheduler.run();
+    }
+    expect(order).toEqual(['before', 'after']);
+    expect(first.endCount).toBe(1);
+    expect(second.endCount).toBe(1);
+    expect(scheduler.isScheduled(group)).toBe(false);
+  });
+
+  test('alongWith, raceWith and deadlineFor run commands in parallel', () => {
+    const a = new TestCommand();
+    const b = new TestCommand();
+    const parallel = a.alongWith(b);
+    const c = new TestCommand();
+    const d = new TestCommand();
+    const race = c.raceWith(d);
+    const e = new TestCommand();
+    const f = new TestCommand();
+    const deadline = e.deadlineFor(f);
+
+    scheduler.schedule(parallel);
+    scheduler.schedule(race);
+    scheduler.schedule(deadline);
+    scheduler.run();
+    expect([a, b, c, d, e, f].map((command) => command.executeCount)).toEqual([1, 1, 1, 1, 1, 1]);
+
+    a.finished = true;
+    d.finished = true;
+    f.finished = true;
+    scheduler.run();
+    expect(scheduler.isScheduled(parallel)).toBe(true);
+    expect(scheduler.isScheduled(race)).toBe(false);
+    expect(scheduler.isScheduled(deadline)).toBe(true);
+
+    b.finished = true;
+    e.finished = true;
+    scheduler.run();
+    expect(scheduler.isScheduled(parallel)).toBe(false);
+    expect(scheduler.isScheduled(deadline)).toBe(false);
+  });
+
+  test('repeatedly restarts the command when it ends', () => {
+    const command = new TestCommand();
+    const repeated = command.repeatedly();
+    expect(repeated.getName()).toBe('Repeat(TestCommand)');
+
+    scheduler.schedule(repeated);
+    command.finished = true;
+    scheduler.run();
+    scheduler.run();
+    scheduler.run();
+    expect(command.initializeCount).toBe(3);
+    expect(command.endCount).toBe(3);
+    expect(scheduler.isScheduled(repeated)).toBe(true);
+
+    scheduler.cancel(repeated);
+    expect(command.endCount).toBe(3);
+  });
+
+  test('unless and onlyIf skip the command on a condition', () => {
+    const skipped = new TestCommand();
+    const run = new TestCommand();
+
+    scheduler.schedule(skipped.unless(() => true));
+    scheduler.schedule(run.onlyIf(() => true));
+    expect(skipped.initializeCount).toBe(0);
+    expect(run.initializeCount).toBe(1);
+  });
+
+  test('decorators keep the requirements of the command', () => {
+    const subsystem = new Subsystem();
+    const command = new TestCommand(subsystem);
+    const decorated = command.unless(() => false);
+
+    expect(decorated.getRequirements().has(subsystem)).toBe(true);
+    expect(decorated.ignoringDisable(true).doesRequire(subsystem)).toBe(true);
+  });
+
+  test('ignoringDisable and withInterruptBehavior override the command', () => {
+    const subsystem = new Subsystem();
+    const command = new TestCommand(subsystem);
+    const wrapped = command.ignoringDisable(true).withInterruptBehavior(InterruptionBehavior.kCancelIncoming);
+    expect(wrapped.getName()).toBe('TestCommand');
+    expect(wrapped.runsWhenDisabled()).toBe(true);
+    expect(wrapped.getInterruptionBehavior()).toBe(InterruptionBehavior.kCancelIncoming);
+
+    scheduler.schedule(wrapped);
+    const incoming = new TestCommand(subsystem);
+    expect(scheduler.schedule(incoming)).toBe(false);
+    expect(scheduler.isScheduled(wrapped)).toBe(true);
+  });
+
+  test('ignoringDisable lets a command keep running while disabled', () => {
+    const ds = DriverStation.getInstance() as any;
+    const command = new TestCommand().ignoringDisable(true);
+    scheduler.schedule(command);
+
+    ds.isDisabled.mockReturnValue(true);
+    scheduler.run();
+    ds.isDisabled.mockReturnValue(false);
+    expect(scheduler.isScheduled(command)).toBe(true);
+  });
+
+  test('finallyDo and handleInterrupt run after the command ends', () => {
+    const ended: boolean[] = [];
+    let interrupts = 0;
+    const finishing = new TestCommand();
+    const interrupted = new TestCommand();
+    const finallyDo = finishing.finallyDo((wasInterrupted) => ended.push(wasInterrupted));
+    const handleInterrupt = interrupted.handleInterrupt(() => interrupts++);
+
+    scheduler.schedule(finallyDo);
+    scheduler.schedule(handleInterrupt);
+    finishing.finished = true;
+    scheduler.run();
+    expect(ended).toEqual([false]);
+    expect(finishing.endCount).toBe(1);
+
+    scheduler.cancel(handleInterrupt);
+    expect(interrupts).toBe(1);
+    expect(interrupted.endInterruptedLast).toBe(true);
+  });
+
+  test('asProxy schedules the command without its requirements', () => {
+    const subsystem = new Subsystem();
+    const command = new TestCommand(subsystem);
+    const proxy = command.asProxy();
+    expect(proxy.getName()).toBe('Proxy(TestCommand)');
+    expect(proxy.getRequirements().size).toBe(0);
+
+    scheduler.schedule(proxy);
+    expect(scheduler.isScheduled(command)).toBe(true);
+    scheduler.run();
+    expect(scheduler.isScheduled(proxy)).toBe(true);
+
+    command.finished = true;
+    scheduler.run();
+    scheduler.run();
+    expect(scheduler.isScheduled(command)).toBe(false);
+    expect(scheduler.isScheduled(proxy)).toBe(false);
+  });
+
+  test('a command can only be composed once', () => {
+    const command = new TestCommand();
+    const timed = command.withTimeout(1);
+
+    expect(() => command.until(() => true)).toThrow('Commands that have been composed');
+    expect(() => scheduler.schedule(command)).toThrow('Commands that have been composed');
+    expect(scheduler.isComposed(command)).toBe(true);
+    expect(() => timed.repeatedly()).not.toThrow();
+
+    scheduler.removeComposedCommand(command);
+    expect(() => command.until(() => true)).not.toThrow();
+  });
+
+  test('scheduled and duplicated commands cannot be composed', () => {
+    const scheduled = new TestCommand();
+    scheduler.schedule(scheduled);
+    expect(() => scheduled.repeatedly()).toThrow('scheduled individually');
+
+    const duplicate = new TestCommand();
+    expect(() => duplicate.alongWith(duplicate)).toThrow('Cannot compose a command twice');
+  });
+});
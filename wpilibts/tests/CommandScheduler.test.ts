@@ -1,7 +1,9 @@
 import { CommandScheduler } from '../src/commands/CommandScheduler';
 import { Command } from '../src/commands/Command';
+import { InterruptionBehavior } from '../src/commands/InterruptionBehavior';
 import { Subsystem } from '../src/commands/Subsystem';
 import { DriverStation } from '../src/DriverStation';
+import { EventLoop } from '../src/event/EventLoop';
 
 // Mock the DriverStation
 jest.mock('../src/DriverStation', () => {
@@ -84,6 +86,7 @@ describe('CommandScheduler', () => {
 
     scheduler = CommandScheduler.getInstance();
     ds = DriverStation.getInstance();
+    ds.isDisabled.mockReturnValue(false);
   });
 
   afterEach(() => {
@@ -207,7 +210,7 @@ describe('CommandScheduler', () => {
     const command1 = new TestCommand(new Set([subsystem]));
     const command2 = new TestCommand(new Set([subsystem]));
 
-    command1.setInterruptible(false);
+    command1.setInterruptionBehavior(InterruptionBehavior.kCancelIncoming);
 
     scheduler.schedule(command1);
 
@@ -303,4 +306,90 @@ describe('CommandScheduler', () => {
 
     expect(subsystem.periodicCount).toBe(1);
   });
+
+  test('should call lifecycle hooks', () => {
+    const initialized: Command[] = [];
+    const executed: Command[] = [];
+    const finished: Command[] = [];
+    scheduler.onCommandInitialize((command) => initialized.push(command));
+    scheduler.onCommandExecute((command) => executed.push(command));
+    scheduler.onCommandFinish((command) => finished.push(command));
+
+    const command = new TestCommand();
+    scheduler.schedule(command);
+    expect(initialized).toEqual([command]);
+
+    scheduler.run();
+    expect(executed).toEqual([command]);
+    expect(finished).toEqual([]);
+
+    command.setFinished(true);
+    scheduler.run();
+    expect(executed).toEqual([command, command]);
+    expect(finished).toEqual([command]);
+  });
+
+  test('should pass the interrupting command to interrupt hooks', () => {
+    const interrupts: [Command, Command | null][] = [];
+    scheduler.onCommandInterrupt((command, interruptor) => interrupts.push([command, interruptor]));
+
+    const subsystem = new TestSubsystem();
+    const command1 = new TestCommand(new Set([subsystem]));
+    const command2 = new TestCommand(new Set([subsystem]));
+
+    scheduler.schedule(command1);
+    scheduler.schedule(command2);
+    expect(interrupts).toEqual([[command1, command2]]);
+
+    scheduler.cancel(command2);
+    expect(interrupts).toEqual([[command1, command2], [command2, null]]);
+  });
+
+  test('should report no interruptor when commands are canceled by disabling', () => {
+    const interrupts: [Command, Command | null][] = [];
+    scheduler.onCommandInterrupt((command, interruptor) => interrupts.push([command, interruptor]));
+
+    const command = new TestCommand();
+    scheduler.schedule(command);
+    ds.isDisabled.mockReturnValue(true);
+    scheduler.run();
+
+    expect(interrupts).toEqual([[command, null]]);
+  });
+
+  test('should keep a kCancelIncoming command when another command requires its subsystem', () => {
+    const subsystem1 = new TestSubsystem();
+    const subsystem2 = new TestSubsystem();
+    const command1 = new TestCommand(new Set([subsystem1]));
+    const command2 = new TestCommand(new Set([subsystem2]));
+    const command3 = new TestCommand(new Set([subsystem1, subsystem2]));
+    command1.setInterruptionBehavior(InterruptionBehavior.kCancelIncoming);
+
+    scheduler.schedule(command1);
+    scheduler.schedule(command2);
+
+    expect(scheduler.schedule(command3)).toBe(false);
+    expect(scheduler.isScheduled(command1)).toBe(true);
+    expect(scheduler.isScheduled(command2)).toBe(true);
+    expect(command2.endCount).toBe(0);
+    expect(command3.initializeCount).toBe(0);
+  });
+
+  test('should poll the active button loop', () => {
+    const defaultAction = jest.fn();
+    const testAction = jest.fn();
+    const testLoop = new EventLoop();
+    scheduler.getDefaultButtonLoop().bind(defaultAction);
+    testLoop.bind(testAction);
+
+    scheduler.run();
+    expect(defaultAction).toHaveBeenCalledTimes(1);
+    expect(testAction).not.toHaveBeenCalled();
+
+    scheduler.setActiveButtonLoop(testLoop);
+    expect(scheduler.getActiveButtonLoop()).toBe(testLoop);
+    scheduler.run();
+    expect(defaultAction).toHaveBeenCalledTimes(1);
+    expect(testAction).toHaveBeenCalledTimes(1);
+  });
 });
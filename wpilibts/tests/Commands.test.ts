@@ -0,0 +1,268 @@
+import { CommandScheduler } from '../src/commands/CommandScheduler';
+import { Command } from '../src/commands/Command';
+import { Commands } from '../src/commands/Commands';
+import { DeferredCommand } from '../src/commands/DeferredCommand';
+import { FunctionalCommand } from '../src/commands/FunctionalCommand';
+import { InterruptionBehavior } from '../src/commands/InterruptionBehavior';
+import { ScheduleCommand } from '../src/commands/ScheduleCommand';
+import { SelectCommand } from '../src/commands/SelectCommand';
+import { StartEndCommand } from '../src/commands/StartEndCommand';
+import { Subsystem } from '../src/commands/Subsystem';
+
+// Mock the DriverStation
+jest.mock('../src/DriverStation', () => {
+  return {
+    DriverStation: {
+      getInstance: jest.fn().mockReturnValue({
+        isDisabled: jest.fn().mockReturnValue(false),
+      }),
+    },
+  };
+});
+
+class TestSubsystem extends Subsystem {}
+
+describe('Commands', () => {
+  let scheduler: CommandScheduler;
+
+  beforeEach(() => {
+    // Reset the singleton instance
+    (CommandScheduler as any).instance = undefined;
+    scheduler = CommandScheduler.getInstance();
+  });
+
+  test('FunctionalCommand calls the supplied functions', () => {
+    const calls: string[] = [];
+    let finished = false;
+    const subsystem = new TestSubsystem();
+    const command = new FunctionalCommand(
+      () => calls.push('init'),
+      () => calls.push('execute'),
+      (interrupted) => calls.push(`end ${interrupted}`),
+      () => finished,
+      subsystem
+    );
+
+    expect(command.doesRequire(subsystem)).toBe(true);
+    scheduler.schedule(command);
+    scheduler.run();
+    finished = true;
+    scheduler.run();
+
+    expect(calls).toEqual(['init', 'execute', 'execute', 'end false']);
+    expect(scheduler.isScheduled(command)).toBe(false);
+  });
+
+  test('StartEndCommand runs until interrupted', () => {
+    const onInit = jest.fn();
+    const onEnd = jest.fn();
+    const command = new StartEndCommand(onInit, onEnd);
+
+    scheduler.schedule(command);
+    scheduler.run();
+    scheduler.run();
+    expect(onInit).toHaveBeenCalledTimes(1);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    scheduler.cancel(command);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  test('runOnce, run, startEnd and runEnd', () => {
+    const action = jest.fn();
+    const runOnce = Commands.runOnce(action);
+    scheduler.schedule(runOnce);
+    scheduler.run();
+    expect(action).toHaveBeenCalledTimes(1);
+    expect(scheduler.isScheduled(runOnce)).toBe(false);
+
+    const run = Commands.run(action);
+    scheduler.schedule(run);
+    scheduler.run();
+    scheduler.run();
+    expect(action).toHaveBeenCalledTimes(3);
+    expect(scheduler.isScheduled(run)).toBe(true);
+    scheduler.cancel(run);
+
+    const start = jest.fn();
+    const end = jest.fn();
+    const runEnd = Commands.runEnd(start, end);
+    scheduler.schedule(runEnd);
+    scheduler.run();
+    scheduler.cancel(runEnd);
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(end).toHaveBeenCalledTimes(1);
+
+    const startEnd = Commands.startEnd(start, end);
+    scheduler.schedule(startEnd);
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+
+  test('none finishes immediately and idle requires its subsystems', () => {
+    const none = Commands.none();
+    scheduler.schedule(none);
+    scheduler.run();
+    expect(scheduler.isScheduled(none)).toBe(false);
+
+    const subsystem = new TestSubsystem();
+    const idle = Commands.idle(subsystem);
+    expect(idle.doesRequire(subsystem)).toBe(true);
+    scheduler.schedule(idle);
+    scheduler.run();
+    expect(scheduler.isScheduled(idle)).toBe(true);
+  });
+
+  test('print logs the message and runs when disabled', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const command = Commands.print('hello');
+    expect(command.runsWhenDisabled()).toBe(true);
+
+    scheduler.schedule(command);
+    expect(log).toHaveBeenCalledWith('hello');
+    log.mockRestore();
+  });
+
+  test('waitUntil finishes once the condition is true', () => {
+    let done = false;
+    const command = Commands.waitUntil(() => done);
+    scheduler.schedule(command);
+    scheduler.run();
+    expect(scheduler.isScheduled(command)).toBe(true);
+    done = true;
+    scheduler.run();
+    expect(scheduler.isScheduled(command)).toBe(false);
+  });
+
+  test('either runs the command chosen by the selector', () => {
+    const onTrue = jest.fn();
+    const onFalse = jest.fn();
+    let selector = false;
+    const command = Commands.either(Commands.runOnce(onTrue), Commands.runOnce(onFalse), () => selector);
+
+    scheduler.schedule(command);
+    scheduler.run();
+    selector = true;
+    scheduler.schedule(command);
+    scheduler.run();
+
+    expect(onFalse).toHaveBeenCalledTimes(1);
+    expect(onTrue).toHaveBeenCalledTimes(1);
+  });
+
+  test('SelectCommand runs the mapped command and requires all options', () => {
+    const a = new TestSubsystem();
+    const b = new TestSubsystem();
+    const one = jest.fn();
+    const two = jest.fn();
+    let key = 1;
+    const command = new SelectCommand(
+      new Map<number, Command>([
+        [1, Commands.runOnce(one, a)],
+        [2, Commands.runOnce(two, b)],
+      ]),
+      () => key
+    );
+
+    expect(command.doesRequire(a)).toBe(true);
+    expect(command.doesRequire(b)).toBe(true);
+    scheduler.schedule(command);
+    scheduler.run();
+    key = 2;
+    scheduler.schedule(command);
+    scheduler.run();
+    expect(one).toHaveBeenCalledTimes(1);
+    expect(two).toHaveBeenCalledTimes(1);
+
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    key = 3;
+    scheduler.schedule(command);
+    scheduler.run();
+    expect(log).toHaveBeenCalledWith('SelectCommand selector value does not correspond to any command!');
+    expect(scheduler.isScheduled(command)).toBe(false);
+    log.mockRestore();
+  });
+
+  test('select uses the most permissive interruption behavior', () => {
+    const command = Commands.select(
+      new Map<string, Command>([
+        ['a', Commands.idle().withInterruptBehavior(InterruptionBehavior.kCancelIncoming)],
+        ['b', Commands.idle()],
+      ]),
+      () => 'a'
+    );
+    expect(command.getInterruptionBehavior()).toBe(InterruptionBehavior.kCancelSelf);
+  });
+
+  test('defer creates a new command each time it is initialized', () => {
+    const subsystem = new TestSubsystem();
+    const supplier = jest.fn(() => Commands.runOnce(() => {}));
+    const command = Commands.defer(supplier, new Set([subsystem]));
+
+    expect(command).toBeInstanceOf(DeferredCommand);
+    expect(command.doesRequire(subsystem)).toBe(true);
+    expect(supplier).not.toHaveBeenCalled();
+
+    scheduler.schedule(command);
+    scheduler.run();
+    scheduler.schedule(command);
+    scheduler.run();
+    expect(supplier).toHaveBeenCalledTimes(2);
+    expect(supplier.mock.results[0].value).not.toBe(supplier.mock.results[1].value);
+  });
+
+  test('defer runs a print command if the supplier returns null', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const command = Commands.defer(() => null, new Set());
+    scheduler.schedule(command);
+    scheduler.run();
+    expect(log).toHaveBeenCalledWith('[DeferredCommand] Supplied command was null!');
+    expect(scheduler.isScheduled(command)).toBe(false);
+    log.mockRestore();
+  });
+
+  test('ScheduleCommand schedules commands and finishes immediately', () => {
+    const toSchedule = Commands.idle();
+    const command = new ScheduleCommand(toSchedule);
+    scheduler.schedule(command);
+    scheduler.run();
+
+    expect(scheduler.isScheduled(toSchedule)).toBe(true);
+    expect(scheduler.isScheduled(command)).toBe(false);
+  });
+
+  test('sequence, parallel, race and deadline compose their commands', () => {
+    const calls: string[] = [];
+    const sequence = Commands.sequence(
+      Commands.runOnce(() => calls.push('first')),
+      Commands.runOnce(() => calls.push('second'))
+    );
+    scheduler.schedule(sequence);
+    scheduler.run();
+    scheduler.run();
+    expect(calls).toEqual(['first', 'second']);
+
+    let done = false;
+    const parallel = Commands.parallel(Commands.none(), Commands.waitUntil(() => done));
+    const race = Commands.race(Commands.idle(), Commands.waitUntil(() => done));
+    const deadline = Commands.deadline(Commands.waitUntil(() => done), Commands.idle());
+    scheduler.schedule(parallel);
+    scheduler.schedule(race);
+    scheduler.schedule(deadline);
+    scheduler.run();
+    expect(scheduler.isScheduled(parallel)).toBe(true);
+    expect(scheduler.isScheduled(race)).toBe(true);
+    expect(scheduler.isScheduled(deadline)).toBe(true);
+
+    done = true;
+    scheduler.run();
+    expect(scheduler.isScheduled(parallel)).toBe(false);
+    expect(scheduler.isScheduled(race)).toBe(false);
+    expect(scheduler.isScheduled(deadline)).toBe(false);
+  });
+
+  test('composed commands cannot be scheduled individually', () => {
+    const inner = Commands.none();
+    Commands.sequence(inner);
+    expect(() => scheduler.schedule(inner)).toThrow();
+  });
+});
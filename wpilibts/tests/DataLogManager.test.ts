@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataLogManager } from '../src/DataLogManager';
+import { DriverStation, MatchType } from '../src/DriverStation';
+
+const mockInstance = {
+  startEntryDataLog: jest.fn().mockReturnValue(1),
+  startConnectionDataLog: jest.fn().mockReturnValue(2),
+  stopEntryDataLog: jest.fn(),
+  stopConnectionDataLog: jest.fn(),
+};
+
+// Mock NetworkTables
+jest.mock('ntcore-client', () => {
+  return {
+    NetworkTableInstance: {
+      getDefault: jest.fn(() => mockInstance),
+    },
+  };
+});
+
+describe('DataLogManager', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'datalogmanager-'));
+    DriverStation.getInstance().setMatchInfo({
+      eventName: '',
+      gameSpecificMessage: '',
+      matchNumber: 0,
+      replayNumber: 0,
+      matchType: MatchType.kNone,
+    });
+  });
+
+  afterEach(() => {
+    DataLogManager.stop();
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('creates a log file and logs NetworkTables by default', () => {
+    DataLogManager.start(dir);
+
+    expect(DataLogManager.getLogDir()).toBe(dir);
+    expect(DataLogManager.getLogFilename()).toMatch(/^FRC_\d{8}_\d{6}\.wpilog$/);
+    expect(fs.existsSync(path.join(dir, DataLogManager.getLogFilename()))).toBe(true);
+    expect(mockInstance.startEntryDataLog).toHaveBeenCalledWith(DataLogManager.getLog(), '', 'NT:');
+    expect(mockInstance.startConnectionDataLog).toHaveBeenCalledTimes(1);
+  });
+
+  test('logs messages to the messages entry', () => {
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+    DataLogManager.start(dir, 'test.wpilog');
+    DataLogManager.log('hello');
+    DataLogManager.stop();
+
+    const data = fs.readFileSync(path.join(dir, 'test.wpilog'));
+    expect(data.includes(Buffer.from('messages'))).toBe(true);
+    expect(data.includes(Buffer.from('hello'))).toBe(true);
+    expect(consoleSpy).toHaveBeenCalledWith('hello');
+    consoleSpy.mockRestore();
+  });
+
+  test('can disable and re-enable NetworkTables logging', () => {
+    DataLogManager.start(dir);
+    DataLogManager.logNetworkTables(false);
+    expect(mockInstance.stopEntryDataLog).toHaveBeenCalledWith(1);
+    expect(mockInstance.stopConnectionDataLog).toHaveBeenCalledWith(2);
+
+    DataLogManager.logNetworkTables(true);
+    expect(mockInstance.startEntryDataLog).toHaveBeenCalledTimes(2);
+  });
+
+  test('starts a new log file when a match starts', () => {
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+    DataLogManager.start(dir, 'pre.wpilog');
+
+    jest.advanceTimersByTime(500);
+    expect(DataLogManager.getLogFilename()).toBe('pre.wpilog');
+
+    DriverStation.getInstance().setMatchInfo({
+      eventName: 'CASJ',
+      gameSpecificMessage: '',
+      matchNumber: 12,
+      replayNumber: 1,
+      matchType: MatchType.kQualification,
+    });
+    jest.advanceTimersByTime(250);
+
+    expect(DataLogManager.getLogFilename()).toMatch(/^FRC_\d{8}_\d{6}_CASJ_Q12\.wpilog$/);
+    expect(mockInstance.stopEntryDataLog).toHaveBeenCalledWith(1);
+    expect(mockInstance.startEntryDataLog).toHaveBeenCalledTimes(2);
+
+    // The same match doesn't start another file
+    const filename = DataLogManager.getLogFilename();
+    jest.advanceTimersByTime(1000);
+    expect(DataLogManager.getLogFilename()).toBe(filename);
+    expect(fs.readdirSync(dir)).toHaveLength(2);
+    consoleSpy.mockRestore();
+  });
+
+  test('reports errors from the match check and keeps checking', () => {
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    DataLogManager.start(dir, 'pre.wpilog');
+    const setMatch = (matchNumber: number) => DriverStation.getInstance().setMatchInfo({
+      eventName: '',
+      gameSpecificMessage: '',
+      matchNumber,
+      replayNumber: 1,
+      matchType: MatchType.kPractice,
+    });
+
+    const error = new Error('disk full');
+    mockInstance.startEntryDataLog.mockImplementationOnce(() => { throw error; });
+    setMatch(1);
+    expect(() => jest.advanceTimersByTime(250)).not.toThrow();
+    expect(errorSpy).toHaveBeenCalledWith('DataLogManager: Failed to check for a new match:', error);
+
+    setMatch(2);
+    jest.advanceTimersByTime(250);
+    expect(DataLogManager.getLogFilename()).toMatch(/_P2\.wpilog$/);
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,136 @@
+import { EventLoop } from '../src/event/EventLoop';
+import { BooleanEvent } from '../src/event/BooleanEvent';
+import { Debouncer, MathSharedStore } from 'wpimath';
+
+describe('EventLoop', () => {
+  test('should run bindings in order when polled', () => {
+    const loop = new EventLoop();
+    const calls: number[] = [];
+    loop.bind(() => calls.push(1));
+    loop.bind(() => calls.push(2));
+
+    loop.poll();
+    loop.poll();
+
+    expect(calls).toEqual([1, 2, 1, 2]);
+  });
+
+  test('should clear bindings', () => {
+    const loop = new EventLoop();
+    const action = jest.fn();
+    loop.bind(action);
+
+    loop.clear();
+    loop.poll();
+
+    expect(action).not.toHaveBeenCalled();
+  });
+
+  test('should not allow binding or clearing while polling', () => {
+    const loop = new EventLoop();
+    loop.bind(() => loop.bind(() => {}));
+    expect(() => loop.poll()).toThrow('Cannot bind EventLoop while it is running');
+
+    loop.clear();
+    loop.bind(() => loop.clear());
+    expect(() => loop.poll()).toThrow('Cannot clear EventLoop while it is running');
+  });
+});
+
+describe('BooleanEvent', () => {
+  let loop: EventLoop;
+  let signal: boolean;
+  let event: BooleanEvent;
+
+  beforeEach(() => {
+    loop = new EventLoop();
+    signal = false;
+    event = new BooleanEvent(loop, () => signal);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should update its state when the loop is polled', () => {
+    signal = true;
+    expect(event.getAsBoolean()).toBe(false);
+
+    loop.poll();
+    expect(event.getAsBoolean()).toBe(true);
+  });
+
+  test('should run ifHigh actions while high', () => {
+    const action = jest.fn();
+    event.ifHigh(action);
+
+    loop.poll();
+    expect(action).not.toHaveBeenCalled();
+
+    signal = true;
+    loop.poll();
+    loop.poll();
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  test('should detect rising and falling edges', () => {
+    const rising = jest.fn();
+    const falling = jest.fn();
+    event.rising().ifHigh(rising);
+    event.falling().ifHigh(falling);
+
+    signal = true;
+    loop.poll();
+    loop.poll();
+    expect(rising).toHaveBeenCalledTimes(1);
+    expect(falling).not.toHaveBeenCalled();
+
+    signal = false;
+    loop.poll();
+    loop.poll();
+    expect(rising).toHaveBeenCalledTimes(1);
+    expect(falling).toHaveBeenCalledTimes(1);
+  });
+
+  test('should compose with negate, and and or', () => {
+    let other = false;
+    const negated = event.negate();
+    const and = event.and(() => other);
+    const or = event.or(() => other);
+
+    signal = true;
+    loop.poll();
+    expect(negated.getAsBoolean()).toBe(false);
+    expect(and.getAsBoolean()).toBe(false);
+    expect(or.getAsBoolean()).toBe(true);
+
+    other = true;
+    loop.poll();
+    expect(and.getAsBoolean()).toBe(true);
+  });
+
+  test('should debounce', () => {
+    let currentTime = 0;
+    jest.spyOn(MathSharedStore, 'getTimestamp').mockImplementation(() => currentTime);
+    const debounced = event.debounce(0.1, Debouncer.DebounceType.kRising);
+
+    signal = true;
+    loop.poll();
+    expect(debounced.getAsBoolean()).toBe(false);
+
+    currentTime = 0.2;
+    loop.poll();
+    expect(debounced.getAsBoolean()).toBe(true);
+  });
+
+  test('should cast to another event type on the same loop', () => {
+    class CustomEvent extends BooleanEvent {}
+    const cast = event.castTo((eventLoop, eventSignal) => new CustomEvent(eventLoop, eventSignal));
+
+    expect(cast).toBeInstanceOf(CustomEvent);
+    signal = true;
+    loop.poll();
+    loop.poll();
+    expect(cast.getAsBoolean()).toBe(true);
+  });
+});
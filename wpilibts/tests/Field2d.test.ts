@@ -0,0 +1,71 @@
+import { SendableBuilder } from 'wpiutil';
+import { Pose2d, Rotation2d } from 'wpimath';
+import { Field2d } from '../src/smartdashboard/Field2d';
+import { FakeTable } from './helpers/FakeNetworkTables';
+
+function createBuilder() {
+  const table = new FakeTable();
+  let type = '';
+  const builder = {
+    setSmartDashboardType: (value: string) => { type = value; },
+    getTable: () => table,
+  } as unknown as SendableBuilder;
+  return { builder, table, getType: () => type };
+}
+
+describe('Field2d', () => {
+  test('publishes the robot pose as [x, y, degrees]', () => {
+    const field = new Field2d();
+    field.setRobotPose(1, 2, Rotation2d.fromDegrees(90));
+    const fake = createBuilder();
+    field.initSendable(fake.builder);
+
+    expect(fake.getType()).toBe('Field2d');
+    expect(fake.table.getDoubleArrayTopic('Robot').value).toEqual([1, 2, 90]);
+
+    field.setRobotPose(new Pose2d(3, 4, Rotation2d.fromDegrees(-45)));
+    expect(fake.table.getDoubleArrayTopic('Robot').value).toEqual([3, 4, -45]);
+    field.close();
+    expect(fake.table.getDoubleArrayTopic('Robot').isClosed()).toBe(true);
+  });
+
+  test('publishes named objects with multiple poses', () => {
+    const field = new Field2d();
+    const fake = createBuilder();
+    field.initSendable(fake.builder);
+
+    const trajectory = field.getObject('Trajectory');
+    expect(field.getObject('Trajectory')).toBe(trajectory);
+    trajectory.setPoses([new Pose2d(), new Pose2d(1, 1, Rotation2d.fromDegrees(180))]);
+    expect(fake.table.getDoubleArrayTopic('Trajectory').value).toEqual([0, 0, 0, 1, 1, 180]);
+    expect(trajectory.getPoses()).toHaveLength(2);
+    field.close();
+  });
+
+  test('applies poses set from the dashboard', () => {
+    const field = new Field2d();
+    const fake = createBuilder();
+    field.initSendable(fake.builder);
+
+    fake.table.getDoubleArrayTopic('Robot').remote.push([5, 6, 30]);
+    const pose = field.getRobotPose();
+    expect(pose.getX()).toBe(5);
+    expect(pose.getY()).toBe(6);
+    expect(pose.getRotation().getDegrees()).toBeCloseTo(30);
+
+    fake.table.getDoubleArrayTopic('Robot').remote.push([1, 2]);
+    expect(field.getRobotPose().getX()).toBe(5);
+    field.close();
+  });
+
+  test('keeps poses set before the field is published', () => {
+    const field = new Field2d();
+    field.getObject('Target').setPose(7, 8, new Rotation2d());
+    expect(field.getObject('Target').getPose().getX()).toBe(7);
+
+    const fake = createBuilder();
+    field.initSendable(fake.builder);
+    expect(fake.table.getDoubleArrayTopic('Target').value).toEqual([7, 8, 0]);
+    field.close();
+  });
+});
@@ -6,7 +6,7 @@ jest.mock('../src/commands/CommandScheduler', () => {
   return {
     CommandScheduler: {
       getInstance: jest.fn().mockReturnValue({
-        registerButton: jest.fn(),
+        getDefaultButtonLoop: jest.fn().mockReturnValue({ bind: jest.fn() }),
       }),
     },
   };
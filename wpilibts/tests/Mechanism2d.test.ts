@@ -0,0 +1,114 @@
+import { NetworkTable } from 'ntcore-client';
+import { Rotation2d } from 'wpimath';
+import { Mechanism2d } from '../src/smartdashboard/Mechanism2d';
+import { MechanismLigament2d } from '../src/smartdashboard/MechanismLigament2d';
+import { SendableBuilderImpl } from '../src/smartdashboard/SendableBuilderImpl';
+import { Color8Bit } from '../src/util/Color8Bit';
+import { FakeTable, FakeTopic } from './helpers/FakeNetworkTables';
+
+/**
+ * Publishes a mechanism to a fake table through a SendableBuilderImpl.
+ */
+function publish(mechanism: Mechanism2d) {
+  const table = new FakeTable('/SmartDashboard/mechanism');
+  const builder = new SendableBuilderImpl();
+  builder.setTable(table as unknown as NetworkTable);
+  mechanism.initSendable(builder);
+
+  /** Gets a topic by its path below the mechanism table, e.g. "/root/arm/angle". */
+  const topic = (path: string) => {
+    const keys = path.split('/').slice(1);
+    const name = keys.pop()!;
+    return keys.reduce((parent, key) => parent.getSubTable(key), table).getTopic(name);
+  };
+  const allTopics = (parent: FakeTable): FakeTopic<unknown>[] =>
+    [...parent.topics.values(), ...[...parent.subtables.values()].flatMap(allTopics)];
+  // .type and .controllable on the mechanism table belong to the builder
+  const builderTopics = [table.getTopic('.type'), table.getTopic('.controllable')];
+
+  return {
+    type: table.getTopic('.type').value,
+    value: (path: string) => topic(path).value,
+    properties: (path: string) => topic(path).properties,
+    setRemote: (path: string, value: unknown) => topic(path).remote.push(value),
+    isClosed: () => allTopics(table).filter((t) => !builderTopics.includes(t)).every((t) => t.isClosed()),
+  };
+}
+
+describe('Mechanism2d', () => {
+  test('publishes dimensions, background color and roots', () => {
+    const mechanism = new Mechanism2d(3, 2);
+    mechanism.getRoot('base', 1, 0.5);
+    const fake = publish(mechanism);
+
+    expect(fake.type).toBe('Mechanism2d');
+    expect(fake.value('/dims')).toEqual([3, 2]);
+    expect(fake.value('/backgroundColor')).toBe('#000020');
+    expect(fake.value('/base/x')).toBe(1);
+    expect(fake.value('/base/y')).toBe(0.5);
+
+    mechanism.setBackgroundColor(new Color8Bit(255, 0, 0));
+    expect(fake.value('/backgroundColor')).toBe('#FF0000');
+    expect(mechanism.getRoot('base', 9, 9)).toBe(mechanism.getRoot('base', 0, 0));
+    mechanism.close();
+  });
+
+  test('publishes ligaments appended before and after publishing', () => {
+    const mechanism = new Mechanism2d(3, 3);
+    const root = mechanism.getRoot('root', 0, 0);
+    const elevator = root.append(new MechanismLigament2d('elevator', 1, 90));
+    const fake = publish(mechanism);
+
+    expect(fake.value('/root/elevator/.type')).toBe('line');
+    expect(fake.properties('/root/elevator/.type')).toEqual({ SmartDashboard: 'line' });
+    expect(fake.value('/root/elevator/length')).toBe(1);
+    expect(fake.value('/root/elevator/angle')).toBe(90);
+    expect(fake.value('/root/elevator/color')).toBe('#EB8934');
+    expect(fake.value('/root/elevator/weight')).toBe(10);
+
+    const wrist = elevator.append(
+      new MechanismLigament2d('wrist', 0.5, Rotation2d.fromDegrees(45), 6, new Color8Bit('#00FF00')));
+    expect(fake.value('/root/elevator/wrist/angle')).toBeCloseTo(45);
+    expect(fake.value('/root/elevator/wrist/color')).toBe('#00FF00');
+    expect(fake.value('/root/elevator/wrist/weight')).toBe(6);
+
+    elevator.setLength(2);
+    root.setPosition(1, 1);
+    expect(fake.value('/root/elevator/length')).toBe(2);
+    expect(fake.value('/root/x')).toBe(1);
+    mechanism.close();
+    expect(fake.isClosed()).toBe(true);
+  });
+
+  test('rejects duplicate names under the same parent', () => {
+    const mechanism = new Mechanism2d(1, 1);
+    const root = mechanism.getRoot('root', 0, 0);
+    root.append(new MechanismLigament2d('arm', 1, 0));
+    expect(() => root.append(new MechanismLigament2d('arm', 1, 0))).toThrow('Mechanism object names must be unique!');
+    mechanism.close();
+  });
+
+  test('reads ligament values set from the dashboard', () => {
+    const mechanism = new Mechanism2d(1, 1);
+    const arm = mechanism.getRoot('root', 0, 0).append(new MechanismLigament2d('arm', 1, 0));
+    expect(arm.getAngle()).toBe(0);
+    const fake = publish(mechanism);
+
+    fake.setRemote('/root/arm/angle', 30);
+    fake.setRemote('/root/arm/color', '#123456');
+    expect(arm.getAngle()).toBe(30);
+    expect(arm.getColor().toHexString()).toBe('#123456');
+    expect(arm.getLength()).toBe(1);
+    mechanism.close();
+  });
+});
+
+describe('Color8Bit', () => {
+  test('clamps channels and converts to and from hex strings', () => {
+    const color = new Color8Bit(300, -5, 15.6);
+    expect([color.red, color.green, color.blue]).toEqual([255, 0, 16]);
+    expect(color.toHexString()).toBe('#FF0010');
+    expect(new Color8Bit('#ff0010').equals(color)).toBe(true);
+    expect(() => new Color8Bit('red')).toThrow();
+  });
+});
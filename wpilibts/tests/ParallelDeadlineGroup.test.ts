@@ -9,6 +9,7 @@ jest.mock('../src/commands/CommandScheduler', () => {
       getInstance: jest.fn().mockReturnValue({
         registerSubsystem: jest.fn(),
         isScheduled: jest.fn().mockReturnValue(false),
+        registerComposedCommands: jest.fn(),
       }),
     },
   };
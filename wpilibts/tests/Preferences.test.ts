@@ -0,0 +1,116 @@
+import { Preferences } from '../src/Preferences';
+import { FakeNetworkTableInstance, FakeTable } from './helpers/FakeNetworkTables';
+
+const mockTable = new FakeTable('/Preferences');
+const mockInstance = new FakeNetworkTableInstance(mockTable);
+
+jest.mock('ntcore-client', () => {
+  return {
+    NetworkTableEvent: {
+      Kind: { kImmediate: 0x01, kPublish: 0x08 },
+    },
+    NetworkTableInstance: {
+      getDefault: jest.fn(() => mockInstance),
+    },
+  };
+});
+
+describe('Preferences', () => {
+  beforeEach(() => {
+    Preferences.removeAll();
+  });
+
+  test('uses the /Preferences table with the RobotPreferences type', () => {
+    expect(mockInstance.getTable).toHaveBeenCalledWith('/Preferences');
+    expect(mockTable.getTopic('.type').values).toEqual(['RobotPreferences']);
+    expect(mockTable.getTopic('.type').properties).toEqual({ SmartDashboard: 'RobotPreferences' });
+    expect(mockTable.listenerKinds).toBe(0x01 | 0x08);
+  });
+
+  test('sets persistent values of every type', () => {
+    Preferences.setDouble('kP', 0.25);
+    Preferences.setInt('count', 3);
+    Preferences.setLong('big', 2 ** 40);
+    Preferences.setFloat('ratio', 0.5);
+    Preferences.setBoolean('enabled', true);
+    Preferences.setString('name', 'arm');
+
+    expect(Preferences.getDouble('kP', 0)).toBe(0.25);
+    expect(Preferences.getInt('count', 0)).toBe(3);
+    expect(Preferences.getLong('big', 0)).toBe(2 ** 40);
+    expect(Preferences.getFloat('ratio', 0)).toBe(0.5);
+    expect(Preferences.getBoolean('enabled', false)).toBe(true);
+    expect(Preferences.getString('name', '')).toBe('arm');
+    for (const key of ['kP', 'count', 'big', 'ratio', 'enabled', 'name']) {
+      expect(mockTable.getEntry(key).persistent).toBe(true);
+    }
+  });
+
+  test('publishes ints and floats with their own types', () => {
+    Preferences.setInt('count', 3);
+    Preferences.initInt('n', 4);
+    Preferences.setLong('big', 2 ** 40);
+    Preferences.setFloat('ratio', 0.5);
+    Preferences.initFloat('f', 6);
+    Preferences.setDouble('kP', 0.25);
+
+    expect(mockTable.getEntry('count').type).toBe('int');
+    expect(mockTable.getEntry('n').type).toBe('int');
+    expect(mockTable.getEntry('big').type).toBe('int');
+    expect(mockTable.getEntry('ratio').type).toBe('float');
+    expect(mockTable.getEntry('f').type).toBe('float');
+    expect(mockTable.getEntry('kP').type).toBe('double');
+  });
+
+  test('init does not replace existing values', () => {
+    Preferences.setDouble('kP', 1);
+    Preferences.initDouble('kP', 2);
+    Preferences.initDouble('kI', 3);
+    Preferences.initBoolean('flag', true);
+    Preferences.initString('mode', 'auto');
+    Preferences.initInt('n', 4);
+    Preferences.initLong('l', 5);
+    Preferences.initFloat('f', 6);
+
+    expect(Preferences.getDouble('kP', 0)).toBe(1);
+    expect(Preferences.getDouble('kI', 0)).toBe(3);
+    expect(Preferences.getBoolean('flag', false)).toBe(true);
+    expect(Preferences.getString('mode', '')).toBe('auto');
+    expect(Preferences.getInt('n', 0)).toBe(4);
+    expect(Preferences.getLong('l', 0)).toBe(5);
+    expect(Preferences.getFloat('f', 0)).toBe(6);
+    expect(mockTable.getEntry('kI').persistent).toBe(true);
+  });
+
+  test('returns the backup for missing keys and mismatched types', () => {
+    Preferences.setString('name', 'arm');
+    expect(Preferences.getDouble('missing', 1.5)).toBe(1.5);
+    expect(Preferences.getDouble('name', 2)).toBe(2);
+    expect(Preferences.containsKey('missing')).toBe(false);
+  });
+
+  test('lists, removes and removes all keys', () => {
+    Preferences.setDouble('a', 1);
+    Preferences.setDouble('b', 2);
+    expect(Preferences.getKeys()).toEqual(['.type', 'a', 'b']);
+    expect(Preferences.containsKey('a')).toBe(true);
+
+    Preferences.remove('a');
+    expect(Preferences.containsKey('a')).toBe(false);
+    expect(mockTable.getEntry('a').persistent).toBe(false);
+
+    Preferences.removeAll();
+    expect(Preferences.getKeys()).toEqual(['.type']);
+  });
+
+  test('makes preferences published by dashboards persistent', () => {
+    const setPersistent = jest.fn();
+    const typeSetPersistent = jest.fn();
+    mockTable.listener!({ topicInfo: { name: '/Preferences/fromDashboard', getTopic: () => ({ setPersistent }) } });
+    mockTable.listener!({ topicInfo: { name: '/Preferences/.type', getTopic: () => ({ setPersistent: typeSetPersistent }) } });
+    mockTable.listener!({ topicInfo: null });
+
+    expect(setPersistent).toHaveBeenCalledWith(true);
+    expect(typeSetPersistent).not.toHaveBeenCalled();
+  });
+});
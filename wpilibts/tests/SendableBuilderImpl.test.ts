@@ -0,0 +1,173 @@
+import { NetworkTable, NetworkTableInstance } from 'ntcore-client';
+import { SendableBuilderImpl } from '../src/smartdashboard/SendableBuilderImpl';
+import { FakeTable } from './helpers/FakeNetworkTables';
+
+// ntcore-client is built as an ES module, so load its TypeScript sources
+// (compiled by ts-jest) to test against a real instance. Its node-fetch
+// dependency is ESM-only; Node's own fetch stands in for it.
+jest.mock('node-fetch', () => ({ __esModule: true, default: fetch }), { virtual: true });
+jest.mock('ntcore-client', () => jest.requireActual('../../ntcore-client/src/index'));
+
+const PORT = 5930;
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error(`Condition not met within ${timeoutMs} ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('SendableBuilderImpl', () => {
+  let builder: SendableBuilderImpl;
+  let table: FakeTable;
+
+  beforeEach(() => {
+    table = new FakeTable('/SmartDashboard/test');
+    builder = new SendableBuilderImpl();
+    builder.setTable(table as unknown as NetworkTable);
+  });
+
+  test('publishes .controllable as false until listeners start', () => {
+    expect(builder.isPublished()).toBe(true);
+    expect(table.getTopic('.controllable').values).toEqual([false]);
+    builder.startListeners();
+    builder.stopListeners();
+    expect(table.getTopic('.controllable').values).toEqual([false, true, false]);
+  });
+
+  test('closes the .controllable publisher of the previous table', () => {
+    const next = new FakeTable('/SmartDashboard/next');
+    builder.setTable(next as unknown as NetworkTable);
+
+    expect(table.getTopic('.controllable').isClosed()).toBe(true);
+    expect(next.getTopic('.controllable').values).toEqual([false]);
+    expect(next.getTopic('.controllable').isClosed()).toBe(false);
+  });
+
+  test('publishes .type and .actuator metadata', () => {
+    builder.setSmartDashboardType('Gyro');
+    builder.setActuator(true);
+    expect(table.getTopic('.type').values).toEqual(['Gyro']);
+    expect(table.getTopic('.type').properties).toEqual({ SmartDashboard: 'Gyro' });
+    expect(table.getTopic('.actuator').values).toEqual([true]);
+    expect(builder.isActuator()).toBe(true);
+  });
+
+  test('calls getters on update', () => {
+    let value = 1;
+    builder.addNumberProperty('value', () => value);
+    builder.addStringProperty('name', () => 'arm');
+    builder.update();
+    value = 2;
+    builder.update();
+    expect(table.getTopic('value').values).toEqual([1, 2]);
+    expect(table.getTopic('name').values).toEqual(['arm', 'arm']);
+  });
+
+  test('calls setters with remote values only while controllable', () => {
+    const setter = jest.fn();
+    builder.addBooleanProperty('enabled', () => false, setter);
+    expect(table.getTopic('enabled').subscriberOptions).toEqual({ excludeSelf: true });
+
+    table.getTopic('enabled').remote.push(true);
+    builder.update();
+    expect(setter).not.toHaveBeenCalled();
+
+    builder.startListeners();
+    table.getTopic('enabled').remote.push(true, false);
+    builder.update();
+    expect(setter.mock.calls).toEqual([[true], [false]]);
+  });
+
+  test('does not publish setter-only properties', () => {
+    builder.addNumberProperty('setpoint', null, jest.fn());
+    builder.update();
+    expect(table.getTopic('setpoint').values).toEqual([]);
+  });
+
+  test('chooses the topic type for generic properties from the getter', () => {
+    builder.addProperty('flag', () => true);
+    builder.addProperty('speeds', () => [1, 2]);
+    builder.addProperty('names', () => ['a']);
+    builder.addProperty('data', () => Buffer.from([1]));
+    builder.addProperty('other', () => ({ a: 1 }));
+    expect(table.getTopic('flag').type).toBe('boolean');
+    expect(table.getTopic('speeds').type).toBe('double[]');
+    expect(table.getTopic('names').type).toBe('string[]');
+    expect(table.getTopic('data').type).toBe('raw');
+    expect(table.getTopic('other').type).toBe('string');
+  });
+
+  test('publishes constant integers immediately and closes them with the properties', () => {
+    builder.publishConstInteger('.instance', 3);
+    expect(table.getTopic('.instance').type).toBe('int');
+    expect(table.getTopic('.instance').values).toEqual([3]);
+
+    builder.clearProperties();
+    expect(table.getTopic('.instance').isClosed()).toBe(true);
+  });
+
+  test('runs update table callbacks and safe state around LiveWindow mode', () => {
+    const updateTable = jest.fn();
+    const safeState = jest.fn();
+    builder.setUpdateTable(updateTable);
+    builder.setSafeState(safeState);
+    builder.update();
+    expect(updateTable).toHaveBeenCalledWith(expect.any(Number), table);
+
+    builder.startLiveWindowMode();
+    builder.stopLiveWindowMode();
+    expect(safeState).toHaveBeenCalledTimes(2);
+  });
+
+  test('clearProperties closes publishers and subscribers', () => {
+    builder.addNumberProperty('value', () => 1, jest.fn());
+    builder.clearProperties();
+    builder.update();
+    expect(table.getTopic('value').handles).toHaveLength(2);
+    expect(table.getTopic('value').isClosed()).toBe(true);
+    expect(table.getTopic('value').values).toEqual([]);
+  });
+});
+
+describe('SendableBuilderImpl on a NetworkTableInstance', () => {
+  let server: NetworkTableInstance;
+  let dashboard: NetworkTableInstance;
+
+  beforeEach(() => {
+    server = NetworkTableInstance.create();
+    server.startServer('', PORT, '');
+    dashboard = NetworkTableInstance.create();
+  });
+
+  afterEach(() => {
+    dashboard.stopClient();
+    server.stopServer();
+    server.stopClient();
+  });
+
+  test('passes only values set by other instances to setters', async () => {
+    const setter = jest.fn();
+    const builder = new SendableBuilderImpl();
+    builder.setTable(server.getTable('/SmartDashboard/motor'));
+    builder.addNumberProperty('speed', () => 0.5, setter);
+    builder.startListeners();
+    builder.update();
+    builder.update();
+    expect(server.getDoubleTopic('/SmartDashboard/motor/speed').getSubscriber(0).get()).toBe(0.5);
+    expect(setter).not.toHaveBeenCalled();
+
+    dashboard.startClient4('dashboard', 'localhost', PORT, 0);
+    await waitFor(() => dashboard.isConnected());
+    dashboard.getDoubleTopic('/SmartDashboard/motor/speed').getPublisher().set(0.25);
+    await waitFor(() => {
+      builder.update();
+      return setter.mock.calls.length > 0;
+    });
+    expect(setter.mock.calls).toEqual([[0.25]]);
+    builder.close();
+  });
+});
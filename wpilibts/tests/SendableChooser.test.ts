@@ -0,0 +1,96 @@
+import { NetworkTable } from 'ntcore-client';
+import { Sendable, SendableRegistry } from 'wpiutil';
+import { SendableBuilderImpl } from '../src/smartdashboard/SendableBuilderImpl';
+import { SendableChooser } from '../src/smartdashboard/SendableChooser';
+import { FakeTable } from './helpers/FakeNetworkTables';
+
+/**
+ * Publishes a chooser to a fake table through a SendableBuilderImpl, with
+ * listeners started so values "from the dashboard" reach its setters.
+ */
+function publish(chooser: Sendable) {
+  const table = new FakeTable('/SmartDashboard/chooser');
+  const builder = new SendableBuilderImpl();
+  builder.setTable(table as unknown as NetworkTable);
+  chooser.initSendable(builder);
+  builder.startListeners();
+  builder.update();
+  return {
+    table,
+    value: (key: string) => table.getTopic(key).value,
+    select: (name: string) => {
+      table.getTopic('selected').remote.push(name);
+      builder.update();
+    },
+    update: () => builder.update(),
+  };
+}
+
+describe('SendableChooser', () => {
+  test('publishes options under the String Chooser type', () => {
+    const chooser = new SendableChooser<number>();
+    chooser.addOption('one', 1);
+    chooser.setDefaultOption('two', 2);
+    chooser.addOption('three', 3);
+    const fake = publish(chooser);
+
+    expect(fake.value('.type')).toBe('String Chooser');
+    expect(fake.value('options')).toEqual(['one', 'two', 'three']);
+    expect(fake.value('default')).toBe('two');
+    expect(fake.value('active')).toBe('two');
+    expect(fake.table.getTopic('selected').values).toEqual([]);
+    chooser.close();
+  });
+
+  test('returns the default until an option is selected', () => {
+    const chooser = new SendableChooser<string>();
+    expect(chooser.getSelected()).toBeUndefined();
+    chooser.setDefaultOption('a', 'A');
+    chooser.addOption('b', 'B');
+    expect(chooser.getSelected()).toBe('A');
+
+    const fake = publish(chooser);
+    fake.select('b');
+    expect(chooser.getSelected()).toBe('B');
+    fake.update();
+    expect(fake.value('active')).toBe('b');
+    chooser.close();
+  });
+
+  test('calls onChange only when the selection changes', () => {
+    const chooser = new SendableChooser<string>();
+    chooser.addOption('a', 'A');
+    chooser.addOption('b', 'B');
+    const listener = jest.fn();
+    chooser.onChange(listener);
+    const fake = publish(chooser);
+
+    fake.select('a');
+    fake.select('a');
+    fake.select('b');
+    expect(listener.mock.calls).toEqual([['A'], ['B']]);
+    chooser.close();
+  });
+
+  test('publishes its instance number as an int', () => {
+    const first = new SendableChooser<number>();
+    const second = new SendableChooser<number>();
+    const published = [first, second].map((chooser) => publish(chooser).table.getTopic('.instance'));
+
+    expect(published[0].type).toBe('int');
+    expect(published[1].value).toBe(published[0].value as number + 1);
+    expect(SendableRegistry.getName(first)).toBe(`SendableChooser[${published[0].value}]`);
+    first.close();
+    second.close();
+  });
+
+  test('registers with a unique name', () => {
+    const first = new SendableChooser<number>();
+    const second = new SendableChooser<number>();
+    expect(SendableRegistry.getName(first)).toMatch(/^SendableChooser\[\d+\]$/);
+    expect(SendableRegistry.getName(first)).not.toBe(SendableRegistry.getName(second));
+    first.close();
+    second.close();
+    expect(SendableRegistry.getAll()).not.toContain(first);
+  });
+});
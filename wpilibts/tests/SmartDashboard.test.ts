@@ -0,0 +1,95 @@
+import { Sendable, SendableBuilder, SendableRegistry } from 'wpiutil';
+import { SmartDashboard } from '../src/smartdashboard/SmartDashboard';
+import { FakeNetworkTableInstance, FakeTable } from './helpers/FakeNetworkTables';
+
+const mockTable = new FakeTable('/SmartDashboard');
+const mockInstance = new FakeNetworkTableInstance(mockTable);
+
+jest.mock('ntcore-client', () => {
+  return {
+    NetworkTableInstance: {
+      getDefault: jest.fn(() => mockInstance),
+    },
+  };
+});
+
+class Counter implements Sendable {
+  public count = 0;
+
+  initSendable(builder: SendableBuilder): void {
+    builder.setSmartDashboardType('Counter');
+    builder.addNumberProperty('count', () => this.count);
+  }
+}
+
+describe('SmartDashboard', () => {
+  test('uses the SmartDashboard table of the default instance', () => {
+    SmartDashboard.putNumber('speed', 1.5);
+    expect(mockInstance.getTable).toHaveBeenCalledWith('SmartDashboard');
+    expect(mockTable.getEntry('speed').value).toBe(1.5);
+  });
+
+  test('puts and gets values', () => {
+    expect(SmartDashboard.putBoolean('enabled', true)).toBe(true);
+    SmartDashboard.putString('mode', 'auto');
+    SmartDashboard.putNumberArray('speeds', [1, 2]);
+    SmartDashboard.putRaw('raw', new Uint8Array([1]));
+
+    expect(SmartDashboard.getBoolean('enabled', false)).toBe(true);
+    expect(SmartDashboard.getString('mode', '')).toBe('auto');
+    expect(SmartDashboard.getNumberArray('speeds', [])).toEqual([1, 2]);
+    expect(SmartDashboard.getRaw('raw', new Uint8Array(0))).toEqual(new Uint8Array([1]));
+  });
+
+  test('returns defaults for missing keys and mismatched types', () => {
+    SmartDashboard.putString('name', 'robot');
+    expect(SmartDashboard.getNumber('missing', 4)).toBe(4);
+    expect(SmartDashboard.getBoolean('name', true)).toBe(true);
+    expect(SmartDashboard.getNumber('name', 2)).toBe(2);
+    expect(SmartDashboard.containsKey('name')).toBe(true);
+    expect(SmartDashboard.containsKey('missing')).toBe(false);
+  });
+
+  test('setDefault does not replace existing values', () => {
+    SmartDashboard.putNumber('gain', 3);
+    SmartDashboard.setDefaultNumber('gain', 1);
+    SmartDashboard.setDefaultNumber('offset', 1);
+    expect(SmartDashboard.getNumber('gain', 0)).toBe(3);
+    expect(SmartDashboard.getNumber('offset', 0)).toBe(1);
+  });
+
+  test('sets persistence', () => {
+    SmartDashboard.setPersistent('gain');
+    expect(SmartDashboard.isPersistent('gain')).toBe(true);
+    SmartDashboard.clearPersistent('gain');
+    expect(SmartDashboard.isPersistent('gain')).toBe(false);
+  });
+
+  test('publishes sendables and updates them in updateValues', () => {
+    const counter = new Counter();
+    SmartDashboard.putData('Counter', counter);
+
+    const dataTable = mockTable.getSubTable('Counter');
+    expect(dataTable.getEntry('.name').value).toBe('Counter');
+    expect(dataTable.getTopic('.type').values).toEqual(['Counter']);
+    expect(dataTable.getTopic('.controllable').values).toEqual([false, true]);
+    expect(dataTable.getTopic('count').values).toEqual([0]);
+    expect(SmartDashboard.getData('Counter')).toBe(counter);
+
+    counter.count = 5;
+    SmartDashboard.updateValues();
+    expect(dataTable.getTopic('count').values).toEqual([0, 5]);
+
+    // Putting the same sendable again does not rebuild it
+    SmartDashboard.putData('Counter', counter);
+    expect(dataTable.getTopic('count').values).toEqual([0, 5]);
+  });
+
+  test('puts sendables by their registered name', () => {
+    const counter = new Counter();
+    SendableRegistry.add(counter, 'Named Counter');
+    SmartDashboard.putData(counter);
+    expect(SmartDashboard.getData('Named Counter')).toBe(counter);
+    expect(() => SmartDashboard.getData('Unknown')).toThrow('SmartDashboard data does not exist: Unknown');
+  });
+});
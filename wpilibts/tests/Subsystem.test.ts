@@ -2,12 +2,12 @@ import { Subsystem } from '../src/commands/Subsystem';
 import { Command } from '../src/commands/Command';
 import { CommandScheduler } from '../src/commands/CommandScheduler';
 
-// Mock the CommandScheduler
-jest.mock('../src/commands/CommandScheduler', () => {
+// Mock the DriverStation
+jest.mock('../src/DriverStation', () => {
   return {
-    CommandScheduler: {
+    DriverStation: {
       getInstance: jest.fn().mockReturnValue({
-        registerSubsystem: jest.fn(),
+        isDisabled: jest.fn().mockReturnValue(false),
       }),
     },
   };
@@ -35,19 +35,23 @@ class TestCommand extends Command {
 let testSubsystem: Subsystem;
 
 describe('Subsystem', () => {
-  let scheduler: any;
+  let scheduler: CommandScheduler;
+  let registerSubsystem: jest.SpyInstance;
   
   beforeEach(() => {
+    // Reset the singleton instance
+    (CommandScheduler as any).instance = undefined;
     scheduler = CommandScheduler.getInstance();
+    registerSubsystem = jest.spyOn(scheduler, 'registerSubsystem');
     testSubsystem = new Subsystem();
   });
   
   afterEach(() => {
-    jest.clearAllMocks();
+    jest.restoreAllMocks();
   });
   
   test('should register with the CommandScheduler on construction', () => {
-    expect(scheduler.registerSubsystem).toHaveBeenCalledWith(testSubsystem);
+    expect(registerSubsystem).toHaveBeenCalledWith(testSubsystem);
   });
   
   test('should set and get default command', () => {
@@ -67,6 +71,43 @@ describe('Subsystem', () => {
     }).toThrow();
   });
   
+  test('should warn once when a default command ends on its own', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const action = jest.fn();
+    const command = testSubsystem.runOnce(action);
+    testSubsystem.setDefaultCommand(command);
+    expect(warn).not.toHaveBeenCalled();
+    
+    scheduler.run();
+    scheduler.run();
+    
+    expect(action).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Default commands should not end!'));
+    expect(testSubsystem.getDefaultCommand()).toBe(command);
+  });
+  
+  test('should not warn when a non-default command ends', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    testSubsystem.setDefaultCommand(new TestCommand());
+    testSubsystem.runOnce(() => {}).schedule();
+    
+    scheduler.run();
+    
+    expect(warn).not.toHaveBeenCalled();
+  });
+  
+  test('should store the default command in the CommandScheduler', () => {
+    const command = new TestCommand();
+    testSubsystem.setDefaultCommand(command);
+    
+    expect(scheduler.getDefaultCommand(testSubsystem)).toBe(command);
+    
+    testSubsystem.removeDefaultCommand();
+    
+    expect(scheduler.getDefaultCommand(testSubsystem)).toBeNull();
+  });
+  
   test('should set default command to null', () => {
     const command = new TestCommand();
     testSubsystem.setDefaultCommand(command);
@@ -103,6 +144,37 @@ describe('Subsystem', () => {
     }).not.toThrow();
   });
   
+  test('should create commands that require the subsystem', () => {
+    const action = jest.fn();
+    const end = jest.fn();
+    const commands = [
+      testSubsystem.runOnce(action),
+      testSubsystem.run(action),
+      testSubsystem.startEnd(action, end),
+      testSubsystem.runEnd(action, end),
+      testSubsystem.defer(() => testSubsystem.runOnce(action)),
+    ];
+    
+    for (const command of commands) {
+      expect(command.getRequirements()).toEqual(new Set([testSubsystem]));
+    }
+  });
+  
+  test('should run and end subsystem commands', () => {
+    const run = jest.fn();
+    const end = jest.fn();
+    const command = testSubsystem.runEnd(run, end);
+    
+    scheduler.schedule(command);
+    scheduler.run();
+    scheduler.run();
+    expect(run).toHaveBeenCalledTimes(2);
+    
+    scheduler.schedule(testSubsystem.runOnce(() => {}));
+    expect(end).toHaveBeenCalledTimes(1);
+    expect(scheduler.isScheduled(command)).toBe(false);
+  });
+  
   test('should have empty reset method', () => {
     // This is just to ensure the method exists and doesn't throw
     expect(() => {
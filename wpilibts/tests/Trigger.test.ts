@@ -1,6 +1,8 @@
 import { Trigger } from '../src/commands/button/Trigger';
 import { Command } from '../src/commands/Command';
 import { Subsystem } from '../src/commands/Subsystem';
+import { EventLoop } from '../src/event/EventLoop';
+import { Debouncer, MathSharedStore } from 'wpimath';
 
 // Mock the CommandScheduler
 jest.mock('../src/commands/CommandScheduler', () => {
@@ -9,9 +11,8 @@ jest.mock('../src/commands/CommandScheduler', () => {
   const mockSchedule = jest.fn();
   const mockCancel = jest.fn();
   const mockIsScheduled = jest.fn().mockReturnValue(false);
-  const mockRegisterButton = jest.fn((callback: () => void) => {
+  const mockBind = jest.fn((callback: () => void) => {
     buttonCallbacks.push(callback);
-    return () => {};
   });
 
   return {
@@ -21,15 +22,16 @@ jest.mock('../src/commands/CommandScheduler', () => {
         isScheduled: mockIsScheduled,
         schedule: mockSchedule,
         cancel: mockCancel,
-        registerButton: mockRegisterButton,
-        // Expose the callbacks for testing
+        getDefaultButtonLoop: jest.fn().mockReturnValue({ bind: mockBind }),
+        // Expose the loop bindings for testing
+        _bind: mockBind,
         _buttonCallbacks: buttonCallbacks,
         // Reset mocks for testing
         _resetMocks: () => {
           mockSchedule.mockClear();
           mockCancel.mockClear();
           mockIsScheduled.mockClear();
-          mockRegisterButton.mockClear();
+          mockBind.mockClear();
           buttonCallbacks.length = 0;
         }
       }),
@@ -85,10 +87,10 @@ describe('Trigger', () => {
     scheduler._resetMocks();
   });
 
-  test('should register with the CommandScheduler', () => {
-    // Create a new trigger to ensure registerButton is called
-    const newTrigger = new Trigger(() => false);
-    expect(scheduler.registerButton).toHaveBeenCalled();
+  test('should bind to the default button loop', () => {
+    trigger.onTrue(command);
+    expect(scheduler.getDefaultButtonLoop).toHaveBeenCalled();
+    expect(scheduler._bind).toHaveBeenCalledTimes(1);
   });
 
   test('should call the condition function', () => {
@@ -348,4 +350,109 @@ describe('Trigger', () => {
     expect(trigger.toggleWhenActive(command)).toBe(trigger);
     expect(trigger.cancelWhenActive(command)).toBe(trigger);
   });
+
+  describe('modern bindings', () => {
+    const poll = () => scheduler._buttonCallbacks.forEach((callback: () => void) => callback());
+
+    test('onTrue and onFalse schedule on the matching edge', () => {
+      const other = new TestCommand();
+      trigger.onTrue(command).onFalse(other);
+
+      condition.mockReturnValue(true);
+      poll();
+      poll();
+      expect(scheduler.schedule.mock.calls).toEqual([[command]]);
+
+      condition.mockReturnValue(false);
+      poll();
+      expect(scheduler.schedule.mock.calls).toEqual([[command], [other]]);
+    });
+
+    test('onChange schedules on both edges', () => {
+      trigger.onChange(command);
+
+      condition.mockReturnValue(true);
+      poll();
+      condition.mockReturnValue(false);
+      poll();
+      poll();
+
+      expect(scheduler.schedule).toHaveBeenCalledTimes(2);
+    });
+
+    test('whileTrue schedules once and cancels when the condition becomes false', () => {
+      trigger.whileTrue(command);
+
+      condition.mockReturnValue(true);
+      poll();
+      poll();
+      expect(scheduler.schedule).toHaveBeenCalledTimes(1);
+      expect(scheduler.cancel).not.toHaveBeenCalled();
+
+      condition.mockReturnValue(false);
+      poll();
+      expect(scheduler.cancel).toHaveBeenCalledWith(command);
+    });
+
+    test('whileFalse schedules when the condition becomes false', () => {
+      condition.mockReturnValue(true);
+      trigger.whileFalse(command);
+
+      condition.mockReturnValue(false);
+      poll();
+      expect(scheduler.schedule).toHaveBeenCalledWith(command);
+
+      condition.mockReturnValue(true);
+      poll();
+      expect(scheduler.cancel).toHaveBeenCalledWith(command);
+    });
+
+    test('toggleOnTrue and toggleOnFalse toggle the command', () => {
+      trigger.toggleOnFalse(command);
+
+      condition.mockReturnValue(true);
+      poll();
+      expect(scheduler.schedule).not.toHaveBeenCalled();
+
+      condition.mockReturnValue(false);
+      poll();
+      expect(scheduler.schedule).toHaveBeenCalledWith(command);
+
+      scheduler._resetMocks();
+      trigger.toggleOnTrue(command);
+      scheduler.isScheduled.mockReturnValueOnce(true);
+      condition.mockReturnValue(true);
+      poll();
+      expect(scheduler.cancel).toHaveBeenCalledWith(command);
+    });
+
+    test('triggers can be polled by a separate loop', () => {
+      const loop = new EventLoop();
+      const loopTrigger = new Trigger(loop, condition);
+      loopTrigger.onTrue(command);
+
+      condition.mockReturnValue(true);
+      poll();
+      expect(scheduler.schedule).not.toHaveBeenCalled();
+
+      loop.poll();
+      expect(scheduler.schedule).toHaveBeenCalledWith(command);
+    });
+
+    test('debounce delays activation', () => {
+      let currentTime = 0;
+      jest.spyOn(MathSharedStore, 'getTimestamp').mockImplementation(() => currentTime);
+      const debounced = trigger.debounce(0.1, Debouncer.DebounceType.kRising);
+
+      condition.mockReturnValue(true);
+      expect(debounced.get()).toBe(false);
+
+      currentTime = 0.2;
+      expect(debounced.get()).toBe(true);
+
+      condition.mockReturnValue(false);
+      expect(debounced.get()).toBe(false);
+      jest.restoreAllMocks();
+    });
+  });
 });
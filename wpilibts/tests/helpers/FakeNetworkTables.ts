@@ -0,0 +1,248 @@
+/**
+ * In-memory stand-ins for the parts of ntcore-client used by the dashboard classes.
+ *
+ * Tests mock 'ntcore-client' so that NetworkTableInstance.getDefault() returns a
+ * FakeNetworkTableInstance, then inspect the tables it hands out.
+ */
+
+/**
+ * A value that can be stored in a FakeEntry.
+ */
+export type FakeValue = boolean | number | string | boolean[] | number[] | string[] | Uint8Array;
+
+/**
+ * The event passed to table listeners.
+ */
+export interface FakeTableEvent {
+  topicInfo: {
+    name: string;
+    getTopic(): { setPersistent(persistent: boolean): void };
+  } | null;
+}
+
+/**
+ * A fake entry storing its value, persistence and topic properties locally.
+ */
+export class FakeEntry {
+  public value: FakeValue | null = null;
+  /** The type the entry was first published with, as ntcore-client would publish it. */
+  public type: string | null = null;
+  public persistent = false;
+  public properties: Record<string, unknown> = {};
+
+  exists(): boolean { return this.value !== null; }
+  getValue(): FakeValue | null { return this.value; }
+  getTopic() {
+    return {
+      setProperty: (name: string, value: unknown) => { this.properties[name] = value; },
+      getProperty: (name: string) => this.properties[name],
+    };
+  }
+
+  setValue(value: FakeValue): boolean {
+    return this.publish(value, FakeEntry.getValueType(value));
+  }
+  setDefaultValue(value: FakeValue): boolean {
+    return this.publishDefault(value, FakeEntry.getValueType(value));
+  }
+  setDefaultInteger(value: number): boolean { return this.publishDefault(Math.floor(value), 'int'); }
+  setDefaultFloat(value: number): boolean { return this.publishDefault(value, 'float'); }
+  setBoolean(value: boolean): boolean { return this.publish(value, 'boolean'); }
+  setInteger(value: number): boolean { return this.publish(Math.floor(value), 'int'); }
+  setFloat(value: number): boolean { return this.publish(value, 'float'); }
+  setDouble(value: number): boolean { return this.publish(value, 'double'); }
+  setString(value: string): boolean { return this.publish(value, 'string'); }
+  setBooleanArray(value: boolean[]): boolean { return this.publish(value, 'boolean[]'); }
+  setDoubleArray(value: number[]): boolean { return this.publish(value, 'double[]'); }
+  setStringArray(value: string[]): boolean { return this.publish(value, 'string[]'); }
+  setRaw(value: Uint8Array): boolean { return this.publish(value, 'raw'); }
+
+  setPersistent(): void { this.persistent = true; }
+  clearPersistent(): void { this.persistent = false; }
+  unpublish(): void {
+    this.value = null;
+    this.type = null;
+  }
+
+  getBoolean(defaultValue: boolean): boolean { return typeof this.value === 'boolean' ? this.value : defaultValue; }
+  getInteger(defaultValue: number): number { return this.getNumber(defaultValue); }
+  getFloat(defaultValue: number): number { return this.getNumber(defaultValue); }
+  getDouble(defaultValue: number): number { return this.getNumber(defaultValue); }
+  getString(defaultValue: string): string { return typeof this.value === 'string' ? this.value : defaultValue; }
+  getBooleanArray(defaultValue: boolean[]): boolean[] { return this.getArray(defaultValue); }
+  getDoubleArray(defaultValue: number[]): number[] { return this.getArray(defaultValue); }
+  getStringArray(defaultValue: string[]): string[] { return this.getArray(defaultValue); }
+  getRaw(defaultValue: Uint8Array): Uint8Array { return this.value instanceof Uint8Array ? this.value : defaultValue; }
+
+  private publish(value: FakeValue, type: string): boolean {
+    this.type ??= type;
+    this.value = value;
+    return true;
+  }
+  private publishDefault(value: FakeValue, type: string): boolean {
+    if (this.value === null) {
+      this.publish(value, type);
+    }
+    return true;
+  }
+  private static getValueType(value: FakeValue): string {
+    if (value instanceof Uint8Array) {
+      return 'raw';
+    }
+    if (Array.isArray(value)) {
+      return `${FakeEntry.getValueType(value[0] ?? 0)}[]`;
+    }
+    return typeof value === 'number' ? 'double' : typeof value;
+  }
+
+  private getNumber(defaultValue: number): number {
+    return typeof this.value === 'number' ? this.value : defaultValue;
+  }
+  private getArray<T>(defaultValue: T[]): T[] {
+    return Array.isArray(this.value) ? this.value as T[] : defaultValue;
+  }
+}
+
+/**
+ * A publisher, subscriber or entry handle on a FakeTopic.
+ */
+export class FakeTopicHandle<T> {
+  public closed = false;
+
+  constructor(private readonly topic: FakeTopic<T>) {}
+
+  set(value: T): void { this.topic.values.push(value); }
+  setDefault(value: T): void {
+    if (this.topic.values.length === 0) {
+      this.topic.values.push(value);
+    }
+  }
+  readQueueValues(): T[] { return this.topic.remote.splice(0); }
+  close(): void { this.closed = true; }
+}
+
+/**
+ * A fake topic that records every published value and lets tests queue values
+ * "from the dashboard".
+ */
+export class FakeTopic<T> {
+  /** Every value published to the topic, in order. */
+  public readonly values: T[] = [];
+  /** Values read by the next readQueueValues() call. */
+  public readonly remote: T[] = [];
+  /** The properties passed to the last getPublisher() call. */
+  public properties: Record<string, unknown> = {};
+  /** The options passed to the last getSubscriber() call. */
+  public subscriberOptions: unknown;
+  /** The type of the typed topic getter the topic was last requested through. */
+  public type: string | null = null;
+  public readonly handles: FakeTopicHandle<T>[] = [];
+
+  /** The last published value. */
+  get value(): T | undefined {
+    return this.values[this.values.length - 1];
+  }
+
+  /** Whether every handle opened on the topic has been closed. */
+  isClosed(): boolean {
+    return this.handles.length > 0 && this.handles.every(handle => handle.closed);
+  }
+
+  getPublisher(_options?: unknown, properties: Record<string, unknown> = {}): FakeTopicHandle<T> {
+    this.properties = properties;
+    return this.open();
+  }
+  getSubscriber(_defaultValue?: T, options?: unknown): FakeTopicHandle<T> {
+    this.subscriberOptions = options;
+    return this.open();
+  }
+  getEntry(_defaultValue?: T): FakeTopicHandle<T> { return this.open(); }
+
+  private open(): FakeTopicHandle<T> {
+    const handle = new FakeTopicHandle(this);
+    this.handles.push(handle);
+    return handle;
+  }
+}
+
+/**
+ * A fake table holding entries, typed topics and subtables.
+ */
+export class FakeTable {
+  public readonly entries = new Map<string, FakeEntry>();
+  public readonly topics = new Map<string, FakeTopic<unknown>>();
+  public readonly subtables = new Map<string, FakeTable>();
+  public listener: ((event: FakeTableEvent) => void) | null = null;
+  public listenerKinds = 0;
+  public readonly removeListener = jest.fn();
+
+  constructor(private readonly path: string = '') {}
+
+  getPath(): string { return this.path; }
+
+  getEntry(key: string): FakeEntry {
+    let entry = this.entries.get(key);
+    if (entry === undefined) {
+      entry = new FakeEntry();
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  getSubTable(key: string): FakeTable {
+    let table = this.subtables.get(key);
+    if (table === undefined) {
+      table = new FakeTable(`${this.path}/${key}`);
+      this.subtables.set(key, table);
+    }
+    return table;
+  }
+
+  getTopic<T>(name: string): FakeTopic<T> {
+    let topic = this.topics.get(name);
+    if (topic === undefined) {
+      topic = new FakeTopic<unknown>();
+      this.topics.set(name, topic);
+    }
+    return topic as FakeTopic<T>;
+  }
+  getBooleanTopic(name: string): FakeTopic<boolean> { return this.getTypedTopic(name, 'boolean'); }
+  getIntegerTopic(name: string): FakeTopic<number> { return this.getTypedTopic(name, 'int'); }
+  getDoubleTopic(name: string): FakeTopic<number> { return this.getTypedTopic(name, 'double'); }
+  getStringTopic(name: string): FakeTopic<string> { return this.getTypedTopic(name, 'string'); }
+  getRawTopic(name: string): FakeTopic<Uint8Array> { return this.getTypedTopic(name, 'raw'); }
+  getBooleanArrayTopic(name: string): FakeTopic<boolean[]> { return this.getTypedTopic(name, 'boolean[]'); }
+  getDoubleArrayTopic(name: string): FakeTopic<number[]> { return this.getTypedTopic(name, 'double[]'); }
+  getStringArrayTopic(name: string): FakeTopic<string[]> { return this.getTypedTopic(name, 'string[]'); }
+
+  /**
+   * Returns the names of published topics followed by the keys of entries with a value.
+   */
+  getKeys(): string[] {
+    const topics = [...this.topics].filter(([, topic]) => topic.values.length > 0).map(([key]) => key);
+    const entries = [...this.entries].filter(([, entry]) => entry.exists()).map(([key]) => key);
+    return [...topics, ...entries];
+  }
+  containsKey(key: string): boolean { return this.getKeys().includes(key); }
+
+  addListener(kinds: number, listener: (event: FakeTableEvent) => void): number {
+    this.listenerKinds = kinds;
+    this.listener = listener;
+    return 1;
+  }
+
+  private getTypedTopic<T>(name: string, type: string): FakeTopic<T> {
+    const topic = this.getTopic<T>(name);
+    topic.type = type;
+    return topic;
+  }
+}
+
+/**
+ * A fake NetworkTableInstance that hands out a single table for every path.
+ */
+export class FakeNetworkTableInstance {
+  public readonly getTable = jest.fn((_key: string) => this.table);
+
+  constructor(public readonly table: FakeTable) {}
+}
@@ -0,0 +1,74 @@
+import { Debouncer } from './Debouncer';
+import { MathSharedStore } from '../MathSharedStore';
+
+describe('Debouncer', () => {
+  // Mock the timestamp function to have deterministic behavior
+  let currentTime = 0;
+
+  beforeEach(() => {
+    currentTime = 0;
+    jest.spyOn(MathSharedStore, 'getTimestamp').mockImplementation(() => currentTime);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should debounce rising edges', () => {
+    const debouncer = new Debouncer(0.02, Debouncer.DebounceType.kRising);
+
+    debouncer.calculate(false);
+    expect(debouncer.calculate(true)).toBe(false);
+
+    currentTime += 0.1;
+    expect(debouncer.calculate(true)).toBe(true);
+
+    // Falling edges pass through immediately
+    expect(debouncer.calculate(false)).toBe(false);
+  });
+
+  it('should default to debouncing rising edges', () => {
+    const debouncer = new Debouncer(0.02);
+
+    expect(debouncer.calculate(true)).toBe(false);
+    currentTime += 0.1;
+    expect(debouncer.calculate(true)).toBe(true);
+  });
+
+  it('should debounce falling edges', () => {
+    const debouncer = new Debouncer(0.02, Debouncer.DebounceType.kFalling);
+
+    debouncer.calculate(true);
+    expect(debouncer.calculate(false)).toBe(true);
+
+    currentTime += 0.1;
+    expect(debouncer.calculate(false)).toBe(false);
+
+    // Rising edges pass through immediately
+    expect(debouncer.calculate(true)).toBe(true);
+  });
+
+  it('should debounce both edges', () => {
+    const debouncer = new Debouncer(0.02, Debouncer.DebounceType.kBoth);
+
+    debouncer.calculate(false);
+    expect(debouncer.calculate(true)).toBe(false);
+
+    currentTime += 0.1;
+    expect(debouncer.calculate(true)).toBe(true);
+    expect(debouncer.calculate(false)).toBe(true);
+
+    currentTime += 0.1;
+    expect(debouncer.calculate(false)).toBe(false);
+  });
+
+  it('should reset the timer when the input returns to baseline', () => {
+    const debouncer = new Debouncer(0.05);
+
+    debouncer.calculate(true);
+    currentTime += 0.03;
+    debouncer.calculate(false);
+    currentTime += 0.03;
+    expect(debouncer.calculate(true)).toBe(false);
+  });
+});
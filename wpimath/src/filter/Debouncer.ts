@@ -0,0 +1,72 @@
+import { MathSharedStore } from '../MathSharedStore';
+
+/**
+ * A simple debounce filter for boolean streams. Requires that the boolean change value from
+ * baseline for a specified period of time before the filtered value changes.
+ */
+export class Debouncer {
+  private readonly m_debounceTimeSeconds: number;
+  private readonly m_debounceType: Debouncer.DebounceType;
+  private m_baseline: boolean;
+  private m_prevTimeSeconds: number = 0;
+
+  /**
+   * Creates a new Debouncer.
+   *
+   * @param debounceTime The number of seconds the value must change from baseline for the
+   *     filtered value to change.
+   * @param type Which type of state change the debouncing will be performed on.
+   */
+  constructor(debounceTime: number, type: Debouncer.DebounceType = Debouncer.DebounceType.kRising) {
+    this.m_debounceTimeSeconds = debounceTime;
+    this.m_debounceType = type;
+
+    this.resetTimer();
+
+    this.m_baseline = type === Debouncer.DebounceType.kFalling;
+  }
+
+  private resetTimer(): void {
+    this.m_prevTimeSeconds = MathSharedStore.getTimestamp();
+  }
+
+  private hasElapsed(): boolean {
+    return MathSharedStore.getTimestamp() - this.m_prevTimeSeconds >= this.m_debounceTimeSeconds;
+  }
+
+  /**
+   * Applies the debouncer to the input stream.
+   *
+   * @param input The current value of the input stream.
+   * @return The debounced value of the input stream.
+   */
+  public calculate(input: boolean): boolean {
+    if (input === this.m_baseline) {
+      this.resetTimer();
+    }
+
+    if (this.hasElapsed()) {
+      if (this.m_debounceType === Debouncer.DebounceType.kBoth) {
+        this.m_baseline = input;
+        this.resetTimer();
+      }
+      return input;
+    } else {
+      return this.m_baseline;
+    }
+  }
+}
+
+export namespace Debouncer {
+  /**
+   * Type of debouncing to perform.
+   */
+  export enum DebounceType {
+    /** Rising edge. */
+    kRising,
+    /** Falling edge. */
+    kFalling,
+    /** Both rising and falling edges. */
+    kBoth
+  }
+}
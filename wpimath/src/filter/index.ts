@@ -1,3 +1,4 @@
+export * from './Debouncer';
 export * from './LinearFilter';
 export * from './MedianFilter';
 export * from './SlewRateLimiter';
@@ -2,3 +2,9 @@ export * from './Rotation2d';
 export * from './Translation2d';
 export * from './Twist2d';
 export * from './Pose2d';
+
+// Struct serializers
+export * from './struct';
+
+// Protobuf serializers
+export * from './proto';
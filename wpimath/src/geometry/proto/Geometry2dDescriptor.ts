@@ -0,0 +1,61 @@
+import { ProtobufFieldType, ProtobufFileDescriptor } from 'wpiutil';
+
+/**
+ * Descriptor of WPILib's geometry2d.proto. The whole file is described, including messages
+ * wpimath doesn't serialize yet, so that it matches the file WPILib publishes under the same name.
+ */
+export const kGeometry2dDescriptor: ProtobufFileDescriptor = {
+  name: 'geometry2d.proto',
+  package: 'wpi.proto',
+  messages: [
+    {
+      name: 'ProtobufTranslation2d',
+      fields: [
+        { name: 'x', number: 1, type: ProtobufFieldType.Double },
+        { name: 'y', number: 2, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufRotation2d',
+      fields: [{ name: 'value', number: 1, type: ProtobufFieldType.Double }]
+    },
+    {
+      name: 'ProtobufPose2d',
+      fields: [
+        { name: 'translation', number: 1, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d' },
+        { name: 'rotation', number: 2, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufRotation2d' }
+      ]
+    },
+    {
+      name: 'ProtobufTransform2d',
+      fields: [
+        { name: 'translation', number: 1, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d' },
+        { name: 'rotation', number: 2, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufRotation2d' }
+      ]
+    },
+    {
+      name: 'ProtobufTwist2d',
+      fields: [
+        { name: 'dx', number: 1, type: ProtobufFieldType.Double },
+        { name: 'dy', number: 2, type: ProtobufFieldType.Double },
+        { name: 'dtheta', number: 3, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufRectangle2d',
+      fields: [
+        { name: 'center', number: 1, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufPose2d' },
+        { name: 'xWidth', number: 2, type: ProtobufFieldType.Double },
+        { name: 'yWidth', number: 3, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufEllipse2d',
+      fields: [
+        { name: 'center', number: 1, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufPose2d' },
+        { name: 'xSemiAxis', number: 2, type: ProtobufFieldType.Double },
+        { name: 'ySemiAxis', number: 3, type: ProtobufFieldType.Double }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,42 @@
+import { ProtobufReader } from 'wpiutil';
+import { Pose2d } from '../Pose2d';
+import { Rotation2d } from '../Rotation2d';
+import { Pose2dProto } from './Pose2dProto';
+
+describe('Pose2dProto', () => {
+  const proto = new Pose2dProto();
+
+  it('should describe the WPILib message', () => {
+    expect(proto.getTypeName()).toBe('wpi.proto.ProtobufPose2d');
+    expect(proto.getDescriptor().name).toBe('geometry2d.proto');
+  });
+
+  it('should describe every message of geometry2d.proto', () => {
+    expect(proto.getDescriptor().messages.map((message) => message.name)).toEqual([
+      'ProtobufTranslation2d',
+      'ProtobufRotation2d',
+      'ProtobufPose2d',
+      'ProtobufTransform2d',
+      'ProtobufTwist2d',
+      'ProtobufRectangle2d',
+      'ProtobufEllipse2d'
+    ]);
+  });
+
+  it('should embed translation and rotation messages', () => {
+    const reader = new ProtobufReader(proto.pack(new Pose2d(1.0, 2.0, new Rotation2d(0.5))));
+    const fields: number[] = [];
+    while (reader.next()) {
+      fields.push(reader.getFieldNumber());
+      expect(reader.readBytes().length).toBeGreaterThan(0);
+    }
+    expect(fields).toEqual([1, 2]);
+  });
+
+  it('should round-trip a pose', () => {
+    const pose = proto.unpack(proto.pack(new Pose2d(-3.0, 4.5, new Rotation2d(Math.PI / 3))));
+    expect(pose.getX()).toBe(-3.0);
+    expect(pose.getY()).toBe(4.5);
+    expect(pose.getRotation().getRadians()).toBeCloseTo(Math.PI / 3, 9);
+  });
+});
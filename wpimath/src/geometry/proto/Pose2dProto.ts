@@ -0,0 +1,49 @@
+import { Protobuf, ProtobufFileDescriptor, ProtobufReader, ProtobufWriter } from 'wpiutil';
+import { Pose2d } from '../Pose2d';
+import { Rotation2d } from '../Rotation2d';
+import { Translation2d } from '../Translation2d';
+import { kGeometry2dDescriptor } from './Geometry2dDescriptor';
+import { Rotation2dProto } from './Rotation2dProto';
+import { Translation2dProto } from './Translation2dProto';
+
+/**
+ * Protobuf serializer for Pose2d.
+ */
+export class Pose2dProto implements Protobuf<Pose2d> {
+  private readonly m_translation = new Translation2dProto();
+  private readonly m_rotation = new Rotation2dProto();
+
+  public getTypeName(): string {
+    return 'wpi.proto.ProtobufPose2d';
+  }
+
+  public getDescriptor(): ProtobufFileDescriptor {
+    return kGeometry2dDescriptor;
+  }
+
+  public pack(value: Pose2d): Buffer {
+    const writer = new ProtobufWriter();
+    writer.writeBytes(1, this.m_translation.pack(value.getTranslation()));
+    writer.writeBytes(2, this.m_rotation.pack(value.getRotation()));
+    return writer.finish();
+  }
+
+  public unpack(buffer: Buffer): Pose2d {
+    const reader = new ProtobufReader(buffer);
+    let translation = new Translation2d();
+    let rotation = new Rotation2d();
+    while (reader.next()) {
+      switch (reader.getFieldNumber()) {
+        case 1:
+          translation = this.m_translation.unpack(reader.readBytes());
+          break;
+        case 2:
+          rotation = this.m_rotation.unpack(reader.readBytes());
+          break;
+        default:
+          reader.skip();
+      }
+    }
+    return new Pose2d(translation, rotation);
+  }
+}
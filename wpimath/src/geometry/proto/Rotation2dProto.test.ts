@@ -0,0 +1,16 @@
+import { Rotation2d } from '../Rotation2d';
+import { Rotation2dProto } from './Rotation2dProto';
+
+describe('Rotation2dProto', () => {
+  const proto = new Rotation2dProto();
+
+  it('should describe the WPILib message', () => {
+    expect(proto.getTypeName()).toBe('wpi.proto.ProtobufRotation2d');
+    expect(proto.getDescriptor().messages.map((message) => message.name)).toContain('ProtobufRotation2d');
+  });
+
+  it('should round-trip a rotation in radians', () => {
+    const rotation = proto.unpack(proto.pack(new Rotation2d(Math.PI / 4)));
+    expect(rotation.getRadians()).toBeCloseTo(Math.PI / 4, 9);
+  });
+});
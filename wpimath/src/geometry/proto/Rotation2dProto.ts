@@ -0,0 +1,35 @@
+import { Protobuf, ProtobufFileDescriptor, ProtobufReader, ProtobufWriter } from 'wpiutil';
+import { Rotation2d } from '../Rotation2d';
+import { kGeometry2dDescriptor } from './Geometry2dDescriptor';
+
+/**
+ * Protobuf serializer for Rotation2d. The rotation is stored in radians.
+ */
+export class Rotation2dProto implements Protobuf<Rotation2d> {
+  public getTypeName(): string {
+    return 'wpi.proto.ProtobufRotation2d';
+  }
+
+  public getDescriptor(): ProtobufFileDescriptor {
+    return kGeometry2dDescriptor;
+  }
+
+  public pack(value: Rotation2d): Buffer {
+    const writer = new ProtobufWriter();
+    writer.writeDouble(1, value.getRadians());
+    return writer.finish();
+  }
+
+  public unpack(buffer: Buffer): Rotation2d {
+    const reader = new ProtobufReader(buffer);
+    let value = 0;
+    while (reader.next()) {
+      if (reader.getFieldNumber() === 1) {
+        value = reader.readDouble();
+      } else {
+        reader.skip();
+      }
+    }
+    return new Rotation2d(value);
+  }
+}
@@ -0,0 +1,32 @@
+import { Translation2d } from '../Translation2d';
+import { Translation2dProto } from './Translation2dProto';
+
+describe('Translation2dProto', () => {
+  const proto = new Translation2dProto();
+
+  it('should describe the WPILib message', () => {
+    expect(proto.getTypeName()).toBe('wpi.proto.ProtobufTranslation2d');
+    expect(proto.getDescriptor().name).toBe('geometry2d.proto');
+  });
+
+  it('should encode x and y as double fields 1 and 2', () => {
+    const buffer = proto.pack(new Translation2d(1.0, 2.0));
+    expect(buffer.length).toBe(18);
+    expect(buffer[0]).toBe(0x09);
+    expect(buffer.readDoubleLE(1)).toBe(1.0);
+    expect(buffer[9]).toBe(0x11);
+    expect(buffer.readDoubleLE(10)).toBe(2.0);
+  });
+
+  it('should round-trip a translation', () => {
+    const translation = proto.unpack(proto.pack(new Translation2d(-3.0, 4.5)));
+    expect(translation.getX()).toBe(-3.0);
+    expect(translation.getY()).toBe(4.5);
+  });
+
+  it('should default missing fields to zero', () => {
+    const translation = proto.unpack(Buffer.alloc(0));
+    expect(translation.getX()).toBe(0);
+    expect(translation.getY()).toBe(0);
+  });
+});
@@ -0,0 +1,42 @@
+import { Protobuf, ProtobufFileDescriptor, ProtobufReader, ProtobufWriter } from 'wpiutil';
+import { Translation2d } from '../Translation2d';
+import { kGeometry2dDescriptor } from './Geometry2dDescriptor';
+
+/**
+ * Protobuf serializer for Translation2d.
+ */
+export class Translation2dProto implements Protobuf<Translation2d> {
+  public getTypeName(): string {
+    return 'wpi.proto.ProtobufTranslation2d';
+  }
+
+  public getDescriptor(): ProtobufFileDescriptor {
+    return kGeometry2dDescriptor;
+  }
+
+  public pack(value: Translation2d): Buffer {
+    const writer = new ProtobufWriter();
+    writer.writeDouble(1, value.getX());
+    writer.writeDouble(2, value.getY());
+    return writer.finish();
+  }
+
+  public unpack(buffer: Buffer): Translation2d {
+    const reader = new ProtobufReader(buffer);
+    let x = 0;
+    let y = 0;
+    while (reader.next()) {
+      switch (reader.getFieldNumber()) {
+        case 1:
+          x = reader.readDouble();
+          break;
+        case 2:
+          y = reader.readDouble();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+    return new Translation2d(x, y);
+  }
+}
@@ -0,0 +1,4 @@
+export * from './Geometry2dDescriptor';
+export * from './Translation2dProto';
+export * from './Rotation2dProto';
+export * from './Pose2dProto';
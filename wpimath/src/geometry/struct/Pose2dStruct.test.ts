@@ -0,0 +1,29 @@
+import { Pose2d } from '../Pose2d';
+import { Rotation2d } from '../Rotation2d';
+import { Pose2dStruct } from './Pose2dStruct';
+
+describe('Pose2dStruct', () => {
+  const struct = new Pose2dStruct();
+
+  it('should describe the WPILib schema', () => {
+    expect(struct.getTypeName()).toBe('Pose2d');
+    expect(struct.getSchema()).toBe('Translation2d translation;Rotation2d rotation');
+    expect(struct.getSize()).toBe(24);
+    expect(struct.getNested().map((nested) => nested.getTypeName())).toEqual(['Translation2d', 'Rotation2d']);
+  });
+
+  it('should pack translation followed by rotation', () => {
+    const buffer = struct.pack(new Pose2d(1.0, 2.0, new Rotation2d(0.5)));
+    expect(buffer.length).toBe(24);
+    expect(buffer.readDoubleLE(0)).toBe(1.0);
+    expect(buffer.readDoubleLE(8)).toBe(2.0);
+    expect(buffer.readDoubleLE(16)).toBeCloseTo(0.5, 9);
+  });
+
+  it('should round-trip a pose', () => {
+    const pose = struct.unpack(struct.pack(new Pose2d(-3.0, 4.5, new Rotation2d(Math.PI / 3))));
+    expect(pose.getX()).toBe(-3.0);
+    expect(pose.getY()).toBe(4.5);
+    expect(pose.getRotation().getRadians()).toBeCloseTo(Math.PI / 3, 9);
+  });
+});
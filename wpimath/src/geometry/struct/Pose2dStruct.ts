@@ -0,0 +1,43 @@
+import { StructSerializer } from 'wpiutil';
+import { Pose2d } from '../Pose2d';
+import { Rotation2dStruct } from './Rotation2dStruct';
+import { Translation2dStruct } from './Translation2dStruct';
+
+/**
+ * Struct serializer for Pose2d.
+ */
+export class Pose2dStruct implements StructSerializer<Pose2d> {
+  private readonly m_translation = new Translation2dStruct();
+  private readonly m_rotation = new Rotation2dStruct();
+
+  public getTypeName(): string {
+    return 'Pose2d';
+  }
+
+  public getSize(): number {
+    return this.m_translation.getSize() + this.m_rotation.getSize();
+  }
+
+  public getSchema(): string {
+    return 'Translation2d translation;Rotation2d rotation';
+  }
+
+  public getNested(): StructSerializer<any>[] {
+    return [this.m_translation, this.m_rotation];
+  }
+
+  public pack(value: Pose2d): Buffer {
+    return Buffer.concat([
+      this.m_translation.pack(value.getTranslation()),
+      this.m_rotation.pack(value.getRotation())
+    ]);
+  }
+
+  public unpack(buffer: Buffer): Pose2d {
+    const translationSize = this.m_translation.getSize();
+    return new Pose2d(
+      this.m_translation.unpack(buffer.subarray(0, translationSize)),
+      this.m_rotation.unpack(buffer.subarray(translationSize, this.getSize()))
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { Rotation2d } from '../Rotation2d';
+import { Rotation2dStruct } from './Rotation2dStruct';
+
+describe('Rotation2dStruct', () => {
+  const struct = new Rotation2dStruct();
+
+  it('should describe the WPILib schema', () => {
+    expect(struct.getTypeName()).toBe('Rotation2d');
+    expect(struct.getSchema()).toBe('double value');
+    expect(struct.getSize()).toBe(8);
+  });
+
+  it('should pack the rotation in radians', () => {
+    const buffer = struct.pack(new Rotation2d(Math.PI / 2));
+    expect(buffer.readDoubleLE(0)).toBeCloseTo(Math.PI / 2, 9);
+  });
+
+  it('should round-trip a rotation', () => {
+    const rotation = struct.unpack(struct.pack(new Rotation2d(-0.75)));
+    expect(rotation.getRadians()).toBeCloseTo(-0.75, 9);
+  });
+});
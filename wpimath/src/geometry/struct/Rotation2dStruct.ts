@@ -0,0 +1,33 @@
+import { Struct, StructFieldType, StructSerializer, field } from 'wpiutil';
+import { Rotation2d } from '../Rotation2d';
+
+const kLayout = new Struct([field('value', StructFieldType.Float64)]);
+
+/**
+ * Struct serializer for Rotation2d. The rotation is stored in radians.
+ */
+export class Rotation2dStruct implements StructSerializer<Rotation2d> {
+  public getTypeName(): string {
+    return 'Rotation2d';
+  }
+
+  public getSize(): number {
+    return kLayout.getSize();
+  }
+
+  public getSchema(): string {
+    return 'double value';
+  }
+
+  public getNested(): StructSerializer<any>[] {
+    return [];
+  }
+
+  public pack(value: Rotation2d): Buffer {
+    return kLayout.pack({ value: value.getRadians() });
+  }
+
+  public unpack(buffer: Buffer): Rotation2d {
+    return new Rotation2d(kLayout.unpack(buffer).value);
+  }
+}
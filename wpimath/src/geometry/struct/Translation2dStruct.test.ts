@@ -0,0 +1,26 @@
+import { Translation2d } from '../Translation2d';
+import { Translation2dStruct } from './Translation2dStruct';
+
+describe('Translation2dStruct', () => {
+  const struct = new Translation2dStruct();
+
+  it('should describe the WPILib schema', () => {
+    expect(struct.getTypeName()).toBe('Translation2d');
+    expect(struct.getSchema()).toBe('double x;double y');
+    expect(struct.getSize()).toBe(16);
+    expect(struct.getNested()).toEqual([]);
+  });
+
+  it('should pack as little-endian doubles', () => {
+    const buffer = struct.pack(new Translation2d(1.5, -2.25));
+    expect(buffer.length).toBe(16);
+    expect(buffer.readDoubleLE(0)).toBe(1.5);
+    expect(buffer.readDoubleLE(8)).toBe(-2.25);
+  });
+
+  it('should round-trip a translation', () => {
+    const translation = struct.unpack(struct.pack(new Translation2d(3.0, 4.0)));
+    expect(translation.getX()).toBe(3.0);
+    expect(translation.getY()).toBe(4.0);
+  });
+});
@@ -0,0 +1,37 @@
+import { Struct, StructFieldType, StructSerializer, field } from 'wpiutil';
+import { Translation2d } from '../Translation2d';
+
+const kLayout = new Struct([
+  field('x', StructFieldType.Float64),
+  field('y', StructFieldType.Float64)
+]);
+
+/**
+ * Struct serializer for Translation2d.
+ */
+export class Translation2dStruct implements StructSerializer<Translation2d> {
+  public getTypeName(): string {
+    return 'Translation2d';
+  }
+
+  public getSize(): number {
+    return kLayout.getSize();
+  }
+
+  public getSchema(): string {
+    return 'double x;double y';
+  }
+
+  public getNested(): StructSerializer<any>[] {
+    return [];
+  }
+
+  public pack(value: Translation2d): Buffer {
+    return kLayout.pack({ x: value.getX(), y: value.getY() });
+  }
+
+  public unpack(buffer: Buffer): Translation2d {
+    const data = kLayout.unpack(buffer);
+    return new Translation2d(data.x, data.y);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './Translation2dStruct';
+export * from './Rotation2dStruct';
+export * from './Pose2dStruct';
@@ -21,3 +21,9 @@ export * from './SwerveDriveOdometry';
 // Base Classes
 export * from './Kinematics';
 export * from './Odometry';
+
+// Struct serializers
+export * from './struct';
+
+// Protobuf serializers
+export * from './proto';
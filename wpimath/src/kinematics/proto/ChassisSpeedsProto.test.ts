@@ -0,0 +1,40 @@
+import { forEachProtobufDescriptor } from 'wpiutil';
+import { ChassisSpeeds } from '../ChassisSpeeds';
+import { ChassisSpeedsProto } from './ChassisSpeedsProto';
+
+describe('ChassisSpeedsProto', () => {
+  const proto = new ChassisSpeedsProto();
+
+  it('should describe the WPILib message', () => {
+    expect(proto.getTypeName()).toBe('wpi.proto.ProtobufChassisSpeeds');
+    expect(proto.getDescriptor().name).toBe('kinematics.proto');
+  });
+
+  it('should describe every message of kinematics.proto', () => {
+    expect(proto.getDescriptor().messages.map((message) => message.name)).toEqual([
+      'ProtobufChassisSpeeds',
+      'ProtobufDifferentialDriveKinematics',
+      'ProtobufDifferentialDriveWheelSpeeds',
+      'ProtobufDifferentialDriveWheelPositions',
+      'ProtobufMecanumDriveKinematics',
+      'ProtobufMecanumDriveWheelPositions',
+      'ProtobufMecanumDriveWheelSpeeds',
+      'ProtobufSwerveDriveKinematics',
+      'ProtobufSwerveModulePosition',
+      'ProtobufSwerveModuleState'
+    ]);
+  });
+
+  it('should publish the geometry descriptor before the kinematics descriptor', () => {
+    const names: string[] = [];
+    forEachProtobufDescriptor(proto, () => false, (name) => names.push(name));
+    expect(names).toEqual(['proto:geometry2d.proto', 'proto:kinematics.proto']);
+  });
+
+  it('should round-trip chassis speeds', () => {
+    const speeds = proto.unpack(proto.pack(new ChassisSpeeds(1.0, -2.0, 0.5)));
+    expect(speeds.vxMetersPerSecond).toBe(1.0);
+    expect(speeds.vyMetersPerSecond).toBe(-2.0);
+    expect(speeds.omegaRadiansPerSecond).toBe(0.5);
+  });
+});
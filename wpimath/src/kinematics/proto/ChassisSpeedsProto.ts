@@ -0,0 +1,47 @@
+import { Protobuf, ProtobufFileDescriptor, ProtobufReader, ProtobufWriter } from 'wpiutil';
+import { ChassisSpeeds } from '../ChassisSpeeds';
+import { kKinematicsDescriptor } from './KinematicsDescriptor';
+
+/**
+ * Protobuf serializer for ChassisSpeeds.
+ */
+export class ChassisSpeedsProto implements Protobuf<ChassisSpeeds> {
+  public getTypeName(): string {
+    return 'wpi.proto.ProtobufChassisSpeeds';
+  }
+
+  public getDescriptor(): ProtobufFileDescriptor {
+    return kKinematicsDescriptor;
+  }
+
+  public pack(value: ChassisSpeeds): Buffer {
+    const writer = new ProtobufWriter();
+    writer.writeDouble(1, value.vxMetersPerSecond);
+    writer.writeDouble(2, value.vyMetersPerSecond);
+    writer.writeDouble(3, value.omegaRadiansPerSecond);
+    return writer.finish();
+  }
+
+  public unpack(buffer: Buffer): ChassisSpeeds {
+    const reader = new ProtobufReader(buffer);
+    let vx = 0;
+    let vy = 0;
+    let omega = 0;
+    while (reader.next()) {
+      switch (reader.getFieldNumber()) {
+        case 1:
+          vx = reader.readDouble();
+          break;
+        case 2:
+          vy = reader.readDouble();
+          break;
+        case 3:
+          omega = reader.readDouble();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+    return new ChassisSpeeds(vx, vy, omega);
+  }
+}
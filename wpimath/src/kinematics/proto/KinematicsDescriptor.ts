@@ -0,0 +1,87 @@
+import { ProtobufFieldType, ProtobufFileDescriptor } from 'wpiutil';
+import { kGeometry2dDescriptor } from '../../geometry/proto/Geometry2dDescriptor';
+
+/**
+ * Descriptor of WPILib's kinematics.proto. Like geometry2d.proto, the whole file is described so
+ * that it matches the file WPILib publishes under the same name.
+ */
+export const kKinematicsDescriptor: ProtobufFileDescriptor = {
+  name: 'kinematics.proto',
+  package: 'wpi.proto',
+  dependencies: [kGeometry2dDescriptor],
+  messages: [
+    {
+      name: 'ProtobufChassisSpeeds',
+      fields: [
+        { name: 'vx', number: 1, type: ProtobufFieldType.Double },
+        { name: 'vy', number: 2, type: ProtobufFieldType.Double },
+        { name: 'omega', number: 3, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufDifferentialDriveKinematics',
+      fields: [{ name: 'track_width', number: 1, type: ProtobufFieldType.Double }]
+    },
+    {
+      name: 'ProtobufDifferentialDriveWheelSpeeds',
+      fields: [
+        { name: 'left', number: 1, type: ProtobufFieldType.Double },
+        { name: 'right', number: 2, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufDifferentialDriveWheelPositions',
+      fields: [
+        { name: 'left', number: 1, type: ProtobufFieldType.Double },
+        { name: 'right', number: 2, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufMecanumDriveKinematics',
+      fields: [
+        { name: 'front_left', number: 1, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d' },
+        { name: 'front_right', number: 2, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d' },
+        { name: 'rear_left', number: 3, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d' },
+        { name: 'rear_right', number: 4, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d' }
+      ]
+    },
+    {
+      name: 'ProtobufMecanumDriveWheelPositions',
+      fields: [
+        { name: 'front_left', number: 1, type: ProtobufFieldType.Double },
+        { name: 'front_right', number: 2, type: ProtobufFieldType.Double },
+        { name: 'rear_left', number: 3, type: ProtobufFieldType.Double },
+        { name: 'rear_right', number: 4, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufMecanumDriveWheelSpeeds',
+      fields: [
+        { name: 'front_left', number: 1, type: ProtobufFieldType.Double },
+        { name: 'front_right', number: 2, type: ProtobufFieldType.Double },
+        { name: 'rear_left', number: 3, type: ProtobufFieldType.Double },
+        { name: 'rear_right', number: 4, type: ProtobufFieldType.Double }
+      ]
+    },
+    {
+      name: 'ProtobufSwerveDriveKinematics',
+      fields: [
+        { name: 'modules', number: 1, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufTranslation2d', repeated: true }
+      ]
+    },
+    {
+      name: 'ProtobufSwerveModulePosition',
+      fields: [
+        { name: 'distance', number: 1, type: ProtobufFieldType.Double },
+        { name: 'angle', number: 2, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufRotation2d' }
+      ]
+    },
+    {
+      name: 'ProtobufSwerveModuleState',
+      fields: [
+        { name: 'speed', number: 1, type: ProtobufFieldType.Double },
+        { name: 'angle', number: 2, type: ProtobufFieldType.Message, typeName: '.wpi.proto.ProtobufRotation2d' }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,18 @@
+import { Rotation2d } from '../../geometry/Rotation2d';
+import { SwerveModuleState } from '../SwerveModuleState';
+import { SwerveModuleStateProto } from './SwerveModuleStateProto';
+
+describe('SwerveModuleStateProto', () => {
+  const proto = new SwerveModuleStateProto();
+
+  it('should describe the WPILib message', () => {
+    expect(proto.getTypeName()).toBe('wpi.proto.ProtobufSwerveModuleState');
+    expect(proto.getDescriptor().dependencies?.map((file) => file.name)).toEqual(['geometry2d.proto']);
+  });
+
+  it('should round-trip a module state', () => {
+    const state = proto.unpack(proto.pack(new SwerveModuleState(3.5, new Rotation2d(-1.0))));
+    expect(state.speedMetersPerSecond).toBe(3.5);
+    expect(state.angle.getRadians()).toBeCloseTo(-1.0, 9);
+  });
+});
@@ -0,0 +1,46 @@
+import { Protobuf, ProtobufFileDescriptor, ProtobufReader, ProtobufWriter } from 'wpiutil';
+import { Rotation2d } from '../../geometry/Rotation2d';
+import { Rotation2dProto } from '../../geometry/proto/Rotation2dProto';
+import { SwerveModuleState } from '../SwerveModuleState';
+import { kKinematicsDescriptor } from './KinematicsDescriptor';
+
+/**
+ * Protobuf serializer for SwerveModuleState.
+ */
+export class SwerveModuleStateProto implements Protobuf<SwerveModuleState> {
+  private readonly m_angle = new Rotation2dProto();
+
+  public getTypeName(): string {
+    return 'wpi.proto.ProtobufSwerveModuleState';
+  }
+
+  public getDescriptor(): ProtobufFileDescriptor {
+    return kKinematicsDescriptor;
+  }
+
+  public pack(value: SwerveModuleState): Buffer {
+    const writer = new ProtobufWriter();
+    writer.writeDouble(1, value.speedMetersPerSecond);
+    writer.writeBytes(2, this.m_angle.pack(value.angle));
+    return writer.finish();
+  }
+
+  public unpack(buffer: Buffer): SwerveModuleState {
+    const reader = new ProtobufReader(buffer);
+    let speed = 0;
+    let angle = new Rotation2d();
+    while (reader.next()) {
+      switch (reader.getFieldNumber()) {
+        case 1:
+          speed = reader.readDouble();
+          break;
+        case 2:
+          angle = this.m_angle.unpack(reader.readBytes());
+          break;
+        default:
+          reader.skip();
+      }
+    }
+    return new SwerveModuleState(speed, angle);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './KinematicsDescriptor';
+export * from './ChassisSpeedsProto';
+export * from './SwerveModuleStateProto';
@@ -0,0 +1,19 @@
+import { ChassisSpeeds } from '../ChassisSpeeds';
+import { ChassisSpeedsStruct } from './ChassisSpeedsStruct';
+
+describe('ChassisSpeedsStruct', () => {
+  const struct = new ChassisSpeedsStruct();
+
+  it('should describe the WPILib schema', () => {
+    expect(struct.getTypeName()).toBe('ChassisSpeeds');
+    expect(struct.getSchema()).toBe('double vx;double vy;double omega');
+    expect(struct.getSize()).toBe(24);
+  });
+
+  it('should round-trip chassis speeds', () => {
+    const speeds = struct.unpack(struct.pack(new ChassisSpeeds(1.0, -2.0, 0.5)));
+    expect(speeds.vxMetersPerSecond).toBe(1.0);
+    expect(speeds.vyMetersPerSecond).toBe(-2.0);
+    expect(speeds.omegaRadiansPerSecond).toBe(0.5);
+  });
+});
@@ -0,0 +1,42 @@
+import { Struct, StructFieldType, StructSerializer, field } from 'wpiutil';
+import { ChassisSpeeds } from '../ChassisSpeeds';
+
+const kLayout = new Struct([
+  field('vx', StructFieldType.Float64),
+  field('vy', StructFieldType.Float64),
+  field('omega', StructFieldType.Float64)
+]);
+
+/**
+ * Struct serializer for ChassisSpeeds.
+ */
+export class ChassisSpeedsStruct implements StructSerializer<ChassisSpeeds> {
+  public getTypeName(): string {
+    return 'ChassisSpeeds';
+  }
+
+  public getSize(): number {
+    return kLayout.getSize();
+  }
+
+  public getSchema(): string {
+    return 'double vx;double vy;double omega';
+  }
+
+  public getNested(): StructSerializer<any>[] {
+    return [];
+  }
+
+  public pack(value: ChassisSpeeds): Buffer {
+    return kLayout.pack({
+      vx: value.vxMetersPerSecond,
+      vy: value.vyMetersPerSecond,
+      omega: value.omegaRadiansPerSecond
+    });
+  }
+
+  public unpack(buffer: Buffer): ChassisSpeeds {
+    const data = kLayout.unpack(buffer);
+    return new ChassisSpeeds(data.vx, data.vy, data.omega);
+  }
+}
@@ -0,0 +1,20 @@
+import { Rotation2d } from '../../geometry/Rotation2d';
+import { SwerveModuleState } from '../SwerveModuleState';
+import { SwerveModuleStateStruct } from './SwerveModuleStateStruct';
+
+describe('SwerveModuleStateStruct', () => {
+  const struct = new SwerveModuleStateStruct();
+
+  it('should describe the WPILib schema', () => {
+    expect(struct.getTypeName()).toBe('SwerveModuleState');
+    expect(struct.getSchema()).toBe('double speed;Rotation2d angle');
+    expect(struct.getSize()).toBe(16);
+    expect(struct.getNested().map((nested) => nested.getTypeName())).toEqual(['Rotation2d']);
+  });
+
+  it('should round-trip a module state', () => {
+    const state = struct.unpack(struct.pack(new SwerveModuleState(3.5, new Rotation2d(-1.0))));
+    expect(state.speedMetersPerSecond).toBe(3.5);
+    expect(state.angle.getRadians()).toBeCloseTo(-1.0, 9);
+  });
+});
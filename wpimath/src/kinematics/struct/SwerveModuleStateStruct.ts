@@ -0,0 +1,43 @@
+import { Struct, StructFieldType, StructSerializer, field } from 'wpiutil';
+import { Rotation2dStruct } from '../../geometry/struct/Rotation2dStruct';
+import { SwerveModuleState } from '../SwerveModuleState';
+
+const kSpeedLayout = new Struct([field('speed', StructFieldType.Float64)]);
+
+/**
+ * Struct serializer for SwerveModuleState.
+ */
+export class SwerveModuleStateStruct implements StructSerializer<SwerveModuleState> {
+  private readonly m_angle = new Rotation2dStruct();
+
+  public getTypeName(): string {
+    return 'SwerveModuleState';
+  }
+
+  public getSize(): number {
+    return kSpeedLayout.getSize() + this.m_angle.getSize();
+  }
+
+  public getSchema(): string {
+    return 'double speed;Rotation2d angle';
+  }
+
+  public getNested(): StructSerializer<any>[] {
+    return [this.m_angle];
+  }
+
+  public pack(value: SwerveModuleState): Buffer {
+    return Buffer.concat([
+      kSpeedLayout.pack({ speed: value.speedMetersPerSecond }),
+      this.m_angle.pack(value.angle)
+    ]);
+  }
+
+  public unpack(buffer: Buffer): SwerveModuleState {
+    const speedSize = kSpeedLayout.getSize();
+    return new SwerveModuleState(
+      kSpeedLayout.unpack(buffer.subarray(0, speedSize)).speed,
+      this.m_angle.unpack(buffer.subarray(speedSize, this.getSize()))
+    );
+  }
+}
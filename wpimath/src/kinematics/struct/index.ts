@@ -0,0 +1,2 @@
+export * from './ChassisSpeedsStruct';
+export * from './SwerveModuleStateStruct';
@@ -0,0 +1,446 @@
+import * as fs from 'fs';
+import { Timestamp } from '../timestamp/Timestamp';
+import { StructSerializer } from '../struct/StructSerializer';
+import { Protobuf, forEachProtobufDescriptor } from '../protobuf/Protobuf';
+
+/**
+ * Control record types (records written to entry 0).
+ */
+export enum ControlRecordType {
+  kStart = 0,
+  kFinish = 1,
+  kSetMetadata = 2
+}
+
+/** WPILOG format version written by DataLog (1.0). */
+export const kDataLogVersion = 0x0100;
+
+/** Once this many bytes are buffered, they are written out to the file. */
+const FLUSH_THRESHOLD = 64 * 1024;
+
+/**
+ * A data log writer for the WPILib .wpilog format. The log consists of a
+ * header followed by records; each data entry is started with a name, type
+ * string and metadata, and values are then appended to it with a timestamp.
+ *
+ * Data is buffered in memory and written to the file periodically, when
+ * enough has accumulated, on flush(), and on close().
+ */
+export class DataLog {
+  private fd: number;
+  private chunks: Buffer[] = [];
+  private bufferedSize: number = 0;
+  private nextEntry: number = 1;
+  private entries = new Map<string, { id: number; type: string; refCount: number }>();
+  private entryNames = new Map<number, string>();
+  private schemas = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a data log, writing the file header immediately. An existing file
+   * with the same name is overwritten.
+   *
+   * @param filename The path of the file to write
+   * @param extraHeader Extra header data
+   * @param period Time between flushes to disk, in seconds (0 to only flush explicitly)
+   */
+  constructor(filename: string, extraHeader: string = '', period: number = 0.25) {
+    this.fd = fs.openSync(filename, 'w');
+    if (period > 0) {
+      this.flushTimer = setInterval(() => this.flush(), period * 1000);
+      // Don't keep the process alive just to flush the log
+      this.flushTimer.unref();
+    }
+    const extra = Buffer.from(extraHeader, 'utf8');
+    const header = Buffer.alloc(12);
+    header.write('WPILOG', 0, 'ascii');
+    header.writeUInt16LE(kDataLogVersion, 6);
+    header.writeUInt32LE(extra.length, 8);
+    this.write(Buffer.concat([header, extra]));
+  }
+
+  /**
+   * Start an entry. Duplicate names are allowed (with the same type), and
+   * result in the same entry id being returned; finish() must then be called
+   * the same number of times to finish the entry.
+   *
+   * @param name Name
+   * @param type Data type
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   * @returns Entry index
+   */
+  public start(name: string, type: string, metadata: string = '', timestamp: number = 0): number {
+    const existing = this.entries.get(name);
+    if (existing !== undefined) {
+      if (existing.type !== type) {
+        throw new Error(`DataLog entry '${name}' already started with type '${existing.type}', not '${type}'`);
+      }
+      existing.refCount++;
+      return existing.id;
+    }
+
+    const id = this.nextEntry++;
+    this.entries.set(name, { id, type, refCount: 1 });
+    this.entryNames.set(id, name);
+
+    const nameBuf = Buffer.from(name, 'utf8');
+    const typeBuf = Buffer.from(type, 'utf8');
+    const metadataBuf = Buffer.from(metadata, 'utf8');
+    const payload = Buffer.alloc(17 + nameBuf.length + typeBuf.length + metadataBuf.length);
+    let offset = payload.writeUInt8(ControlRecordType.kStart, 0);
+    offset = payload.writeUInt32LE(id, offset);
+    offset = payload.writeUInt32LE(nameBuf.length, offset);
+    offset += nameBuf.copy(payload, offset);
+    offset = payload.writeUInt32LE(typeBuf.length, offset);
+    offset += typeBuf.copy(payload, offset);
+    offset = payload.writeUInt32LE(metadataBuf.length, offset);
+    metadataBuf.copy(payload, offset);
+    this.appendRecord(0, payload, timestamp);
+    return id;
+  }
+
+  /**
+   * Finish an entry.
+   *
+   * @param entry Entry index
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public finish(entry: number, timestamp: number = 0): void {
+    const name = this.entryNames.get(entry);
+    if (name === undefined) {
+      return;
+    }
+    const info = this.entries.get(name)!;
+    if (--info.refCount > 0) {
+      return;
+    }
+    this.entries.delete(name);
+    this.entryNames.delete(entry);
+
+    const payload = Buffer.alloc(5);
+    payload.writeUInt8(ControlRecordType.kFinish, 0);
+    payload.writeUInt32LE(entry, 1);
+    this.appendRecord(0, payload, timestamp);
+  }
+
+  /**
+   * Updates the metadata for an entry.
+   *
+   * @param entry Entry index
+   * @param metadata New metadata for the entry
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public setMetadata(entry: number, metadata: string, timestamp: number = 0): void {
+    const metadataBuf = Buffer.from(metadata, 'utf8');
+    const payload = Buffer.alloc(9 + metadataBuf.length);
+    payload.writeUInt8(ControlRecordType.kSetMetadata, 0);
+    payload.writeUInt32LE(entry, 1);
+    payload.writeUInt32LE(metadataBuf.length, 5);
+    metadataBuf.copy(payload, 9);
+    this.appendRecord(0, payload, timestamp);
+  }
+
+  /**
+   * Registers a struct schema (and the schemas of any nested structs), so
+   * tools can decode struct entries. Duplicate calls are ignored.
+   *
+   * @param struct struct serializer
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public addSchema(struct: StructSerializer<any>, timestamp?: number): void;
+  /**
+   * Registers a protobuf schema: the file descriptor of the message type and
+   * of any files it depends on. Duplicate calls are ignored.
+   *
+   * @param proto protobuf serializer
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public addSchema(proto: Protobuf<any>, timestamp?: number): void;
+  /**
+   * Registers a data schema. Data schemas provide information for how a
+   * certain data type string can be decoded; each is stored as an entry named
+   * "/.schema/<name>". Duplicate calls with the same name are ignored.
+   *
+   * @param name Name (the string passed as the data type for entries using this schema)
+   * @param type Type of schema (e.g. "structschema")
+   * @param schema Schema data
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public addSchema(name: string, type: string, schema: string | Uint8Array, timestamp?: number): void;
+  public addSchema(
+    nameOrStruct: string | StructSerializer<any> | Protobuf<any>,
+    typeOrTimestamp?: string | number,
+    schema?: string | Uint8Array,
+    timestamp: number = 0
+  ): void {
+    if (typeof nameOrStruct !== 'string' && 'getDescriptor' in nameOrStruct) {
+      const protoTimestamp = typeof typeOrTimestamp === 'number' ? typeOrTimestamp : 0;
+      forEachProtobufDescriptor(
+        nameOrStruct,
+        (name) => this.hasSchema(name),
+        (name, type, descriptor) => this.addSchema(name, type, descriptor, protoTimestamp)
+      );
+      return;
+    }
+    if (typeof nameOrStruct !== 'string') {
+      const structTimestamp = typeof typeOrTimestamp === 'number' ? typeOrTimestamp : 0;
+      for (const nested of nameOrStruct.getNested()) {
+        this.addSchema(nested, structTimestamp);
+      }
+      this.addSchema('struct:' + nameOrStruct.getTypeName(), 'structschema', nameOrStruct.getSchema(), structTimestamp);
+      return;
+    }
+
+    if (this.schemas.has(nameOrStruct)) {
+      return;
+    }
+    this.schemas.add(nameOrStruct);
+    const entry = this.start('/.schema/' + nameOrStruct, typeOrTimestamp as string, '', timestamp);
+    const data = typeof schema === 'string' ? Buffer.from(schema, 'utf8') : schema!;
+    this.appendRaw(entry, data, timestamp);
+  }
+
+  /**
+   * Returns whether a schema has already been added with the given name.
+   *
+   * @param name Name (the string passed as the data type for entries using this schema)
+   * @returns True if the schema has been added
+   */
+  public hasSchema(name: string): boolean {
+    return this.schemas.has(name);
+  }
+
+  /**
+   * Appends a raw record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param data Byte array to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendRaw(entry: number, data: Uint8Array, timestamp: number = 0): void {
+    this.appendRecord(entry, Buffer.from(data.buffer, data.byteOffset, data.byteLength), timestamp);
+  }
+
+  /**
+   * Appends a boolean record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param value Boolean value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendBoolean(entry: number, value: boolean, timestamp: number = 0): void {
+    this.appendRecord(entry, Buffer.from([value ? 1 : 0]), timestamp);
+  }
+
+  /**
+   * Appends an integer (int64) record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param value Integer value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendInteger(entry: number, value: number | bigint, timestamp: number = 0): void {
+    const payload = Buffer.alloc(8);
+    payload.writeBigInt64LE(toInt64(value));
+    this.appendRecord(entry, payload, timestamp);
+  }
+
+  /**
+   * Appends a float record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param value Float value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendFloat(entry: number, value: number, timestamp: number = 0): void {
+    const payload = Buffer.alloc(4);
+    payload.writeFloatLE(value);
+    this.appendRecord(entry, payload, timestamp);
+  }
+
+  /**
+   * Appends a double record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param value Double value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendDouble(entry: number, value: number, timestamp: number = 0): void {
+    const payload = Buffer.alloc(8);
+    payload.writeDoubleLE(value);
+    this.appendRecord(entry, payload, timestamp);
+  }
+
+  /**
+   * Appends a string record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param value String value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendString(entry: number, value: string, timestamp: number = 0): void {
+    this.appendRecord(entry, Buffer.from(value, 'utf8'), timestamp);
+  }
+
+  /**
+   * Appends a boolean array record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param arr Boolean array to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendBooleanArray(entry: number, arr: boolean[], timestamp: number = 0): void {
+    this.appendRecord(entry, Buffer.from(arr.map((value) => (value ? 1 : 0))), timestamp);
+  }
+
+  /**
+   * Appends an integer (int64) array record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param arr Integer array to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendIntegerArray(entry: number, arr: (number | bigint)[], timestamp: number = 0): void {
+    const payload = Buffer.alloc(arr.length * 8);
+    arr.forEach((value, i) => payload.writeBigInt64LE(toInt64(value), i * 8));
+    this.appendRecord(entry, payload, timestamp);
+  }
+
+  /**
+   * Appends a float array record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param arr Float array to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendFloatArray(entry: number, arr: number[], timestamp: number = 0): void {
+    const payload = Buffer.alloc(arr.length * 4);
+    arr.forEach((value, i) => payload.writeFloatLE(value, i * 4));
+    this.appendRecord(entry, payload, timestamp);
+  }
+
+  /**
+   * Appends a double array record to the log.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param arr Double array to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendDoubleArray(entry: number, arr: number[], timestamp: number = 0): void {
+    const payload = Buffer.alloc(arr.length * 8);
+    arr.forEach((value, i) => payload.writeDoubleLE(value, i * 8));
+    this.appendRecord(entry, payload, timestamp);
+  }
+
+  /**
+   * Appends a string array record to the log. Each string is stored as a
+   * 4-byte length followed by its UTF-8 bytes, after a 4-byte string count.
+   *
+   * @param entry Entry index, as returned by start()
+   * @param arr String array to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public appendStringArray(entry: number, arr: string[], timestamp: number = 0): void {
+    const parts: Buffer[] = [Buffer.alloc(4)];
+    parts[0].writeUInt32LE(arr.length);
+    for (const value of arr) {
+      const str = Buffer.from(value, 'utf8');
+      const len = Buffer.alloc(4);
+      len.writeUInt32LE(str.length);
+      parts.push(len, str);
+    }
+    this.appendRecord(entry, Buffer.concat(parts), timestamp);
+  }
+
+  /**
+   * Writes any buffered data to the file.
+   */
+  public flush(): void {
+    if (this.fd === -1 || this.chunks.length === 0) {
+      return;
+    }
+    const data = Buffer.concat(this.chunks, this.bufferedSize);
+    this.chunks = [];
+    this.bufferedSize = 0;
+    let written = 0;
+    while (written < data.length) {
+      written += fs.writeSync(this.fd, data, written);
+    }
+  }
+
+  /**
+   * Flushes buffered data and closes the file. Further appends are ignored.
+   */
+  public close(): void {
+    if (this.fd === -1) {
+      return;
+    }
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+    fs.closeSync(this.fd);
+    this.fd = -1;
+  }
+
+  private appendRecord(entry: number, payload: Buffer, timestamp: number): void {
+    if (this.fd === -1) {
+      return;
+    }
+    if (timestamp === 0) {
+      timestamp = Number(Timestamp.getMicroseconds());
+    }
+
+    const entryBytes = byteLength(entry, 4);
+    const sizeBytes = byteLength(payload.length, 4);
+    const timestampBytes = byteLength(timestamp, 8);
+    const header = Buffer.alloc(1 + entryBytes + sizeBytes + timestampBytes);
+    header.writeUInt8((entryBytes - 1) | ((sizeBytes - 1) << 2) | ((timestampBytes - 1) << 4), 0);
+    let offset = writeVarInt(header, 1, entry, entryBytes);
+    offset = writeVarInt(header, offset, payload.length, sizeBytes);
+    writeVarInt(header, offset, timestamp, timestampBytes);
+
+    this.write(header);
+    this.write(payload);
+  }
+
+  private write(data: Buffer): void {
+    this.chunks.push(data);
+    this.bufferedSize += data.length;
+    if (this.bufferedSize >= FLUSH_THRESHOLD) {
+      this.flush();
+    }
+  }
+}
+
+/**
+ * Converts an integer value to a signed 64-bit bigint, truncating fractions.
+ */
+function toInt64(value: number | bigint): bigint {
+  return BigInt.asIntN(64, typeof value === 'bigint' ? value : BigInt(Math.trunc(value)));
+}
+
+/**
+ * Gets the number of bytes (at least 1, at most max) needed to store an
+ * unsigned value.
+ */
+function byteLength(value: number, max: number): number {
+  let len = 1;
+  while (len < max && value >= 2 ** (8 * len)) {
+    len++;
+  }
+  return len;
+}
+
+/**
+ * Writes an unsigned value as a little-endian integer of the given length.
+ */
+function writeVarInt(buffer: Buffer, offset: number, value: number, len: number): number {
+  for (let i = 0; i < len; i++) {
+    buffer[offset + i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return offset + len;
+}
@@ -0,0 +1,384 @@
+import { DataLog } from './DataLog';
+
+/**
+ * Log entry base class. Starts the entry on construction; values are added by
+ * the typed subclasses (e.g. DoubleLogEntry.append()).
+ */
+export class DataLogEntry {
+  protected readonly log: DataLog;
+  protected readonly entry: number;
+
+  /**
+   * Starts an entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param type Data type of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, type: string, metadata: string = '', timestamp: number = 0) {
+    this.log = log;
+    this.entry = log.start(name, type, metadata, timestamp);
+  }
+
+  /**
+   * Gets the entry index in the log.
+   *
+   * @returns Entry index
+   */
+  public getEntry(): number {
+    return this.entry;
+  }
+
+  /**
+   * Updates the metadata for the entry.
+   *
+   * @param metadata New metadata for the entry
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public setMetadata(metadata: string, timestamp: number = 0): void {
+    this.log.setMetadata(this.entry, metadata, timestamp);
+  }
+
+  /**
+   * Finishes the entry.
+   *
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public finish(timestamp: number = 0): void {
+    this.log.finish(this.entry, timestamp);
+  }
+}
+
+/**
+ * Log byte array values.
+ */
+export class RawLogEntry extends DataLogEntry {
+  /** The data type for byte array values. */
+  public static readonly kDataType = 'raw';
+
+  /**
+   * Starts a byte array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   * @param type Data type (e.g. "json" for a string entry holding JSON)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0, type: string = RawLogEntry.kDataType) {
+    super(log, name, type, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: Uint8Array, timestamp: number = 0): void {
+    this.log.appendRaw(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log boolean values.
+ */
+export class BooleanLogEntry extends DataLogEntry {
+  /** The data type for boolean values. */
+  public static readonly kDataType = 'boolean';
+
+  /**
+   * Starts a boolean entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, BooleanLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: boolean, timestamp: number = 0): void {
+    this.log.appendBoolean(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log integer values.
+ */
+export class IntegerLogEntry extends DataLogEntry {
+  /** The data type for integer values. */
+  public static readonly kDataType = 'int64';
+
+  /**
+   * Starts a integer entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, IntegerLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: number | bigint, timestamp: number = 0): void {
+    this.log.appendInteger(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log float values.
+ */
+export class FloatLogEntry extends DataLogEntry {
+  /** The data type for float values. */
+  public static readonly kDataType = 'float';
+
+  /**
+   * Starts a float entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, FloatLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: number, timestamp: number = 0): void {
+    this.log.appendFloat(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log double values.
+ */
+export class DoubleLogEntry extends DataLogEntry {
+  /** The data type for double values. */
+  public static readonly kDataType = 'double';
+
+  /**
+   * Starts a double entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, DoubleLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: number, timestamp: number = 0): void {
+    this.log.appendDouble(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log string values.
+ */
+export class StringLogEntry extends DataLogEntry {
+  /** The data type for string values. */
+  public static readonly kDataType = 'string';
+
+  /**
+   * Starts a string entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   * @param type Data type (e.g. "json" for a string entry holding JSON)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0, type: string = StringLogEntry.kDataType) {
+    super(log, name, type, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: string, timestamp: number = 0): void {
+    this.log.appendString(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log boolean array values.
+ */
+export class BooleanArrayLogEntry extends DataLogEntry {
+  /** The data type for boolean array values. */
+  public static readonly kDataType = 'boolean[]';
+
+  /**
+   * Starts a boolean array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, BooleanArrayLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: boolean[], timestamp: number = 0): void {
+    this.log.appendBooleanArray(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log integer array values.
+ */
+export class IntegerArrayLogEntry extends DataLogEntry {
+  /** The data type for integer array values. */
+  public static readonly kDataType = 'int64[]';
+
+  /**
+   * Starts a integer array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, IntegerArrayLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: (number | bigint)[], timestamp: number = 0): void {
+    this.log.appendIntegerArray(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log float array values.
+ */
+export class FloatArrayLogEntry extends DataLogEntry {
+  /** The data type for float array values. */
+  public static readonly kDataType = 'float[]';
+
+  /**
+   * Starts a float array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, FloatArrayLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: number[], timestamp: number = 0): void {
+    this.log.appendFloatArray(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log double array values.
+ */
+export class DoubleArrayLogEntry extends DataLogEntry {
+  /** The data type for double array values. */
+  public static readonly kDataType = 'double[]';
+
+  /**
+   * Starts a double array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, DoubleArrayLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: number[], timestamp: number = 0): void {
+    this.log.appendDoubleArray(this.entry, value, timestamp);
+  }
+}
+
+/**
+ * Log string array values.
+ */
+export class StringArrayLogEntry extends DataLogEntry {
+  /** The data type for string array values. */
+  public static readonly kDataType = 'string[]';
+
+  /**
+   * Starts a string array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, metadata: string = '', timestamp: number = 0) {
+    super(log, name, StringArrayLogEntry.kDataType, metadata, timestamp);
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: string[], timestamp: number = 0): void {
+    this.log.appendStringArray(this.entry, value, timestamp);
+  }
+}
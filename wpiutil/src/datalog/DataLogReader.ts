@@ -0,0 +1,499 @@
+import * as fs from 'fs';
+import { ControlRecordType } from './DataLog';
+
+/** Size of each read from a log file. */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Data contained in a start control record.
+ */
+export interface StartRecordData {
+  /** Entry ID; this will be used for this entry in future records. */
+  entry: number;
+  /** Entry name. */
+  name: string;
+  /** Type of the data stored in this entry. */
+  type: string;
+  /** Metadata for this entry. */
+  metadata: string;
+}
+
+/**
+ * Data contained in a set metadata control record.
+ */
+export interface MetadataRecordData {
+  /** Entry ID. */
+  entry: number;
+  /** New metadata for the entry. */
+  metadata: string;
+}
+
+/**
+ * A record in a data log. The data can be interpreted with the typed getters,
+ * based on the type of the entry the record belongs to.
+ */
+export class DataLogRecord {
+  private readonly entry: number;
+  private readonly timestamp: number;
+  private readonly data: Buffer;
+
+  /**
+   * Constructor. Generally only used internally by DataLogReader.
+   *
+   * @param entry Entry ID
+   * @param timestamp Timestamp in integer microseconds
+   * @param data Record data
+   */
+  constructor(entry: number, timestamp: number, data: Buffer) {
+    this.entry = entry;
+    this.timestamp = timestamp;
+    this.data = data;
+  }
+
+  /**
+   * Gets the entry ID.
+   *
+   * @returns entry ID
+   */
+  public getEntry(): number {
+    return this.entry;
+  }
+
+  /**
+   * Gets the record timestamp.
+   *
+   * @returns Timestamp, in integer microseconds
+   */
+  public getTimestamp(): number {
+    return this.timestamp;
+  }
+
+  /**
+   * Gets the size of the raw data.
+   *
+   * @returns size
+   */
+  public getSize(): number {
+    return this.data.length;
+  }
+
+  /**
+   * Gets the raw data. Use the other data accessors to interpret the data.
+   *
+   * @returns raw data
+   */
+  public getRaw(): Buffer {
+    return this.data;
+  }
+
+  /**
+   * Returns true if the record is a control record.
+   *
+   * @returns True if control record, false if normal data record.
+   */
+  public isControl(): boolean {
+    return this.entry === 0;
+  }
+
+  /**
+   * Returns true if the record is a start control record.
+   *
+   * @returns True if start control record, false otherwise.
+   */
+  public isStart(): boolean {
+    return this.isControlType(ControlRecordType.kStart, 17);
+  }
+
+  /**
+   * Returns true if the record is a finish control record.
+   *
+   * @returns True if finish control record, false otherwise.
+   */
+  public isFinish(): boolean {
+    return this.isControlType(ControlRecordType.kFinish, 5);
+  }
+
+  /**
+   * Returns true if the record is a set metadata control record.
+   *
+   * @returns True if set metadata control record, false otherwise.
+   */
+  public isSetMetadata(): boolean {
+    return this.isControlType(ControlRecordType.kSetMetadata, 9);
+  }
+
+  /**
+   * Decodes a start control record.
+   *
+   * @returns start record decoded data
+   * @throws Error if not a start record or the data is invalid
+   */
+  public getStartData(): StartRecordData {
+    if (!this.isStart()) {
+      throw new Error('not a start record');
+    }
+    const entry = this.data.readUInt32LE(1);
+    let offset = 5;
+    const readString = (): string => {
+      const len = this.data.readUInt32LE(offset);
+      offset += 4;
+      if (offset + len > this.data.length) {
+        throw new Error('invalid start record');
+      }
+      const str = this.data.toString('utf8', offset, offset + len);
+      offset += len;
+      return str;
+    };
+    const name = readString();
+    const type = readString();
+    const metadata = readString();
+    return { entry, name, type, metadata };
+  }
+
+  /**
+   * Decodes a finish control record.
+   *
+   * @returns finish record entry ID
+   * @throws Error if not a finish record
+   */
+  public getFinishEntry(): number {
+    if (!this.isFinish()) {
+      throw new Error('not a finish record');
+    }
+    return this.data.readUInt32LE(1);
+  }
+
+  /**
+   * Decodes a set metadata control record.
+   *
+   * @returns set metadata record decoded data
+   * @throws Error if not a set metadata record or the data is invalid
+   */
+  public getSetMetadataData(): MetadataRecordData {
+    if (!this.isSetMetadata()) {
+      throw new Error('not a set metadata record');
+    }
+    const len = this.data.readUInt32LE(5);
+    if (9 + len > this.data.length) {
+      throw new Error('invalid set metadata record');
+    }
+    return { entry: this.data.readUInt32LE(1), metadata: this.data.toString('utf8', 9, 9 + len) };
+  }
+
+  /**
+   * Decodes a data record as a boolean. Note if the data type (as indicated in
+   * the corresponding start control record for this entry) is not "boolean",
+   * invalid results may be returned.
+   *
+   * @returns boolean value
+   * @throws Error if the record size is wrong
+   */
+  public getBoolean(): boolean {
+    this.checkSize(1);
+    return this.data[0] !== 0;
+  }
+
+  /**
+   * Decodes a data record as an integer. Note if the data type (as indicated
+   * in the corresponding start control record for this entry) is not "int64",
+   * invalid results may be returned.
+   *
+   * @returns integer value
+   * @throws Error if the record size is wrong
+   */
+  public getInteger(): number {
+    this.checkSize(8);
+    return Number(this.data.readBigInt64LE(0));
+  }
+
+  /**
+   * Decodes a data record as a float. Note if the data type (as indicated in
+   * the corresponding start control record for this entry) is not "float",
+   * invalid results may be returned.
+   *
+   * @returns float value
+   * @throws Error if the record size is wrong
+   */
+  public getFloat(): number {
+    this.checkSize(4);
+    return this.data.readFloatLE(0);
+  }
+
+  /**
+   * Decodes a data record as a double. Note if the data type (as indicated in
+   * the corresponding start control record for this entry) is not "double",
+   * invalid results may be returned.
+   *
+   * @returns double value
+   * @throws Error if the record size is wrong
+   */
+  public getDouble(): number {
+    this.checkSize(8);
+    return this.data.readDoubleLE(0);
+  }
+
+  /**
+   * Decodes a data record as a string. Note if the data type (as indicated in
+   * the corresponding start control record for this entry) is not "string",
+   * invalid results may be returned.
+   *
+   * @returns string value
+   */
+  public getString(): string {
+    return this.data.toString('utf8');
+  }
+
+  /**
+   * Decodes a data record as a boolean array. Note if the data type (as
+   * indicated in the corresponding start control record for this entry) is
+   * not "boolean[]", invalid results may be returned.
+   *
+   * @returns boolean array
+   */
+  public getBooleanArray(): boolean[] {
+    return Array.from(this.data, (value) => value !== 0);
+  }
+
+  /**
+   * Decodes a data record as an integer array. Note if the data type (as
+   * indicated in the corresponding start control record for this entry) is
+   * not "int64[]", invalid results may be returned.
+   *
+   * @returns integer array
+   * @throws Error if the record size is not a multiple of 8
+   */
+  public getIntegerArray(): number[] {
+    return this.readArray(8, (offset) => Number(this.data.readBigInt64LE(offset)));
+  }
+
+  /**
+   * Decodes a data record as a float array. Note if the data type (as
+   * indicated in the corresponding start control record for this entry) is
+   * not "float[]", invalid results may be returned.
+   *
+   * @returns float array
+   * @throws Error if the record size is not a multiple of 4
+   */
+  public getFloatArray(): number[] {
+    return this.readArray(4, (offset) => this.data.readFloatLE(offset));
+  }
+
+  /**
+   * Decodes a data record as a double array. Note if the data type (as
+   * indicated in the corresponding start control record for this entry) is
+   * not "double[]", invalid results may be returned.
+   *
+   * @returns double array
+   * @throws Error if the record size is not a multiple of 8
+   */
+  public getDoubleArray(): number[] {
+    return this.readArray(8, (offset) => this.data.readDoubleLE(offset));
+  }
+
+  /**
+   * Decodes a data record as a string array. Note if the data type (as
+   * indicated in the corresponding start control record for this entry) is
+   * not "string[]", invalid results may be returned.
+   *
+   * @returns string array
+   * @throws Error if the data is invalid
+   */
+  public getStringArray(): string[] {
+    if (this.data.length < 4) {
+      throw new Error('invalid string array');
+    }
+    const count = this.data.readUInt32LE(0);
+    const values: string[] = [];
+    let offset = 4;
+    for (let i = 0; i < count; i++) {
+      if (offset + 4 > this.data.length) {
+        throw new Error('invalid string array');
+      }
+      const len = this.data.readUInt32LE(offset);
+      offset += 4;
+      if (offset + len > this.data.length) {
+        throw new Error('invalid string array');
+      }
+      values.push(this.data.toString('utf8', offset, offset + len));
+      offset += len;
+    }
+    return values;
+  }
+
+  private isControlType(type: ControlRecordType, minSize: number): boolean {
+    return this.entry === 0 && this.data.length >= minSize && this.data[0] === type;
+  }
+
+  private checkSize(size: number): void {
+    if (this.data.length !== size) {
+      throw new Error(`expected ${size} bytes of data, got ${this.data.length}`);
+    }
+  }
+
+  private readArray(elementSize: number, read: (offset: number) => number): number[] {
+    if (this.data.length % elementSize !== 0) {
+      throw new Error(`data size ${this.data.length} is not a multiple of ${elementSize}`);
+    }
+    const values: number[] = [];
+    for (let offset = 0; offset < this.data.length; offset += elementSize) {
+      values.push(read(offset));
+    }
+    return values;
+  }
+}
+
+/**
+ * Data log reader (reads logs written by the DataLog class). Records are read
+ * on demand while iterating, so logs from files don't need to fit in memory:
+ *
+ *     const reader = new DataLogReader('robot.wpilog');
+ *     for (const record of reader) { ... }
+ *     reader.close();
+ *
+ * Iteration stops at the end of the log, or at a truncated record (e.g. if
+ * the robot lost power while the log was being written).
+ */
+export class DataLogReader implements Iterable<DataLogRecord> {
+  private fd: number = -1;
+  private fromFile: boolean;
+  private buffer: Buffer;
+  private bufferStart: number = 0;
+  private fileSize: number;
+
+  /**
+   * Constructs from a file or an in-memory log.
+   *
+   * @param source the path of a .wpilog file, or the log contents
+   */
+  constructor(source: string | Buffer) {
+    this.fromFile = typeof source === 'string';
+    if (typeof source === 'string') {
+      this.fd = fs.openSync(source, 'r');
+      this.fileSize = fs.fstatSync(this.fd).size;
+      this.buffer = Buffer.alloc(0);
+    } else {
+      this.buffer = source;
+      this.fileSize = source.length;
+    }
+  }
+
+  /**
+   * Returns true if the data log is valid (e.g. has a valid header).
+   *
+   * @returns True if valid, false otherwise
+   */
+  public isValid(): boolean {
+    const header = this.read(0, 12);
+    return (
+      header !== null &&
+      header.toString('ascii', 0, 6) === 'WPILOG' &&
+      header.readUInt16LE(6) >= 0x0100 &&
+      this.read(12, header.readUInt32LE(8)) !== null
+    );
+  }
+
+  /**
+   * Gets the data log version. Returns 0 if data log is invalid.
+   *
+   * @returns Version number; most significant byte is major, least significant is minor (so version 1.0 will be 0x0100)
+   */
+  public getVersion(): number {
+    return this.isValid() ? this.read(6, 2)!.readUInt16LE(0) : 0;
+  }
+
+  /**
+   * Gets the extra header data.
+   *
+   * @returns Extra header data
+   */
+  public getExtraHeader(): string {
+    if (!this.isValid()) {
+      return '';
+    }
+    const len = this.read(8, 4)!.readUInt32LE(0);
+    return this.read(12, len)!.toString('utf8');
+  }
+
+  /**
+   * Iterates over the records in the log, starting from the first one.
+   *
+   * @returns record iterator
+   */
+  public *[Symbol.iterator](): Iterator<DataLogRecord> {
+    if (!this.isValid()) {
+      return;
+    }
+    let pos = 12 + this.read(8, 4)!.readUInt32LE(0);
+    for (;;) {
+      const header = this.read(pos, 1);
+      if (header === null) {
+        return;
+      }
+      const entryLen = (header[0] & 0x3) + 1;
+      const sizeLen = ((header[0] >> 2) & 0x3) + 1;
+      const timestampLen = ((header[0] >> 4) & 0x7) + 1;
+      const fields = this.read(pos + 1, entryLen + sizeLen + timestampLen);
+      if (fields === null) {
+        return;
+      }
+      const entry = fields.readUIntLE(0, entryLen);
+      const size = fields.readUIntLE(entryLen, sizeLen);
+      const timestamp = readUInt(fields, entryLen + sizeLen, timestampLen);
+      pos += 1 + entryLen + sizeLen + timestampLen;
+
+      const data = this.read(pos, size);
+      if (data === null) {
+        return;
+      }
+      pos += size;
+      // Copy, as the read buffer is reused for the rest of the file
+      yield new DataLogRecord(entry, timestamp, this.fromFile ? Buffer.from(data) : data);
+    }
+  }
+
+  /**
+   * Closes the log file. Not needed for in-memory logs.
+   */
+  public close(): void {
+    if (this.fd !== -1) {
+      fs.closeSync(this.fd);
+      this.fd = -1;
+    }
+  }
+
+  /**
+   * Gets len bytes starting at pos, reading more of the file if needed.
+   *
+   * @returns the data, or null if the log ends first
+   */
+  private read(pos: number, len: number): Buffer | null {
+    if (pos + len > this.fileSize || (this.fromFile && this.fd === -1)) {
+      return null;
+    }
+    if (this.fromFile && (pos < this.bufferStart || pos + len > this.bufferStart + this.buffer.length)) {
+      this.buffer = Buffer.alloc(Math.min(Math.max(len, READ_CHUNK_SIZE), this.fileSize - pos));
+      this.bufferStart = pos;
+      let read = 0;
+      while (read < this.buffer.length) {
+        const count = fs.readSync(this.fd, this.buffer, read, this.buffer.length - read, pos + read);
+        if (count === 0) {
+          return null;
+        }
+        read += count;
+      }
+    }
+    const offset = pos - this.bufferStart;
+    return this.buffer.subarray(offset, offset + len);
+  }
+}
+
+/**
+ * Reads an unsigned little-endian integer of 1 to 8 bytes.
+ */
+function readUInt(buffer: Buffer, offset: number, len: number): number {
+  let value = 0;
+  for (let i = len - 1; i >= 0; i--) {
+    value = value * 256 + buffer[offset + i];
+  }
+  return value;
+}
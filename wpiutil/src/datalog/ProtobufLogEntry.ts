@@ -0,0 +1,36 @@
+import { DataLog } from './DataLog';
+import { DataLogEntry } from './DataLogEntry';
+import { Protobuf, getProtobufTypeString } from '../protobuf/Protobuf';
+
+/**
+ * Log protobuf-encoded values. The protobuf schema is added to the log when
+ * the entry is started.
+ */
+export class ProtobufLogEntry<T> extends DataLogEntry {
+  private readonly proto: Protobuf<T>;
+
+  /**
+   * Starts a protobuf entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param proto Protobuf serializer
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, proto: Protobuf<T>, metadata: string = '', timestamp: number = 0) {
+    log.addSchema(proto, timestamp);
+    super(log, name, getProtobufTypeString(proto), metadata, timestamp);
+    this.proto = proto;
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: T, timestamp: number = 0): void {
+    this.log.appendRaw(this.entry, this.proto.pack(value), timestamp);
+  }
+}
@@ -0,0 +1,69 @@
+import { DataLog } from './DataLog';
+import { DataLogEntry } from './DataLogEntry';
+import { StructSerializer, getStructTypeString, packStructArray } from '../struct/StructSerializer';
+
+/**
+ * Log struct-encoded values. The struct schema is added to the log when the
+ * entry is started.
+ */
+export class StructLogEntry<T> extends DataLogEntry {
+  private readonly struct: StructSerializer<T>;
+
+  /**
+   * Starts a struct entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param struct Struct serializer
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, struct: StructSerializer<T>, metadata: string = '', timestamp: number = 0) {
+    log.addSchema(struct, timestamp);
+    super(log, name, getStructTypeString(struct), metadata, timestamp);
+    this.struct = struct;
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Value to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: T, timestamp: number = 0): void {
+    this.log.appendRaw(this.entry, this.struct.pack(value), timestamp);
+  }
+}
+
+/**
+ * Log arrays of struct-encoded values. The struct schema is added to the log
+ * when the entry is started.
+ */
+export class StructArrayLogEntry<T> extends DataLogEntry {
+  private readonly struct: StructSerializer<T>;
+
+  /**
+   * Starts a struct array entry in the log.
+   *
+   * @param log The log
+   * @param name Name of the entry
+   * @param struct Struct serializer
+   * @param metadata Initial metadata (e.g. data properties)
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  constructor(log: DataLog, name: string, struct: StructSerializer<T>, metadata: string = '', timestamp: number = 0) {
+    log.addSchema(struct, timestamp);
+    super(log, name, getStructTypeString(struct) + '[]', metadata, timestamp);
+    this.struct = struct;
+  }
+
+  /**
+   * Appends a record to the log.
+   *
+   * @param value Values to record
+   * @param timestamp Time stamp (0 to indicate now)
+   */
+  public append(value: T[], timestamp: number = 0): void {
+    this.log.appendRaw(this.entry, packStructArray(this.struct, value), timestamp);
+  }
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataLog, ControlRecordType } from '../DataLog';
+
+describe('DataLog', () => {
+  let dir: string;
+  let filename: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'datalog-'));
+    filename = path.join(dir, 'test.wpilog');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('writes the header with the extra header string', () => {
+    const log = new DataLog(filename, 'extra');
+    log.close();
+
+    const data = fs.readFileSync(filename);
+    expect(data.subarray(0, 6).toString('ascii')).toBe('WPILOG');
+    expect(data.readUInt16LE(6)).toBe(0x0100);
+    expect(data.readUInt32LE(8)).toBe(5);
+    expect(data.subarray(12).toString('utf8')).toBe('extra');
+  });
+
+  test('writes start and data records with minimal field widths', () => {
+    const log = new DataLog(filename);
+    const entry = log.start('/x', 'double', '{}', 1000);
+    log.appendDouble(entry, 1.5, 70000);
+    log.close();
+
+    const data = fs.readFileSync(filename).subarray(12);
+
+    // Start record: 1-byte entry, 1-byte size, 2-byte timestamp
+    expect(data[0]).toBe(0x10);
+    expect(data[1]).toBe(0);
+    const size = data[2];
+    expect(data.readUInt16LE(3)).toBe(1000);
+    const start = data.subarray(5, 5 + size);
+    expect(start[0]).toBe(ControlRecordType.kStart);
+    expect(start.readUInt32LE(1)).toBe(entry);
+    expect(start.subarray(9, 11).toString()).toBe('/x');
+    expect(start.subarray(15, 21).toString()).toBe('double');
+    expect(start.subarray(25).toString()).toBe('{}');
+
+    // Data record: 3-byte timestamp
+    const record = data.subarray(5 + size);
+    expect(record[0]).toBe(0x20);
+    expect(record[1]).toBe(entry);
+    expect(record[2]).toBe(8);
+    expect(record[3] | (record[4] << 8) | (record[5] << 16)).toBe(70000);
+    expect(record.readDoubleLE(6)).toBe(1.5);
+  });
+
+  test('reuses entries started twice and finishes them once released', () => {
+    const log = new DataLog(filename);
+    const a = log.start('/a', 'string');
+    expect(log.start('/a', 'string')).toBe(a);
+    expect(() => log.start('/a', 'double')).toThrow();
+    expect(log.start('/b', 'string')).not.toBe(a);
+
+    log.finish(a, 1);
+    log.flush();
+    const sizeAfterFirstFinish = fs.statSync(filename).size;
+    log.finish(a, 1);
+    log.flush();
+    expect(fs.statSync(filename).size).toBeGreaterThan(sizeAfterFirstFinish);
+    log.close();
+  });
+
+  test('encodes arrays', () => {
+    const log = new DataLog(filename);
+    const entry = log.start('/s', 'string[]', '', 1);
+    log.appendStringArray(entry, ['ab', 'c'], 1);
+    log.close();
+
+    const data = fs.readFileSync(filename);
+    const payload = data.subarray(data.length - 15);
+    expect(payload.readUInt32LE(0)).toBe(2);
+    expect(payload.readUInt32LE(4)).toBe(2);
+    expect(payload.subarray(8, 10).toString()).toBe('ab');
+    expect(payload.readUInt32LE(10)).toBe(1);
+    expect(payload.subarray(14).toString()).toBe('c');
+  });
+});
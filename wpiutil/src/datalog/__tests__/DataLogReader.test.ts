@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataLog } from '../DataLog';
+import {
+  BooleanLogEntry,
+  DoubleArrayLogEntry,
+  DoubleLogEntry,
+  IntegerArrayLogEntry,
+  IntegerLogEntry,
+  StringArrayLogEntry,
+  StringLogEntry
+} from '../DataLogEntry';
+import { StructArrayLogEntry, StructLogEntry } from '../StructLogEntry';
+import { DataLogReader, DataLogRecord } from '../DataLogReader';
+import { Struct } from '../../struct/Struct';
+import { StructFieldType, field } from '../../struct/StructField';
+import { StructSerializer } from '../../struct/StructSerializer';
+import { ProtobufLogEntry } from '../ProtobufLogEntry';
+import { Protobuf, kProtobufSchemaType } from '../../protobuf/Protobuf';
+import { ProtobufFieldType } from '../../protobuf/ProtobufDescriptor';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const layout = new Struct([
+  field('x', StructFieldType.Float64),
+  field('y', StructFieldType.Float64)
+]);
+
+const pointStruct: StructSerializer<Point> = {
+  getTypeName: () => 'Point',
+  getSize: () => 16,
+  getSchema: () => 'double x;double y',
+  getNested: () => [],
+  pack: (value) => layout.pack(value),
+  unpack: (buffer) => layout.unpack(buffer) as Point
+};
+
+const pointProto: Protobuf<Point> = {
+  getTypeName: () => 'test.ProtobufPoint',
+  getDescriptor: () => ({
+    name: 'point.proto',
+    package: 'test',
+    messages: [{
+      name: 'ProtobufPoint',
+      fields: [
+        { name: 'x', number: 1, type: ProtobufFieldType.Double },
+        { name: 'y', number: 2, type: ProtobufFieldType.Double }
+      ]
+    }]
+  }),
+  pack: (value) => layout.pack(value),
+  unpack: (buffer) => layout.unpack(buffer) as Point
+};
+
+describe('DataLogReader', () => {
+  let dir: string;
+  let filename: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'datalogreader-'));
+    filename = path.join(dir, 'test.wpilog');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function readAll(source: string | Buffer): DataLogRecord[] {
+    const reader = new DataLogReader(source);
+    const records = [...reader];
+    reader.close();
+    return records;
+  }
+
+  test('reads the header', () => {
+    new DataLog(filename, 'team 1234', 0).close();
+
+    const reader = new DataLogReader(filename);
+    expect(reader.isValid()).toBe(true);
+    expect(reader.getVersion()).toBe(0x0100);
+    expect(reader.getExtraHeader()).toBe('team 1234');
+    reader.close();
+  });
+
+  test('rejects data without a header', () => {
+    const reader = new DataLogReader(Buffer.from('not a log'));
+    expect(reader.isValid()).toBe(false);
+    expect(reader.getVersion()).toBe(0);
+    expect([...reader]).toEqual([]);
+  });
+
+  test('round-trips typed entries', () => {
+    const log = new DataLog(filename, '', 0);
+    new BooleanLogEntry(log, '/bool').append(true, 1);
+    new IntegerLogEntry(log, '/int').append(-5, 2);
+    new DoubleLogEntry(log, '/double', '{"unit":"m"}').append(1.25, 3);
+    new StringLogEntry(log, '/json', '', 0, 'json').append('{}', 4);
+    new IntegerArrayLogEntry(log, '/ints').append([1, 2, 3], 5);
+    new DoubleArrayLogEntry(log, '/doubles').append([0.5], 6);
+    new StringArrayLogEntry(log, '/strings').append(['a', 'bc'], 2 ** 40);
+    log.close();
+
+    const records = readAll(filename);
+    const starts = records.filter((record) => record.isStart()).map((record) => record.getStartData());
+    expect(starts.map((start) => [start.name, start.type])).toEqual([
+      ['/bool', 'boolean'],
+      ['/int', 'int64'],
+      ['/double', 'double'],
+      ['/json', 'json'],
+      ['/ints', 'int64[]'],
+      ['/doubles', 'double[]'],
+      ['/strings', 'string[]']
+    ]);
+    expect(starts[2].metadata).toBe('{"unit":"m"}');
+
+    const data = records.filter((record) => !record.isControl());
+    expect(data.map((record) => record.getEntry())).toEqual(starts.map((start) => start.entry));
+    expect(data[0].getBoolean()).toBe(true);
+    expect(data[1].getInteger()).toBe(-5);
+    expect(data[2].getDouble()).toBe(1.25);
+    expect(data[3].getString()).toBe('{}');
+    expect(data[4].getIntegerArray()).toEqual([1, 2, 3]);
+    expect(data[5].getDoubleArray()).toEqual([0.5]);
+    expect(data[6].getStringArray()).toEqual(['a', 'bc']);
+    expect(data[6].getTimestamp()).toBe(2 ** 40);
+  });
+
+  test('reads finish and set metadata records', () => {
+    const log = new DataLog(filename, '', 0);
+    const entry = new DoubleLogEntry(log, '/x', '', 1);
+    entry.setMetadata('new', 2);
+    entry.finish(3);
+    log.close();
+
+    const records = readAll(filename);
+    expect(records[1].isSetMetadata()).toBe(true);
+    expect(records[1].getSetMetadataData()).toEqual({ entry: entry.getEntry(), metadata: 'new' });
+    expect(records[2].isFinish()).toBe(true);
+    expect(records[2].getFinishEntry()).toBe(entry.getEntry());
+    expect(() => records[2].getStartData()).toThrow();
+  });
+
+  test('adds struct schemas once', () => {
+    const log = new DataLog(filename, '', 0);
+    new StructLogEntry(log, '/pose', pointStruct).append({ x: 1, y: 2 }, 1);
+    new StructArrayLogEntry(log, '/poses', pointStruct).append([{ x: 3, y: 4 }], 1);
+    log.close();
+
+    const records = readAll(filename);
+    const starts = records.filter((record) => record.isStart()).map((record) => record.getStartData());
+    expect(starts.map((start) => [start.name, start.type])).toEqual([
+      ['/.schema/struct:Point', 'structschema'],
+      ['/pose', 'struct:Point'],
+      ['/poses', 'struct:Point[]']
+    ]);
+    const data = records.filter((record) => !record.isControl());
+    expect(data[0].getString()).toBe('double x;double y');
+    expect(pointStruct.unpack(data[1].getRaw())).toEqual({ x: 1, y: 2 });
+    expect(data[2].getSize()).toBe(16);
+  });
+
+  test('adds protobuf schemas once', () => {
+    const log = new DataLog(filename, '', 0);
+    new ProtobufLogEntry(log, '/a', pointProto).append({ x: 1, y: 2 }, 1);
+    new ProtobufLogEntry(log, '/b', pointProto);
+    log.close();
+
+    const starts = readAll(filename)
+      .filter((record) => record.isStart())
+      .map((record) => record.getStartData());
+    expect(starts.map((start) => [start.name, start.type])).toEqual([
+      ['/.schema/proto:point.proto', kProtobufSchemaType],
+      ['/a', 'proto:test.ProtobufPoint'],
+      ['/b', 'proto:test.ProtobufPoint']
+    ]);
+  });
+
+  test('streams logs larger than the read size and stops at a truncated record', () => {
+    const log = new DataLog(filename, '', 0);
+    const entry = new StringLogEntry(log, '/s');
+    const value = 'x'.repeat(1000);
+    for (let i = 0; i < 200; i++) {
+      entry.append(value, i + 1);
+    }
+    log.close();
+
+    expect(readAll(filename).filter((record) => !record.isControl())).toHaveLength(200);
+
+    const truncated = fs.readFileSync(filename).subarray(0, fs.statSync(filename).size - 10);
+    const records = readAll(truncated).filter((record) => !record.isControl());
+    expect(records).toHaveLength(199);
+    expect(records[198].getTimestamp()).toBe(199);
+  });
+
+  test('flushes periodically', async () => {
+    const log = new DataLog(filename, '', 0.01);
+    new DoubleLogEntry(log, '/x').append(1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(readAll(filename).filter((record) => !record.isControl())).toHaveLength(1);
+    log.close();
+  });
+});
@@ -0,0 +1,5 @@
+export * from './DataLog';
+export * from './DataLogEntry';
+export * from './StructLogEntry';
+export * from './ProtobufLogEntry';
+export * from './DataLogReader';
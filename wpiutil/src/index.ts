@@ -2,7 +2,9 @@
 export * from './logging';
 export * from './net';
 export * from './struct';
+export * from './protobuf';
 export * from './sendable';
 export * from './json';
 export * from './buffer';
 export * from './timestamp';
+export * from './datalog';
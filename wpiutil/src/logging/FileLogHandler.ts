@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogLevel } from './LogLevel';
+import { LogContext, LogHandler, formatLogMessage } from './Logger';
+
+/**
+ * Options for a FileLogHandler
+ */
+export interface FileLogHandlerOptions {
+  /**
+   * The log file to write; rotated files are named "<filename>.1" (newest)
+   * through "<filename>.<maxFiles>" (oldest)
+   */
+  filename: string;
+
+  /**
+   * Rotate once the file reaches this size in bytes (0 to disable; default 10 MB)
+   */
+  maxSize?: number;
+
+  /**
+   * Rotate once the file has been written to for this many milliseconds
+   * (0 to disable, the default)
+   */
+  rotateInterval?: number;
+
+  /**
+   * Number of rotated files to keep; older files are deleted (default 5)
+   */
+  maxFiles?: number;
+
+  /**
+   * Minimum level to write (default: everything the logger passes on)
+   */
+  minLevel?: LogLevel;
+}
+
+/**
+ * Log handler that appends messages to a file, one per line, rotating the
+ * file by size and/or age
+ */
+export class FileLogHandler implements LogHandler {
+  private readonly filename: string;
+  private readonly maxSize: number;
+  private readonly rotateInterval: number;
+  private readonly maxFiles: number;
+  private readonly minLevel: LogLevel;
+  private fd: number = -1;
+  private size: number = 0;
+  private openedAt: number = 0;
+  
+  /**
+   * Create a new file log handler. The file is opened for appending
+   * immediately, creating its directory if needed.
+   * 
+   * @param options The handler options
+   */
+  constructor(options: FileLogHandlerOptions) {
+    this.filename = options.filename;
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+    this.rotateInterval = options.rotateInterval ?? 0;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.minLevel = options.minLevel ?? LogLevel.Trace;
+    fs.mkdirSync(path.dirname(this.filename), { recursive: true });
+    this.open();
+  }
+  
+  /**
+   * Handle a log message
+   * 
+   * @param level The log level
+   * @param name The logger name
+   * @param message The log message
+   * @param timestamp The wall clock time of the log message, in milliseconds since the epoch
+   * @param systemTime The Timestamp.getMicroseconds() time of the log message
+   * @param context Structured fields attached to the message
+   */
+  handleLog(level: LogLevel, name: string, message: string, timestamp: number, systemTime: bigint, context?: LogContext): void {
+    if (this.fd === -1 || level < this.minLevel) {
+      return;
+    }
+    const line = Buffer.from(this.formatRecord(level, name, message, timestamp, systemTime, context) + '\n', 'utf8');
+    if (this.shouldRotate(line.length)) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd, line);
+    this.size += line.length;
+  }
+  
+  /**
+   * Get the path of the file currently being written
+   * 
+   * @returns The log file path
+   */
+  getFilename(): string {
+    return this.filename;
+  }
+  
+  /**
+   * Close the log file. Messages handled afterwards are dropped.
+   */
+  close(): void {
+    if (this.fd !== -1) {
+      fs.closeSync(this.fd);
+      this.fd = -1;
+    }
+  }
+  
+  /**
+   * Format a log message as a line of the file (without the newline)
+   * 
+   * @param level The log level
+   * @param name The logger name
+   * @param message The log message
+   * @param timestamp The wall clock time of the log message, in milliseconds since the epoch
+   * @param systemTime The Timestamp.getMicroseconds() time of the log message
+   * @param context Structured fields attached to the message
+   * @returns The formatted line
+   */
+  protected formatRecord(level: LogLevel, name: string, message: string, timestamp: number, systemTime: bigint, context?: LogContext): string {
+    return formatLogMessage(level, name, message, timestamp, context, systemTime);
+  }
+  
+  private open(): void {
+    this.fd = fs.openSync(this.filename, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+    this.openedAt = Date.now();
+  }
+  
+  private shouldRotate(length: number): boolean {
+    if (this.size === 0) {
+      return false;
+    }
+    if (this.maxSize > 0 && this.size + length > this.maxSize) {
+      return true;
+    }
+    return this.rotateInterval > 0 && Date.now() - this.openedAt >= this.rotateInterval;
+  }
+  
+  private rotate(): void {
+    this.close();
+    if (this.maxFiles > 0) {
+      fs.rmSync(`${this.filename}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${this.filename}.${i}`)) {
+          fs.renameSync(`${this.filename}.${i}`, `${this.filename}.${i + 1}`);
+        }
+      }
+      fs.renameSync(this.filename, `${this.filename}.1`);
+    } else {
+      fs.rmSync(this.filename, { force: true });
+    }
+    this.open();
+  }
+}
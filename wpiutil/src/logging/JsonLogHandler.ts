@@ -0,0 +1,42 @@
+import { LogLevel } from './LogLevel';
+import { LogContext, stringifyLogValue } from './Logger';
+import { FileLogHandler } from './FileLogHandler';
+
+/**
+ * Log handler that writes one JSON object per line (JSON Lines), with the
+ * same rotation options as FileLogHandler. Each record has the fields
+ * "time" (ISO 8601 wall clock time), "timestamp" (Timestamp.getMicroseconds()
+ * when the message was logged), "level", "logger" and "message", followed by
+ * the message's context fields (context fields with those names are dropped).
+ * Bigint context values are written as strings, and circular references as
+ * "[Circular]".
+ */
+export class JsonLogHandler extends FileLogHandler {
+  /**
+   * Format a log message as a JSON record
+   * 
+   * @param level The log level
+   * @param name The logger name
+   * @param message The log message
+   * @param timestamp The wall clock time of the log message, in milliseconds since the epoch
+   * @param systemTime The Timestamp.getMicroseconds() time of the log message
+   * @param context Structured fields attached to the message
+   * @returns The JSON record
+   */
+  protected formatRecord(level: LogLevel, name: string, message: string, timestamp: number, systemTime: bigint, context?: LogContext): string {
+    const record: Record<string, unknown> = {
+      time: new Date(timestamp).toISOString(),
+      timestamp: Number(systemTime),
+      level: LogLevel[level],
+      logger: name,
+      message
+    };
+    for (const [key, value] of Object.entries(context ?? {})) {
+      if (!Object.prototype.hasOwnProperty.call(record, key)) {
+        record[key] = value;
+      }
+    }
+    return stringifyLogValue(record);
+  }
+}
+
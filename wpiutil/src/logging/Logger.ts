@@ -1,4 +1,10 @@
 import { LogLevel } from './LogLevel';
+import { Timestamp } from '../timestamp/Timestamp';
+
+/**
+ * Structured fields attached to a log message (e.g. { motor: 3, current: 41.2 })
+ */
+export type LogContext = Record<string, unknown>;
 
 /**
  * Interface for log handlers
@@ -10,9 +16,11 @@ export interface LogHandler {
    * @param level The log level
    * @param name The logger name
    * @param message The log message
-   * @param timestamp The timestamp of the log message
+   * @param timestamp The wall clock time of the log message, in milliseconds since the epoch
+   * @param systemTime The Timestamp.getMicroseconds() time of the log message
+   * @param context Structured fields attached to the message
    */
-  handleLog(level: LogLevel, name: string, message: string, timestamp: number): void;
+  handleLog(level: LogLevel, name: string, message: string, timestamp: number, systemTime: bigint, context?: LogContext): void;
 }
 
 /**
@@ -25,13 +33,12 @@ export class ConsoleLogHandler implements LogHandler {
    * @param level The log level
    * @param name The logger name
    * @param message The log message
-   * @param timestamp The timestamp of the log message
+   * @param timestamp The wall clock time of the log message, in milliseconds since the epoch
+   * @param systemTime The Timestamp.getMicroseconds() time of the log message
+   * @param context Structured fields attached to the message
    */
-  handleLog(level: LogLevel, name: string, message: string, timestamp: number): void {
-    const date = new Date(timestamp);
-    const timeString = date.toISOString();
-    const levelString = LogLevel[level].padEnd(8);
-    const logMessage = `[${timeString}] ${levelString} [${name}] ${message}`;
+  handleLog(level: LogLevel, name: string, message: string, timestamp: number, systemTime: bigint, context?: LogContext): void {
+    const logMessage = formatLogMessage(level, name, message, timestamp, context);
     
     switch (level) {
       case LogLevel.Critical:
@@ -52,6 +59,58 @@ export class ConsoleLogHandler implements LogHandler {
   }
 }
 
+/**
+ * Format a log message as a single line of text, e.g.
+ * "[2024-01-01T00:00:00.000Z] Info     [drive] Started {"speed":1}", or with
+ * a system time, "[2024-01-01T00:00:00.000Z 12.345678] Info     [drive] Started"
+ * 
+ * @param level The log level
+ * @param name The logger name
+ * @param message The log message
+ * @param timestamp The wall clock time of the log message, in milliseconds since the epoch
+ * @param context Structured fields attached to the message
+ * @param systemTime The Timestamp.getMicroseconds() time of the log message, written in seconds
+ * @returns The formatted line (without a newline)
+ */
+export function formatLogMessage(level: LogLevel, name: string, message: string, timestamp: number, context?: LogContext, systemTime?: bigint): string {
+  let timeString = new Date(timestamp).toISOString();
+  if (systemTime !== undefined) {
+    timeString += ` ${systemTime / 1_000_000n}.${(systemTime % 1_000_000n).toString().padStart(6, '0')}`;
+  }
+  const levelString = LogLevel[level].padEnd(8);
+  const contextString = context !== undefined && Object.keys(context).length > 0 ? ` ${stringifyLogValue(context)}` : '';
+  return `[${timeString}] ${levelString} [${name}] ${message}${contextString}`;
+}
+
+/**
+ * Convert a value to JSON for a log message. Unlike JSON.stringify, this
+ * writes bigints as strings and references to an enclosing object as
+ * "[Circular]" instead of throwing.
+ * 
+ * @param value The value to convert
+ * @returns The JSON text
+ */
+export function stringifyLogValue(value: unknown): string {
+  // The objects enclosing the value being written
+  const ancestors: unknown[] = [];
+  return JSON.stringify(value, function (this: unknown, key: string, item: unknown): unknown {
+    if (typeof item === 'bigint') {
+      return item.toString();
+    }
+    if (typeof item !== 'object' || item === null) {
+      return item;
+    }
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(item)) {
+      return '[Circular]';
+    }
+    ancestors.push(item);
+    return item;
+  });
+}
+
 /**
  * Global log handlers
  */
@@ -150,12 +209,15 @@ export class Logger {
    * 
    * @param level The log level
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  log(level: LogLevel, message: string): void {
+  log(level: LogLevel, message: string, context?: LogContext): void {
     if (this.isEnabledFor(level)) {
+      // Every handler sees the same time, however long the earlier ones take
       const timestamp = Date.now();
+      const systemTime = Timestamp.getMicroseconds();
       for (const handler of logHandlers) {
-        handler.handleLog(level, this.name, message, timestamp);
+        handler.handleLog(level, this.name, message, timestamp, systemTime, context);
       }
     }
   }
@@ -164,54 +226,60 @@ export class Logger {
    * Log a critical message
    * 
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  critical(message: string): void {
-    this.log(LogLevel.Critical, message);
+  critical(message: string, context?: LogContext): void {
+    this.log(LogLevel.Critical, message, context);
   }
   
   /**
    * Log an error message
    * 
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  error(message: string): void {
-    this.log(LogLevel.Error, message);
+  error(message: string, context?: LogContext): void {
+    this.log(LogLevel.Error, message, context);
   }
   
   /**
    * Log a warning message
    * 
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  warning(message: string): void {
-    this.log(LogLevel.Warning, message);
+  warning(message: string, context?: LogContext): void {
+    this.log(LogLevel.Warning, message, context);
   }
   
   /**
    * Log an info message
    * 
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  info(message: string): void {
-    this.log(LogLevel.Info, message);
+  info(message: string, context?: LogContext): void {
+    this.log(LogLevel.Info, message, context);
   }
   
   /**
    * Log a debug message
    * 
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  debug(message: string): void {
-    this.log(LogLevel.Debug, message);
+  debug(message: string, context?: LogContext): void {
+    this.log(LogLevel.Debug, message, context);
   }
   
   /**
    * Log a trace message
    * 
    * @param message The log message
+   * @param context Structured fields to attach to the message
    */
-  trace(message: string): void {
-    this.log(LogLevel.Trace, message);
+  trace(message: string, context?: LogContext): void {
+    this.log(LogLevel.Trace, message, context);
   }
 }
 
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileLogHandler } from '../FileLogHandler';
+import { LogLevel } from '../LogLevel';
+
+describe('FileLogHandler', () => {
+  let dir: string;
+  let filename: string;
+  
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'filelog-'));
+    filename = path.join(dir, 'logs', 'robot.log');
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  test('appends formatted lines, creating the directory', () => {
+    const handler = new FileLogHandler({ filename });
+    handler.handleLog(LogLevel.Info, 'drive', 'first', Date.UTC(2024, 0, 1), 12_345_678n);
+    handler.handleLog(LogLevel.Error, 'arm', 'second', Date.UTC(2024, 0, 1), 12_400_000n, { angle: 90 });
+    handler.close();
+    
+    expect(fs.readFileSync(filename, 'utf8').split('\n')).toEqual([
+      '[2024-01-01T00:00:00.000Z 12.345678] Info     [drive] first',
+      '[2024-01-01T00:00:00.000Z 12.400000] Error    [arm] second {"angle":90}',
+      ''
+    ]);
+  });
+  
+  test('filters by minimum level', () => {
+    const handler = new FileLogHandler({ filename, minLevel: LogLevel.Warning });
+    handler.handleLog(LogLevel.Info, 'test', 'dropped', Date.now(), 0n);
+    handler.handleLog(LogLevel.Warning, 'test', 'kept', Date.now(), 0n);
+    handler.close();
+    
+    expect(fs.readFileSync(filename, 'utf8')).not.toContain('dropped');
+    expect(fs.readFileSync(filename, 'utf8')).toContain('kept');
+  });
+  
+  test('rotates by size and keeps maxFiles old files', () => {
+    const handler = new FileLogHandler({ filename, maxSize: 100, maxFiles: 2 });
+    for (let i = 0; i < 10; i++) {
+      handler.handleLog(LogLevel.Info, 'test', `message ${i}`, Date.now(), 0n);
+    }
+    handler.close();
+    
+    const files = fs.readdirSync(path.dirname(filename)).sort();
+    expect(files).toEqual(['robot.log', 'robot.log.1', 'robot.log.2']);
+    expect(fs.statSync(filename).size).toBeLessThanOrEqual(100);
+    expect(fs.readFileSync(filename, 'utf8')).toContain('message 9');
+    expect(fs.readFileSync(`${filename}.1`, 'utf8')).not.toContain('message 0');
+  });
+  
+  test('rotates by time', () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    
+    const handler = new FileLogHandler({ filename, maxSize: 0, rotateInterval: 60_000 });
+    handler.handleLog(LogLevel.Info, 'test', 'before', now, 0n);
+    now += 60_000;
+    handler.handleLog(LogLevel.Info, 'test', 'after', now, 0n);
+    handler.close();
+    
+    expect(fs.readFileSync(`${filename}.1`, 'utf8')).toContain('before');
+    expect(fs.readFileSync(filename, 'utf8')).toContain('after');
+    expect(fs.readFileSync(filename, 'utf8')).not.toContain('before');
+  });
+  
+  test('continues an existing file', () => {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    fs.writeFileSync(filename, 'previous run\n');
+    
+    const handler = new FileLogHandler({ filename });
+    handler.handleLog(LogLevel.Info, 'test', 'this run', Date.now(), 0n);
+    handler.close();
+    
+    expect(fs.readFileSync(filename, 'utf8')).toMatch(/^previous run\n.*this run\n$/);
+  });
+});
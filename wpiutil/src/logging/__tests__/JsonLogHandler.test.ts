@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonLogHandler } from '../JsonLogHandler';
+import { LogLevel } from '../LogLevel';
+import { Logger, addLogHandler, removeLogHandler } from '../Logger';
+
+describe('JsonLogHandler', () => {
+  let dir: string;
+  let filename: string;
+  
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonlog-'));
+    filename = path.join(dir, 'robot.jsonl');
+  });
+  
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  test('writes one JSON record per line', () => {
+    const handler = new JsonLogHandler({ filename });
+    handler.handleLog(LogLevel.Warning, 'drive', 'brownout', Date.UTC(2024, 0, 1), 12_345_678n, { voltage: 6.8 });
+    handler.handleLog(LogLevel.Info, 'drive', 'recovered', Date.UTC(2024, 0, 1), 12_400_000n);
+    handler.close();
+    
+    const lines = fs.readFileSync(filename, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    const record = JSON.parse(lines[0]);
+    expect(record).toEqual({
+      time: '2024-01-01T00:00:00.000Z',
+      timestamp: 12_345_678,
+      level: 'Warning',
+      logger: 'drive',
+      message: 'brownout',
+      voltage: 6.8
+    });
+    expect(JSON.parse(lines[1]).timestamp).toBe(12_400_000);
+  });
+  
+  test('context fields do not replace the standard fields', () => {
+    const handler = new JsonLogHandler({ filename });
+    handler.handleLog(LogLevel.Info, 'test', 'message', Date.now(), 0n, { level: 'fake', id: 7 });
+    handler.close();
+    
+    const record = JSON.parse(fs.readFileSync(filename, 'utf8'));
+    expect(record.level).toBe('Info');
+    expect(record.id).toBe(7);
+  });
+  
+  test('keeps context fields named like Object.prototype properties', () => {
+    const handler = new JsonLogHandler({ filename });
+    handler.handleLog(LogLevel.Info, 'test', 'message', Date.now(), 0n, { constructor: 'ctor', toString: 'str' });
+    handler.close();
+    
+    const record = JSON.parse(fs.readFileSync(filename, 'utf8'));
+    expect(record.constructor).toBe('ctor');
+    expect(record.toString).toBe('str');
+  });
+  
+  test('writes bigint and circular context values', () => {
+    const loop: Record<string, unknown> = { name: 'loop' };
+    loop.self = loop;
+    const shared = { id: 1 };
+    const handler = new JsonLogHandler({ filename });
+    handler.handleLog(LogLevel.Info, 'test', 'message', Date.now(), 0n, { count: 2n ** 64n, loop, a: shared, b: shared });
+    handler.close();
+    
+    const record = JSON.parse(fs.readFileSync(filename, 'utf8'));
+    expect(record.count).toBe('18446744073709551616');
+    expect(record.loop).toEqual({ name: 'loop', self: '[Circular]' });
+    expect(record.a).toEqual({ id: 1 });
+    expect(record.b).toEqual({ id: 1 });
+  });
+  
+  test('loggers do not throw on bigint or circular context values', () => {
+    const handler = new JsonLogHandler({ filename });
+    addLogHandler(handler);
+    const context: Record<string, unknown> = { id: 3n };
+    context.context = context;
+    expect(() => new Logger('arm').info('cycle', context)).not.toThrow();
+    removeLogHandler(handler);
+    handler.close();
+    
+    expect(JSON.parse(fs.readFileSync(filename, 'utf8')).id).toBe('3');
+  });
+  
+  test('receives messages from loggers', () => {
+    const handler = new JsonLogHandler({ filename });
+    addLogHandler(handler);
+    new Logger('arm').error('stalled', { current: 80 });
+    removeLogHandler(handler);
+    handler.close();
+    
+    const record = JSON.parse(fs.readFileSync(filename, 'utf8'));
+    expect(record.logger).toBe('arm');
+    expect(record.current).toBe(80);
+  });
+});
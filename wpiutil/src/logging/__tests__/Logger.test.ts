@@ -1,13 +1,14 @@
-import { Logger, LogHandler, addLogHandler, removeLogHandler, setGlobalLevel, getGlobalLevel, getLogger } from '../Logger';
+import { Logger, LogHandler, LogContext, addLogHandler, formatLogMessage, removeLogHandler, stringifyLogValue, setGlobalLevel, getGlobalLevel, getLogger } from '../Logger';
 import { LogLevel } from '../LogLevel';
+import { Timestamp } from '../../timestamp/Timestamp';
 
 describe('Logger', () => {
   // Create a mock LogHandler
   class MockLogHandler implements LogHandler {
-    public logs: { level: LogLevel; name: string; message: string; timestamp: number }[] = [];
+    public logs: { level: LogLevel; name: string; message: string; timestamp: number; systemTime: bigint; context?: LogContext }[] = [];
     
-    handleLog(level: LogLevel, name: string, message: string, timestamp: number): void {
-      this.logs.push({ level, name, message, timestamp });
+    handleLog(level: LogLevel, name: string, message: string, timestamp: number, systemTime: bigint, context?: LogContext): void {
+      this.logs.push({ level, name, message, timestamp, systemTime, context });
     }
     
     clear(): void {
@@ -202,4 +203,51 @@ describe('Logger', () => {
     expect(mockHandler.logs[0].name).toBe('test2');
     expect(mockHandler.logs[0].message).toBe('info from logger2');
   });
+  
+  test('Logger passes context fields to handlers', () => {
+    const logger = getLogger('test');
+    
+    logger.warning('current limit', { motor: 3, current: 41.2 });
+    
+    expect(mockHandler.logs[0].context).toEqual({ motor: 3, current: 41.2 });
+  });
+  
+  test('Logger passes the same time to every handler', () => {
+    const handler = new MockLogHandler();
+    addLogHandler(handler);
+    const before = Timestamp.getMicroseconds();
+    
+    getLogger('test').info('timed');
+    removeLogHandler(handler);
+    
+    const [first, second] = [mockHandler.logs[0], handler.logs[0]];
+    expect(second.timestamp).toBe(first.timestamp);
+    expect(second.systemTime).toBe(first.systemTime);
+    expect(first.systemTime).toBeGreaterThanOrEqual(before);
+    expect(first.systemTime).toBeLessThanOrEqual(Timestamp.getMicroseconds());
+  });
+  
+  test('formatLogMessage appends context as JSON', () => {
+    const timestamp = Date.UTC(2024, 0, 1);
+    
+    expect(formatLogMessage(LogLevel.Info, 'drive', 'Started', timestamp)).toBe(
+      '[2024-01-01T00:00:00.000Z] Info     [drive] Started'
+    );
+    expect(formatLogMessage(LogLevel.Info, 'drive', 'Started', timestamp, { speed: 1 })).toBe(
+      '[2024-01-01T00:00:00.000Z] Info     [drive] Started {"speed":1}'
+    );
+    expect(formatLogMessage(LogLevel.Info, 'drive', 'Started', timestamp, undefined, 3_000_042n)).toBe(
+      '[2024-01-01T00:00:00.000Z 3.000042] Info     [drive] Started'
+    );
+  });
+  
+  test('stringifyLogValue writes bigints and circular references without throwing', () => {
+    const context: Record<string, unknown> = { id: 5n };
+    context.self = context;
+    
+    expect(stringifyLogValue(context)).toBe('{"id":"5","self":"[Circular]"}');
+    expect(formatLogMessage(LogLevel.Info, 'drive', 'Started', Date.UTC(2024, 0, 1), { id: 5n })).toBe(
+      '[2024-01-01T00:00:00.000Z] Info     [drive] Started {"id":"5"}'
+    );
+  });
 });
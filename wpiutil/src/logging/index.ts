@@ -1,2 +1,4 @@
 export * from './Logger';
 export * from './LogLevel';
+export * from './FileLogHandler';
+export * from './JsonLogHandler';
@@ -0,0 +1,85 @@
+import { ProtobufFileDescriptor, encodeFileDescriptor } from './ProtobufDescriptor';
+
+/**
+ * Interface for protobuf serialization of a type, the alternative to struct
+ * serialization that WPILib supports for geometry and kinematics types.
+ *
+ * Implementations encode values with ProtobufWriter and decode them with
+ * ProtobufReader, and describe their message type with a file descriptor so
+ * that tools can decode values they weren't built with.
+ */
+export interface Protobuf<T> {
+  /**
+   * Gets the fully-qualified message type name (e.g. "wpi.proto.ProtobufPose2d").
+   *
+   * @returns message type name
+   */
+  getTypeName(): string;
+
+  /**
+   * Gets the descriptor of the .proto file defining the message type.
+   *
+   * @returns file descriptor
+   */
+  getDescriptor(): ProtobufFileDescriptor;
+
+  /**
+   * Serializes an object into a protobuf message.
+   *
+   * @param value object to serialize
+   * @returns The serialized message
+   */
+  pack(value: T): Buffer;
+
+  /**
+   * Deserializes an object from a protobuf message.
+   *
+   * @param buffer The message to deserialize
+   * @returns The deserialized object
+   */
+  unpack(buffer: Buffer): T;
+}
+
+/**
+ * The schema type string for protobuf file descriptors.
+ */
+export const kProtobufSchemaType = 'proto:FileDescriptorProto';
+
+/**
+ * Gets the type string for a protobuf message (e.g. "proto:wpi.proto.ProtobufPose2d"),
+ * as used for NetworkTables topics and data log entries.
+ *
+ * @param proto The protobuf serializer
+ * @returns The type string
+ */
+export function getProtobufTypeString(proto: Protobuf<any>): string {
+  return 'proto:' + proto.getTypeName();
+}
+
+/**
+ * Calls a function for the file descriptor of a protobuf message type and
+ * each of its dependencies, dependencies first, skipping those that already
+ * exist. Schemas are named "proto:<file name>" and have the type
+ * "proto:FileDescriptorProto".
+ *
+ * @param proto The protobuf serializer
+ * @param exists Returns true if a schema with the given name has already been added
+ * @param fn Called with the schema name, schema type and encoded descriptor
+ */
+export function forEachProtobufDescriptor(
+  proto: Protobuf<any>,
+  exists: (name: string) => boolean,
+  fn: (name: string, type: string, descriptor: Buffer) => void
+): void {
+  const visit = (file: ProtobufFileDescriptor): void => {
+    const name = 'proto:' + file.name;
+    if (exists(name)) {
+      return;
+    }
+    for (const dependency of file.dependencies ?? []) {
+      visit(dependency);
+    }
+    fn(name, kProtobufSchemaType, encodeFileDescriptor(file));
+  };
+  visit(proto.getDescriptor());
+}
@@ -0,0 +1,139 @@
+import { ProtobufWriter } from './ProtobufWriter';
+
+/**
+ * Protobuf field types, numbered as in descriptor.proto
+ */
+export enum ProtobufFieldType {
+  Double = 1,
+  Float = 2,
+  Int64 = 3,
+  Uint64 = 4,
+  Int32 = 5,
+  Fixed64 = 6,
+  Fixed32 = 7,
+  Bool = 8,
+  String = 9,
+  Message = 11,
+  Bytes = 12,
+  Uint32 = 13,
+  Enum = 14,
+  Sfixed32 = 15,
+  Sfixed64 = 16,
+  Sint32 = 17,
+  Sint64 = 18
+}
+
+/**
+ * Describes a field of a protobuf message
+ */
+export interface ProtobufFieldDescriptor {
+  /**
+   * The field name
+   */
+  name: string;
+  
+  /**
+   * The field number
+   */
+  number: number;
+  
+  /**
+   * The field type
+   */
+  type: ProtobufFieldType;
+  
+  /**
+   * The fully-qualified type name for message and enum fields, with a leading
+   * dot (e.g. ".wpi.proto.ProtobufRotation2d")
+   */
+  typeName?: string;
+  
+  /**
+   * Whether the field is repeated
+   */
+  repeated?: boolean;
+}
+
+/**
+ * Describes a protobuf message type
+ */
+export interface ProtobufMessageDescriptor {
+  /**
+   * The message name, without the package (e.g. "ProtobufPose2d")
+   */
+  name: string;
+  
+  /**
+   * The message fields
+   */
+  fields: ProtobufFieldDescriptor[];
+}
+
+/**
+ * Describes a .proto file, the unit in which protobuf descriptors are
+ * published (as serialized FileDescriptorProto messages)
+ */
+export interface ProtobufFileDescriptor {
+  /**
+   * The file name (e.g. "geometry2d.proto")
+   */
+  name: string;
+  
+  /**
+   * The package (e.g. "wpi.proto")
+   */
+  package: string;
+  
+  /**
+   * Files containing message types this file's messages use
+   */
+  dependencies?: ProtobufFileDescriptor[];
+  
+  /**
+   * The message types in the file
+   */
+  messages: ProtobufMessageDescriptor[];
+}
+
+/**
+ * Convert a field name to its JSON name, as protoc does
+ */
+function toJsonName(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_, ch: string) => ch.toUpperCase());
+}
+
+/**
+ * Encode a file descriptor as a FileDescriptorProto message, the form in
+ * which protobuf schemas are published to NetworkTables and data logs.
+ * 
+ * @param file The file descriptor
+ * @returns The encoded FileDescriptorProto
+ */
+export function encodeFileDescriptor(file: ProtobufFileDescriptor): Buffer {
+  const writer = new ProtobufWriter();
+  writer.writeString(1, file.name);
+  writer.writeString(2, file.package);
+  for (const dependency of file.dependencies ?? []) {
+    writer.writeString(3, dependency.name);
+  }
+  for (const message of file.messages) {
+    const messageWriter = new ProtobufWriter();
+    messageWriter.writeString(1, message.name);
+    for (const field of message.fields) {
+      const fieldWriter = new ProtobufWriter();
+      fieldWriter.writeString(1, field.name);
+      fieldWriter.writeInt32(3, field.number);
+      // LABEL_OPTIONAL = 1, LABEL_REPEATED = 3
+      fieldWriter.writeInt32(4, field.repeated ? 3 : 1);
+      fieldWriter.writeInt32(5, field.type);
+      if (field.typeName !== undefined) {
+        fieldWriter.writeString(6, field.typeName);
+      }
+      fieldWriter.writeString(10, toJsonName(field.name));
+      messageWriter.writeBytes(2, fieldWriter.finish());
+    }
+    writer.writeBytes(4, messageWriter.finish());
+  }
+  writer.writeString(12, 'proto3');
+  return writer.finish();
+}
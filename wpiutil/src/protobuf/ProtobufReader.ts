@@ -0,0 +1,257 @@
+import { ProtobufWireType } from './ProtobufWireType';
+
+/**
+ * Minimal protobuf decoder. Call next() to advance to each field, then the
+ * read method matching the field's type (or skip() for unknown fields):
+ * 
+ * ```typescript
+ * const reader = new ProtobufReader(buffer);
+ * while (reader.next()) {
+ *   switch (reader.getFieldNumber()) {
+ *     case 1: x = reader.readDouble(); break;
+ *     default: reader.skip();
+ *   }
+ * }
+ * ```
+ */
+export class ProtobufReader {
+  private readonly buffer: Buffer;
+  private position = 0;
+  private fieldNumber = 0;
+  private wireType = ProtobufWireType.Varint;
+  
+  /**
+   * Create a reader for an encoded message
+   * 
+   * @param data The encoded message
+   */
+  constructor(data: Uint8Array) {
+    this.buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+  
+  /**
+   * Advance to the next field
+   * 
+   * @returns False at the end of the message
+   */
+  next(): boolean {
+    if (this.position >= this.buffer.length) {
+      return false;
+    }
+    const tag = this.readVarint();
+    this.fieldNumber = Number(tag >> 3n);
+    this.wireType = Number(tag & 7n);
+    return true;
+  }
+  
+  /**
+   * Get the field number of the current field
+   * 
+   * @returns The field number
+   */
+  getFieldNumber(): number {
+    return this.fieldNumber;
+  }
+  
+  /**
+   * Get the wire type of the current field
+   * 
+   * @returns The wire type
+   */
+  getWireType(): ProtobufWireType {
+    return this.wireType;
+  }
+  
+  /**
+   * Read a double field
+   * 
+   * @returns The value
+   */
+  readDouble(): number {
+    this.expectWireType(ProtobufWireType.Fixed64);
+    return this.buffer.readDoubleLE(this.take(8));
+  }
+  
+  /**
+   * Read a float field
+   * 
+   * @returns The value
+   */
+  readFloat(): number {
+    this.expectWireType(ProtobufWireType.Fixed32);
+    return this.buffer.readFloatLE(this.take(4));
+  }
+  
+  /**
+   * Read an int32 (or enum) field
+   * 
+   * @returns The value
+   */
+  readInt32(): number {
+    this.expectWireType(ProtobufWireType.Varint);
+    return Number(BigInt.asIntN(32, this.readVarint()));
+  }
+  
+  /**
+   * Read an int64 field. Values beyond 2^53 lose precision.
+   * 
+   * @returns The value
+   */
+  readInt64(): number {
+    this.expectWireType(ProtobufWireType.Varint);
+    return Number(BigInt.asIntN(64, this.readVarint()));
+  }
+  
+  /**
+   * Read a uint32 field
+   * 
+   * @returns The value
+   */
+  readUint32(): number {
+    this.expectWireType(ProtobufWireType.Varint);
+    return Number(BigInt.asUintN(32, this.readVarint()));
+  }
+  
+  /**
+   * Read a uint64 field. Values beyond 2^53 lose precision.
+   * 
+   * @returns The value
+   */
+  readUint64(): number {
+    this.expectWireType(ProtobufWireType.Varint);
+    return Number(BigInt.asUintN(64, this.readVarint()));
+  }
+  
+  /**
+   * Read a zigzag-encoded sint32 field
+   * 
+   * @returns The value
+   */
+  readSint32(): number {
+    return this.readSint64();
+  }
+  
+  /**
+   * Read a zigzag-encoded sint64 field. Values beyond 2^53 lose precision.
+   * 
+   * @returns The value
+   */
+  readSint64(): number {
+    this.expectWireType(ProtobufWireType.Varint);
+    const n = this.readVarint();
+    return Number((n & 1n) === 0n ? n >> 1n : -((n + 1n) >> 1n));
+  }
+  
+  /**
+   * Read a bool field
+   * 
+   * @returns The value
+   */
+  readBool(): boolean {
+    this.expectWireType(ProtobufWireType.Varint);
+    return this.readVarint() !== 0n;
+  }
+  
+  /**
+   * Read a string field
+   * 
+   * @returns The value
+   */
+  readString(): string {
+    return this.readBytes().toString('utf8');
+  }
+  
+  /**
+   * Read a bytes field, or an embedded message to decode
+   * 
+   * @returns The value
+   */
+  readBytes(): Buffer {
+    this.expectWireType(ProtobufWireType.LengthDelimited);
+    const length = Number(this.readVarint());
+    const start = this.take(length);
+    return this.buffer.subarray(start, start + length);
+  }
+  
+  /**
+   * Read a repeated double field, either packed or a single unpacked element
+   * 
+   * @returns The values
+   */
+  readPackedDouble(): number[] {
+    if (this.wireType === ProtobufWireType.Fixed64) {
+      return [this.readDouble()];
+    }
+    const data = this.readBytes();
+    if (data.length % 8 !== 0) {
+      throw new Error(`Packed double field ${this.fieldNumber} has invalid length ${data.length}`);
+    }
+    const values: number[] = [];
+    for (let offset = 0; offset < data.length; offset += 8) {
+      values.push(data.readDoubleLE(offset));
+    }
+    return values;
+  }
+  
+  /**
+   * Skip the current field
+   */
+  skip(): void {
+    switch (this.wireType) {
+      case ProtobufWireType.Varint:
+        this.readVarint();
+        break;
+      case ProtobufWireType.Fixed64:
+        this.take(8);
+        break;
+      case ProtobufWireType.LengthDelimited:
+        this.readBytes();
+        break;
+      case ProtobufWireType.Fixed32:
+        this.take(4);
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${this.wireType} for field ${this.fieldNumber}`);
+    }
+  }
+  
+  /**
+   * Check the current field's wire type
+   */
+  private expectWireType(wireType: ProtobufWireType): void {
+    if (this.wireType !== wireType) {
+      throw new Error(`Protobuf field ${this.fieldNumber} has wire type ${this.wireType}, expected ${wireType}`);
+    }
+  }
+  
+  /**
+   * Consume bytes, returning the offset of the first
+   */
+  private take(length: number): number {
+    if (this.position + length > this.buffer.length) {
+      throw new Error('Truncated protobuf message');
+    }
+    const start = this.position;
+    this.position += length;
+    return start;
+  }
+  
+  /**
+   * Read an unsigned varint
+   */
+  private readVarint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.buffer[this.take(1)];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      shift += 7n;
+      if (shift >= 70n) {
+        throw new Error('Malformed protobuf varint');
+      }
+    }
+  }
+}
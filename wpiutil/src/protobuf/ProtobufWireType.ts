@@ -0,0 +1,9 @@
+/**
+ * Protobuf wire types, as encoded in the low 3 bits of a field tag
+ */
+export enum ProtobufWireType {
+  Varint = 0,
+  Fixed64 = 1,
+  LengthDelimited = 2,
+  Fixed32 = 5
+}
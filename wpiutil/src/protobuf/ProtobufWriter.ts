@@ -0,0 +1,195 @@
+import { ProtobufWireType } from './ProtobufWireType';
+
+/**
+ * Minimal protobuf encoder. Fields are written in the order the write methods
+ * are called; call finish() to get the encoded message.
+ */
+export class ProtobufWriter {
+  private readonly chunks: Buffer[] = [];
+  private readonly scratch: number[] = [];
+  
+  /**
+   * Write a double field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeDouble(fieldNumber: number, value: number): void {
+    this.writeTag(fieldNumber, ProtobufWireType.Fixed64);
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value);
+    this.writeRaw(buffer);
+  }
+  
+  /**
+   * Write a float field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeFloat(fieldNumber: number, value: number): void {
+    this.writeTag(fieldNumber, ProtobufWireType.Fixed32);
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatLE(value);
+    this.writeRaw(buffer);
+  }
+  
+  /**
+   * Write an int32 (or enum) field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeInt32(fieldNumber: number, value: number): void {
+    this.writeTag(fieldNumber, ProtobufWireType.Varint);
+    this.writeVarint(BigInt.asUintN(64, BigInt(Math.trunc(value))));
+  }
+  
+  /**
+   * Write an int64 field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeInt64(fieldNumber: number, value: number | bigint): void {
+    this.writeTag(fieldNumber, ProtobufWireType.Varint);
+    this.writeVarint(BigInt.asUintN(64, typeof value === 'bigint' ? value : BigInt(Math.trunc(value))));
+  }
+  
+  /**
+   * Write a uint32 field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeUint32(fieldNumber: number, value: number): void {
+    this.writeTag(fieldNumber, ProtobufWireType.Varint);
+    this.writeVarint(BigInt.asUintN(32, BigInt(Math.trunc(value))));
+  }
+  
+  /**
+   * Write a uint64 field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeUint64(fieldNumber: number, value: number | bigint): void {
+    this.writeInt64(fieldNumber, value);
+  }
+  
+  /**
+   * Write a zigzag-encoded sint32 field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeSint32(fieldNumber: number, value: number): void {
+    this.writeSint64(fieldNumber, value);
+  }
+  
+  /**
+   * Write a zigzag-encoded sint64 field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeSint64(fieldNumber: number, value: number | bigint): void {
+    const n = typeof value === 'bigint' ? value : BigInt(Math.trunc(value));
+    this.writeTag(fieldNumber, ProtobufWireType.Varint);
+    this.writeVarint(BigInt.asUintN(64, n >= 0n ? n << 1n : ((-n) << 1n) - 1n));
+  }
+  
+  /**
+   * Write a bool field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeBool(fieldNumber: number, value: boolean): void {
+    this.writeTag(fieldNumber, ProtobufWireType.Varint);
+    this.writeVarint(value ? 1n : 0n);
+  }
+  
+  /**
+   * Write a string field
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeString(fieldNumber: number, value: string): void {
+    this.writeBytes(fieldNumber, Buffer.from(value, 'utf8'));
+  }
+  
+  /**
+   * Write a bytes field, or an already-encoded embedded message
+   * 
+   * @param fieldNumber The field number
+   * @param value The value
+   */
+  writeBytes(fieldNumber: number, value: Uint8Array): void {
+    this.writeTag(fieldNumber, ProtobufWireType.LengthDelimited);
+    this.writeVarint(BigInt(value.length));
+    this.writeRaw(value);
+  }
+  
+  /**
+   * Write a packed repeated double field
+   * 
+   * @param fieldNumber The field number
+   * @param values The values
+   */
+  writePackedDouble(fieldNumber: number, values: number[]): void {
+    const buffer = Buffer.alloc(values.length * 8);
+    values.forEach((value, i) => buffer.writeDoubleLE(value, i * 8));
+    this.writeBytes(fieldNumber, buffer);
+  }
+  
+  /**
+   * Get the encoded message
+   * 
+   * @returns The encoded message
+   */
+  finish(): Buffer {
+    this.flushScratch();
+    return Buffer.concat(this.chunks);
+  }
+  
+  /**
+   * Write a field tag
+   */
+  private writeTag(fieldNumber: number, wireType: ProtobufWireType): void {
+    this.writeVarint(BigInt(fieldNumber) << 3n | BigInt(wireType));
+  }
+  
+  /**
+   * Write an unsigned varint
+   */
+  private writeVarint(value: bigint): void {
+    do {
+      let byte = Number(value & 0x7fn);
+      value >>= 7n;
+      if (value !== 0n) {
+        byte |= 0x80;
+      }
+      this.scratch.push(byte);
+    } while (value !== 0n);
+  }
+  
+  /**
+   * Write raw bytes
+   */
+  private writeRaw(data: Uint8Array): void {
+    this.flushScratch();
+    this.chunks.push(Buffer.from(data));
+  }
+  
+  /**
+   * Move pending varint bytes into the chunk list
+   */
+  private flushScratch(): void {
+    if (this.scratch.length > 0) {
+      this.chunks.push(Buffer.from(this.scratch));
+      this.scratch.length = 0;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Protobuf, forEachProtobufDescriptor, getProtobufTypeString, kProtobufSchemaType } from '../Protobuf';
+import { ProtobufFieldType, ProtobufFileDescriptor, encodeFileDescriptor } from '../ProtobufDescriptor';
+import { ProtobufReader } from '../ProtobufReader';
+import { ProtobufWriter } from '../ProtobufWriter';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const baseFile: ProtobufFileDescriptor = {
+  name: 'base.proto',
+  package: 'test',
+  messages: [{
+    name: 'ProtobufPoint',
+    fields: [
+      { name: 'x', number: 1, type: ProtobufFieldType.Double },
+      { name: 'y', number: 2, type: ProtobufFieldType.Double }
+    ]
+  }]
+};
+
+const lineFile: ProtobufFileDescriptor = {
+  name: 'line.proto',
+  package: 'test',
+  dependencies: [baseFile],
+  messages: [{
+    name: 'ProtobufLine',
+    fields: [{ name: 'end_points', number: 1, type: ProtobufFieldType.Message, typeName: '.test.ProtobufPoint', repeated: true }]
+  }]
+};
+
+const lineProto: Protobuf<Point[]> = {
+  getTypeName: () => 'test.ProtobufLine',
+  getDescriptor: () => lineFile,
+  pack: () => Buffer.alloc(0),
+  unpack: () => []
+};
+
+/**
+ * Decode a message into a map of field number to raw values
+ */
+function decodeFields(data: Buffer): Map<number, unknown[]> {
+  const fields = new Map<number, unknown[]>();
+  const reader = new ProtobufReader(data);
+  while (reader.next()) {
+    const values = fields.get(reader.getFieldNumber()) ?? [];
+    values.push(reader.getWireType() === 2 ? reader.readBytes() : reader.readInt32());
+    fields.set(reader.getFieldNumber(), values);
+  }
+  return fields;
+}
+
+describe('Protobuf', () => {
+  test('getProtobufTypeString prefixes the message name', () => {
+    expect(getProtobufTypeString(lineProto)).toBe('proto:test.ProtobufLine');
+  });
+
+  test('encodeFileDescriptor writes a FileDescriptorProto', () => {
+    const file = decodeFields(encodeFileDescriptor(lineFile));
+    expect(file.get(1)!.map(String)).toEqual(['line.proto']);
+    expect(file.get(2)!.map(String)).toEqual(['test']);
+    expect(file.get(3)!.map(String)).toEqual(['base.proto']);
+    expect(file.get(12)!.map(String)).toEqual(['proto3']);
+
+    const message = decodeFields(file.get(4)![0] as Buffer);
+    expect(String(message.get(1)![0])).toBe('ProtobufLine');
+    const fieldDescriptor = decodeFields(message.get(2)![0] as Buffer);
+    expect(String(fieldDescriptor.get(1)![0])).toBe('end_points');
+    expect(fieldDescriptor.get(3)).toEqual([1]);
+    expect(fieldDescriptor.get(4)).toEqual([3]);
+    expect(fieldDescriptor.get(5)).toEqual([ProtobufFieldType.Message]);
+    expect(String(fieldDescriptor.get(6)![0])).toBe('.test.ProtobufPoint');
+    expect(String(fieldDescriptor.get(10)![0])).toBe('endPoints');
+  });
+
+  test('forEachProtobufDescriptor visits dependencies first and skips existing schemas', () => {
+    const added = new Map<string, Buffer>();
+    const callback = (name: string, type: string, descriptor: Buffer) => {
+      expect(type).toBe(kProtobufSchemaType);
+      added.set(name, descriptor);
+    };
+    forEachProtobufDescriptor(lineProto, (name) => added.has(name), callback);
+    expect([...added.keys()]).toEqual(['proto:base.proto', 'proto:line.proto']);
+    expect(added.get('proto:base.proto')).toEqual(encodeFileDescriptor(baseFile));
+
+    const again = jest.fn();
+    forEachProtobufDescriptor(lineProto, (name) => added.has(name), again);
+    expect(again).not.toHaveBeenCalled();
+  });
+
+  test('messages can embed other messages', () => {
+    const point = new ProtobufWriter();
+    point.writeDouble(1, 3);
+    const line = new ProtobufWriter();
+    line.writeBytes(1, point.finish());
+
+    const reader = new ProtobufReader(line.finish());
+    expect(reader.next()).toBe(true);
+    const embedded = new ProtobufReader(reader.readBytes());
+    expect(embedded.next()).toBe(true);
+    expect(embedded.readDouble()).toBe(3);
+    expect(reader.next()).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { ProtobufWriter } from '../ProtobufWriter';
+import { ProtobufReader } from '../ProtobufReader';
+import { ProtobufWireType } from '../ProtobufWireType';
+
+describe('ProtobufWriter', () => {
+  test('encodes varints as in the protobuf specification', () => {
+    const writer = new ProtobufWriter();
+    writer.writeInt32(1, 150);
+    expect(writer.finish()).toEqual(Buffer.from([0x08, 0x96, 0x01]));
+  });
+
+  test('encodes negative int32 as a 10-byte varint', () => {
+    const writer = new ProtobufWriter();
+    writer.writeInt32(1, -1);
+    expect(writer.finish()).toEqual(Buffer.from([0x08, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01]));
+  });
+
+  test('encodes strings and zigzag values', () => {
+    const writer = new ProtobufWriter();
+    writer.writeString(2, 'testing');
+    writer.writeSint32(3, -2);
+    expect(writer.finish()).toEqual(Buffer.from([0x12, 0x07, ...Buffer.from('testing'), 0x18, 0x03]));
+  });
+});
+
+describe('ProtobufReader', () => {
+  test('round-trips every field type', () => {
+    const writer = new ProtobufWriter();
+    writer.writeDouble(1, 1.5);
+    writer.writeFloat(2, 0.25);
+    writer.writeInt32(3, -7);
+    writer.writeInt64(4, -(2 ** 40));
+    writer.writeUint32(5, 0xffffffff);
+    writer.writeUint64(6, 2n ** 50n);
+    writer.writeSint32(7, -123);
+    writer.writeSint64(8, 2 ** 45);
+    writer.writeBool(9, true);
+    writer.writeString(10, 'héllo');
+    writer.writeBytes(11, Buffer.from([1, 2, 3]));
+    writer.writePackedDouble(12, [1, 2, 3]);
+
+    const reader = new ProtobufReader(writer.finish());
+    const fields: Record<number, unknown> = {};
+    while (reader.next()) {
+      switch (reader.getFieldNumber()) {
+        case 1: fields[1] = reader.readDouble(); break;
+        case 2: fields[2] = reader.readFloat(); break;
+        case 3: fields[3] = reader.readInt32(); break;
+        case 4: fields[4] = reader.readInt64(); break;
+        case 5: fields[5] = reader.readUint32(); break;
+        case 6: fields[6] = reader.readUint64(); break;
+        case 7: fields[7] = reader.readSint32(); break;
+        case 8: fields[8] = reader.readSint64(); break;
+        case 9: fields[9] = reader.readBool(); break;
+        case 10: fields[10] = reader.readString(); break;
+        case 11: fields[11] = [...reader.readBytes()]; break;
+        case 12: fields[12] = reader.readPackedDouble(); break;
+      }
+    }
+    expect(fields).toEqual({
+      1: 1.5, 2: 0.25, 3: -7, 4: -(2 ** 40), 5: 0xffffffff, 6: 2 ** 50,
+      7: -123, 8: 2 ** 45, 9: true, 10: 'héllo', 11: [1, 2, 3], 12: [1, 2, 3]
+    });
+  });
+
+  test('skips unknown fields', () => {
+    const writer = new ProtobufWriter();
+    writer.writeInt32(1, 5);
+    writer.writeDouble(2, 1);
+    writer.writeString(3, 'skip');
+    writer.writeFloat(4, 1);
+    writer.writeBool(5, true);
+
+    const reader = new ProtobufReader(writer.finish());
+    const seen: number[] = [];
+    while (reader.next()) {
+      if (reader.getFieldNumber() === 5) {
+        expect(reader.readBool()).toBe(true);
+      } else {
+        reader.skip();
+      }
+      seen.push(reader.getFieldNumber());
+    }
+    expect(seen).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('rejects mismatched wire types and truncated messages', () => {
+    const writer = new ProtobufWriter();
+    writer.writeInt32(1, 5);
+    const reader = new ProtobufReader(writer.finish());
+    reader.next();
+    expect(reader.getWireType()).toBe(ProtobufWireType.Varint);
+    expect(() => reader.readDouble()).toThrow('expected 1');
+
+    const truncated = new ProtobufReader(Buffer.from([0x09, 0x00, 0x00]));
+    truncated.next();
+    expect(() => truncated.readDouble()).toThrow('Truncated');
+  });
+});
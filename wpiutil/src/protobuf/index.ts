@@ -0,0 +1,5 @@
+export * from './ProtobufWireType';
+export * from './ProtobufWriter';
+export * from './ProtobufReader';
+export * from './ProtobufDescriptor';
+export * from './Protobuf';
@@ -5,96 +5,115 @@ export interface SendableBuilder {
   /**
    * Set the function that should be called to update the network table for things other than properties
    * 
-   * @param callback Function to call, arguments are timestamp, sendable
+   * @param callback Function to call, arguments are timestamp (in microseconds) and the builder's table
    */
-  setUpdateTable(callback: (timestamp: number, sendable: any) => void): void;
+  setUpdateTable(callback: (timestamp: number, table: any) => void): void;
   
   /**
    * Add a property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addProperty<T>(key: string, getter: () => T, setter?: (value: T) => void): void;
+  addProperty<T>(key: string, getter: (() => T) | null, setter?: (value: T) => void): void;
   
   /**
    * Add a boolean property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addBooleanProperty(key: string, getter: () => boolean, setter?: (value: boolean) => void): void;
+  addBooleanProperty(key: string, getter: (() => boolean) | null, setter?: (value: boolean) => void): void;
   
   /**
    * Add a number property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addNumberProperty(key: string, getter: () => number, setter?: (value: number) => void): void;
+  addNumberProperty(key: string, getter: (() => number) | null, setter?: (value: number) => void): void;
   
   /**
    * Add a string property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addStringProperty(key: string, getter: () => string, setter?: (value: string) => void): void;
+  addStringProperty(key: string, getter: (() => string) | null, setter?: (value: string) => void): void;
   
   /**
    * Add a boolean array property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addBooleanArrayProperty(key: string, getter: () => boolean[], setter?: (value: boolean[]) => void): void;
+  addBooleanArrayProperty(key: string, getter: (() => boolean[]) | null, setter?: (value: boolean[]) => void): void;
   
   /**
    * Add a number array property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addNumberArrayProperty(key: string, getter: () => number[], setter?: (value: number[]) => void): void;
+  addNumberArrayProperty(key: string, getter: (() => number[]) | null, setter?: (value: number[]) => void): void;
   
   /**
    * Add a string array property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addStringArrayProperty(key: string, getter: () => string[], setter?: (value: string[]) => void): void;
+  addStringArrayProperty(key: string, getter: (() => string[]) | null, setter?: (value: string[]) => void): void;
   
   /**
    * Add a raw property to the sendable
    * 
    * @param key Property name
-   * @param getter Getter function (returns current value)
+   * @param getter Getter function (returns current value), or null if the property is only set remotely
    * @param setter Setter function (sets new value)
    */
-  addRawProperty(key: string, getter: () => Buffer, setter?: (value: Buffer) => void): void;
+  addRawProperty(key: string, getter: (() => Buffer) | null, setter?: (value: Buffer) => void): void;
   
   /**
-   * Set the network table entry safety
+   * Add a constant integer property. The value is published once and never
+   * changes.
    * 
-   * @param enabled Whether to enable safety
+   * @param key Property name
+   * @param value The value
+   */
+  publishConstInteger(key: string, value: number): void;
+  
+  /**
+   * Set the function that should be called to set the Sendable into a safe
+   * state. This is called when entering and exiting LiveWindow mode.
+   * 
+   * @param callback Function to call
    */
   setSafeState(callback: () => void): void;
   
   /**
-   * Set the network table entry to be persistent
+   * Set the string representation of the named data type that will be used
+   * by the smart dashboard for this sendable
    * 
-   * @param persistent True to set persistent
+   * @param type The data type
    */
   setSmartDashboardType(type: string): void;
   
+  /**
+   * Set a flag indicating if this sendable should be treated as an actuator.
+   * By default this flag is false.
+   * 
+   * @param value True if actuator, false if not
+   */
+  setActuator(value: boolean): void;
+  
   /**
    * Get the table for this sendable
    * 
@@ -6,7 +6,7 @@ import { Sendable } from './Sendable';
 export class SendableRegistry {
   private static readonly components = new Map<object, Sendable>();
   private static readonly names = new Map<object, string>();
-  private static readonly subsystems = new Map<object, object>();
+  private static readonly subsystems = new Map<object, object | string>();
   private static readonly liveWindowEnabled = new Map<object, boolean>();
   private static readonly liveWindowNames = new Map<string, number>();
   
@@ -16,10 +16,7 @@ export class SendableRegistry {
    * @param sendable The sendable object to add
    * @param name The name of the sendable object
    */
-  static add(sendable: Sendable, name: string): void {
-    SendableRegistry.components.set(sendable, sendable);
-    SendableRegistry.names.set(sendable, name);
-  }
+  static add(sendable: Sendable, name: string): void;
   
   /**
    * Add a Sendable object to the registry
@@ -28,10 +25,16 @@ export class SendableRegistry {
    * @param subsystem The subsystem name
    * @param name The name of the sendable object
    */
-  static add(sendable: Sendable, subsystem: string, name: string): void {
+  static add(sendable: Sendable, subsystem: string, name: string): void;
+  
+  static add(sendable: Sendable, subsystemOrName: string, name?: string): void {
     SendableRegistry.components.set(sendable, sendable);
-    SendableRegistry.names.set(sendable, `${subsystem}/${name}`);
-    SendableRegistry.subsystems.set(sendable, subsystem);
+    if (name === undefined) {
+      SendableRegistry.names.set(sendable, subsystemOrName);
+    } else {
+      SendableRegistry.names.set(sendable, `${subsystemOrName}/${name}`);
+      SendableRegistry.subsystems.set(sendable, subsystemOrName);
+    }
   }
   
   /**
@@ -103,9 +106,7 @@ export class SendableRegistry {
    * @param sendable The sendable object
    * @param name The name
    */
-  static setName(sendable: Sendable, name: string): void {
-    SendableRegistry.names.set(sendable, name);
-  }
+  static setName(sendable: Sendable, name: string): void;
   
   /**
    * Set the name of a Sendable object
@@ -114,9 +115,15 @@ export class SendableRegistry {
    * @param subsystem The subsystem name
    * @param name The name
    */
-  static setName(sendable: Sendable, subsystem: string, name: string): void {
-    SendableRegistry.names.set(sendable, `${subsystem}/${name}`);
-    SendableRegistry.subsystems.set(sendable, subsystem);
+  static setName(sendable: Sendable, subsystem: string, name: string): void;
+  
+  static setName(sendable: Sendable, subsystemOrName: string, name?: string): void {
+    if (name === undefined) {
+      SendableRegistry.names.set(sendable, subsystemOrName);
+    } else {
+      SendableRegistry.names.set(sendable, `${subsystemOrName}/${name}`);
+      SendableRegistry.subsystems.set(sendable, subsystemOrName);
+    }
   }
   
   /**
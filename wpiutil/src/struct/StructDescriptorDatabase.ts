@@ -0,0 +1,607 @@
+import { StructSchemaDeclaration, parseStructSchema } from './StructSchemaParser';
+
+/**
+ * The type of a struct field described by a schema
+ */
+export type StructFieldKind =
+  | 'bool'
+  | 'char'
+  | 'int8'
+  | 'int16'
+  | 'int32'
+  | 'int64'
+  | 'uint8'
+  | 'uint16'
+  | 'uint32'
+  | 'uint64'
+  | 'float'
+  | 'double'
+  | 'struct';
+
+/**
+ * Built-in schema type names, and the field type and size of each
+ */
+const kBuiltinTypes: Record<string, { kind: StructFieldKind; size: number }> = {
+  bool: { kind: 'bool', size: 1 },
+  char: { kind: 'char', size: 1 },
+  int8: { kind: 'int8', size: 1 },
+  int16: { kind: 'int16', size: 2 },
+  int32: { kind: 'int32', size: 4 },
+  int64: { kind: 'int64', size: 8 },
+  uint8: { kind: 'uint8', size: 1 },
+  uint16: { kind: 'uint16', size: 2 },
+  uint32: { kind: 'uint32', size: 4 },
+  uint64: { kind: 'uint64', size: 8 },
+  float: { kind: 'float', size: 4 },
+  float32: { kind: 'float', size: 4 },
+  double: { kind: 'double', size: 8 },
+  float64: { kind: 'double', size: 8 }
+};
+
+/**
+ * Strip the "struct:" prefix from a struct type string
+ */
+function stripStructPrefix(name: string): string {
+  return name.startsWith('struct:') ? name.substring('struct:'.length) : name;
+}
+
+/**
+ * Describes one field of a struct described by a schema
+ */
+export class StructFieldDescriptor {
+  private readonly parent: StructDescriptor;
+  private readonly name: string;
+  private readonly type: StructFieldKind;
+  private readonly struct: StructDescriptor | null;
+  private readonly elementSize: number;
+  private readonly arraySize: number;
+  private readonly bitWidth: number;
+  private readonly enumValues: Record<string, number> | null;
+  
+  /** @internal Byte offset of the field within the struct; set when the struct layout is calculated */
+  offset = 0;
+  
+  /** @internal Bit offset of a bit-field within its storage unit */
+  bitShift = 0;
+  
+  /** @internal Size of a bit-field's storage unit in bytes; a bool bit-field may share a larger unit */
+  bitUnitSize = 0;
+  
+  /**
+   * Create a new field descriptor
+   * 
+   * @param parent The struct containing the field
+   * @param declaration The parsed schema declaration
+   * @param struct The nested struct descriptor, for struct-typed fields
+   */
+  constructor(parent: StructDescriptor, declaration: StructSchemaDeclaration, struct: StructDescriptor | null) {
+    this.parent = parent;
+    this.name = declaration.name;
+    this.struct = struct;
+    this.arraySize = declaration.arraySize;
+    this.bitWidth = declaration.bitWidth;
+    this.enumValues = declaration.enumValues ?? null;
+    const builtin = kBuiltinTypes[declaration.typeString];
+    this.type = builtin ? builtin.kind : 'struct';
+    this.elementSize = builtin ? builtin.size : 0;
+  }
+  
+  /**
+   * Get the struct containing the field
+   * 
+   * @returns The parent struct descriptor
+   */
+  getParent(): StructDescriptor {
+    return this.parent;
+  }
+  
+  /**
+   * Get the field name
+   * 
+   * @returns The field name
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the field type
+   * 
+   * @returns The field type
+   */
+  getType(): StructFieldKind {
+    return this.type;
+  }
+  
+  /**
+   * Get the nested struct descriptor, for struct-typed fields
+   * 
+   * @returns The nested struct descriptor, or null if the field is not a struct
+   */
+  getStruct(): StructDescriptor | null {
+    return this.struct;
+  }
+  
+  /**
+   * Get the size of a single element of the field, in bytes. For bit-fields
+   * this is the size of the storage unit.
+   * 
+   * @returns The element size in bytes
+   */
+  getSize(): number {
+    if (this.bitWidth !== 0 && this.bitUnitSize !== 0) {
+      return this.bitUnitSize;
+    }
+    return this.struct ? this.struct.getSize() : this.elementSize;
+  }
+  
+  /**
+   * Get the byte offset of the field within the struct
+   * 
+   * @returns The byte offset
+   */
+  getOffset(): number {
+    return this.offset;
+  }
+  
+  /**
+   * Get the array size of the field
+   * 
+   * @returns The array size (1 if the field is not an array)
+   */
+  getArraySize(): number {
+    return this.arraySize;
+  }
+  
+  /**
+   * Check if the field is an array. Char arrays are decoded as strings.
+   * 
+   * @returns True if the field is an array
+   */
+  isArray(): boolean {
+    return this.arraySize > 1;
+  }
+  
+  /**
+   * Get the bit-field width
+   * 
+   * @returns The width in bits (0 if the field is not a bit-field)
+   */
+  getBitWidth(): number {
+    return this.bitWidth;
+  }
+  
+  /**
+   * Get the bit offset of a bit-field within its storage unit
+   * 
+   * @returns The bit offset
+   */
+  getBitShift(): number {
+    return this.bitShift;
+  }
+  
+  /**
+   * Check if the field is a bit-field
+   * 
+   * @returns True if the field is a bit-field
+   */
+  isBitField(): boolean {
+    return this.bitWidth !== 0;
+  }
+  
+  /**
+   * Get the enumerated values of the field
+   * 
+   * @returns The enumerated value names and values, or null if the field is not an enum
+   */
+  getEnumValues(): Record<string, number> | null {
+    return this.enumValues;
+  }
+  
+  /**
+   * Check if the field type is an integer type
+   * 
+   * @returns True for signed and unsigned integer fields
+   */
+  isInteger(): boolean {
+    return this.type.startsWith('int') || this.type.startsWith('uint');
+  }
+  
+  /**
+   * Decode the field value from struct data
+   * 
+   * @param data The struct data, starting at the beginning of the parent struct
+   * @returns The decoded value
+   */
+  decode(data: Buffer): unknown {
+    if (this.bitWidth !== 0) {
+      return this.decodeBitField(data);
+    }
+    if (this.type === 'char') {
+      return data
+        .toString('utf8', this.offset, this.offset + this.arraySize)
+        .replace(/\0+$/, '');
+    }
+    if (this.isArray()) {
+      const values: unknown[] = [];
+      for (let i = 0; i < this.arraySize; i++) {
+        values.push(this.decodeElement(data, this.offset + i * this.getSize()));
+      }
+      return values;
+    }
+    return this.decodeElement(data, this.offset);
+  }
+  
+  /**
+   * Decode a single element at an offset
+   */
+  private decodeElement(data: Buffer, offset: number): unknown {
+    switch (this.type) {
+      case 'bool':
+        return data.readUInt8(offset) !== 0;
+      case 'float':
+        return data.readFloatLE(offset);
+      case 'double':
+        return data.readDoubleLE(offset);
+      case 'struct':
+        return this.struct!.decode(data.subarray(offset, offset + this.struct!.getSize()));
+      case 'int64':
+        return this.toEnum(Number(data.readBigInt64LE(offset)));
+      case 'uint64':
+        return this.toEnum(Number(data.readBigUInt64LE(offset)));
+      default:
+        return this.toEnum(this.type.startsWith('u')
+          ? data.readUIntLE(offset, this.elementSize)
+          : data.readIntLE(offset, this.elementSize));
+    }
+  }
+  
+  /**
+   * Decode a bit-field from its storage unit
+   */
+  private decodeBitField(data: Buffer): unknown {
+    const size = this.getSize();
+    const unit = size === 8 ? data.readBigUInt64LE(this.offset) : BigInt(data.readUIntLE(this.offset, size));
+    let value = (unit >> BigInt(this.bitShift)) & ((1n << BigInt(this.bitWidth)) - 1n);
+    if (this.type === 'bool') {
+      return value !== 0n;
+    }
+    // Sign-extend signed bit-fields
+    if (!this.type.startsWith('u') && (value & (1n << BigInt(this.bitWidth - 1))) !== 0n) {
+      value -= 1n << BigInt(this.bitWidth);
+    }
+    return this.toEnum(Number(value));
+  }
+  
+  /**
+   * Map an integer value to its enumerated name, if it has one
+   */
+  private toEnum(value: number): unknown {
+    if (this.enumValues) {
+      for (const [name, enumValue] of Object.entries(this.enumValues)) {
+        if (enumValue === value) {
+          return name;
+        }
+      }
+    }
+    return value;
+  }
+}
+
+/**
+ * Describes a struct type from its schema. Descriptors are created by a
+ * StructDescriptorDatabase, and aren't valid until every struct they nest has
+ * also been added to the database.
+ */
+export class StructDescriptor {
+  private readonly name: string;
+  private schema = '';
+  private fields: StructFieldDescriptor[] = [];
+  private size = 0;
+  private valid = false;
+  
+  /** @internal Descriptors with fields of this struct type */
+  readonly references = new Set<StructDescriptor>();
+  
+  /**
+   * Create a new struct descriptor
+   * 
+   * @param name The struct name (without the "struct:" prefix)
+   */
+  constructor(name: string) {
+    this.name = name;
+  }
+  
+  /**
+   * Get the struct name
+   * 
+   * @returns The struct name
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the struct schema
+   * 
+   * @returns The schema string, or an empty string if the struct hasn't been defined yet
+   */
+  getSchema(): string {
+    return this.schema;
+  }
+  
+  /**
+   * Get the struct fields
+   * 
+   * @returns The fields, in order
+   */
+  getFields(): StructFieldDescriptor[] {
+    return this.fields;
+  }
+  
+  /**
+   * Find a field by name
+   * 
+   * @param name The field name
+   * @returns The field descriptor, or undefined if there is no such field
+   */
+  findField(name: string): StructFieldDescriptor | undefined {
+    return this.fields.find(field => field.getName() === name);
+  }
+  
+  /**
+   * Check if the struct is valid: it has been defined and every struct it
+   * nests has been defined.
+   * 
+   * @returns True if the struct can be decoded
+   */
+  isValid(): boolean {
+    return this.valid;
+  }
+  
+  /**
+   * Get the serialized size of the struct
+   * 
+   * @returns The size in bytes (0 if the struct isn't valid)
+   */
+  getSize(): number {
+    return this.size;
+  }
+  
+  /**
+   * Decode struct data into a plain object, keyed by field name. Char arrays
+   * are decoded as strings, other arrays as arrays, and enum fields as the
+   * name of their value when it has one. 64-bit integers are decoded as
+   * numbers, so values beyond 2^53 lose precision.
+   * 
+   * @param data The struct data
+   * @returns The decoded object
+   * @throws Error if the struct isn't valid or the data is too short
+   */
+  decode(data: Uint8Array): Record<string, unknown> {
+    if (!this.valid) {
+      throw new Error(`Struct ${this.name} is not fully defined`);
+    }
+    if (data.length < this.size) {
+      throw new Error(`Struct ${this.name} requires ${this.size} bytes, got ${data.length}`);
+    }
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    const result: Record<string, unknown> = {};
+    for (const field of this.fields) {
+      result[field.getName()] = field.decode(buffer);
+    }
+    return result;
+  }
+  
+  /** @internal */
+  define(schema: string, fields: StructFieldDescriptor[]): void {
+    this.schema = schema;
+    this.fields = fields;
+  }
+  
+  /**
+   * @internal
+   * Calculate field offsets, if every nested struct is valid.
+   * 
+   * @returns True if the struct is now valid
+   */
+  calculateLayout(): boolean {
+    if (this.schema === '') {
+      return false;
+    }
+    let offset = 0;
+    let unitOffset = 0;
+    let unitSize = 0;
+    let shift = 0;
+    for (const field of this.fields) {
+      const struct = field.getStruct();
+      if (struct && !struct.isValid()) {
+        this.valid = false;
+        this.size = 0;
+        return false;
+      }
+      if (field.isBitField()) {
+        // Bit-fields share a storage unit with the previous bit-field when
+        // the storage size matches and the bits fit. A bool bit-field fits in
+        // any previous storage unit with a free bit, whatever its size.
+        let size = field.getType() === 'bool' ? 1 : field.getSize();
+        if (field.getType() === 'bool' && unitSize !== 0 && shift + 1 <= unitSize * 8) {
+          size = unitSize;
+        }
+        if (unitSize !== size || shift + field.getBitWidth() > size * 8) {
+          unitOffset = offset;
+          unitSize = size;
+          shift = 0;
+          offset += size;
+        }
+        field.offset = unitOffset;
+        field.bitShift = shift;
+        field.bitUnitSize = size;
+        shift += field.getBitWidth();
+      } else {
+        const size = field.getSize();
+        unitSize = 0;
+        field.offset = offset;
+        field.bitShift = 0;
+        offset += size * field.getArraySize();
+      }
+    }
+    this.size = offset;
+    this.valid = true;
+    return true;
+  }
+}
+
+/**
+ * A database of struct descriptors built from struct schemas, typically the
+ * ones published in "/.schema/struct:<name>" topics or data log entries. Lets
+ * struct data be decoded without a compiled-in StructSerializer.
+ * 
+ * Schemas may be added in any order; a struct that nests a struct that hasn't
+ * been added yet becomes valid once the nested struct is added.
+ */
+export class StructDescriptorDatabase {
+  private readonly descriptors = new Map<string, StructDescriptor>();
+  
+  /**
+   * Add a struct schema to the database
+   * 
+   * @param name The struct name, with or without the "struct:" prefix
+   * @param schema The struct schema
+   * @returns The struct descriptor
+   * @throws StructSchemaError if the schema can't be parsed
+   * @throws Error if the schema is invalid or conflicts with an earlier one
+   */
+  add(name: string, schema: string): StructDescriptor {
+    name = stripStructPrefix(name);
+    const declarations = parseStructSchema(schema);
+    
+    const descriptor = this.getOrCreate(name);
+    if (descriptor.getSchema() !== '') {
+      if (descriptor.getSchema() === schema) {
+        return descriptor;
+      }
+      throw new Error(`Struct ${name} is already defined with a different schema`);
+    }
+    
+    const fields: StructFieldDescriptor[] = [];
+    const names = new Set<string>();
+    for (const declaration of declarations) {
+      if (names.has(declaration.name)) {
+        throw new Error(`Struct ${name}: duplicate field name '${declaration.name}'`);
+      }
+      names.add(declaration.name);
+      
+      let struct: StructDescriptor | null = null;
+      if (!(declaration.typeString in kBuiltinTypes)) {
+        if (declaration.typeString === name || this.references(declaration.typeString, name)) {
+          throw new Error(`Struct ${name}: recursive reference through field '${declaration.name}'`);
+        }
+        struct = this.getOrCreate(declaration.typeString);
+      }
+      const field = new StructFieldDescriptor(descriptor, declaration, struct);
+      
+      if (field.getEnumValues() !== null && !field.isInteger()) {
+        throw new Error(`Struct ${name}: enum field '${field.getName()}' must have an integer type`);
+      }
+      if (field.isBitField()) {
+        if (!field.isInteger() && field.getType() !== 'bool') {
+          throw new Error(`Struct ${name}: bit-field '${field.getName()}' must have an integer or bool type`);
+        }
+        if (field.getType() === 'bool' && field.getBitWidth() !== 1) {
+          throw new Error(`Struct ${name}: bool bit-field '${field.getName()}' must be 1 bit wide`);
+        }
+        if (field.getBitWidth() > field.getSize() * 8) {
+          throw new Error(`Struct ${name}: bit-field '${field.getName()}' is wider than its type`);
+        }
+      }
+      fields.push(field);
+    }
+    
+    descriptor.define(schema, fields);
+    for (const field of fields) {
+      field.getStruct()?.references.add(descriptor);
+    }
+    this.updateLayout(descriptor);
+    return descriptor;
+  }
+  
+  /**
+   * Find a struct descriptor by name
+   * 
+   * @param name The struct name, with or without the "struct:" prefix
+   * @returns The descriptor, or undefined if the struct hasn't been added or
+   *   referenced by an added struct
+   */
+  find(name: string): StructDescriptor | undefined {
+    return this.descriptors.get(stripStructPrefix(name));
+  }
+  
+  /**
+   * Decode struct data into plain objects
+   * 
+   * @param typeString The struct type string (e.g. "struct:Pose2d" or
+   *   "struct:Pose2d[]"); arrays are decoded into arrays of objects
+   * @param data The struct data
+   * @returns The decoded object, or array of objects
+   * @throws Error if the struct isn't known or isn't fully defined
+   */
+  decode(typeString: string, data: Uint8Array): Record<string, unknown> | Record<string, unknown>[] {
+    const isArray = typeString.endsWith('[]');
+    const name = isArray ? typeString.substring(0, typeString.length - 2) : typeString;
+    const descriptor = this.find(name);
+    if (!descriptor) {
+      throw new Error(`Unknown struct ${stripStructPrefix(name)}`);
+    }
+    if (!isArray) {
+      return descriptor.decode(data);
+    }
+    const size = descriptor.getSize();
+    if (!descriptor.isValid() || size === 0) {
+      throw new Error(`Struct ${descriptor.getName()} is not fully defined`);
+    }
+    const values: Record<string, unknown>[] = [];
+    for (let offset = 0; offset + size <= data.length; offset += size) {
+      values.push(descriptor.decode(data.subarray(offset, offset + size)));
+    }
+    return values;
+  }
+  
+  /**
+   * Get a descriptor, creating an undefined placeholder if needed
+   */
+  private getOrCreate(name: string): StructDescriptor {
+    let descriptor = this.descriptors.get(name);
+    if (!descriptor) {
+      descriptor = new StructDescriptor(name);
+      this.descriptors.set(name, descriptor);
+    }
+    return descriptor;
+  }
+  
+  /**
+   * Check if a struct (directly or indirectly) nests another struct
+   */
+  private references(from: string, to: string): boolean {
+    const descriptor = this.descriptors.get(from);
+    if (!descriptor) {
+      return false;
+    }
+    return descriptor.getFields().some(field => {
+      const struct = field.getStruct();
+      return struct !== null && (struct.getName() === to || this.references(struct.getName(), to));
+    });
+  }
+  
+  /**
+   * Recalculate a descriptor's layout, and those of the structs nesting it
+   * once it becomes valid
+   */
+  private updateLayout(descriptor: StructDescriptor): void {
+    if (descriptor.calculateLayout()) {
+      for (const reference of descriptor.references) {
+        this.updateLayout(reference);
+      }
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * A parsed declaration from a struct schema (e.g. "double x" or
+ * "enum {a=1, b=2} int8 mode" or "uint8 flags:3")
+ */
+export interface StructSchemaDeclaration {
+  /**
+   * The type name (e.g. "double", or the name of another struct)
+   */
+  typeString: string;
+  
+  /**
+   * The field name
+   */
+  name: string;
+  
+  /**
+   * Array size (1 if the field is not an array)
+   */
+  arraySize: number;
+  
+  /**
+   * Bit-field width (0 if the field is not a bit-field)
+   */
+  bitWidth: number;
+  
+  /**
+   * Enumerated value names and values, if the field is an enum
+   */
+  enumValues?: Record<string, number>;
+}
+
+/**
+ * Error thrown when a struct schema can't be parsed
+ */
+export class StructSchemaError extends Error {
+  /**
+   * The position in the schema string where the error was found
+   */
+  readonly position: number;
+  
+  /**
+   * Create a new schema error
+   * 
+   * @param message The error message
+   * @param position The position in the schema string where the error was found
+   */
+  constructor(message: string, position: number) {
+    super(`${position}: ${message}`);
+    this.name = 'StructSchemaError';
+    this.position = position;
+  }
+}
+
+type TokenKind = 'identifier' | 'integer' | 'symbol' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  position: number;
+}
+
+/**
+ * Split a schema into identifier, integer and symbol tokens
+ */
+function tokenize(schema: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < schema.length) {
+    const ch = schema[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(schema.substring(pos))!;
+      tokens.push({ kind: 'identifier', text: match[0], position: pos });
+      pos += match[0].length;
+    } else if (/[-0-9]/.test(ch)) {
+      const match = /^-?[0-9]+/.exec(schema.substring(pos));
+      if (match === null) {
+        throw new StructSchemaError(`unexpected character '${ch}'`, pos);
+      }
+      tokens.push({ kind: 'integer', text: match[0], position: pos });
+      pos += match[0].length;
+    } else if ('[]{}:;,='.includes(ch)) {
+      tokens.push({ kind: 'symbol', text: ch, position: pos });
+      pos++;
+    } else {
+      throw new StructSchemaError(`unexpected character '${ch}'`, pos);
+    }
+  }
+  tokens.push({ kind: 'end', text: '', position: schema.length });
+  return tokens;
+}
+
+/**
+ * Parse a struct schema string, in the WPILib struct schema language: field
+ * declarations separated by semicolons, each a type name followed by a field
+ * name, optionally followed by an array size ("double x[4]") or a bit-field
+ * width ("uint8 flags:3"), and optionally preceded by enumerated values
+ * ("enum {a=1, b=2} int8 mode").
+ * 
+ * @param schema The schema string
+ * @returns The declarations, in order
+ * @throws StructSchemaError if the schema is invalid
+ */
+export function parseStructSchema(schema: string): StructSchemaDeclaration[] {
+  const tokens = tokenize(schema);
+  let index = 0;
+  const peek = (): Token => tokens[index];
+  const next = (): Token => tokens[index++];
+  const expect = (kind: TokenKind, text?: string): Token => {
+    const token = next();
+    if (token.kind !== kind || (text !== undefined && token.text !== text)) {
+      const expected = text !== undefined ? `'${text}'` : kind;
+      const found = token.kind === 'end' ? 'end of schema' : `'${token.text}'`;
+      throw new StructSchemaError(`expected ${expected}, found ${found}`, token.position);
+    }
+    return token;
+  };
+  const isSymbol = (text: string): boolean => peek().kind === 'symbol' && peek().text === text;
+  const parsePositive = (what: string): number => {
+    const token = expect('integer');
+    const value = parseInt(token.text, 10);
+    if (value <= 0) {
+      throw new StructSchemaError(`${what} must be positive`, token.position);
+    }
+    return value;
+  };
+  
+  const declarations: StructSchemaDeclaration[] = [];
+  while (peek().kind !== 'end') {
+    // Empty declarations are allowed
+    if (isSymbol(';')) {
+      next();
+      continue;
+    }
+    
+    let enumValues: Record<string, number> | undefined;
+    if (peek().kind === 'identifier' && peek().text === 'enum') {
+      next();
+      // An optional enum type name may precede the values; it has no effect
+      if (peek().kind === 'identifier') {
+        next();
+      }
+      expect('symbol', '{');
+      enumValues = {};
+      while (!isSymbol('}')) {
+        const name = expect('identifier').text;
+        expect('symbol', '=');
+        enumValues[name] = parseInt(expect('integer').text, 10);
+        if (!isSymbol(',')) {
+          break;
+        }
+        next();
+      }
+      expect('symbol', '}');
+    }
+    
+    const declaration: StructSchemaDeclaration = {
+      typeString: expect('identifier').text,
+      name: expect('identifier').text,
+      arraySize: 1,
+      bitWidth: 0
+    };
+    if (enumValues !== undefined) {
+      declaration.enumValues = enumValues;
+    }
+    if (isSymbol('[')) {
+      next();
+      declaration.arraySize = parsePositive('array size');
+      expect('symbol', ']');
+    } else if (isSymbol(':')) {
+      next();
+      declaration.bitWidth = parsePositive('bit-field width');
+    }
+    declarations.push(declaration);
+    
+    if (peek().kind !== 'end') {
+      expect('symbol', ';');
+    }
+  }
+  return declarations;
+}
@@ -0,0 +1,95 @@
+/**
+ * Interface for raw struct serialization of a type, following the WPILib
+ * struct schema format (e.g. "double x;double y").
+ *
+ * Implementations are used by NetworkTables and data logs to send values as
+ * fixed-size binary data, along with a schema that tools such as AdvantageScope
+ * use to decode them.
+ */
+export interface StructSerializer<T> {
+  /**
+   * Gets the type name (e.g. for schemas of other structs). This should be
+   * globally unique among structs.
+   *
+   * @returns type name
+   */
+  getTypeName(): string;
+
+  /**
+   * Gets the serialized size (in bytes). This should always be a constant.
+   *
+   * @returns serialized size
+   */
+  getSize(): number;
+
+  /**
+   * Gets the schema.
+   *
+   * @returns schema
+   */
+  getSchema(): string;
+
+  /**
+   * Gets the list of struct types referenced by this struct.
+   *
+   * @returns list of struct types
+   */
+  getNested(): StructSerializer<any>[];
+
+  /**
+   * Serializes an object into a buffer of getSize() bytes.
+   *
+   * @param value object to serialize
+   * @returns The serialized data
+   */
+  pack(value: T): Buffer;
+
+  /**
+   * Deserializes an object from a buffer of getSize() bytes.
+   *
+   * @param buffer The buffer to deserialize from
+   * @returns The deserialized object
+   */
+  unpack(buffer: Buffer): T;
+}
+
+/**
+ * Gets the type string for a struct (e.g. "struct:Pose2d"), as used for
+ * NetworkTables topics and data log entries.
+ *
+ * @param struct The struct serializer
+ * @returns The type string
+ */
+export function getStructTypeString(struct: StructSerializer<any>): string {
+  return 'struct:' + struct.getTypeName();
+}
+
+/**
+ * Serializes an array of objects by concatenating the packed structs.
+ *
+ * @param struct The struct serializer
+ * @param values The objects to serialize
+ * @returns The serialized data
+ */
+export function packStructArray<T>(struct: StructSerializer<T>, values: T[]): Buffer {
+  return Buffer.concat(values.map((value) => struct.pack(value)));
+}
+
+/**
+ * Deserializes an array of objects packed with packStructArray().
+ *
+ * @param struct The struct serializer
+ * @param buffer The buffer to deserialize from
+ * @returns The deserialized objects
+ */
+export function unpackStructArray<T>(struct: StructSerializer<T>, buffer: Buffer): T[] {
+  const size = struct.getSize();
+  if (buffer.length % size !== 0) {
+    throw new Error(`Buffer size ${buffer.length} is not a multiple of struct size ${size}`);
+  }
+  const values: T[] = [];
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    values.push(struct.unpack(buffer.subarray(offset, offset + size)));
+  }
+  return values;
+}
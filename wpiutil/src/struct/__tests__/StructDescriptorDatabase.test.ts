@@ -0,0 +1,143 @@
+import { StructDescriptorDatabase } from '../StructDescriptorDatabase';
+
+describe('StructDescriptorDatabase', () => {
+  let database: StructDescriptorDatabase;
+
+  beforeEach(() => {
+    database = new StructDescriptorDatabase();
+  });
+
+  test('adds a struct and decodes it', () => {
+    const descriptor = database.add('struct:Translation2d', 'double x;double y');
+    expect(descriptor.isValid()).toBe(true);
+    expect(descriptor.getSize()).toBe(16);
+    expect(database.find('Translation2d')).toBe(descriptor);
+
+    const data = Buffer.alloc(16);
+    data.writeDoubleLE(1.5, 0);
+    data.writeDoubleLE(-2, 8);
+    expect(descriptor.decode(data)).toEqual({ x: 1.5, y: -2 });
+  });
+
+  test('decodes every built-in type', () => {
+    const descriptor = database.add('All',
+      'bool b;char c;int8 i8;int16 i16;int32 i32;int64 i64;uint8 u8;uint16 u16;uint32 u32;uint64 u64;float f;double d');
+    expect(descriptor.getSize()).toBe(1 + 1 + 1 + 2 + 4 + 8 + 1 + 2 + 4 + 8 + 4 + 8);
+
+    const data = Buffer.alloc(descriptor.getSize());
+    let offset = 0;
+    offset = data.writeUInt8(1, offset);
+    offset = data.writeUInt8(0x41, offset);
+    offset = data.writeInt8(-8, offset);
+    offset = data.writeInt16LE(-16, offset);
+    offset = data.writeInt32LE(-32, offset);
+    offset = data.writeBigInt64LE(-64n, offset);
+    offset = data.writeUInt8(8, offset);
+    offset = data.writeUInt16LE(16, offset);
+    offset = data.writeUInt32LE(32, offset);
+    offset = data.writeBigUInt64LE(64n, offset);
+    offset = data.writeFloatLE(0.5, offset);
+    data.writeDoubleLE(0.25, offset);
+
+    expect(descriptor.decode(data)).toEqual({
+      b: true, c: 'A', i8: -8, i16: -16, i32: -32, i64: -64,
+      u8: 8, u16: 16, u32: 32, u64: 64, f: 0.5, d: 0.25
+    });
+  });
+
+  test('decodes nested structs added in any order', () => {
+    const pose = database.add('Pose2d', 'Translation2d translation;Rotation2d rotation');
+    expect(pose.isValid()).toBe(false);
+    expect(() => pose.decode(Buffer.alloc(24))).toThrow('not fully defined');
+
+    database.add('Rotation2d', 'double value');
+    expect(pose.isValid()).toBe(false);
+    database.add('Translation2d', 'double x;double y');
+    expect(pose.isValid()).toBe(true);
+    expect(pose.getSize()).toBe(24);
+    expect(pose.findField('rotation')!.getOffset()).toBe(16);
+
+    const data = Buffer.alloc(24);
+    data.writeDoubleLE(1, 0);
+    data.writeDoubleLE(2, 8);
+    data.writeDoubleLE(3, 16);
+    expect(pose.decode(data)).toEqual({ translation: { x: 1, y: 2 }, rotation: { value: 3 } });
+  });
+
+  test('decodes arrays and char strings', () => {
+    const descriptor = database.add('Named', 'char name[6];int16 values[3]');
+    expect(descriptor.getSize()).toBe(12);
+
+    const data = Buffer.alloc(12);
+    data.write('abc', 0, 'utf8');
+    data.writeInt16LE(1, 6);
+    data.writeInt16LE(-2, 8);
+    data.writeInt16LE(3, 10);
+    expect(descriptor.decode(data)).toEqual({ name: 'abc', values: [1, -2, 3] });
+  });
+
+  test('decodes enums by name', () => {
+    const descriptor = database.add('Mode', 'enum {off=0, on=1} uint8 mode;enum {a=1} int8 other');
+    expect(descriptor.findField('mode')!.getEnumValues()).toEqual({ off: 0, on: 1 });
+    expect(descriptor.decode(Buffer.from([1, 5]))).toEqual({ mode: 'on', other: 5 });
+  });
+
+  test('packs bit-fields into storage units', () => {
+    const descriptor = database.add('Bits', 'uint8 a:3;int8 b:4;bool c:1;uint8 d:2;uint16 e:9;int32 f');
+    // a, b and c share a byte; d starts a new byte; e has a different storage size
+    expect(descriptor.getFields().map(field => [field.getOffset(), field.getBitShift()])).toEqual([
+      [0, 0], [0, 3], [0, 7], [1, 0], [2, 0], [4, 0]
+    ]);
+    expect(descriptor.getSize()).toBe(8);
+
+    const data = Buffer.alloc(8);
+    data.writeUInt8(0b1_1010_101, 0);
+    data.writeUInt8(0b10, 1);
+    data.writeUInt16LE(300, 2);
+    data.writeInt32LE(-1, 4);
+    expect(descriptor.decode(data)).toEqual({ a: 5, b: -6, c: true, d: 2, e: 300, f: -1 });
+  });
+
+  test('packs bool bit-fields into the previous storage unit', () => {
+    const descriptor = database.add('Flags', 'uint32 a:4;bool b:1;int16 c:3;bool d:1;bool e:1;uint8 f:8;bool g:1;double h');
+    // b shares a's 4-byte unit; d and e share c's 2-byte unit; g can't fit in
+    // f's full byte and starts a 1-byte unit of its own
+    expect(descriptor.getFields().map(field => [field.getOffset(), field.getBitShift(), field.getSize()])).toEqual([
+      [0, 0, 4], [0, 4, 4], [4, 0, 2], [4, 3, 2], [4, 4, 2], [6, 0, 1], [7, 0, 1], [8, 0, 8]
+    ]);
+    expect(descriptor.getSize()).toBe(16);
+
+    const data = Buffer.alloc(16);
+    data.writeUInt32LE(0b1_1001, 0);
+    data.writeUInt16LE(0b0_1_101, 4);
+    data.writeUInt8(200, 6);
+    data.writeUInt8(1, 7);
+    data.writeDoubleLE(2.5, 8);
+    expect(descriptor.decode(data)).toEqual({ a: 9, b: true, c: -3, d: true, e: false, f: 200, g: true, h: 2.5 });
+  });
+
+    test('decodes struct arrays by type string', () => {
+    database.add('Point', 'int8 x;int8 y');
+    expect(database.decode('struct:Point[]', Buffer.from([1, 2, 3, 4]))).toEqual([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+    expect(database.decode('struct:Point', Buffer.from([5, 6]))).toEqual({ x: 5, y: 6 });
+    expect(() => database.decode('struct:Missing', Buffer.alloc(0))).toThrow('Unknown struct Missing');
+    expect(() => database.decode('struct:Point', Buffer.alloc(1))).toThrow('requires 2 bytes');
+  });
+
+  test('rejects invalid schemas', () => {
+    expect(() => database.add('A', 'double x;int8 x')).toThrow('duplicate field name');
+    expect(() => database.add('B', 'enum {a=1} double x')).toThrow('must have an integer type');
+    expect(() => database.add('C', 'float x:2')).toThrow('must have an integer or bool type');
+    expect(() => database.add('D', 'bool x:2')).toThrow('must be 1 bit wide');
+    expect(() => database.add('E', 'uint8 x:9')).toThrow('wider than its type');
+    expect(() => database.add('F', 'F self')).toThrow('recursive reference');
+    database.add('G', 'H h');
+    expect(() => database.add('H', 'G g')).toThrow('recursive reference');
+  });
+
+  test('allows re-adding the same schema only', () => {
+    const descriptor = database.add('A', 'double x');
+    expect(database.add('A', 'double x')).toBe(descriptor);
+    expect(() => database.add('A', 'double y')).toThrow('different schema');
+  });
+});
@@ -0,0 +1,40 @@
+import { parseStructSchema, StructSchemaError } from '../StructSchemaParser';
+
+describe('parseStructSchema', () => {
+  test('parses simple declarations', () => {
+    expect(parseStructSchema('double x;double y;Rotation2d rotation')).toEqual([
+      { typeString: 'double', name: 'x', arraySize: 1, bitWidth: 0 },
+      { typeString: 'double', name: 'y', arraySize: 1, bitWidth: 0 },
+      { typeString: 'Rotation2d', name: 'rotation', arraySize: 1, bitWidth: 0 }
+    ]);
+  });
+
+  test('allows whitespace and empty declarations', () => {
+    expect(parseStructSchema('  int32  a ;; uint8 b; ')).toEqual([
+      { typeString: 'int32', name: 'a', arraySize: 1, bitWidth: 0 },
+      { typeString: 'uint8', name: 'b', arraySize: 1, bitWidth: 0 }
+    ]);
+    expect(parseStructSchema('')).toEqual([]);
+  });
+
+  test('parses arrays and bit-fields', () => {
+    const declarations = parseStructSchema('char name[8]; uint8 flags:3; bool on : 1');
+    expect(declarations[0].arraySize).toBe(8);
+    expect(declarations[1].bitWidth).toBe(3);
+    expect(declarations[2].bitWidth).toBe(1);
+  });
+
+  test('parses enums', () => {
+    expect(parseStructSchema('enum {a=1, b=-2,} int8 mode')[0].enumValues).toEqual({ a: 1, b: -2 });
+    expect(parseStructSchema('enum Mode {off=0} uint8 mode')[0].enumValues).toEqual({ off: 0 });
+    expect(parseStructSchema('enum {} int8 mode')[0].enumValues).toEqual({});
+  });
+
+  test('reports errors with their position', () => {
+    expect(() => parseStructSchema('double')).toThrow(StructSchemaError);
+    expect(() => parseStructSchema('double x y')).toThrow("expected ';', found 'y'");
+    expect(() => parseStructSchema('double x[0]')).toThrow('array size must be positive');
+    expect(() => parseStructSchema('double x$')).toThrow("unexpected character '$'");
+    expect(() => parseStructSchema('int8 a; int8 b[')).toThrow(expect.objectContaining({ position: 15 }));
+  });
+});
@@ -0,0 +1,48 @@
+import { Struct } from '../Struct';
+import { StructFieldType, field } from '../StructField';
+import {
+  StructSerializer,
+  getStructTypeString,
+  packStructArray,
+  unpackStructArray
+} from '../StructSerializer';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const layout = new Struct([
+  field('x', StructFieldType.Float64),
+  field('y', StructFieldType.Float64)
+]);
+
+const pointStruct: StructSerializer<Point> = {
+  getTypeName: () => 'Point',
+  getSize: () => 16,
+  getSchema: () => 'double x;double y',
+  getNested: () => [],
+  pack: (value) => layout.pack(value),
+  unpack: (buffer) => layout.unpack(buffer) as Point
+};
+
+describe('StructSerializer', () => {
+  test('getStructTypeString prefixes the type name', () => {
+    expect(getStructTypeString(pointStruct)).toBe('struct:Point');
+  });
+
+  test('packStructArray concatenates packed values', () => {
+    const buffer = packStructArray(pointStruct, [{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+    expect(buffer.length).toBe(32);
+    expect(buffer.readDoubleLE(16)).toBe(3);
+  });
+
+  test('unpackStructArray round-trips packed values', () => {
+    const points = [{ x: 1, y: 2 }, { x: -3.5, y: 4.25 }];
+    expect(unpackStructArray(pointStruct, packStructArray(pointStruct, points))).toEqual(points);
+  });
+
+  test('unpackStructArray rejects a partial struct', () => {
+    expect(() => unpackStructArray(pointStruct, Buffer.alloc(20))).toThrow();
+  });
+});
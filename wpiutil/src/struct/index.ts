@@ -1,2 +1,5 @@
 export * from './Struct';
 export * from './StructField';
+export * from './StructSerializer';
+export * from './StructSchemaParser';
+export * from './StructDescriptorDatabase';